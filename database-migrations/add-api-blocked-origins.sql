@@ -0,0 +1,56 @@
+-- ========================================================
+-- MIGRATION: Track browser origins blocked by domain restrictions
+-- ========================================================
+-- Pinning secret requests whose Origin/Referer is not in the owner's
+-- api_domain_restrictions list are rejected with a 403. This migration
+-- adds an aggregated log of those rejections so the dashboard can show
+-- recently blocked origins.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+CREATE TABLE IF NOT EXISTS api_blocked_origins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  origin TEXT NOT NULL,
+  pinning_secret_id UUID NULL REFERENCES pinning_secrets(id) ON DELETE SET NULL,
+  block_count INTEGER NOT NULL DEFAULT 1,
+  first_blocked_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  last_blocked_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(user_id, origin)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_blocked_origins_user_last
+ON api_blocked_origins(user_id, last_blocked_at DESC);
+
+-- Aggregate one blocked request per (user, origin)
+CREATE OR REPLACE FUNCTION record_blocked_origin(
+  p_user_id TEXT,
+  p_origin TEXT,
+  p_secret_id UUID DEFAULT NULL
+) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO api_blocked_origins (user_id, origin, pinning_secret_id)
+  VALUES (p_user_id, p_origin, p_secret_id)
+  ON CONFLICT (user_id, origin)
+  DO UPDATE SET
+    block_count = api_blocked_origins.block_count + 1,
+    pinning_secret_id = EXCLUDED.pinning_secret_id,
+    last_blocked_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE api_blocked_origins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own blocked origins" ON api_blocked_origins
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Service role can manage all blocked origins" ON api_blocked_origins
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON api_blocked_origins TO authenticated;
+GRANT EXECUTE ON FUNCTION record_blocked_origin TO service_role;
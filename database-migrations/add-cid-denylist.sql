@@ -0,0 +1,98 @@
+-- ========================================================
+-- MIGRATION: Gateway CID denylist and abuse reports
+-- ========================================================
+-- `cid_denylist` holds content the gateway refuses to serve.
+-- Entries are stored as the hex SHA-256 of "<cid>/" (or
+-- "<cid>/<path>" for a file inside a directory), the
+-- double-hash format of the "bad bits" denylists, so lists
+-- imported from elsewhere never reveal the CIDs they block.
+-- Entries added by hand or from a report also keep the CID.
+--
+-- `abuse_reports` is the intake queue for the public report
+-- form. An operator reviews each report and either blocks the
+-- CID, optionally unpinning it for the accounts holding it,
+-- or dismisses it. Repeat reports of a CID for the same reason
+-- while one is pending are counted on that report instead of
+-- queued again (submit_abuse_report()).
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+CREATE TABLE IF NOT EXISTS cid_denylist (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  hash TEXT NOT NULL UNIQUE CHECK (hash ~ '^[0-9a-f]{64}$'),
+  cid TEXT,
+  reason TEXT NOT NULL CHECK (reason IN ('copyright', 'malware', 'phishing', 'csam', 'illegal', 'spam', 'other')),
+  -- 'manual', 'report' or the name of an imported list
+  source TEXT NOT NULL DEFAULT 'manual',
+  notes TEXT,
+  report_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_cid_denylist_cid ON cid_denylist(cid) WHERE cid IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_cid_denylist_source ON cid_denylist(source, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS abuse_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  cid TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('copyright', 'malware', 'phishing', 'csam', 'illegal', 'spam', 'other')),
+  description TEXT,
+  reporter_email TEXT,
+  reporter_ip TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'blocked', 'dismissed')),
+  review_notes TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  -- Files removed from their owners' accounts when the CID was blocked
+  unpinned_file_count INTEGER NOT NULL DEFAULT 0,
+  -- Reports of the same CID and reason collapsed into this one while it was pending
+  report_count INTEGER NOT NULL DEFAULT 1 CHECK (report_count > 0),
+  last_reported_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE cid_denylist DROP CONSTRAINT IF EXISTS cid_denylist_report_id_fkey;
+ALTER TABLE cid_denylist ADD CONSTRAINT cid_denylist_report_id_fkey
+  FOREIGN KEY (report_id) REFERENCES abuse_reports(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_abuse_reports_status ON abuse_reports(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_abuse_reports_cid ON abuse_reports(cid);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_abuse_reports_pending_cid_reason
+  ON abuse_reports(cid, reason) WHERE status = 'pending';
+
+-- Queue a report, or count it on the pending report of the same CID and reason.
+-- A new report has report_count 1. The first reporter's details are kept,
+-- with later reporters only filling in what was missing.
+CREATE OR REPLACE FUNCTION submit_abuse_report(
+  p_cid TEXT,
+  p_reason TEXT,
+  p_description TEXT,
+  p_reporter_email TEXT,
+  p_reporter_ip TEXT
+)
+RETURNS SETOF abuse_reports AS $$
+  INSERT INTO abuse_reports (cid, reason, description, reporter_email, reporter_ip)
+  VALUES (p_cid, p_reason, p_description, p_reporter_email, p_reporter_ip)
+  ON CONFLICT (cid, reason) WHERE status = 'pending'
+  DO UPDATE SET
+    report_count = abuse_reports.report_count + 1,
+    last_reported_at = CURRENT_TIMESTAMP,
+    description = COALESCE(abuse_reports.description, EXCLUDED.description),
+    reporter_email = COALESCE(abuse_reports.reporter_email, EXCLUDED.reporter_email)
+  RETURNING *;
+$$ LANGUAGE sql;
+
+ALTER TABLE cid_denylist ENABLE ROW LEVEL SECURITY;
+ALTER TABLE abuse_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all denylist entries" ON cid_denylist
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage all abuse reports" ON abuse_reports
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT EXECUTE ON FUNCTION submit_abuse_report(TEXT, TEXT, TEXT, TEXT, TEXT) TO service_role;
\ No newline at end of file
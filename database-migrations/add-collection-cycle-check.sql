@@ -0,0 +1,55 @@
+-- ========================================================
+-- MIGRATION: Prevent cycles in nested collections
+-- ========================================================
+-- Moving a collection is checked in the API, but two moves
+-- running at once (A into B and B into A) can each pass that
+-- check and together leave collections that are their own
+-- ancestors. This trigger re-checks every insert or change of
+-- parent_id in the database:
+--
+--   - it takes a per-user transaction lock, so moves of the
+--     same user's collections run one at a time and each sees
+--     the previous one's result
+--   - it walks up from the new parent with a recursive query
+--     and rejects the change (SQLSTATE 23514) if it reaches the
+--     collection itself
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+CREATE OR REPLACE FUNCTION check_collection_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('collections:' || NEW.user_id));
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors(id, parent_id) AS (
+      SELECT id, parent_id FROM collections WHERE id = NEW.parent_id
+      UNION
+      SELECT collections.id, collections.parent_id
+      FROM collections
+      JOIN ancestors ON collections.id = ancestors.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Collection % cannot be moved into itself or one of its subcollections', NEW.id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_collections_cycle_check ON collections;
+CREATE TRIGGER trigger_collections_cycle_check
+  BEFORE INSERT OR UPDATE OF parent_id ON collections
+  FOR EACH ROW
+  EXECUTE FUNCTION check_collection_cycle();
\ No newline at end of file
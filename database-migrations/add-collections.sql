@@ -0,0 +1,74 @@
+-- ========================================================
+-- MIGRATION: Collections (folders) for organizing files
+-- ========================================================
+-- Collections are user-defined folders that can be nested.
+-- A file belongs to at most one collection; files without
+-- one sit at the root. Deleting a collection deletes its
+-- subcollections, and the files inside any of them move back
+-- to the root.
+--
+-- A collection can be exported as a directory manifest. The
+-- export is a snapshot: the manifest lists the CIDs of the
+-- collection's files at the time, stored in `entries` so the
+-- gateway can resolve paths inside it like any directory.
+--
+-- collection_totals() returns the number and size of the files
+-- directly in each of a user's collections.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+CREATE TABLE IF NOT EXISTS collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  parent_id UUID NULL REFERENCES collections(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (parent_id IS DISTINCT FROM id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_collections_user_id ON collections(user_id);
+CREATE INDEX IF NOT EXISTS idx_collections_parent_id ON collections(parent_id);
+
+-- Names are unique among siblings, including at the root
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collections_sibling_name
+  ON collections(user_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), name);
+
+DROP TRIGGER IF EXISTS trigger_collections_updated_at ON collections;
+CREATE TRIGGER trigger_collections_updated_at
+  BEFORE UPDATE ON collections
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE files ADD COLUMN IF NOT EXISTS collection_id UUID NULL REFERENCES collections(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_files_collection_id ON files(collection_id) WHERE collection_id IS NOT NULL;
+
+-- Collection exports are directory manifests that list their entries themselves
+ALTER TABLE directory_manifests ADD COLUMN IF NOT EXISTS source_collection_id UUID NULL REFERENCES collections(id) ON DELETE SET NULL;
+ALTER TABLE directory_manifests ADD COLUMN IF NOT EXISTS entries JSONB NULL;
+
+CREATE OR REPLACE FUNCTION collection_totals(p_user_id TEXT)
+RETURNS TABLE(collection_id UUID, file_count BIGINT, total_size BIGINT) AS $$
+  SELECT files.collection_id, COUNT(*), COALESCE(SUM(files.file_size), 0)
+  FROM files
+  WHERE files.user_id = p_user_id
+    AND files.status = 'active'
+  GROUP BY files.collection_id;
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own collections" ON collections
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Service role can manage all collections" ON collections
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON collections TO authenticated;
+GRANT EXECUTE ON FUNCTION collection_totals(TEXT) TO service_role;
\ No newline at end of file
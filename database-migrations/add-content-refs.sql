@@ -0,0 +1,209 @@
+-- ========================================================
+-- MIGRATION: Content reference counting
+-- ========================================================
+-- Identical bytes always produce the same CID, so several files
+-- (from one user or many) can share content on Codex. Unpinning
+-- a CID when one of those files is deleted would break every
+-- other file that holds it, including content served by the
+-- public gateway.
+--
+-- `content_refs` counts the files and directory manifests that
+-- reference each CID. Unpin jobs skip any CID that is still
+-- referenced, so only the last reference unpins.
+--
+-- `user_content_refs` counts references per user, so a user who
+-- uploads the same content twice is only charged for it once:
+-- storage_used now sums the size of each distinct CID a user
+-- holds, plus reserved pending files that have no CID yet.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+CREATE TABLE IF NOT EXISTS content_refs (
+  cid TEXT PRIMARY KEY,
+  ref_count INTEGER NOT NULL DEFAULT 0 CHECK (ref_count >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS user_content_refs (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  cid TEXT NOT NULL,
+  ref_count INTEGER NOT NULL DEFAULT 0 CHECK (ref_count >= 0),
+  PRIMARY KEY (user_id, cid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_files_user_cid ON files(user_id, cid) WHERE cid IS NOT NULL;
+
+-- Add or remove one global reference to a CID
+CREATE OR REPLACE FUNCTION adjust_content_ref(p_cid TEXT, p_delta INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  IF p_cid IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF p_delta > 0 THEN
+    INSERT INTO content_refs (cid, ref_count)
+    VALUES (p_cid, p_delta)
+    ON CONFLICT (cid) DO UPDATE
+    SET ref_count = content_refs.ref_count + p_delta,
+        updated_at = CURRENT_TIMESTAMP;
+  ELSE
+    UPDATE content_refs
+    SET ref_count = GREATEST(ref_count + p_delta, 0),
+        updated_at = CURRENT_TIMESTAMP
+    WHERE cid = p_cid;
+
+    DELETE FROM content_refs WHERE cid = p_cid AND ref_count = 0;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add or remove a file's contribution to its owner's references and storage_used.
+-- Content is charged when a user's first reference to a CID appears and
+-- released when their last one goes; files without a CID are charged directly.
+CREATE OR REPLACE FUNCTION adjust_user_content(p_user_id TEXT, p_cid TEXT, p_size BIGINT, p_delta INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  new_count INTEGER;
+BEGIN
+  IF p_cid IS NULL THEN
+    UPDATE users
+    SET storage_used = storage_used + p_delta * p_size,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = p_user_id;
+    RETURN;
+  END IF;
+
+  IF p_delta > 0 THEN
+    INSERT INTO user_content_refs (user_id, cid, ref_count)
+    VALUES (p_user_id, p_cid, 1)
+    ON CONFLICT (user_id, cid) DO UPDATE
+    SET ref_count = user_content_refs.ref_count + 1
+    RETURNING ref_count INTO new_count;
+
+    IF new_count = 1 THEN
+      UPDATE users
+      SET storage_used = storage_used + p_size,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = p_user_id;
+    END IF;
+  ELSE
+    UPDATE user_content_refs
+    SET ref_count = GREATEST(ref_count - 1, 0)
+    WHERE user_id = p_user_id AND cid = p_cid
+    RETURNING ref_count INTO new_count;
+
+    IF new_count = 0 THEN
+      DELETE FROM user_content_refs WHERE user_id = p_user_id AND cid = p_cid;
+
+      UPDATE users
+      SET storage_used = storage_used - p_size,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = p_user_id;
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replaces the per-row storage accounting with reference-aware accounting
+CREATE OR REPLACE FUNCTION update_user_storage()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM adjust_content_ref(OLD.cid, -1);
+    PERFORM adjust_user_content(OLD.user_id, OLD.cid, OLD.file_size, -1);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM adjust_content_ref(NEW.cid, 1);
+    PERFORM adjust_user_content(NEW.user_id, NEW.cid, NEW.file_size, 1);
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_storage_update ON files;
+CREATE TRIGGER trigger_update_storage_update
+  AFTER UPDATE OF cid, file_size, user_id ON files
+  FOR EACH ROW
+  WHEN (
+    OLD.cid IS DISTINCT FROM NEW.cid
+    OR OLD.file_size IS DISTINCT FROM NEW.file_size
+    OR OLD.user_id IS DISTINCT FROM NEW.user_id
+  )
+  EXECUTE FUNCTION update_user_storage();
+
+-- Directory manifests reference their manifest CID too
+CREATE OR REPLACE FUNCTION update_manifest_content_refs()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM adjust_content_ref(NEW.cid, 1);
+    RETURN NEW;
+  END IF;
+
+  PERFORM adjust_content_ref(OLD.cid, -1);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_manifest_content_refs ON directory_manifests;
+CREATE TRIGGER trigger_manifest_content_refs
+  AFTER INSERT OR DELETE ON directory_manifests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_manifest_content_refs();
+
+-- Backfill references from existing rows
+TRUNCATE content_refs;
+INSERT INTO content_refs (cid, ref_count)
+SELECT cid, COUNT(*)
+FROM (
+  SELECT cid FROM files WHERE cid IS NOT NULL
+  UNION ALL
+  SELECT cid FROM directory_manifests
+) refs
+GROUP BY cid;
+
+TRUNCATE user_content_refs;
+INSERT INTO user_content_refs (user_id, cid, ref_count)
+SELECT user_id, cid, COUNT(*)
+FROM files
+WHERE cid IS NOT NULL
+GROUP BY user_id, cid;
+
+-- Recompute storage_used so existing duplicates stop being double-counted
+UPDATE users
+SET storage_used = COALESCE(usage.total, 0)
+FROM (
+  SELECT u.id, (
+    SELECT COALESCE(SUM(distinct_content.file_size), 0)
+    FROM (
+      SELECT DISTINCT ON (cid) cid, file_size
+      FROM files
+      WHERE files.user_id = u.id AND cid IS NOT NULL
+    ) distinct_content
+  ) + (
+    SELECT COALESCE(SUM(file_size), 0)
+    FROM files
+    WHERE files.user_id = u.id AND cid IS NULL
+  ) AS total
+  FROM users u
+) usage
+WHERE users.id = usage.id;
+
+ALTER TABLE content_refs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_content_refs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all content refs" ON content_refs
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage all user content refs" ON user_content_refs
+  FOR ALL USING (auth.role() = 'service_role');
\ No newline at end of file
@@ -0,0 +1,49 @@
+-- ========================================================
+-- MIGRATION: Directory uploads with manifest CIDs
+-- ========================================================
+-- A directory upload stores every file on Codex individually, then
+-- stores a JSON manifest listing each file's relative path and CID.
+-- The manifest's CID addresses the whole directory, so the gateway
+-- can serve /api/gateway/<manifest-cid>/path/to/file.html.
+--
+-- Files belonging to a directory keep their own row in `files`
+-- (so storage accounting is unchanged) and point back to the
+-- manifest through manifest_id and their relative path.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+CREATE TABLE IF NOT EXISTS directory_manifests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  cid TEXT NOT NULL,
+  file_count INTEGER NOT NULL CHECK (file_count > 0),
+  total_size BIGINT NOT NULL CHECK (total_size >= 0),
+  upload_method TEXT NOT NULL DEFAULT 'dashboard' CHECK (upload_method IN ('dashboard', 'api')),
+  pinning_secret_id UUID NULL REFERENCES pinning_secrets(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_directory_manifests_user_id ON directory_manifests(user_id);
+CREATE INDEX IF NOT EXISTS idx_directory_manifests_cid ON directory_manifests(cid);
+
+-- Link files to the directory they were uploaded in
+ALTER TABLE files ADD COLUMN IF NOT EXISTS manifest_id UUID NULL REFERENCES directory_manifests(id) ON DELETE CASCADE;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS path TEXT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_files_manifest_path ON files(manifest_id, path) WHERE manifest_id IS NOT NULL;
+
+ALTER TABLE directory_manifests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own directory manifests" ON directory_manifests
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Service role can manage all directory manifests" ON directory_manifests
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON directory_manifests TO authenticated;
@@ -0,0 +1,31 @@
+-- ========================================================
+-- MIGRATION: Client-side encrypted files
+-- ========================================================
+-- Files uploaded in encrypted mode are encrypted by the client
+-- with a per-file data key, which is wrapped by a key only the
+-- user holds. Codex and the gateway only ever see ciphertext.
+--
+-- `encryption` holds what is needed to decrypt the file apart
+-- from the user key: the cipher and IV, the wrapped data key,
+-- the ID of the user key that wraps it and the plaintext size.
+-- It is NULL for files stored in plaintext.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+ALTER TABLE files ADD COLUMN IF NOT EXISTS encryption JSONB;
+
+ALTER TABLE files DROP CONSTRAINT IF EXISTS files_encryption_check;
+ALTER TABLE files ADD CONSTRAINT files_encryption_check CHECK (
+  encryption IS NULL OR (
+    jsonb_typeof(encryption) = 'object'
+    AND encryption ? 'wrappedKey'
+    AND encryption ? 'keyId'
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_files_encryption_key ON files(user_id, (encryption->>'keyId')) WHERE encryption IS NOT NULL;
\ No newline at end of file
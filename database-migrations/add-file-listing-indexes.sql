@@ -0,0 +1,29 @@
+-- ========================================================
+-- MIGRATION: Indexes for paginated file listing
+-- ========================================================
+-- /api/user/files returns a user's active files a page at a
+-- time, sorted on one column with the id breaking ties, and
+-- resumes after the last file of the previous page. These
+-- indexes let each sort order be read straight from an index
+-- instead of sorting every file the user has.
+--
+-- Filename search matches a substring anywhere in the name,
+-- which needs a trigram index.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_files_list_upload_date ON files(user_id, upload_date, id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_files_list_filename ON files(user_id, filename, id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_files_list_file_size ON files(user_id, file_size, id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_files_list_content_type ON files(user_id, content_type, id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_files_list_upload_method ON files(user_id, upload_method, id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_files_list_pinning_secret ON files(user_id, pinning_secret_id, id) WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_files_filename_trgm ON files USING gin (filename gin_trgm_ops);
\ No newline at end of file
@@ -0,0 +1,26 @@
+-- ========================================================
+-- MIGRATION: File tags and custom metadata
+-- ========================================================
+-- Files can carry a list of tags and a JSON object of custom
+-- metadata, set with the "tags" and "metadata" form fields on
+-- upload or later with PATCH /api/files/<id>.
+--
+-- Tags are stored lowercase. The listing API filters with
+-- `tag=<tag>` (array containment, served by the GIN index) and
+-- `meta.<key>=<value>` (compared as text within the user's
+-- files).
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+ALTER TABLE files ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE files ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE files DROP CONSTRAINT IF EXISTS files_metadata_object_check;
+ALTER TABLE files ADD CONSTRAINT files_metadata_object_check CHECK (jsonb_typeof(metadata) = 'object');
+
+CREATE INDEX IF NOT EXISTS idx_files_tags ON files USING gin (tags);
\ No newline at end of file
@@ -0,0 +1,68 @@
+-- ========================================================
+-- MIGRATION: Private files and share links
+-- ========================================================
+-- Files get a visibility of 'public' (the default, served by
+-- the gateway to anyone) or 'private'. Content whose every
+-- active holder is private (or that a trashed private file
+-- holds) is only served to its owners and through share links. Content is addressed by its CID, so a
+-- private file whose content another file holds publicly
+-- stays reachable through that public copy.
+--
+-- `share_links` records the links minted for a file. The URL
+-- carries an HMAC over the link ID, CID, expiry and optional
+-- IP binding; the row lets a link be revoked and caps how
+-- many times it can be downloaded. consume_share_link()
+-- counts a download only while the link is still usable, so
+-- concurrent downloads can't exceed the cap.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+ALTER TABLE files ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'private'));
+
+CREATE INDEX IF NOT EXISTS idx_files_cid_visibility ON files(cid, visibility, status) WHERE cid IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS share_links (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  cid TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ip_address TEXT,
+  max_downloads INTEGER CHECK (max_downloads IS NULL OR max_downloads > 0),
+  download_count INTEGER NOT NULL DEFAULT 0,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_file ON share_links(file_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_share_links_expires ON share_links(expires_at);
+
+-- Count a download against a link if it is unrevoked, unexpired, under its cap
+-- and its file hasn't been deleted.
+-- Returns the link's new download count, or NULL if it can't be used.
+CREATE OR REPLACE FUNCTION consume_share_link(p_link_id UUID, p_cid TEXT)
+RETURNS INTEGER AS $$
+  UPDATE share_links
+  SET download_count = download_count + 1,
+      last_used_at = CURRENT_TIMESTAMP
+  WHERE id = p_link_id
+    AND cid = p_cid
+    AND revoked_at IS NULL
+    AND expires_at > CURRENT_TIMESTAMP
+    AND (max_downloads IS NULL OR download_count < max_downloads)
+    AND EXISTS (SELECT 1 FROM files WHERE files.id = share_links.file_id AND files.status = 'active')
+  RETURNING download_count;
+$$ LANGUAGE sql;
+
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all share links" ON share_links
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT EXECUTE ON FUNCTION consume_share_link(UUID, TEXT) TO service_role;
\ No newline at end of file
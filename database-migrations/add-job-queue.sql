@@ -0,0 +1,92 @@
+-- ========================================================
+-- MIGRATION: Background job queue
+-- ========================================================
+-- Long-running storage work (unpinning deleted content, content
+-- migrations, Codex storage requests, Stripe follow-ups and
+-- notifications) is queued in `jobs` and executed by the job
+-- worker instead of blocking HTTP requests.
+--
+-- Workers lease jobs with claim_jobs(), which uses
+-- FOR UPDATE SKIP LOCKED so several workers can share the table.
+-- A job whose lease expires (e.g. the worker crashed) becomes
+-- claimable again. Failed jobs are retried with backoff until
+-- max_attempts, then dead-lettered (status 'dead') for inspection.
+--
+-- Only Postgres is required; no other broker is involved.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  user_id TEXT NULL REFERENCES users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'dead', 'cancelled')),
+  priority INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  locked_by TEXT NULL,
+  locked_until TIMESTAMP WITH TIME ZONE NULL,
+  last_error TEXT NULL,
+  dedupe_key TEXT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP WITH TIME ZONE NULL,
+  completed_at TIMESTAMP WITH TIME ZONE NULL
+);
+
+-- Claimable jobs: pending and due, or running with an expired lease
+CREATE INDEX IF NOT EXISTS idx_jobs_pending ON jobs(priority DESC, run_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_jobs_running ON jobs(locked_until) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_jobs_type_status ON jobs(type, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_jobs_user_id ON jobs(user_id) WHERE user_id IS NOT NULL;
+
+-- At most one unfinished job per dedupe key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_dedupe_key ON jobs(dedupe_key) WHERE dedupe_key IS NOT NULL AND status IN ('pending', 'running');
+
+DROP TRIGGER IF EXISTS trigger_jobs_updated_at ON jobs;
+CREATE TRIGGER trigger_jobs_updated_at
+  BEFORE UPDATE ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Lease up to p_limit due jobs to a worker
+CREATE OR REPLACE FUNCTION claim_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER,
+  p_lease_seconds INTEGER
+)
+RETURNS SETOF jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE jobs
+  SET status = 'running',
+      attempts = jobs.attempts + 1,
+      locked_by = p_worker_id,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      started_at = NOW()
+  WHERE jobs.id IN (
+    SELECT candidate.id
+    FROM jobs candidate
+    WHERE (candidate.status = 'pending' AND candidate.run_at <= NOW())
+       OR (candidate.status = 'running' AND candidate.locked_until < NOW())
+    ORDER BY candidate.priority DESC, candidate.run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING jobs.*;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all jobs" ON jobs
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT EXECUTE ON FUNCTION claim_jobs(TEXT, INTEGER, INTEGER) TO service_role;
\ No newline at end of file
@@ -0,0 +1,83 @@
+-- ========================================================
+-- MIGRATION: Content migration jobs
+-- ========================================================
+-- /api/migrations imports content from IPFS, Arweave or Storj.
+-- Each job downloads the content from a source gateway, stores
+-- it on Codex and records it in `files` with upload_method
+-- 'migration' and the original source network and identifier.
+--
+-- Jobs are retried with exponential backoff on transient errors
+-- and keep a log of every attempt in migration_job_logs.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+-- Allow migrated files and remember where they came from
+ALTER TABLE files DROP CONSTRAINT IF EXISTS files_upload_method_check;
+ALTER TABLE files ADD CONSTRAINT files_upload_method_check CHECK (upload_method IN ('dashboard', 'api', 'migration'));
+ALTER TABLE files ADD COLUMN IF NOT EXISTS source_network TEXT NULL CHECK (source_network IN ('ipfs', 'arweave', 'storj'));
+ALTER TABLE files ADD COLUMN IF NOT EXISTS source_id TEXT NULL;
+
+CREATE TABLE IF NOT EXISTS migration_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  network TEXT NOT NULL CHECK (network IN ('ipfs', 'arweave', 'storj')),
+  source_id TEXT NOT NULL,
+  preserve_metadata BOOLEAN NOT NULL DEFAULT true,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  bytes_total BIGINT NULL CHECK (bytes_total >= 0),
+  bytes_transferred BIGINT NOT NULL DEFAULT 0 CHECK (bytes_transferred >= 0),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NULL,
+  cid TEXT NULL,
+  file_id UUID NULL REFERENCES files(id) ON DELETE SET NULL,
+  error TEXT NULL,
+  pinning_secret_id UUID NULL REFERENCES pinning_secrets(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP WITH TIME ZONE NULL,
+  completed_at TIMESTAMP WITH TIME ZONE NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_migration_jobs_user_id ON migration_jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_migration_jobs_due ON migration_jobs(next_attempt_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_migration_jobs_running ON migration_jobs(updated_at) WHERE status = 'running';
+
+DROP TRIGGER IF EXISTS trigger_migration_jobs_updated_at ON migration_jobs;
+CREATE TRIGGER trigger_migration_jobs_updated_at
+  BEFORE UPDATE ON migration_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS migration_job_logs (
+  id BIGSERIAL PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES migration_jobs(id) ON DELETE CASCADE,
+  level TEXT NOT NULL DEFAULT 'info' CHECK (level IN ('info', 'warn', 'error')),
+  message TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_migration_job_logs_job_id ON migration_job_logs(job_id, id);
+
+ALTER TABLE migration_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE migration_job_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own migration jobs" ON migration_jobs
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Service role can manage all migration jobs" ON migration_jobs
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view their own migration job logs" ON migration_job_logs
+  FOR SELECT USING (job_id IN (SELECT id FROM migration_jobs WHERE user_id = auth.uid()::text));
+
+CREATE POLICY "Service role can manage all migration job logs" ON migration_job_logs
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON migration_jobs TO authenticated;
+GRANT SELECT ON migration_job_logs TO authenticated;
\ No newline at end of file
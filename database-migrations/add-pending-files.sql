@@ -0,0 +1,66 @@
+-- ========================================================
+-- MIGRATION: Two-phase file uploads
+-- ========================================================
+-- Uploads reserve a `files` row with status 'pending' before
+-- content is sent to Codex, record the CID on it as soon as
+-- Codex returns one, and only then commit it to 'active'.
+--
+-- If saving the upload fails, the pending row is deleted and
+-- its content unpinned. Pending rows left behind by a crash are
+-- swept by the job worker once they are older than the upload
+-- timeout, so content is never left pinned without a record.
+--
+-- Pending rows count towards storage_used, so concurrent
+-- uploads can't overcommit a user's storage. Because a row's
+-- size is only known once its content is stored, the storage
+-- trigger now also runs when file_size changes.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+ALTER TABLE files ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('pending', 'active'));
+
+-- The CID is unknown until content reaches Codex
+ALTER TABLE files ALTER COLUMN cid DROP NOT NULL;
+ALTER TABLE files DROP CONSTRAINT IF EXISTS files_cid_required_check;
+ALTER TABLE files ADD CONSTRAINT files_cid_required_check CHECK (status = 'pending' OR cid IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_files_pending ON files(created_at) WHERE status = 'pending';
+
+-- Keep storage_used in step with inserts, deletes and size changes
+CREATE OR REPLACE FUNCTION update_user_storage()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE users
+    SET storage_used = storage_used + NEW.file_size,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = NEW.user_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    UPDATE users
+    SET storage_used = storage_used + NEW.file_size - OLD.file_size,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = NEW.user_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE users
+    SET storage_used = storage_used - OLD.file_size,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = OLD.user_id;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_storage_update ON files;
+CREATE TRIGGER trigger_update_storage_update
+  AFTER UPDATE OF file_size ON files
+  FOR EACH ROW
+  WHEN (OLD.file_size IS DISTINCT FROM NEW.file_size)
+  EXECUTE FUNCTION update_user_storage();
\ No newline at end of file
@@ -0,0 +1,48 @@
+-- ========================================================
+-- MIGRATION: Pending unpin ledger and orphan tracking
+-- ========================================================
+-- Content is unpinned from Codex after its file record is deleted.
+-- Every CID awaiting an unpin is recorded in `pending_unpins`
+-- until Codex confirms the delete, so failed unpins are never
+-- lost: the job queue retries them, and the storage
+-- reconciliation pass requeues any that were dead-lettered.
+--
+-- `storage_orphans` records content found on the Codex node with
+-- no file or directory record. Orphans are only cleaned up once
+-- they have been seen for a grace period, so uploads that are
+-- still being recorded are left alone.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+CREATE TABLE IF NOT EXISTS pending_unpins (
+  cid TEXT PRIMARY KEY,
+  user_id TEXT NULL REFERENCES users(id) ON DELETE SET NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  last_attempt_at TIMESTAMP WITH TIME ZONE NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_unpins_created_at ON pending_unpins(created_at);
+
+CREATE TABLE IF NOT EXISTS storage_orphans (
+  cid TEXT PRIMARY KEY,
+  dataset_size BIGINT NULL,
+  filename TEXT NULL,
+  first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE pending_unpins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE storage_orphans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all pending unpins" ON pending_unpins
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage all storage orphans" ON storage_orphans
+  FOR ALL USING (auth.role() = 'service_role');
\ No newline at end of file
@@ -0,0 +1,84 @@
+-- ========================================================
+-- MIGRATION: Replication rules and Codex storage requests
+-- ========================================================
+-- Uploaded content is only held by our own Codex node until a
+-- storage request is made on the Codex marketplace. Replication
+-- rules describe how a file should be stored (number of hosts,
+-- tolerated host failures, duration and collateral):
+--   * a rule with file_id NULL is the user's default and, when
+--     enabled, is applied to every new upload
+--   * a rule with a file_id overrides the default for that file
+--
+-- storage_requests records every request submitted to Codex and
+-- the purchase state last reported for it.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+CREATE TABLE IF NOT EXISTS replication_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  file_id UUID NULL REFERENCES files(id) ON DELETE CASCADE,
+  nodes INTEGER NOT NULL CHECK (nodes >= 3),
+  tolerance INTEGER NOT NULL CHECK (tolerance >= 1),
+  duration_seconds BIGINT NOT NULL CHECK (duration_seconds > 0),
+  collateral_per_byte TEXT NOT NULL DEFAULT '1',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (nodes - tolerance >= tolerance)
+);
+
+-- One default rule per user and one rule per file
+CREATE UNIQUE INDEX IF NOT EXISTS idx_replication_rules_default ON replication_rules(user_id) WHERE file_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_replication_rules_file ON replication_rules(user_id, file_id) WHERE file_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS trigger_replication_rules_updated_at ON replication_rules;
+CREATE TRIGGER trigger_replication_rules_updated_at
+  BEFORE UPDATE ON replication_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS storage_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  rule_id UUID NULL REFERENCES replication_rules(id) ON DELETE SET NULL,
+  cid TEXT NOT NULL,
+  purchase_id TEXT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'started', 'finished', 'failed')),
+  codex_state TEXT NULL,
+  error TEXT NULL,
+  nodes INTEGER NOT NULL,
+  tolerance INTEGER NOT NULL,
+  duration_seconds BIGINT NOT NULL,
+  collateral_per_byte TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_requests_user_id ON storage_requests(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_storage_requests_file_id ON storage_requests(file_id);
+CREATE INDEX IF NOT EXISTS idx_storage_requests_active ON storage_requests(status) WHERE status IN ('pending', 'started');
+
+ALTER TABLE replication_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE storage_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own replication rules" ON replication_rules
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Service role can manage all replication rules" ON replication_rules
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view their own storage requests" ON storage_requests
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Service role can manage all storage requests" ON storage_requests
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON replication_rules TO authenticated;
+GRANT SELECT ON storage_requests TO authenticated;
\ No newline at end of file
@@ -0,0 +1,176 @@
+-- ========================================================
+-- MIGRATION: Atomic storage quota reservations
+-- ========================================================
+-- storage_used only grows once an upload's file row is written,
+-- so parallel uploads could all pass the quota check and exceed
+-- the plan limit together. Uploads now reserve space first:
+--
+--   reserve_storage()             atomically checks
+--                                 storage_used + storage_reserved
+--                                 against the limit and holds the
+--                                 bytes in users.storage_reserved
+--   release_storage_reservation() drops the hold once the file rows
+--                                 are committed (their size is then
+--                                 in storage_used) or the upload fails
+--
+-- The check and the hold are a single conditional UPDATE on the
+-- user's row, so concurrent reservations are serialised by its
+-- row lock. Reservations expire so a crashed upload can't hold
+-- space forever.
+--
+-- repair_storage_used() recomputes storage_used from the files
+-- table in one statement, for fixing drift found by the storage
+-- usage reconciliation.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS storage_reserved BIGINT NOT NULL DEFAULT 0 CHECK (storage_reserved >= 0);
+
+CREATE TABLE IF NOT EXISTS storage_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  bytes BIGINT NOT NULL CHECK (bytes > 0),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_reservations_user_id ON storage_reservations(user_id);
+CREATE INDEX IF NOT EXISTS idx_storage_reservations_expires_at ON storage_reservations(expires_at);
+
+-- Release a reservation, returning the bytes it held (0 if it no longer exists)
+CREATE OR REPLACE FUNCTION release_storage_reservation(p_reservation_id UUID)
+RETURNS BIGINT AS $$
+DECLARE
+  released RECORD;
+BEGIN
+  DELETE FROM storage_reservations
+  WHERE id = p_reservation_id
+  RETURNING user_id, bytes INTO released;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE users
+  SET storage_reserved = GREATEST(storage_reserved - released.bytes, 0)
+  WHERE id = released.user_id;
+
+  RETURN released.bytes;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Release every expired reservation, returning how many were released
+CREATE OR REPLACE FUNCTION expire_storage_reservations()
+RETURNS INTEGER AS $$
+DECLARE
+  expired_id UUID;
+  expired_count INTEGER := 0;
+BEGIN
+  FOR expired_id IN
+    SELECT id FROM storage_reservations WHERE expires_at < NOW()
+  LOOP
+    IF release_storage_reservation(expired_id) > 0 THEN
+      expired_count := expired_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reserve between p_min_bytes and p_bytes for a user within p_limit.
+-- Grants as much of p_bytes as fits; returns no row if not even p_min_bytes fits.
+CREATE OR REPLACE FUNCTION reserve_storage(
+  p_user_id TEXT,
+  p_bytes BIGINT,
+  p_min_bytes BIGINT,
+  p_limit BIGINT,
+  p_ttl_seconds INTEGER
+)
+RETURNS TABLE (reservation_id UUID, granted_bytes BIGINT, storage_used BIGINT, storage_reserved BIGINT) AS $$
+DECLARE
+  expired_id UUID;
+  granted BIGINT;
+  used BIGINT;
+  reserved BIGINT;
+  new_id UUID;
+BEGIN
+  -- Free this user's abandoned reservations before checking
+  FOR expired_id IN
+    SELECT id FROM storage_reservations WHERE user_id = p_user_id AND expires_at < NOW()
+  LOOP
+    PERFORM release_storage_reservation(expired_id);
+  END LOOP;
+
+  -- Lock the user's row so concurrent reservations see each other
+  SELECT users.storage_used, users.storage_reserved INTO used, reserved
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  granted := LEAST(p_bytes, p_limit - used - reserved);
+  IF granted < GREATEST(p_min_bytes, 1) THEN
+    RETURN;
+  END IF;
+
+  UPDATE users
+  SET storage_reserved = users.storage_reserved + granted
+  WHERE id = p_user_id;
+
+  INSERT INTO storage_reservations (user_id, bytes, expires_at)
+  VALUES (p_user_id, granted, NOW() + make_interval(secs => p_ttl_seconds))
+  RETURNING id INTO new_id;
+
+  RETURN QUERY SELECT new_id, granted, used, reserved + granted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recompute a user's storage_used from their files, counting shared content once
+CREATE OR REPLACE FUNCTION repair_storage_used(p_user_id TEXT)
+RETURNS BIGINT AS $$
+DECLARE
+  actual BIGINT;
+BEGIN
+  PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+
+  SELECT
+    COALESCE((
+      SELECT SUM(distinct_content.file_size)
+      FROM (
+        SELECT DISTINCT ON (cid) cid, file_size
+        FROM files
+        WHERE user_id = p_user_id AND cid IS NOT NULL
+      ) distinct_content
+    ), 0)
+    + COALESCE((
+      SELECT SUM(file_size) FROM files WHERE user_id = p_user_id AND cid IS NULL
+    ), 0)
+  INTO actual;
+
+  UPDATE users
+  SET storage_used = actual,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE id = p_user_id;
+
+  RETURN actual;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE storage_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all storage reservations" ON storage_reservations
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT EXECUTE ON FUNCTION reserve_storage(TEXT, BIGINT, BIGINT, BIGINT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION release_storage_reservation(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION expire_storage_reservations() TO service_role;
+GRANT EXECUTE ON FUNCTION repair_storage_used(TEXT) TO service_role;
\ No newline at end of file
@@ -0,0 +1,104 @@
+-- ========================================================
+-- MIGRATION: Trash for deleted files
+-- ========================================================
+-- Deleting a file now moves it to the trash instead of removing
+-- its row: status becomes 'trashed' and deleted_at records when.
+-- Trashed files are hidden everywhere active files are listed,
+-- but keep their content references, so nothing is unpinned
+-- while they can still be restored.
+--
+-- A trashed file keeps counting toward its owner's storage for
+-- a grace period. After that the job worker sets quota_released
+-- and the file's size leaves storage_used; restoring it charges
+-- the size again. Once the retention window ends the row is
+-- deleted and its content unpinned as before.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+ALTER TABLE files DROP CONSTRAINT IF EXISTS files_status_check;
+ALTER TABLE files ADD CONSTRAINT files_status_check CHECK (status IN ('pending', 'active', 'trashed'));
+
+ALTER TABLE files ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS quota_released BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE files DROP CONSTRAINT IF EXISTS files_trash_check;
+ALTER TABLE files ADD CONSTRAINT files_trash_check CHECK (
+  (status = 'trashed' AND deleted_at IS NOT NULL) OR (status <> 'trashed' AND NOT quota_released)
+);
+
+CREATE INDEX IF NOT EXISTS idx_files_trash ON files(user_id, deleted_at DESC) WHERE status = 'trashed';
+CREATE INDEX IF NOT EXISTS idx_files_trash_expiry ON files(deleted_at) WHERE status = 'trashed';
+
+-- Files whose quota has been released no longer count toward storage_used;
+-- global content references are kept until the row is deleted
+CREATE OR REPLACE FUNCTION update_user_storage()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM adjust_content_ref(OLD.cid, -1);
+    IF NOT OLD.quota_released THEN
+      PERFORM adjust_user_content(OLD.user_id, OLD.cid, OLD.file_size, -1);
+    END IF;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM adjust_content_ref(NEW.cid, 1);
+    IF NOT NEW.quota_released THEN
+      PERFORM adjust_user_content(NEW.user_id, NEW.cid, NEW.file_size, 1);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_storage_update ON files;
+CREATE TRIGGER trigger_update_storage_update
+  AFTER UPDATE OF cid, file_size, user_id, quota_released ON files
+  FOR EACH ROW
+  WHEN (
+    OLD.cid IS DISTINCT FROM NEW.cid
+    OR OLD.file_size IS DISTINCT FROM NEW.file_size
+    OR OLD.user_id IS DISTINCT FROM NEW.user_id
+    OR OLD.quota_released IS DISTINCT FROM NEW.quota_released
+  )
+  EXECUTE FUNCTION update_user_storage();
+
+-- Recompute a user's storage_used from the files that still count toward it
+CREATE OR REPLACE FUNCTION repair_storage_used(p_user_id TEXT)
+RETURNS BIGINT AS $$
+DECLARE
+  actual BIGINT;
+BEGIN
+  PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+
+  SELECT
+    COALESCE((
+      SELECT SUM(distinct_content.file_size)
+      FROM (
+        SELECT DISTINCT ON (cid) cid, file_size
+        FROM files
+        WHERE user_id = p_user_id AND cid IS NOT NULL AND NOT quota_released
+      ) distinct_content
+    ), 0)
+    + COALESCE((
+      SELECT SUM(file_size) FROM files WHERE user_id = p_user_id AND cid IS NULL
+    ), 0)
+  INTO actual;
+
+  UPDATE users
+  SET storage_used = actual,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE id = p_user_id;
+
+  RETURN actual;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION repair_storage_used(TEXT) TO service_role;
\ No newline at end of file
@@ -0,0 +1,91 @@
+-- ========================================================
+-- MIGRATION: Close the race between unpinning and re-uploads
+-- ========================================================
+-- Unpin jobs check `content_refs` before deleting content from
+-- Codex, but an upload of the same CID could record its file
+-- between that check and the delete, leaving a live file whose
+-- content is gone.
+--
+-- An unpin job now claims its `pending_unpins` entry before
+-- deleting. Claiming and adding a content reference both take
+-- the same per-CID transaction lock, so one always sees the
+-- other:
+--
+--   - a claim fails (and drops the entry) if the CID is still
+--     referenced
+--   - a new reference clears any unclaimed entry, so a queued
+--     unpin finds nothing to do
+--   - a new reference is rejected (SQLSTATE 55006) while a
+--     claim is in progress; the upload rolls back and can be
+--     retried once the delete has finished
+--
+-- Claims older than five minutes belong to a job that died
+-- mid-delete and no longer block uploads.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+ALTER TABLE pending_unpins ADD COLUMN IF NOT EXISTS unpinning_at TIMESTAMP WITH TIME ZONE NULL;
+
+CREATE OR REPLACE FUNCTION adjust_content_ref(p_cid TEXT, p_delta INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  IF p_cid IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF p_delta > 0 THEN
+    PERFORM pg_advisory_xact_lock(hashtext('content:' || p_cid));
+
+    IF EXISTS (
+      SELECT 1 FROM pending_unpins
+      WHERE cid = p_cid
+        AND unpinning_at > CURRENT_TIMESTAMP - INTERVAL '5 minutes'
+    ) THEN
+      RAISE EXCEPTION 'Content % is being unpinned', p_cid USING ERRCODE = '55006';
+    END IF;
+
+    DELETE FROM pending_unpins WHERE cid = p_cid;
+
+    INSERT INTO content_refs (cid, ref_count)
+    VALUES (p_cid, p_delta)
+    ON CONFLICT (cid) DO UPDATE
+    SET ref_count = content_refs.ref_count + p_delta,
+        updated_at = CURRENT_TIMESTAMP;
+  ELSE
+    UPDATE content_refs
+    SET ref_count = GREATEST(ref_count + p_delta, 0),
+        updated_at = CURRENT_TIMESTAMP
+    WHERE cid = p_cid;
+
+    DELETE FROM content_refs WHERE cid = p_cid AND ref_count = 0;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Claim a CID for deletion from Codex. Returns false, and drops the
+-- pending entry, if the content is still referenced.
+CREATE OR REPLACE FUNCTION claim_content_unpin(p_cid TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('content:' || p_cid));
+
+  IF EXISTS (SELECT 1 FROM content_refs WHERE cid = p_cid AND ref_count > 0) THEN
+    DELETE FROM pending_unpins WHERE cid = p_cid;
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO pending_unpins (cid, unpinning_at)
+  VALUES (p_cid, CURRENT_TIMESTAMP)
+  ON CONFLICT (cid) DO UPDATE
+  SET unpinning_at = CURRENT_TIMESTAMP;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION claim_content_unpin(TEXT) TO service_role;
\ No newline at end of file
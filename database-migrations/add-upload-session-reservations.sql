@@ -0,0 +1,29 @@
+-- ========================================================
+-- MIGRATION: Storage reservations for upload sessions
+-- ========================================================
+-- A resumable upload session now holds its file's size in
+-- storage_reserved from the moment it is created, so many
+-- parallel sessions can't each pass the quota check and
+-- together exceed the plan limit. The hold is committed when
+-- the session completes and released when it is cancelled
+-- or swept after expiring.
+--
+-- Releasing a reservation deletes its row, which clears the
+-- session's storage_reservation_id; completion then reserves
+-- the space again.
+--
+-- The expiry index covers every status so the sweep can also
+-- delete expired completed and cancelled sessions.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+ALTER TABLE upload_sessions
+  ADD COLUMN IF NOT EXISTS storage_reservation_id UUID NULL REFERENCES storage_reservations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires_at_all ON upload_sessions(expires_at);
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_active_user ON upload_sessions(user_id) WHERE status IN ('active', 'completing');
\ No newline at end of file
@@ -0,0 +1,52 @@
+-- ========================================================
+-- MIGRATION: Resumable upload sessions
+-- ========================================================
+-- Large files are uploaded through /api/uploads/* in chunks.
+-- Each session records how many bytes the server has acknowledged
+-- (upload_offset) so an interrupted upload can resume from there.
+-- Chunk data itself is kept on the API server's disk until the
+-- session is completed and pushed to Codex.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+CREATE TABLE IF NOT EXISTS upload_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  filename TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  total_size BIGINT NOT NULL CHECK (total_size > 0),
+  upload_offset BIGINT NOT NULL DEFAULT 0 CHECK (upload_offset >= 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completing', 'completed', 'cancelled')),
+  upload_method TEXT NOT NULL DEFAULT 'dashboard' CHECK (upload_method IN ('dashboard', 'api')),
+  pinning_secret_id UUID NULL REFERENCES pinning_secrets(id) ON DELETE SET NULL,
+  cid TEXT NULL,
+  file_id UUID NULL REFERENCES files(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (upload_offset <= total_size)
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_user_id ON upload_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires_at ON upload_sessions(expires_at) WHERE status = 'active';
+
+DROP TRIGGER IF EXISTS trigger_upload_sessions_updated_at ON upload_sessions;
+CREATE TRIGGER trigger_upload_sessions_updated_at
+  BEFORE UPDATE ON upload_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE upload_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own upload sessions" ON upload_sessions
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Service role can manage all upload sessions" ON upload_sessions
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON upload_sessions TO authenticated;
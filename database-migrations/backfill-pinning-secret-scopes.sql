@@ -0,0 +1,26 @@
+-- ========================================================
+-- MIGRATION: Backfill file scopes on existing pinning secrets
+-- ========================================================
+-- Pinning secrets used to be checked only for upload and
+-- download, so a secret with the default {upload, download}
+-- scopes could also list, inspect and delete the account's
+-- files. Those routes now require files:read and files:delete,
+-- which secrets created before scopes were enforced don't hold.
+--
+-- This grants both to every secret whose scopes are still
+-- exactly the old default, so existing integrations keep
+-- working. Management scopes (secrets:manage, billing:read,
+-- replication:manage) are not backfilled and must be granted
+-- by creating a new secret.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+UPDATE pinning_secrets
+SET scopes = ARRAY['upload', 'download', 'files:read', 'files:delete']
+WHERE scopes @> ARRAY['upload', 'download']
+  AND scopes <@ ARRAY['upload', 'download'];
\ No newline at end of file
@@ -0,0 +1,67 @@
+-- ========================================================
+-- MIGRATION: Shared storage for resumable upload chunks
+-- ========================================================
+-- Upload session chunks used to be written to the disk of
+-- whichever API instance received them, so on a serverless or
+-- multi-instance deployment a resume or completion handled by
+-- another instance found no data. Chunks are now stored as
+-- objects in the private `upload-sessions` Storage bucket
+-- (UPLOAD_SESSION_BUCKET), under a folder named after the
+-- session.
+--
+-- upload_session_chunks records which object holds the bytes
+-- at each acknowledged offset. record_upload_chunk() advances a
+-- session's offset and records its chunk in one statement, and
+-- only if the offset is still the one the chunk was written
+-- at, so concurrent or retried writes can't both be counted.
+--
+-- To run this migration:
+-- 1. Go to your Supabase dashboard
+-- 2. Navigate to SQL Editor
+-- 3. Copy and paste this SQL
+-- 4. Execute the query
+-- ========================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('upload-sessions', 'upload-sessions', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS upload_session_chunks (
+  session_id UUID NOT NULL REFERENCES upload_sessions(id) ON DELETE CASCADE,
+  chunk_offset BIGINT NOT NULL CHECK (chunk_offset >= 0),
+  length BIGINT NOT NULL CHECK (length > 0),
+  object_path TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (session_id, chunk_offset)
+);
+
+-- Advance a session's offset past a stored chunk, returning the updated
+-- session, or no row if the offset moved or the session isn't active
+CREATE OR REPLACE FUNCTION record_upload_chunk(
+  p_session_id UUID,
+  p_offset BIGINT,
+  p_length BIGINT,
+  p_object_path TEXT
+)
+RETURNS SETOF upload_sessions AS $$
+  WITH advanced AS (
+    UPDATE upload_sessions
+    SET upload_offset = p_offset + p_length,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = p_session_id
+      AND upload_offset = p_offset
+      AND status = 'active'
+    RETURNING *
+  ), recorded AS (
+    INSERT INTO upload_session_chunks (session_id, chunk_offset, length, object_path)
+    SELECT id, p_offset, p_length, p_object_path FROM advanced
+  )
+  SELECT * FROM advanced;
+$$ LANGUAGE sql;
+
+ALTER TABLE upload_session_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all upload session chunks" ON upload_session_chunks
+  FOR ALL USING (auth.role() = 'service_role');
+
+GRANT EXECUTE ON FUNCTION record_upload_chunk(UUID, BIGINT, BIGINT, TEXT) TO service_role;
\ No newline at end of file
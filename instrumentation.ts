@@ -0,0 +1,8 @@
+export async function register() {
+  // Background jobs run alongside the Node.js server; set JOB_WORKER_ENABLED=false
+  // on instances that should only serve requests
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.JOB_WORKER_ENABLED !== 'false') {
+    const { startJobWorker } = await import('./lib/jobHandlers');
+    startJobWorker();
+  }
+}
\ No newline at end of file
@@ -1,6 +1,8 @@
+import crypto from 'crypto';
 import { NextApiRequest, NextApiResponse } from 'next';
 import { PrivyClient } from '@privy-io/server-auth';
-import { PinningSecretService } from './pinningSecretService';
+import { PinningSecretService, type QuotaCheckResult } from './pinningSecretService';
+import { DomainRestrictionService } from './domainRestrictionService';
 
 // Initialize Privy client with your app credentials
 const privy = new PrivyClient(
@@ -8,11 +10,48 @@ const privy = new PrivyClient(
   process.env.PRIVY_APP_SECRET!
 );
 
+/**
+ * Scopes that can be attached to a pinning secret. `upload` and `download`
+ * are the original scopes and remain valid for existing secrets.
+ */
+export const PINNING_SECRET_SCOPES = [
+  'upload',
+  'download',
+  'files:read',
+  'files:write',
+  'files:delete',
+  'secrets:manage',
+  'billing:read',
+  'replication:manage'
+] as const;
+
+/**
+ * Account-level scope held only by dashboard (JWT) sessions.
+ * It can never be granted to a pinning secret.
+ */
+export const ACCOUNT_SCOPE = 'account:manage';
+
+export type PinningSecretScope = typeof PINNING_SECRET_SCOPES[number];
+export type AuthScope = PinningSecretScope | typeof ACCOUNT_SCOPE;
+
+// Dashboard sessions act as the account owner and hold every scope
+const JWT_SCOPES: AuthScope[] = [...PINNING_SECRET_SCOPES, ACCOUNT_SCOPE];
+
+export const isValidPinningSecretScope = (scope: string): scope is PinningSecretScope => {
+  return (PINNING_SECRET_SCOPES as readonly string[]).includes(scope);
+};
+
 export interface AuthenticatedUser {
   id: string;
   email: string;
   authMethod: 'jwt' | 'pinning_secret';
   pinningSecretId?: string;
+  monthlyQuotaGb?: number | null;
+  scopes: AuthScope[];
+}
+
+export interface WithAuthOptions {
+  requiredScopes?: AuthScope[];
 }
 
 export interface AuthenticatedRequest extends NextApiRequest {
@@ -77,7 +116,8 @@ export async function verifyAuth(
     return {
       id: userId,
       email: userEmail,
-      authMethod: 'jwt'
+      authMethod: 'jwt',
+      scopes: JWT_SCOPES
     };
     
   } catch (error) {
@@ -120,13 +160,40 @@ async function verifyPinningSecret(
       return null;
     }
 
+    // Enforce the owner's allowed domains for browser-origin requests
+    const originCheck = await DomainRestrictionService.checkRequestOrigin(req, validation.userId!);
+    if (originCheck.lookupFailed) {
+      res.status(503).json({
+        error: 'Failed to check allowed domains',
+        message: 'Please try again'
+      });
+      return null;
+    }
+
+    if (!originCheck.allowed) {
+      await DomainRestrictionService.recordBlockedOrigin(
+        validation.userId!,
+        originCheck.origin!,
+        validation.secretId
+      );
+      res.status(403).json({
+        error: 'Origin not allowed',
+        code: 'origin_not_allowed',
+        message: `Requests from '${originCheck.origin}' are not in the allowed domains for this account`,
+        origin: originCheck.origin
+      });
+      return null;
+    }
+
     // Note: Usage tracking will be done in the actual endpoint with real bytes transferred
 
     return {
       id: validation.userId!,
       email: `${validation.userId}@pinning-secret.placeholder`,
       authMethod: 'pinning_secret',
-      pinningSecretId: validation.secretId!
+      pinningSecretId: validation.secretId!,
+      monthlyQuotaGb: validation.monthlyQuotaGb ?? null,
+      scopes: (validation.scopes || []).filter(isValidPinningSecretScope)
     };
     
   } catch (error) {
@@ -136,11 +203,61 @@ async function verifyPinningSecret(
   }
 }
 
+/**
+ * Find the first required scope the user does not hold
+ */
+export function findMissingScope(
+  user: AuthenticatedUser,
+  requiredScopes: AuthScope[] = []
+): AuthScope | null {
+  return requiredScopes.find(scope => !user.scopes.includes(scope)) || null;
+}
+
+/**
+ * Send the standard 403 response for a missing scope
+ */
+export function sendMissingScope(
+  res: NextApiResponse,
+  missingScope: AuthScope,
+  requiredScopes: AuthScope[]
+) {
+  res.status(403).json({
+    error: 'Insufficient scope',
+    message: `This request requires the '${missingScope}' scope`,
+    missingScope,
+    requiredScopes
+  });
+}
+
+/**
+ * Send the standard 429 response for a pinning secret over its monthly quota,
+ * or a 503 if its usage couldn't be read
+ */
+export function sendQuotaExceeded(res: NextApiResponse, quota: QuotaCheckResult) {
+  if (quota.lookupFailed) {
+    res.status(503).json({
+      error: 'Failed to check monthly quota',
+      message: 'Please try again'
+    });
+    return;
+  }
+
+  res.status(429).json({
+    error: 'Monthly quota exceeded',
+    code: 'quota_exceeded',
+    message: 'This request would exceed the monthly transfer quota for this pinning secret',
+    quotaBytes: quota.quotaBytes,
+    usedBytes: quota.usedBytes,
+    remainingBytes: quota.remainingBytes
+  });
+}
+
 /**
  * Higher-order function to create authenticated API routes
  */
 export function withAuth(
-  handler: (req: AuthenticatedRequest, res: NextApiResponse) => Promise<void>
+  handler: (req: AuthenticatedRequest, res: NextApiResponse) => Promise<void>,
+  options: WithAuthOptions = {}
 ) {
   return async (req: NextApiRequest, res: NextApiResponse) => {
     const user = await verifyAuth(req, res);
@@ -149,6 +266,14 @@ export function withAuth(
       // verifyAuth already sent an error response
       return;
     }
+
+    // Reject credentials that lack a scope this route needs
+    const requiredScopes = options.requiredScopes || [];
+    const missingScope = findMissingScope(user, requiredScopes);
+    if (missingScope) {
+      sendMissingScope(res, missingScope, requiredScopes);
+      return;
+    }
     
     // Add user to request object
     (req as AuthenticatedRequest).user = user;
@@ -156,4 +281,38 @@ export function withAuth(
     // Call the actual handler
     await handler(req as AuthenticatedRequest, res);
   };
-} 
\ No newline at end of file
+} 
+
+/**
+ * Compare a bearer token against ADMIN_API_TOKEN. Admin routes are disabled when it is unset.
+ */
+function isAdminToken(token: string): boolean {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (!adminToken) {
+    return false;
+  }
+
+  // Hash both sides so the comparison is constant-time regardless of length
+  const expected = crypto.createHash('sha256').update(adminToken).digest();
+  const actual = crypto.createHash('sha256').update(token).digest();
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Higher-order function to create operator-only API routes, authenticated with ADMIN_API_TOKEN
+ */
+export function withAdminAuth(
+  handler: (req: NextApiRequest, res: NextApiResponse) => Promise<void>
+) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    const authHeader = req.headers.authorization;
+    const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+
+    if (!token || !isAdminToken(token)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    await handler(req, res);
+  };
+}
\ No newline at end of file
@@ -0,0 +1,117 @@
+import Stripe from 'stripe';
+import { supabaseServer } from './supabase-server';
+import type { JobResult } from './jobQueue';
+
+export interface CheckoutCompletedPayload {
+  sessionId: string;
+  userId: string;
+  planType: string;
+  subscriptionId: string;
+}
+
+function getStripe(): Stripe | null {
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) {
+    return null;
+  }
+
+  return new Stripe(secretKey, {
+    apiVersion: '2025-06-30.basil',
+  });
+}
+
+// Stripe timestamps are seconds since the epoch
+function toIsoDate(timestamp: number | null | undefined): string | null {
+  if (!timestamp) return null;
+  const date = new Date(timestamp * 1000);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Invalid requests (e.g. a subscription that doesn't exist) won't succeed on retry
+ */
+function toStripeFailure(error: unknown, message: string): JobResult {
+  if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+    return { status: 'failed', error: `${message}: ${error.message}` };
+  }
+  return { status: 'retry', error: message };
+}
+
+export class BillingService {
+  /**
+   * Record the subscription created by a completed checkout session.
+   * Runs as a job so Stripe outages are retried instead of blocking the webhook.
+   */
+  static async applyCompletedCheckout({
+    sessionId,
+    userId,
+    planType,
+    subscriptionId
+  }: CheckoutCompletedPayload): Promise<JobResult> {
+    const stripe = getStripe();
+    if (!stripe) {
+      return { status: 'failed', error: 'Stripe is not configured' };
+    }
+
+    let subscription: Stripe.Subscription;
+    try {
+      subscription = await stripe.subscriptions.retrieve(subscriptionId);
+    } catch (error) {
+      console.warn(`Failed to retrieve subscription ${subscriptionId} for checkout ${sessionId}:`, error);
+      return toStripeFailure(error, `Failed to retrieve subscription ${subscriptionId}`);
+    }
+
+    // Update subscription record (SINGLE source of truth)
+    const { error: subscriptionError } = await supabaseServer
+      .from('subscriptions')
+      .upsert({
+        user_id: userId,
+        plan_type: planType,
+        stripe_subscription_id: subscription.id,
+        stripe_customer_id: subscription.customer as string,
+        status: subscription.status,
+        // Stripe types do not always include these fields, so use (subscription as any)
+        current_period_start: toIsoDate((subscription as any).current_period_start),
+        current_period_end: toIsoDate((subscription as any).current_period_end),
+        cancel_at_period_end: (subscription as any).cancel_at_period_end ?? false,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'user_id'
+      });
+
+    if (subscriptionError) {
+      console.error(`Failed to update subscription record for ${userId}:`, subscriptionError);
+      return { status: 'retry', error: 'Subscription update failed' };
+    }
+
+    console.log(`User ${userId} successfully upgraded to ${planType} plan`);
+    return { status: 'completed' };
+  }
+
+  /**
+   * Cancel every active subscription of a Stripe customer, e.g. after account deletion
+   */
+  static async cancelCustomerSubscriptions(customerId: string): Promise<JobResult> {
+    const stripe = getStripe();
+    if (!stripe) {
+      return { status: 'completed' };
+    }
+
+    try {
+      const subscriptions = await stripe.subscriptions.list({
+        customer: customerId,
+        status: 'active'
+      });
+
+      for (const subscription of subscriptions.data) {
+        await stripe.subscriptions.cancel(subscription.id);
+        console.log(`Cancelled subscription: ${subscription.id}`);
+      }
+
+      return { status: 'completed' };
+    } catch (error) {
+      console.error(`Error cancelling subscriptions for customer ${customerId}:`, error);
+      return toStripeFailure(error, 'Failed to cancel subscriptions');
+    }
+  }
+}
\ No newline at end of file
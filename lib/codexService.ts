@@ -0,0 +1,189 @@
+import { Readable } from 'stream';
+
+// Default Codex node used when CODEX_API_URL is not configured
+const DEFAULT_CODEX_API_URL = 'https://api.demo.codex.storage/fileshareapp/api/codex/v1';
+
+export interface CodexConfig {
+  apiUrl: string;
+  authHeader: string;
+}
+
+export interface CodexUploadOptions {
+  fileName: string;
+  mimeType: string;
+  signal?: AbortSignal;
+}
+
+// Parameters of a Codex marketplace storage request (/storage/request/<cid>).
+// Token amounts are decimal strings since they can exceed Number.MAX_SAFE_INTEGER.
+export interface CodexStorageRequestParams {
+  duration: number;
+  pricePerBytePerSecond: string;
+  proofProbability: string;
+  nodes: number;
+  tolerance: number;
+  collateralPerByte: string;
+  expiry: number;
+}
+
+export interface CodexPurchase {
+  state: string;
+  error?: string | null;
+  requestId?: string;
+}
+
+// Entry in the node's local dataset list (GET /data)
+export interface CodexDataset {
+  cid: string;
+  manifest?: {
+    datasetSize?: number;
+    filename?: string | null;
+    mimetype?: string | null;
+  };
+}
+
+export interface CodexErrorResponse {
+  status: number;
+  error: string;
+}
+
+export class CodexService {
+  /**
+   * Get Codex API credentials from environment variables.
+   * Returns null when the storage service is not configured.
+   */
+  static getConfig(): CodexConfig | null {
+    const apiUrl = process.env.CODEX_API_URL || DEFAULT_CODEX_API_URL;
+    const username = process.env.CODEX_USERNAME || 'codex';
+    const password = process.env.CODEX_PASSWORD;
+
+    if (!password) {
+      return null;
+    }
+
+    // Create basic auth header
+    const basicAuth = Buffer.from(`${username}:${password}`).toString('base64');
+
+    return {
+      apiUrl,
+      authHeader: `Basic ${basicAuth}`
+    };
+  }
+
+  /**
+   * Stream content to the Codex /data endpoint without buffering it in memory.
+   * Aborting the signal cancels the upstream request.
+   */
+  static async uploadStream(
+    config: CodexConfig,
+    stream: Readable,
+    { fileName, mimeType, signal }: CodexUploadOptions
+  ): Promise<Response> {
+    const init: RequestInit & { duplex: 'half' } = {
+      method: 'POST',
+      headers: {
+        'Authorization': config.authHeader,
+        'Content-Type': mimeType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'User-Agent': 'ThirdStorage-Upload/1.0',
+      },
+      body: Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>,
+      // Required by Node's fetch when the request body is a stream
+      duplex: 'half',
+      signal,
+    };
+
+    return fetch(`${config.apiUrl}/data`, init);
+  }
+
+  /**
+   * Upload a small in-memory document such as a directory manifest
+   */
+  static async uploadBuffer(
+    config: CodexConfig,
+    content: Buffer,
+    options: CodexUploadOptions
+  ): Promise<Response> {
+    return this.uploadStream(config, Readable.from([content]), options);
+  }
+
+  /**
+   * Remove a dataset from the node's local storage
+   */
+  static async deleteData(config: CodexConfig, cid: string, signal?: AbortSignal): Promise<Response> {
+    return fetch(`${config.apiUrl}/data/${cid}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': config.authHeader },
+      signal,
+    });
+  }
+
+  /**
+   * List the datasets stored locally on the node
+   */
+  static async listData(config: CodexConfig): Promise<CodexDataset[] | null> {
+    const response = await fetch(`${config.apiUrl}/data`, {
+      headers: { 'Authorization': config.authHeader },
+    });
+
+    if (!response.ok) {
+      console.error(`Codex dataset list error: ${response.status} ${response.statusText}`);
+      return null;
+    }
+
+    const body = await response.json() as { content?: CodexDataset[] };
+    return body.content || [];
+  }
+
+  /**
+   * Ask the marketplace to store a dataset on `nodes` hosts.
+   * A successful response body is the purchase ID.
+   */
+  static async requestStorage(
+    config: CodexConfig,
+    cid: string,
+    params: CodexStorageRequestParams
+  ): Promise<Response> {
+    return fetch(`${config.apiUrl}/storage/request/${cid}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': config.authHeader,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(params),
+    });
+  }
+
+  /**
+   * Get the state of a storage purchase
+   */
+  static async getPurchase(config: CodexConfig, purchaseId: string): Promise<CodexPurchase | null> {
+    const response = await fetch(`${config.apiUrl}/storage/purchases/${purchaseId}`, {
+      headers: { 'Authorization': config.authHeader },
+    });
+
+    if (!response.ok) {
+      console.error(`Codex purchase lookup error: ${response.status} ${response.statusText}`);
+      return null;
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Map a failed Codex upload response to the status and message returned to clients
+   */
+  static getUploadErrorResponse(codexStatus: number): CodexErrorResponse {
+    if (codexStatus === 422) {
+      return { status: 422, error: 'The file type is invalid or not supported by the storage service' };
+    } else if (codexStatus === 500) {
+      return { status: 500, error: 'Storage service error - please try again later' };
+    } else if (codexStatus === 401) {
+      return { status: 500, error: 'Storage service authentication failed' };
+    } else if (codexStatus === 413) {
+      return { status: 413, error: 'File too large for storage service' };
+    } else {
+      return { status: 502, error: 'Storage service unavailable - please try again later' };
+    }
+  }
+}
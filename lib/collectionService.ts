@@ -0,0 +1,581 @@
+import path from 'path';
+import { supabaseServer } from './supabase-server';
+import { CodexService } from './codexService';
+import {
+  FileService,
+  type DirectoryManifestEntry,
+  type DirectoryManifestRecord,
+  type FileRecord
+} from './fileService';
+import { validateRelativePath, type FileValidationResult } from './uploadValidation';
+
+// Nesting limit, counting the top-level collection as depth 1
+export const MAX_COLLECTION_DEPTH = 16;
+// An export lists every file in a single manifest
+export const MAX_EXPORT_FILES = 5000;
+const PAGE_SIZE = 1000;
+
+export interface CollectionRecord {
+  id: string;
+  user_id: string;
+  // null for a top-level collection
+  parent_id: string | null;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CollectionTotals {
+  fileCount: number;
+  totalSize: number;
+}
+
+export interface CollectionNode extends CollectionRecord {
+  // Files directly in this collection
+  totals: CollectionTotals;
+  // Files in this collection and all of its subcollections
+  nestedTotals: CollectionTotals;
+  children: CollectionNode[];
+}
+
+export interface CollectionTree {
+  collections: CollectionNode[];
+  // Files that aren't in any collection
+  root: CollectionTotals;
+}
+
+export type CollectionFailureReason = 'not_found' | 'conflict' | 'invalid' | 'storage_error';
+
+export const COLLECTION_FAILURE_STATUS: Record<CollectionFailureReason, number> = {
+  not_found: 404,
+  conflict: 409,
+  invalid: 400,
+  storage_error: 502
+};
+
+export interface CollectionFailure {
+  ok: false;
+  reason: CollectionFailureReason;
+  error: string;
+}
+
+export type CollectionResult = { ok: true; collection: CollectionRecord } | CollectionFailure;
+
+export type CollectionExportResult = { ok: true; manifest: DirectoryManifestRecord } | CollectionFailure;
+
+/**
+ * Collection names become path segments when a collection is exported,
+ * so they follow the same rules as directory upload paths
+ */
+export function validateCollectionName(name: string): FileValidationResult {
+  if (!name || name.includes('/')) {
+    return { valid: false, error: 'Invalid collection name' };
+  }
+
+  const validation = validateRelativePath(name);
+  return validation.valid ? validation : { valid: false, error: 'Collection names may contain letters, numbers, spaces, \'_\', \'-\' and \'.\'' };
+}
+
+function failure(reason: CollectionFailureReason, error: string): CollectionFailure {
+  return { ok: false, reason, error };
+}
+
+/**
+ * Depth of a collection, 1 for a top-level collection.
+ * Stops at a collection already seen, so corrupted parent links can't loop forever.
+ */
+function getDepth(collections: Map<string, CollectionRecord>, id: string): number {
+  const seen = new Set<string>();
+  for (let current = collections.get(id); current && !seen.has(current.id); current = current.parent_id ? collections.get(current.parent_id) : undefined) {
+    seen.add(current.id);
+  }
+  return seen.size;
+}
+
+/**
+ * A collection and everything below it, parents before children. Each collection is included once.
+ */
+function getSubtree(collections: Map<string, CollectionRecord>, id: string): CollectionRecord[] {
+  const root = collections.get(id);
+  if (!root) {
+    return [];
+  }
+
+  const subtree = [root];
+  const seen = new Set([root.id]);
+  for (let i = 0; i < subtree.length; i++) {
+    for (const collection of collections.values()) {
+      if (collection.parent_id === subtree[i].id && !seen.has(collection.id)) {
+        seen.add(collection.id);
+        subtree.push(collection);
+      }
+    }
+  }
+  return subtree;
+}
+
+/**
+ * Levels in a collection's subtree, 1 if it has no subcollections
+ */
+function getHeight(collections: Map<string, CollectionRecord>, id: string): number {
+  const baseDepth = getDepth(collections, id);
+  return Math.max(...getSubtree(collections, id).map(collection => getDepth(collections, collection.id))) - baseDepth + 1;
+}
+
+export class CollectionService {
+  /**
+   * Get all of a user's collections, keyed by id. Returns null if they couldn't be read.
+   */
+  private static async getCollectionMap(userId: string): Promise<Map<string, CollectionRecord> | null> {
+    const { data, error } = await supabaseServer
+      .from('collections')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching collections:', error);
+      return null;
+    }
+
+    return new Map((data as CollectionRecord[] || []).map(collection => [collection.id, collection]));
+  }
+
+  static async getCollection(collectionId: string, userId: string): Promise<CollectionRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('collections')
+        .select('*')
+        .eq('id', collectionId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching collection:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in getCollection:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a user's collections as a tree, with file counts and sizes for each
+   */
+  static async getCollectionTree(userId: string): Promise<CollectionTree | null> {
+    try {
+      const collections = await this.getCollectionMap(userId);
+      if (!collections) {
+        return null;
+      }
+
+      const { data: totals, error } = await supabaseServer.rpc('collection_totals', { p_user_id: userId });
+      if (error) {
+        console.error('Error fetching collection totals:', error);
+        return null;
+      }
+
+      const totalsById = new Map<string | null, CollectionTotals>(
+        (totals as { collection_id: string | null; file_count: number; total_size: number }[] || []).map(row => [
+          row.collection_id,
+          { fileCount: Number(row.file_count), totalSize: Number(row.total_size) }
+        ])
+      );
+
+      const nodes = new Map<string, CollectionNode>();
+      for (const collection of collections.values()) {
+        const direct = totalsById.get(collection.id) || { fileCount: 0, totalSize: 0 };
+        nodes.set(collection.id, { ...collection, totals: direct, nestedTotals: { ...direct }, children: [] });
+      }
+
+      const topLevel: CollectionNode[] = [];
+      for (const node of nodes.values()) {
+        const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+        if (parent) {
+          parent.children.push(node);
+        } else {
+          topLevel.push(node);
+        }
+      }
+
+      // Roll each collection's totals up into all of its ancestors
+      for (const node of nodes.values()) {
+        const seen = new Set([node.id]);
+        for (let parent = node.parent_id ? nodes.get(node.parent_id) : undefined; parent && !seen.has(parent.id); parent = parent.parent_id ? nodes.get(parent.parent_id) : undefined) {
+          seen.add(parent.id);
+          parent.nestedTotals.fileCount += node.totals.fileCount;
+          parent.nestedTotals.totalSize += node.totals.totalSize;
+        }
+      }
+
+      return {
+        collections: topLevel,
+        root: totalsById.get(null) || { fileCount: 0, totalSize: 0 }
+      };
+    } catch (error) {
+      console.error('Error in getCollectionTree:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Create a collection, at the top level when parentId is null
+   */
+  static async createCollection(userId: string, name: string, parentId: string | null): Promise<CollectionResult | null> {
+    const validation = validateCollectionName(name);
+    if (!validation.valid) {
+      return failure('invalid', validation.error!);
+    }
+
+    try {
+      if (parentId) {
+        const collections = await this.getCollectionMap(userId);
+        if (!collections) {
+          return null;
+        }
+        if (!collections.has(parentId)) {
+          return failure('not_found', 'Parent collection not found');
+        }
+        if (getDepth(collections, parentId) + 1 > MAX_COLLECTION_DEPTH) {
+          return failure('invalid', `Collections can be nested at most ${MAX_COLLECTION_DEPTH} levels deep`);
+        }
+      }
+
+      const { data, error } = await supabaseServer
+        .from('collections')
+        .insert({ user_id: userId, parent_id: parentId, name })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return failure('conflict', `A collection named '${name}' already exists here`);
+        }
+        console.error('Error creating collection:', error);
+        return null;
+      }
+
+      return { ok: true, collection: data };
+    } catch (error) {
+      console.error('Error in createCollection:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Rename a collection and/or move it under another parent (null for the top level)
+   */
+  static async updateCollection(
+    collectionId: string,
+    userId: string,
+    updates: { name?: string; parentId?: string | null }
+  ): Promise<CollectionResult | null> {
+    if (updates.name !== undefined) {
+      const validation = validateCollectionName(updates.name);
+      if (!validation.valid) {
+        return failure('invalid', validation.error!);
+      }
+    }
+
+    try {
+      const collections = await this.getCollectionMap(userId);
+      if (!collections) {
+        return null;
+      }
+
+      const collection = collections.get(collectionId);
+      if (!collection) {
+        return failure('not_found', 'Collection not found');
+      }
+
+      if (updates.parentId) {
+        if (!collections.has(updates.parentId)) {
+          return failure('not_found', 'Parent collection not found');
+        }
+        // A collection can't be moved into itself or anything below it
+        if (getSubtree(collections, collectionId).some(descendant => descendant.id === updates.parentId)) {
+          return failure('invalid', 'A collection cannot be moved into itself or one of its subcollections');
+        }
+        if (getDepth(collections, updates.parentId) + getHeight(collections, collectionId) > MAX_COLLECTION_DEPTH) {
+          return failure('invalid', `Collections can be nested at most ${MAX_COLLECTION_DEPTH} levels deep`);
+        }
+      }
+
+      const { data, error } = await supabaseServer
+        .from('collections')
+        .update({
+          ...(updates.name !== undefined ? { name: updates.name } : {}),
+          ...(updates.parentId !== undefined ? { parent_id: updates.parentId } : {})
+        })
+        .eq('id', collectionId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return failure('conflict', `A collection named '${updates.name ?? collection.name}' already exists there`);
+        }
+        // A concurrent move made this one a cycle; the database refuses it
+        if (error.code === '23514') {
+          return failure('invalid', 'A collection cannot be moved into itself or one of its subcollections');
+        }
+        console.error('Error updating collection:', error);
+        return null;
+      }
+
+      return { ok: true, collection: data };
+    } catch (error) {
+      console.error('Error in updateCollection:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a collection and its subcollections. Their files move to the root.
+   */
+  static async deleteCollection(collectionId: string, userId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('collections')
+        .delete()
+        .eq('id', collectionId)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) {
+        console.error('Error deleting collection:', error);
+        return false;
+      }
+
+      return (data || []).length > 0;
+    } catch (error) {
+      console.error('Error in deleteCollection:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Read the active files in a set of collections, a page at a time
+   */
+  private static async getFilesIn(collectionIds: string[], limit: number = Number.MAX_SAFE_INTEGER): Promise<FileRecord[]> {
+    const files: FileRecord[] = [];
+
+    for (let offset = 0; files.length < limit; offset += PAGE_SIZE) {
+      const { data, error } = await supabaseServer
+        .from('files')
+        .select('*')
+        .in('collection_id', collectionIds)
+        .eq('status', 'active')
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to read collection files: ${error.message}`);
+      }
+
+      files.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return files.slice(0, limit);
+  }
+
+  /**
+   * Copy a collection with its subcollections and files under another parent
+   * (null for the top level). Copied files share their content with the originals.
+   */
+  static async copyCollection(collectionId: string, userId: string, parentId: string | null): Promise<CollectionResult | null> {
+    const created: string[] = [];
+
+    try {
+      const collections = await this.getCollectionMap(userId);
+      if (!collections) {
+        return null;
+      }
+
+      const source = collections.get(collectionId);
+      if (!source) {
+        return failure('not_found', 'Collection not found');
+      }
+
+      if (parentId) {
+        if (!collections.has(parentId)) {
+          return failure('not_found', 'Parent collection not found');
+        }
+        if (getDepth(collections, parentId) + getHeight(collections, collectionId) > MAX_COLLECTION_DEPTH) {
+          return failure('invalid', `Collections can be nested at most ${MAX_COLLECTION_DEPTH} levels deep`);
+        }
+      }
+
+      // Taken before anything is created, so copying into its own subtree doesn't recurse
+      const subtree = getSubtree(collections, collectionId);
+      const files = await this.getFilesIn(subtree.map(collection => collection.id));
+
+      // The copy gets a free name next to its new siblings
+      const siblingNames = new Set([...collections.values()]
+        .filter(collection => collection.parent_id === parentId)
+        .map(collection => collection.name));
+      let name = source.name;
+      for (let n = 1; siblingNames.has(name); n++) {
+        name = n === 1 ? `${source.name} copy` : `${source.name} copy ${n}`;
+      }
+
+      const copiedIds = new Map<string, string>();
+      for (const collection of subtree) {
+        const isRoot = collection.id === collectionId;
+        const { data, error } = await supabaseServer
+          .from('collections')
+          .insert({
+            user_id: userId,
+            parent_id: isRoot ? parentId : copiedIds.get(collection.parent_id!),
+            name: isRoot ? name : collection.name
+          })
+          .select()
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to copy collection: ${error.message}`);
+        }
+
+        created.push(data.id);
+        copiedIds.set(collection.id, data.id);
+      }
+
+      for (const collection of subtree) {
+        const collectionFiles = files.filter(file => file.collection_id === collection.id);
+        if (collectionFiles.length > 0 && !await FileService.copyFiles(collectionFiles, copiedIds.get(collection.id)!)) {
+          throw new Error('Failed to copy collection files');
+        }
+      }
+
+      const copy = await this.getCollection(copiedIds.get(collectionId)!, userId);
+      if (!copy) {
+        throw new Error('Failed to read copied collection');
+      }
+
+      return { ok: true, collection: copy };
+    } catch (error) {
+      console.error('Error in copyCollection:', error);
+
+      // Remove the partial copy; its files are deleted first so they don't fall back to the root
+      if (created.length > 0) {
+        await supabaseServer.from('files').delete().in('collection_id', created);
+        await supabaseServer.from('collections').delete().eq('id', created[0]);
+      }
+
+      return null;
+    }
+  }
+
+  /**
+   * Export a collection and everything below it as a directory manifest on Codex.
+   * Subcollections become subdirectories. The manifest's CID addresses the whole
+   * collection and resolves through the gateway like a directory upload.
+   */
+  static async exportCollection(
+    collectionId: string,
+    userId: string,
+    { uploadMethod, pinningSecretId }: { uploadMethod: string; pinningSecretId?: string }
+  ): Promise<CollectionExportResult | null> {
+    const config = CodexService.getConfig();
+    if (!config) {
+      return failure('storage_error', 'Storage service configuration missing');
+    }
+
+    try {
+      const collections = await this.getCollectionMap(userId);
+      if (!collections) {
+        return null;
+      }
+
+      const collection = collections.get(collectionId);
+      if (!collection) {
+        return failure('not_found', 'Collection not found');
+      }
+
+      // Directory of each collection relative to the exported one
+      const subtree = getSubtree(collections, collectionId);
+      const directories = new Map<string, string>([[collectionId, '']]);
+      for (const descendant of subtree.slice(1)) {
+        const parentDirectory = directories.get(descendant.parent_id!)!;
+        directories.set(descendant.id, parentDirectory ? `${parentDirectory}/${descendant.name}` : descendant.name);
+      }
+
+      const files = await this.getFilesIn(subtree.map(entry => entry.id), MAX_EXPORT_FILES + 1);
+      if (files.length === 0) {
+        return failure('invalid', 'Collection has no files to export');
+      }
+      if (files.length > MAX_EXPORT_FILES) {
+        return failure('invalid', `Collections with more than ${MAX_EXPORT_FILES} files can't be exported`);
+      }
+
+      // Files sharing a name within a directory get a numbered suffix
+      const usedPaths = new Set<string>();
+      const entries: DirectoryManifestEntry[] = files.map(file => {
+        const directory = directories.get(file.collection_id!)!;
+        const extension = path.posix.extname(file.filename);
+        const baseName = file.filename.slice(0, file.filename.length - extension.length);
+
+        let entryPath = directory ? `${directory}/${file.filename}` : file.filename;
+        for (let n = 2; usedPaths.has(entryPath); n++) {
+          const numbered = `${baseName}-${n}${extension}`;
+          entryPath = directory ? `${directory}/${numbered}` : numbered;
+        }
+        usedPaths.add(entryPath);
+
+        return { path: entryPath, cid: file.cid, size: file.file_size, contentType: file.content_type };
+      });
+
+      const manifest = FileService.buildDirectoryManifest(collection.name, entries);
+      const response = await CodexService.uploadBuffer(
+        config,
+        Buffer.from(JSON.stringify(manifest)),
+        { fileName: `${collection.name}.manifest.json`, mimeType: 'application/json' }
+      );
+
+      if (!response.ok) {
+        console.error(`Codex manifest upload error: ${response.status} ${response.statusText}`);
+        return failure('storage_error', CodexService.getUploadErrorResponse(response.status).error);
+      }
+
+      const cid = (await response.text()).trim();
+      if (!cid) {
+        return failure('storage_error', 'Invalid response from storage service');
+      }
+
+      const { data, error } = await supabaseServer
+        .from('directory_manifests')
+        .insert({
+          user_id: userId,
+          name: collection.name,
+          cid,
+          file_count: manifest.entries.length,
+          total_size: manifest.entries.reduce((total, entry) => total + entry.size, 0),
+          upload_method: uploadMethod,
+          pinning_secret_id: pinningSecretId || null,
+          source_collection_id: collectionId,
+          entries: manifest.entries
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving collection export:', error);
+        // Unpinned unless an earlier export of the same content still holds it
+        await FileService.enqueueUnpin([cid], userId);
+        return null;
+      }
+
+      return { ok: true, manifest: data };
+    } catch (error) {
+      console.error('Error in exportCollection:', error);
+      return null;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,549 @@
+import crypto from 'crypto';
+import { supabaseServer } from './supabase-server';
+import { FileService } from './fileService';
+import { NotificationService } from './notificationService';
+
+export const DENYLIST_REASONS = ['copyright', 'malware', 'phishing', 'csam', 'illegal', 'spam', 'other'] as const;
+export type DenylistReason = typeof DENYLIST_REASONS[number];
+
+export const ABUSE_REPORT_STATUSES = ['pending', 'blocked', 'dismissed'] as const;
+export type AbuseReportStatus = typeof ABUSE_REPORT_STATUSES[number];
+
+export const MAX_REPORT_DESCRIPTION_LENGTH = 2000;
+export const DEFAULT_DENYLIST_PAGE_LIMIT = 50;
+export const MAX_DENYLIST_PAGE_LIMIT = 200;
+
+// Denylist lookups are cached briefly so the gateway doesn't query on every request
+const LOOKUP_CACHE_TTL_MS = 60 * 1000;
+const MAX_LOOKUP_CACHE_ENTRIES = 10000;
+const IMPORT_BATCH_SIZE = 1000;
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+const CID_PATTERN = /^[A-Za-z0-9]{10,128}$/;
+
+export interface DenylistEntry {
+  id: string;
+  // Hex SHA-256 of "<cid>/<path>"
+  hash: string;
+  // Unknown for entries imported as hashes
+  cid: string | null;
+  reason: DenylistReason;
+  source: string;
+  notes: string | null;
+  report_id: string | null;
+  created_at: string;
+}
+
+export interface AbuseReport {
+  id: string;
+  cid: string;
+  reason: DenylistReason;
+  description: string | null;
+  reporter_email: string | null;
+  reporter_ip: string | null;
+  status: AbuseReportStatus;
+  review_notes: string | null;
+  reviewed_at: string | null;
+  unpinned_file_count: number;
+  // Reports of the same CID and reason collapsed into this one while it was pending
+  report_count: number;
+  last_reported_at: string;
+  created_at: string;
+}
+
+export interface AbuseReportInput {
+  cid: string;
+  reason: DenylistReason;
+  description?: string | null;
+  reporterEmail?: string | null;
+  reporterIp?: string | null;
+}
+
+export interface ReportReview {
+  action: 'block' | 'dismiss';
+  // Overrides the reported reason when blocking
+  reason?: DenylistReason;
+  notes?: string | null;
+  // Remove the content from the accounts holding it and unpin it
+  unpin?: boolean;
+}
+
+export interface ParsedDenylist {
+  entries: { hash: string; cid: string | null }[];
+  // Lines in formats that can't be matched against a CID, such as IPNS names
+  skipped: number;
+}
+
+export interface DenylistImportResult {
+  imported: number;
+  duplicates: number;
+  skipped: number;
+}
+
+export interface DenylistCheckResult {
+  // The entry blocking the content, or null if it isn't blocked
+  entry: DenylistEntry | null;
+  // The denylist couldn't be read, so whether the content is blocked is unknown
+  lookupFailed?: boolean;
+}
+
+export interface DenylistPage<T> {
+  items: T[];
+  total: number;
+}
+
+const lookupCache = new Map<string, { entry: DenylistEntry | null; expiresAt: number }>();
+
+export function isValidCid(cid: string): boolean {
+  return CID_PATTERN.test(cid);
+}
+
+/**
+ * Hash content the way "bad bits" denylists do: SHA-256 of "<cid>/<path>", hex encoded
+ */
+export function hashContentPath(cid: string, path: string = ''): string {
+  const normalizedPath = path.replace(/^\/+|\/+$/g, '');
+  return crypto.createHash('sha256').update(`${cid}/${normalizedPath}`).digest('hex');
+}
+
+/**
+ * Parse a denylist in the "bad bits" formats: the compact list format, with
+ * double-hashed "//<hex>" lines and plain "/ipfs/<cid>/<path>" lines after
+ * an optional header ending in "---", or the legacy JSON list of anchors.
+ */
+export function parseDenylist(content: string): ParsedDenylist {
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith('[')) {
+    try {
+      const anchors: unknown = JSON.parse(trimmed);
+      if (Array.isArray(anchors)) {
+        const entries: ParsedDenylist['entries'] = [];
+        let skipped = 0;
+        for (const item of anchors) {
+          const anchor = typeof item === 'object' && item !== null ? (item as { anchor?: unknown }).anchor : null;
+          if (typeof anchor === 'string' && HASH_PATTERN.test(anchor.toLowerCase())) {
+            entries.push({ hash: anchor.toLowerCase(), cid: null });
+          } else {
+            skipped++;
+          }
+        }
+        return { entries, skipped };
+      }
+    } catch {
+      // Not JSON after all; parse it as a compact list
+    }
+  }
+
+  const lines = trimmed.split(/\r?\n/);
+  const headerEnd = lines.findIndex(line => line.trim() === '---');
+  const entries: ParsedDenylist['entries'] = [];
+  let skipped = 0;
+
+  for (const rawLine of headerEnd >= 0 ? lines.slice(headerEnd + 1) : lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    // Allow rules ("!") only undo other rules in the same list
+    if (line.startsWith('!')) {
+      skipped++;
+      continue;
+    }
+
+    // Rules are followed by optional hints after a space
+    const rule = line.split(/\s+/)[0];
+
+    if (rule.startsWith('//')) {
+      const hash = rule.slice(2).toLowerCase();
+      if (HASH_PATTERN.test(hash)) {
+        entries.push({ hash, cid: null });
+        continue;
+      }
+    } else {
+      const [cid, ...pathParts] = rule.replace(/^\/ipfs\//, '').split('/');
+      if (isValidCid(cid)) {
+        entries.push({ hash: hashContentPath(cid, pathParts.join('/')), cid: pathParts.length === 0 ? cid : null });
+        continue;
+      }
+    }
+
+    skipped++;
+  }
+
+  return { entries, skipped };
+}
+
+export class DenylistService {
+  /**
+   * Find the denylist entry blocking content, checking the CID itself and, for
+   * a file inside a directory, its path and the CID it resolves to.
+   * Failed lookups are reported rather than treated as not blocked, and aren't cached.
+   */
+  static async findBlockedEntry(cid: string, path: string = '', resolvedCid?: string): Promise<DenylistCheckResult> {
+    const hashes = [hashContentPath(cid)];
+    if (path) {
+      hashes.push(hashContentPath(cid, path));
+    }
+    if (resolvedCid && resolvedCid !== cid) {
+      hashes.push(hashContentPath(resolvedCid));
+    }
+
+    const cacheKey = hashes.join(':');
+    const cached = lookupCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return { entry: cached.entry };
+    }
+
+    try {
+      const { data, error } = await supabaseServer
+        .from('cid_denylist')
+        .select('*')
+        .in('hash', hashes)
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error checking CID denylist:', error);
+        return { entry: null, lookupFailed: true };
+      }
+
+      if (lookupCache.size >= MAX_LOOKUP_CACHE_ENTRIES) {
+        lookupCache.clear();
+      }
+      lookupCache.set(cacheKey, { entry: data, expiresAt: Date.now() + LOOKUP_CACHE_TTL_MS });
+
+      return { entry: data };
+    } catch (error) {
+      console.error('Error in findBlockedEntry:', error);
+      return { entry: null, lookupFailed: true };
+    }
+  }
+
+  /**
+   * Block a CID. Blocking one that is already denylisted returns the existing entry.
+   */
+  static async addEntry(
+    cid: string,
+    reason: DenylistReason,
+    { source = 'manual', notes = null, reportId = null }: { source?: string; notes?: string | null; reportId?: string | null } = {}
+  ): Promise<DenylistEntry | null> {
+    try {
+      const hash = hashContentPath(cid);
+      const { error } = await supabaseServer
+        .from('cid_denylist')
+        .upsert({ hash, cid, reason, source, notes, report_id: reportId }, { onConflict: 'hash', ignoreDuplicates: true });
+
+      if (error) {
+        console.error('Error adding denylist entry:', error);
+        return null;
+      }
+
+      lookupCache.clear();
+
+      const { data, error: fetchError } = await supabaseServer
+        .from('cid_denylist')
+        .select('*')
+        .eq('hash', hash)
+        .single();
+
+      if (fetchError) {
+        console.error('Error fetching denylist entry:', fetchError);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in addEntry:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Import a "bad bits" denylist. Entries already on the list are left as they are.
+   */
+  static async importList(
+    content: string,
+    { reason, source }: { reason: DenylistReason; source: string }
+  ): Promise<DenylistImportResult | null> {
+    const parsed = parseDenylist(content);
+    const uniqueEntries = [...new Map(parsed.entries.map(entry => [entry.hash, entry])).values()];
+    const result: DenylistImportResult = {
+      imported: 0,
+      duplicates: parsed.entries.length - uniqueEntries.length,
+      skipped: parsed.skipped
+    };
+
+    try {
+      for (let start = 0; start < uniqueEntries.length; start += IMPORT_BATCH_SIZE) {
+        const batch = uniqueEntries.slice(start, start + IMPORT_BATCH_SIZE);
+        const { data, error } = await supabaseServer
+          .from('cid_denylist')
+          .upsert(batch.map(entry => ({ ...entry, reason, source })), { onConflict: 'hash', ignoreDuplicates: true })
+          .select('id');
+
+        if (error) {
+          console.error('Error importing denylist batch:', error);
+          return null;
+        }
+
+        result.imported += (data || []).length;
+        result.duplicates += batch.length - (data || []).length;
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error in importList:', error);
+      return null;
+    } finally {
+      lookupCache.clear();
+    }
+  }
+
+  /**
+   * List denylist entries, newest first
+   */
+  static async listEntries(
+    { source, cid, limit = DEFAULT_DENYLIST_PAGE_LIMIT, offset = 0 }: { source?: string; cid?: string; limit?: number; offset?: number } = {}
+  ): Promise<DenylistPage<DenylistEntry> | null> {
+    try {
+      let query = supabaseServer
+        .from('cid_denylist')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (source) {
+        query = query.eq('source', source);
+      }
+      if (cid) {
+        query = query.eq('hash', hashContentPath(cid));
+      }
+
+      const { data, count, error } = await query;
+
+      if (error) {
+        console.error('Error fetching denylist entries:', error);
+        return null;
+      }
+
+      return { items: data || [], total: count || 0 };
+    } catch (error) {
+      console.error('Error in listEntries:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Unblock content. Returns false if the entry doesn't exist.
+   */
+  static async removeEntry(entryId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('cid_denylist')
+        .delete()
+        .eq('id', entryId)
+        .select('id');
+
+      if (error) {
+        console.error('Error removing denylist entry:', error);
+        return false;
+      }
+
+      lookupCache.clear();
+      return (data || []).length > 0;
+    } catch (error) {
+      console.error('Error in removeEntry:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record a report from the public intake form and let the operator know.
+   * A repeat of a pending report (same CID and reason) only raises its report_count.
+   */
+  static async createReport(input: AbuseReportInput): Promise<AbuseReport | null> {
+    try {
+      const { data, error } = await supabaseServer.rpc('submit_abuse_report', {
+        p_cid: input.cid,
+        p_reason: input.reason,
+        p_description: input.description || null,
+        p_reporter_email: input.reporterEmail || null,
+        p_reporter_ip: input.reporterIp || null
+      });
+
+      const report = (data || [])[0] as AbuseReport | undefined;
+      if (error || !report) {
+        console.error('Error creating abuse report:', error);
+        return null;
+      }
+
+      // Repeat reports are counted on the pending one; the operator was told about it already
+      if (report.report_count === 1) {
+        await NotificationService.notify('abuse.reported', { reportId: report.id, cid: report.cid, reason: report.reason });
+      }
+
+      return report;
+    } catch (error) {
+      console.error('Error in createReport:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List abuse reports, oldest first so the review queue is worked in order
+   */
+  static async listReports(
+    { status, limit = DEFAULT_DENYLIST_PAGE_LIMIT, offset = 0 }: { status?: AbuseReportStatus; limit?: number; offset?: number } = {}
+  ): Promise<DenylistPage<AbuseReport> | null> {
+    try {
+      let query = supabaseServer
+        .from('abuse_reports')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: status === 'pending' })
+        .range(offset, offset + limit - 1);
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, count, error } = await query;
+
+      if (error) {
+        console.error('Error fetching abuse reports:', error);
+        return null;
+      }
+
+      return { items: data || [], total: count || 0 };
+    } catch (error) {
+      console.error('Error in listReports:', error);
+      return null;
+    }
+  }
+
+  static async getReport(reportId: string): Promise<AbuseReport | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('abuse_reports')
+        .select('*')
+        .eq('id', reportId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching abuse report:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in getReport:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Resolve a pending report by blocking its CID or dismissing it.
+   * Returns null if the report isn't pending or on error.
+   */
+  static async reviewReport(
+    reportId: string,
+    { action, reason, notes = null, unpin = false }: ReportReview
+  ): Promise<AbuseReport | null> {
+    try {
+      // Claim the report first so concurrent reviews can't both act on it
+      const { data: report, error } = await supabaseServer
+        .from('abuse_reports')
+        .update({
+          status: action === 'block' ? 'blocked' : 'dismissed',
+          review_notes: notes,
+          reviewed_at: new Date().toISOString()
+        })
+        .eq('id', reportId)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error reviewing abuse report:', error);
+        return null;
+      }
+      if (!report || action === 'dismiss') {
+        return report;
+      }
+
+      const blockReason = reason || report.reason;
+      const entry = await this.addEntry(report.cid, blockReason, { source: 'report', notes, reportId });
+      if (!entry) {
+        // Put the report back so the block can be retried
+        await supabaseServer
+          .from('abuse_reports')
+          .update({ status: 'pending', review_notes: null, reviewed_at: null })
+          .eq('id', reportId);
+        return null;
+      }
+
+      // Other pending reports of the same content are settled by this block
+      await supabaseServer
+        .from('abuse_reports')
+        .update({ status: 'blocked', review_notes: `Blocked with report ${reportId}`, reviewed_at: new Date().toISOString() })
+        .eq('cid', report.cid)
+        .eq('status', 'pending');
+
+      if (!unpin) {
+        return report;
+      }
+
+      const unpinnedFileCount = await this.removeFromAccounts(report.cid, blockReason);
+      const { data: updated } = await supabaseServer
+        .from('abuse_reports')
+        .update({ unpinned_file_count: unpinnedFileCount })
+        .eq('id', reportId)
+        .select()
+        .single();
+
+      return updated || { ...report, unpinned_file_count: unpinnedFileCount };
+    } catch (error) {
+      console.error('Error in reviewReport:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete the files holding blocked content from their owners' accounts,
+   * including any in the trash, and unpin the content once nothing references it.
+   * Owners are notified. Returns the number of files removed.
+   */
+  static async removeFromAccounts(cid: string, reason: DenylistReason): Promise<number> {
+    try {
+      const { data: removed, error } = await supabaseServer
+        .from('files')
+        .delete()
+        .eq('cid', cid)
+        .select('id, user_id');
+
+      if (error) {
+        console.error('Error removing blocked content from accounts:', error);
+        return 0;
+      }
+
+      if (!removed || removed.length === 0) {
+        return 0;
+      }
+
+      await FileService.enqueueUnpin([cid]);
+
+      const filesByOwner = new Map<string, number>();
+      for (const file of removed) {
+        filesByOwner.set(file.user_id, (filesByOwner.get(file.user_id) || 0) + 1);
+      }
+      for (const [userId, fileCount] of filesByOwner) {
+        await NotificationService.notify('content.blocked', { cid, reason, fileCount }, userId);
+      }
+
+      return removed.length;
+    } catch (error) {
+      console.error('Error in removeFromAccounts:', error);
+      return 0;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { NextApiRequest } from 'next';
+import { supabaseServer } from './supabase-server';
+
+export interface BlockedOriginRecord {
+  origin: string;
+  pinning_secret_id: string | null;
+  block_count: number;
+  first_blocked_at: string;
+  last_blocked_at: string;
+}
+
+export interface OriginCheckResult {
+  allowed: boolean;
+  origin: string | null;
+  // The allowed domains couldn't be read, so the request was refused without checking them
+  lookupFailed?: boolean;
+}
+
+export class DomainRestrictionService {
+  /**
+   * Get the allowed domains configured for a user. Returns null if they couldn't be read.
+   */
+  static async getAllowedDomains(userId: string): Promise<string[] | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('api_domain_restrictions')
+        .select('domain')
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error fetching allowed domains:', error);
+        return null;
+      }
+
+      return (data || []).map(row => row.domain.toLowerCase());
+    } catch (error) {
+      console.error('Error in getAllowedDomains:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Extract the browser origin hostname from the Origin or Referer header.
+   * Returns null for non-browser requests that send neither header.
+   */
+  static getRequestOrigin(req: NextApiRequest): string | null {
+    const origin = req.headers.origin;
+    const referer = req.headers.referer;
+    const source = origin || referer;
+
+    if (!source) {
+      return null;
+    }
+
+    // Sandboxed iframes and file:// pages send a literal "null" origin
+    if (source === 'null') {
+      return 'null';
+    }
+
+    try {
+      return new URL(source).hostname.toLowerCase();
+    } catch {
+      return source.toLowerCase();
+    }
+  }
+
+  /**
+   * Check a hostname against the allowed domains.
+   * "*.example.com" matches any subdomain of example.com but not example.com itself.
+   */
+  static isDomainAllowed(hostname: string, allowedDomains: string[]): boolean {
+    return allowedDomains.some(domain => {
+      if (domain.startsWith('*.')) {
+        return hostname.endsWith(domain.substring(1));
+      }
+      return hostname === domain;
+    });
+  }
+
+  /**
+   * Check whether a pinning secret request may proceed from its browser origin.
+   * Requests are allowed when the owner has no restrictions or when the
+   * request carries no Origin/Referer (server-side callers). Browser requests
+   * are refused if the restrictions can't be read, since there may be some.
+   */
+  static async checkRequestOrigin(req: NextApiRequest, userId: string): Promise<OriginCheckResult> {
+    const origin = this.getRequestOrigin(req);
+    if (!origin) {
+      return { allowed: true, origin: null };
+    }
+
+    const allowedDomains = await this.getAllowedDomains(userId);
+    if (!allowedDomains) {
+      return { allowed: false, origin, lookupFailed: true };
+    }
+
+    if (allowedDomains.length === 0) {
+      return { allowed: true, origin };
+    }
+
+    return { allowed: this.isDomainAllowed(origin, allowedDomains), origin };
+  }
+
+  /**
+   * Record a request rejected because of its origin (aggregated per origin)
+   */
+  static async recordBlockedOrigin(
+    userId: string,
+    origin: string,
+    pinningSecretId?: string
+  ): Promise<void> {
+    try {
+      await supabaseServer.rpc('record_blocked_origin', {
+        p_user_id: userId,
+        p_origin: origin,
+        p_secret_id: pinningSecretId || null
+      });
+    } catch (error) {
+      console.error('Error recording blocked origin:', error);
+      // Don't throw error as this is for diagnostics only
+    }
+  }
+
+  /**
+   * Get the most recently blocked origins for a user
+   */
+  static async getRecentBlockedOrigins(userId: string, limit: number = 10): Promise<BlockedOriginRecord[]> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('api_blocked_origins')
+        .select('origin, pinning_secret_id, block_count, first_blocked_at, last_blocked_at')
+        .eq('user_id', userId)
+        .order('last_blocked_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching blocked origins:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getRecentBlockedOrigins:', error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,320 @@
+// Client-side envelope encryption for uploads.
+//
+// Content is encrypted before it leaves the browser (or API client) with a
+// random per-file data key, and that key is wrapped by a key only the user
+// holds. The server stores the ciphertext and the wrapped key, never the
+// plaintext or either key. Uses Web Crypto, available in browsers and Node 18+.
+
+import type { FileVisibility, ParseResult } from './fileMetadata';
+
+export const ENCRYPTION_VERSION = 1;
+export const CONTENT_CIPHER = 'AES-256-GCM';
+export const KEY_WRAP_ALGORITHM = 'AES-KW';
+// AES-GCM appends an authentication tag, so ciphertext is this much larger than the plaintext
+export const GCM_TAG_BYTES = 16;
+// Encrypted uploads are sealed in one piece, so their ciphertext has to fit a single-request upload
+export const MAX_ENCRYPTED_FILE_SIZE = 100 * 1024 * 1024 - GCM_TAG_BYTES;
+
+// Decrypted content is opened from a blob: URL, which runs with this site's origin.
+// Only types that can't run script are opened inline; anything else is downloaded.
+const INLINE_CONTENT_TYPES = new Set([
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'audio/mpeg',
+  'audio/wav',
+  'audio/ogg',
+  'audio/webm',
+  'audio/aac',
+  'audio/flac',
+  'video/mp4',
+  'video/webm',
+  'video/ogg',
+  'application/pdf',
+  'text/plain'
+]);
+
+const IV_BYTES = 12;
+const KEY_ID_LENGTH = 16;
+const IV_PATTERN = /^[A-Za-z0-9_-]{16}$/;
+// A wrapped 256-bit key is 40 bytes
+const WRAPPED_KEY_PATTERN = /^[A-Za-z0-9_-]{54}$/;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{16}$/;
+
+// Stored with each encrypted file; everything needed to decrypt it except the user key
+export interface FileEncryption {
+  version: typeof ENCRYPTION_VERSION;
+  cipher: typeof CONTENT_CIPHER;
+  // Content IV, base64url
+  iv: string;
+  keyWrap: typeof KEY_WRAP_ALGORITHM;
+  // Data key wrapped by the user key, base64url
+  wrappedKey: string;
+  // Identifies the user key, so the right one can be asked for
+  keyId: string;
+  // Size of the plaintext
+  size: number;
+}
+
+export interface EncryptedContent {
+  ciphertext: Blob;
+  encryption: FileEncryption;
+}
+
+// Carried in the fragment of a decryption link, which browsers never send to the server
+export interface DecryptLinkParams {
+  // Gateway path of the ciphertext, including any share link parameters
+  src: string;
+  dataKey: string;
+  iv: string;
+  contentType: string;
+  fileName: string;
+}
+
+export interface EncryptedUploadOptions {
+  // Pinning secret for the account
+  apiKey: string;
+  userKey: string;
+  baseUrl?: string;
+  fileName?: string;
+  contentType?: string;
+  tags?: string[];
+  visibility?: FileVisibility;
+}
+
+function toBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.length; i++) {
+    binary += String.fromCharCode(view[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function importUserKey(userKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64Url(userKey), KEY_WRAP_ALGORITHM, false, ['wrapKey', 'unwrapKey']);
+}
+
+async function importDataKey(dataKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64Url(dataKey), 'AES-GCM', false, ['decrypt']);
+}
+
+/**
+ * Check encryption parameters sent with an upload. Only their shape can be
+ * checked; the server can't tell whether the content really is encrypted.
+ */
+export function parseEncryption(input: unknown): ParseResult<FileEncryption> {
+  let value = input;
+
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch {
+      return { valid: false, error: 'Encryption parameters must be valid JSON' };
+    }
+  }
+
+  const params = value as Partial<FileEncryption> | null;
+  if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+    return { valid: false, error: 'Encryption parameters must be a JSON object' };
+  }
+
+  if (params.version !== ENCRYPTION_VERSION || params.cipher !== CONTENT_CIPHER || params.keyWrap !== KEY_WRAP_ALGORITHM) {
+    return { valid: false, error: `Unsupported encryption. Use version ${ENCRYPTION_VERSION} with ${CONTENT_CIPHER} and ${KEY_WRAP_ALGORITHM}` };
+  }
+
+  if (typeof params.iv !== 'string' || !IV_PATTERN.test(params.iv)) {
+    return { valid: false, error: 'Invalid encryption IV' };
+  }
+  if (typeof params.wrappedKey !== 'string' || !WRAPPED_KEY_PATTERN.test(params.wrappedKey)) {
+    return { valid: false, error: 'Invalid wrapped key' };
+  }
+  if (typeof params.keyId !== 'string' || !KEY_ID_PATTERN.test(params.keyId)) {
+    return { valid: false, error: 'Invalid key ID' };
+  }
+  if (!Number.isSafeInteger(params.size) || params.size! < 0) {
+    return { valid: false, error: 'Invalid plaintext size' };
+  }
+
+  return {
+    valid: true,
+    value: {
+      version: params.version,
+      cipher: params.cipher,
+      iv: params.iv,
+      keyWrap: params.keyWrap,
+      wrappedKey: params.wrappedKey,
+      keyId: params.keyId,
+      size: params.size!
+    }
+  };
+}
+
+/**
+ * Create a new user key. It can't be recovered if lost, along with every file it wraps.
+ */
+export function generateUserKey(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Derive the public identifier stored alongside files the key wraps
+ */
+export async function getUserKeyId(userKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', fromBase64Url(userKey));
+  return toBase64Url(digest).slice(0, KEY_ID_LENGTH);
+}
+
+export async function isValidUserKey(userKey: string): Promise<boolean> {
+  try {
+    return fromBase64Url(userKey).length === 32 && Boolean(await importUserKey(userKey));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encrypt content under a new data key wrapped by the user key
+ */
+export async function encryptFile(content: Blob | ArrayBuffer, userKey: string): Promise<EncryptedContent> {
+  const plaintext = content instanceof Blob ? await content.arrayBuffer() : content;
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, dataKey, plaintext);
+  const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, await importUserKey(userKey), KEY_WRAP_ALGORITHM);
+
+  return {
+    ciphertext: new Blob([ciphertext], { type: 'application/octet-stream' }),
+    encryption: {
+      version: ENCRYPTION_VERSION,
+      cipher: CONTENT_CIPHER,
+      iv: toBase64Url(iv),
+      keyWrap: KEY_WRAP_ALGORITHM,
+      wrappedKey: toBase64Url(wrappedKey),
+      keyId: await getUserKeyId(userKey),
+      size: plaintext.byteLength
+    }
+  };
+}
+
+/**
+ * Recover a file's data key. Sharing it (e.g. in a link fragment) lets someone
+ * decrypt that one file without the user key.
+ */
+export async function unwrapDataKey(encryption: FileEncryption, userKey: string): Promise<string> {
+  const dataKey = await crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64Url(encryption.wrappedKey),
+    await importUserKey(userKey),
+    KEY_WRAP_ALGORITHM,
+    'AES-GCM',
+    true,
+    ['decrypt']
+  );
+  return toBase64Url(await crypto.subtle.exportKey('raw', dataKey));
+}
+
+/**
+ * Decrypt content with its data key. Fails if the content or key is wrong.
+ */
+export async function decryptWithDataKey(ciphertext: ArrayBuffer, iv: string, dataKey: string): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64Url(iv) }, await importDataKey(dataKey), ciphertext);
+}
+
+export async function decryptFile(ciphertext: ArrayBuffer, encryption: FileEncryption, userKey: string): Promise<ArrayBuffer> {
+  return decryptWithDataKey(ciphertext, encryption.iv, await unwrapDataKey(encryption, userKey));
+}
+
+/**
+ * Whether decrypted content of a type is safe to open inline from a blob: URL
+ */
+export function isInlineViewable(contentType: string): boolean {
+  return INLINE_CONTENT_TYPES.has(contentType.split(';')[0].trim().toLowerCase());
+}
+
+/**
+ * Type to give a Blob of decrypted content: its own when it can be opened
+ * inline, otherwise opaque data so the browser never renders it
+ */
+export function getSafeBlobType(contentType: string): string {
+  return isInlineViewable(contentType) ? contentType.split(';')[0].trim().toLowerCase() : 'application/octet-stream';
+}
+
+export function formatDecryptFragment({ src, dataKey, iv, contentType, fileName }: DecryptLinkParams): string {
+  return new URLSearchParams({ src, key: dataKey, iv, type: contentType, name: fileName }).toString();
+}
+
+/**
+ * Read a decryption link fragment. Only gateway paths are accepted as the
+ * source, so a crafted link can't send the key elsewhere.
+ */
+export function parseDecryptFragment(fragment: string): DecryptLinkParams | null {
+  const params = new URLSearchParams(fragment.replace(/^#/, ''));
+  const src = params.get('src');
+  const dataKey = params.get('key');
+  const iv = params.get('iv');
+
+  if (!src || !src.startsWith('/api/gateway/') || !dataKey || !iv || !IV_PATTERN.test(iv)) {
+    return null;
+  }
+
+  return {
+    src,
+    dataKey,
+    iv,
+    contentType: params.get('type') || 'application/octet-stream',
+    fileName: params.get('name') || 'download'
+  };
+}
+
+/**
+ * Encrypt a file and upload it through /api/upload with a pinning secret.
+ * Resolves to the upload response body.
+ */
+export async function uploadEncryptedFile(
+  file: Blob,
+  { apiKey, userKey, baseUrl = 'https://thirdstorage.cloud', fileName, contentType, tags, visibility }: EncryptedUploadOptions
+): Promise<unknown> {
+  if (file.size > MAX_ENCRYPTED_FILE_SIZE) {
+    throw new Error(`Encrypted uploads are limited to ${Math.round(MAX_ENCRYPTED_FILE_SIZE / (1024 * 1024))}MB`);
+  }
+
+  const name = fileName || (file as File).name;
+  if (!name) {
+    throw new Error('fileName is required when uploading a Blob');
+  }
+
+  const { ciphertext, encryption } = await encryptFile(file, userKey);
+
+  // The encryption field must precede the file so the upload is stored as opaque data
+  const formData = new FormData();
+  formData.append('encryption', JSON.stringify(encryption));
+  if (tags) formData.append('tags', tags.join(','));
+  if (visibility) formData.append('visibility', visibility);
+  formData.append('file', new Blob([ciphertext], { type: contentType || file.type || 'application/octet-stream' }), name);
+
+  const response = await fetch(`${baseUrl}/api/upload`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${apiKey}` },
+    body: formData
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `Upload failed with status ${response.status}`);
+  }
+
+  return result;
+}
\ No newline at end of file
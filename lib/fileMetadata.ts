@@ -0,0 +1,97 @@
+// Tags, custom metadata and visibility attached to files
+
+export const MAX_FILE_TAGS = 20;
+export const MAX_TAG_LENGTH = 50;
+export const MAX_METADATA_KEYS = 50;
+export const MAX_METADATA_BYTES = 8 * 1024;
+
+// Tags are stored lowercase so `tag=Invoices` and `tag=invoices` match the same files
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_.:-]*$/;
+// Keys are restricted so they can be used in `meta.<key>=` query parameters
+export const METADATA_KEY_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export type FileMetadata = Record<string, unknown>;
+
+// Private content is only served through signed share links
+export const FILE_VISIBILITIES = ['public', 'private'] as const;
+export type FileVisibility = typeof FILE_VISIBILITIES[number];
+
+export type ParseResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; error: string };
+
+/**
+ * Parse tags from an array of strings or a comma-separated string,
+ * normalizing them to lowercase and dropping duplicates
+ */
+export function parseTags(input: unknown): ParseResult<string[]> {
+  const values = typeof input === 'string' ? input.split(',') : input;
+
+  if (!Array.isArray(values) || values.some(value => typeof value !== 'string')) {
+    return { valid: false, error: 'Tags must be a list of strings' };
+  }
+
+  const tags = [...new Set((values as string[])
+    .map(value => value.trim().toLowerCase())
+    .filter(value => value.length > 0))];
+
+  if (tags.length > MAX_FILE_TAGS) {
+    return { valid: false, error: `A file can have at most ${MAX_FILE_TAGS} tags` };
+  }
+
+  const invalid = tags.find(tag => tag.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(tag));
+  if (invalid) {
+    return {
+      valid: false,
+      error: `Invalid tag '${invalid.substring(0, MAX_TAG_LENGTH)}'. Tags may contain letters, numbers, '_', '.', ':' and '-', up to ${MAX_TAG_LENGTH} characters`
+    };
+  }
+
+  return { valid: true, value: tags };
+}
+
+/**
+ * Parse metadata from an object or its JSON encoding. Values can be any JSON.
+ */
+export function parseMetadata(input: unknown): ParseResult<FileMetadata> {
+  let metadata = input;
+
+  if (typeof input === 'string') {
+    try {
+      metadata = JSON.parse(input);
+    } catch {
+      return { valid: false, error: 'Metadata must be valid JSON' };
+    }
+  }
+
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    return { valid: false, error: 'Metadata must be a JSON object' };
+  }
+
+  const keys = Object.keys(metadata);
+  if (keys.length > MAX_METADATA_KEYS) {
+    return { valid: false, error: `Metadata can have at most ${MAX_METADATA_KEYS} keys` };
+  }
+
+  const invalidKey = keys.find(key => !METADATA_KEY_PATTERN.test(key));
+  if (invalidKey !== undefined) {
+    return {
+      valid: false,
+      error: `Invalid metadata key '${invalidKey.substring(0, 64)}'. Keys may contain letters, numbers, '_' and '-', up to 64 characters`
+    };
+  }
+
+  if (Buffer.byteLength(JSON.stringify(metadata)) > MAX_METADATA_BYTES) {
+    return { valid: false, error: `Metadata must be at most ${MAX_METADATA_BYTES / 1024}KB` };
+  }
+
+  return { valid: true, value: metadata as FileMetadata };
+}
+
+export function parseVisibility(input: unknown): ParseResult<FileVisibility> {
+  if (!FILE_VISIBILITIES.includes(input as FileVisibility)) {
+    return { valid: false, error: `Visibility must be one of: ${FILE_VISIBILITIES.join(', ')}` };
+  }
+
+  return { valid: true, value: input as FileVisibility };
+}
\ No newline at end of file
@@ -1,21 +1,249 @@
 import { supabaseServer } from './supabase-server';
 import { Database, formatFileSize } from './supabase';
+import { CodexService } from './codexService';
+import { JobQueue, type JobResult } from './jobQueue';
+import { MAX_FILE_TAGS, type FileMetadata, type FileVisibility } from './fileMetadata';
+import type { FileEncryption } from './fileEncryption';
+
+// Pending files are reserved before their content is uploaded and
+// are hidden until committed; trashed files are hidden until restored or purged
+export type FileStatus = 'pending' | 'active' | 'trashed';
 
 export type FileRecord = Database['public']['Tables']['files']['Row'] & {
+  status?: FileStatus;
   upload_method?: string;
   pinning_secret_id?: string;
+  manifest_id?: string | null;
+  path?: string | null;
+  source_network?: string | null;
+  source_id?: string | null;
+  tags?: string[];
+  metadata?: FileMetadata;
+  visibility?: FileVisibility;
+  // Set for content the client encrypted before upload
+  encryption?: FileEncryption | null;
+  collection_id?: string | null;
+  deleted_at?: string | null;
+  // Trashed files stop counting toward storage once this is set
+  quota_released?: boolean;
 };
 
 export type FileInsert = Database['public']['Tables']['files']['Insert'] & {
+  status?: FileStatus;
   upload_method?: string;
   pinning_secret_id?: string;
+  manifest_id?: string | null;
+  path?: string | null;
+  source_network?: string | null;
+  source_id?: string | null;
+  tags?: string[];
+  metadata?: FileMetadata;
+  visibility?: FileVisibility;
+  encryption?: FileEncryption | null;
+  collection_id?: string | null;
 };
 
+// User-supplied attributes, set at upload time or updated afterwards
+export interface FileAttributes {
+  tags?: string[];
+  metadata?: FileMetadata;
+  visibility?: FileVisibility;
+}
+
+// Changes a user can make to one of their files
+export interface FileUpdate extends FileAttributes {
+  filename?: string;
+  content_type?: string;
+  // null moves the file out of any collection
+  collection_id?: string | null;
+}
+
+// Most file IDs a single bulk operation may name
+export const MAX_BULK_FILE_IDS = 100;
+
+// Tag changes applied to each file in a bulk operation
+export interface FileTagChanges {
+  add?: string[];
+  remove?: string[];
+}
+
+// Outcome of a bulk operation for one of the file IDs it was given
+export interface BulkFileResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+// Everything needed to reserve a file before its content, and so its CID, exists
+export type PendingFileInsert = Omit<FileInsert, 'cid' | 'status'>;
+
+// Pending files older than this belong to uploads that never finished
+export const PENDING_FILE_TIMEOUT_MS = 6 * 60 * 60 * 1000;
+
+export const DIRECTORY_MANIFEST_TYPE = 'thirdstorage/directory';
+export const DIRECTORY_INDEX_FILE = 'index.html';
+
+export interface DirectoryManifestEntry {
+  path: string;
+  cid: string;
+  size: number;
+  contentType: string;
+}
+
+/**
+ * JSON document stored on Codex describing a directory upload.
+ * Its CID is the directory's root CID.
+ */
+export interface DirectoryManifest {
+  type: typeof DIRECTORY_MANIFEST_TYPE;
+  version: 1;
+  name: string;
+  entries: DirectoryManifestEntry[];
+}
+
+export interface DirectoryManifestRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  cid: string;
+  file_count: number;
+  total_size: number;
+  upload_method: string;
+  pinning_secret_id: string | null;
+  // Set for exported collections, which list their entries themselves
+  source_collection_id?: string | null;
+  entries?: DirectoryManifestEntry[] | null;
+  created_at: string;
+}
+
+// What a path inside a directory resolves to
+export type DirectoryFile = Pick<FileRecord, 'cid' | 'filename' | 'content_type' | 'file_size'>;
+
+export interface SaveDirectoryParams {
+  userId: string;
+  name: string;
+  cid: string;
+  uploadMethod: string;
+  pinningSecretId?: string;
+  entries: DirectoryManifestEntry[];
+  // Pending file reserved for each entry, in the same order
+  pendingFileIds: string[];
+  // Applied to every file in the directory
+  attributes?: FileAttributes;
+}
+
+export interface SavedDirectory {
+  manifest: DirectoryManifestRecord;
+  files: FileRecord[];
+}
+
+// CID awaiting removal from the Codex node
+export interface PendingUnpinRecord {
+  cid: string;
+  user_id: string | null;
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+  last_attempt_at: string | null;
+  unpinning_at: string | null;
+}
+
 export interface FileWithFormatted extends FileRecord {
   formattedSize: string;
   formattedDate: string;
 }
 
+export const FILE_LIST_SORT_FIELDS = [
+  'upload_date',
+  'filename',
+  'file_size',
+  'content_type',
+  'upload_method',
+  'pinning_secret_id'
+] as const;
+
+export type FileListSortField = typeof FILE_LIST_SORT_FIELDS[number];
+
+export const DEFAULT_FILE_LIST_LIMIT = 50;
+export const MAX_FILE_LIST_LIMIT = 200;
+
+export interface FileListFilters {
+  // Case-insensitive substring of the filename
+  search?: string;
+  // Exact type, or a prefix such as "image/*"
+  contentType?: string;
+  uploadMethod?: string;
+  pinningSecretId?: string;
+  minSize?: number;
+  maxSize?: number;
+  uploadedAfter?: string;
+  uploadedBefore?: string;
+  // Files must have every one of these tags
+  tags?: string[];
+  // Metadata values, compared as text, that files must have
+  metadata?: Record<string, string>;
+  // Files directly in this collection, or in none when null
+  collectionId?: string | null;
+}
+
+export interface FileListOptions extends FileListFilters {
+  sort?: FileListSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  // From the previous page's nextCursor; must be used with the same filters and sort
+  cursor?: FileListCursor;
+}
+
+// Position after the last file of a page: its sort value, with its id breaking ties
+export interface FileListCursor {
+  value: string | number | null;
+  id: string;
+}
+
+export interface FileListPage {
+  files: FileWithFormatted[];
+  // Files matching the filters across all pages
+  total: number;
+  nextCursor: string | null;
+}
+
+export function formatFile(file: FileRecord): FileWithFormatted {
+  return {
+    ...file,
+    formattedSize: formatFileSize(file.file_size),
+    formattedDate: new Date(file.upload_date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    })
+  };
+}
+
+/**
+ * Quote a value for use inside a PostgREST `or` filter
+ */
+function quoteFilterValue(value: string | number): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Escape LIKE wildcards so user input only matches literally
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * One result per requested ID, in request order. IDs that weren't processed
+ * and have no other error are files the user doesn't have.
+ */
+export function toBulkResults(fileIds: string[], processed: string[], errors: Map<string, string> = new Map()): BulkFileResult[] {
+  const done = new Set(processed);
+  return fileIds.map(id => done.has(id)
+    ? { id, success: true }
+    : { id, success: false, error: errors.get(id) || 'File not found or access denied' });
+}
+
 export class FileService {
   /**
    * Save uploaded file to database
@@ -41,6 +269,313 @@ export class FileService {
     }
   }
 
+  /**
+   * Reserve a file before its content is uploaded (phase one of an upload).
+   * The size may be a placeholder until recordPendingContent() sets it.
+   */
+  static async reservePendingFile(fileData: PendingFileInsert): Promise<FileRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('files')
+        .insert({ ...fileData, status: 'pending', cid: null })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error reserving file:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in reservePendingFile:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record the CID of a pending file's content as soon as Codex returns it,
+   * so the content can be unpinned if the upload is never committed
+   */
+  static async recordPendingContent(fileId: string, cid: string, fileSize: number): Promise<boolean> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('files')
+        .update({ cid, file_size: fileSize })
+        .eq('id', fileId)
+        .eq('status', 'pending')
+        .select('id');
+
+      if (error) {
+        console.error('Error recording pending file content:', error);
+        return false;
+      }
+
+      return (data || []).length > 0;
+    } catch (error) {
+      console.error('Error in recordPendingContent:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Make a pending file visible (phase two of an upload).
+   * The upload date becomes the commit time unless it should be preserved (e.g. migrated content).
+   */
+  static async commitPendingFile(
+    fileId: string,
+    {
+      preserveUploadDate = false,
+      attributes = {},
+      encryption = null
+    }: { preserveUploadDate?: boolean; attributes?: FileAttributes; encryption?: FileEncryption | null } = {}
+  ): Promise<FileRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('files')
+        .update({
+          ...attributes,
+          ...(encryption ? { encryption } : {}),
+          status: 'active',
+          ...(preserveUploadDate ? {} : { upload_date: new Date().toISOString() })
+        })
+        .eq('id', fileId)
+        .eq('status', 'pending')
+        .not('cid', 'is', null)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error committing file:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in commitPendingFile:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Roll back uploads that won't be committed: delete their pending files and
+   * unpin any content already stored. `extraCids` covers content stored
+   * without a file of its own, such as a directory manifest.
+   */
+  static async abortPendingFiles(fileIds: string[], extraCids: string[] = []): Promise<void> {
+    let cids = [...extraCids];
+
+    try {
+      if (fileIds.length > 0) {
+        const { data: deleted, error } = await supabaseServer
+          .from('files')
+          .delete()
+          .in('id', fileIds)
+          .eq('status', 'pending')
+          .select('cid');
+
+        if (error) {
+          // The sweeper deletes them once they time out
+          console.error('Error deleting pending files:', error);
+        }
+
+        cids = cids.concat((deleted || []).map(file => file.cid).filter(Boolean));
+      }
+    } catch (error) {
+      console.error('Error in abortPendingFiles:', error);
+    }
+
+    if (cids.length > 0) {
+      await this.enqueueUnpin(cids);
+    }
+  }
+
+  /**
+   * Clean up pending files left by uploads that never finished (e.g. a crash
+   * between storing content and committing it). Returns the number removed.
+   */
+  static async sweepPendingFiles(): Promise<number> {
+    try {
+      const cutoff = new Date(Date.now() - PENDING_FILE_TIMEOUT_MS).toISOString();
+      const { data: deleted, error } = await supabaseServer
+        .from('files')
+        .delete()
+        .eq('status', 'pending')
+        .lt('created_at', cutoff)
+        .select('cid');
+
+      if (error) {
+        console.error('Error sweeping pending files:', error);
+        return 0;
+      }
+
+      const removed = deleted || [];
+      const cids = removed.map(file => file.cid).filter(Boolean);
+      if (cids.length > 0) {
+        await this.enqueueUnpin(cids);
+      }
+
+      if (removed.length > 0) {
+        console.log(`Swept ${removed.length} abandoned pending files (${cids.length} unpinned)`);
+      }
+
+      return removed.length;
+    } catch (error) {
+      console.error('Error in sweepPendingFiles:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Save a directory upload: the manifest row, committing the pending file reserved for each entry
+   */
+  static async saveDirectory({
+    userId,
+    name,
+    cid,
+    uploadMethod,
+    pinningSecretId,
+    entries,
+    pendingFileIds,
+    attributes = {}
+  }: SaveDirectoryParams): Promise<SavedDirectory | null> {
+    try {
+      const { data: manifest, error: manifestError } = await supabaseServer
+        .from('directory_manifests')
+        .insert({
+          user_id: userId,
+          name,
+          cid,
+          file_count: entries.length,
+          total_size: entries.reduce((total, entry) => total + entry.size, 0),
+          upload_method: uploadMethod,
+          pinning_secret_id: pinningSecretId || null
+        })
+        .select()
+        .single();
+
+      if (manifestError) {
+        console.error('Error saving directory manifest:', manifestError);
+        return null;
+      }
+
+      const { data: files, error: filesError } = await supabaseServer
+        .from('files')
+        .upsert(entries.map((entry, index) => ({
+          id: pendingFileIds[index],
+          status: 'active',
+          user_id: userId,
+          filename: entry.path.split('/').pop() || entry.path,
+          file_size: entry.size,
+          cid: entry.cid,
+          content_type: entry.contentType,
+          upload_method: uploadMethod,
+          pinning_secret_id: pinningSecretId,
+          manifest_id: manifest.id,
+          path: entry.path,
+          upload_date: new Date().toISOString(),
+          ...attributes
+        })), { onConflict: 'id' })
+        .select();
+
+      if (filesError) {
+        console.error('Error saving directory files:', filesError);
+        // Don't leave a manifest without its files behind
+        await supabaseServer.from('directory_manifests').delete().eq('id', manifest.id);
+        return null;
+      }
+
+      return { manifest, files: files || [] };
+    } catch (error) {
+      console.error('Error in saveDirectory:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Build the manifest document for a set of directory entries, sorted by path
+   */
+  static buildDirectoryManifest(name: string, entries: DirectoryManifestEntry[]): DirectoryManifest {
+    return {
+      type: DIRECTORY_MANIFEST_TYPE,
+      version: 1,
+      name,
+      entries: [...entries].sort((a, b) => a.path.localeCompare(b.path))
+    };
+  }
+
+  /**
+   * Get a directory manifest by its root CID
+   */
+  static async getDirectoryManifestByCid(cid: string): Promise<DirectoryManifestRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('directory_manifests')
+        .select('*')
+        .eq('cid', cid)
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching directory manifest:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in getDirectoryManifestByCid:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Resolve a path inside a directory to its file.
+   * An empty path, or a path naming a subdirectory, resolves to that directory's index.html.
+   */
+  static async resolveDirectoryPath(manifest: DirectoryManifestRecord, filePath: string): Promise<DirectoryFile | null> {
+    const normalizedPath = filePath.replace(/^\/+|\/+$/g, '');
+    const candidates = normalizedPath
+      ? [normalizedPath, `${normalizedPath}/${DIRECTORY_INDEX_FILE}`]
+      : [DIRECTORY_INDEX_FILE];
+
+    // Exported collections point at files stored elsewhere, so resolve from the manifest itself
+    if (manifest.entries) {
+      for (const candidate of candidates) {
+        const entry = manifest.entries.find(manifestEntry => manifestEntry.path === candidate);
+        if (entry) {
+          return {
+            cid: entry.cid,
+            filename: entry.path.split('/').pop() || entry.path,
+            content_type: entry.contentType,
+            file_size: entry.size
+          };
+        }
+      }
+      return null;
+    }
+
+    try {
+      const { data, error } = await supabaseServer
+        .from('files')
+        .select('*')
+        .eq('manifest_id', manifest.id)
+        .eq('status', 'active')
+        .in('path', candidates);
+
+      if (error) {
+        console.error('Error resolving directory path:', error);
+        return null;
+      }
+
+      // Prefer an exact match over a directory index
+      return (data || []).sort((a, b) => candidates.indexOf(a.path) - candidates.indexOf(b.path))[0] || null;
+    } catch (error) {
+      console.error('Error in resolveDirectoryPath:', error);
+      return null;
+    }
+  }
+
   /**
    * Get all files for a user
    */
@@ -50,6 +585,7 @@ export class FileService {
         .from('files')
         .select('*')
         .eq('user_id', userId)
+        .eq('status', 'active')
         .order('upload_date', { ascending: false });
 
       if (error) {
@@ -57,15 +593,7 @@ export class FileService {
         return [];
       }
 
-      return (data || []).map(file => ({
-        ...file,
-        formattedSize: formatFileSize(file.file_size),
-        formattedDate: new Date(file.upload_date).toLocaleDateString('en-US', {
-          year: 'numeric',
-          month: '2-digit',
-          day: '2-digit'
-        })
-      }));
+      return (data || []).map(formatFile);
     } catch (error) {
       console.error('Error in getUserFiles:', error);
       return [];
@@ -73,60 +601,298 @@ export class FileService {
   }
 
   /**
-   * Delete a file by ID
+   * Get one page of a user's files matching the filters, with the total number of matches.
+   * Pages are keyed on the sort value, so files added or removed while paging don't shift them.
    */
-  static async deleteFile(fileId: string, userId: string): Promise<boolean> {
+  static async listUserFiles(userId: string, options: FileListOptions = {}): Promise<FileListPage | null> {
+    const sort = options.sort || 'upload_date';
+    const ascending = options.order === 'asc';
+    const limit = Math.min(Math.max(options.limit || DEFAULT_FILE_LIST_LIMIT, 1), MAX_FILE_LIST_LIMIT);
+
+    const filtered = (columns: string, countOnly: boolean) => {
+      let query = supabaseServer
+        .from('files')
+        .select(columns, countOnly ? { count: 'exact', head: true } : undefined)
+        .eq('user_id', userId)
+        .eq('status', 'active');
+
+      if (options.search) {
+        query = query.ilike('filename', `%${escapeLikePattern(options.search)}%`);
+      }
+      if (options.contentType) {
+        query = options.contentType.endsWith('/*')
+          ? query.ilike('content_type', `${escapeLikePattern(options.contentType.slice(0, -1))}%`)
+          : query.eq('content_type', options.contentType);
+      }
+      if (options.uploadMethod) {
+        query = query.eq('upload_method', options.uploadMethod);
+      }
+      if (options.pinningSecretId) {
+        query = query.eq('pinning_secret_id', options.pinningSecretId);
+      }
+      if (options.minSize !== undefined) {
+        query = query.gte('file_size', options.minSize);
+      }
+      if (options.maxSize !== undefined) {
+        query = query.lte('file_size', options.maxSize);
+      }
+      if (options.uploadedAfter) {
+        query = query.gte('upload_date', options.uploadedAfter);
+      }
+      if (options.uploadedBefore) {
+        query = query.lt('upload_date', options.uploadedBefore);
+      }
+      if (options.tags && options.tags.length > 0) {
+        query = query.contains('tags', options.tags);
+      }
+      for (const [key, value] of Object.entries(options.metadata || {})) {
+        query = query.eq(`metadata->>${key}`, value);
+      }
+      if (options.collectionId !== undefined) {
+        query = options.collectionId === null
+          ? query.is('collection_id', null)
+          : query.eq('collection_id', options.collectionId);
+      }
+
+      return query;
+    };
+
     try {
-      // First get the file details to retrieve the CID for unpinning
-      const { data: fileData, error: fetchError } = await supabaseServer
+      // Nulls sort last in both directions, then ties are broken by id
+      let pageQuery = filtered('*', false)
+        .order(sort, { ascending, nullsFirst: false })
+        .order('id', { ascending })
+        .limit(limit + 1);
+
+      if (options.cursor) {
+        const { value, id } = options.cursor;
+        const after = ascending ? 'gt' : 'lt';
+        const sameValueAfter = `id.${after}.${quoteFilterValue(id)}`;
+
+        pageQuery = value === null
+          ? pageQuery.is(sort, null).filter('id', after, id)
+          : pageQuery.or([
+            `${sort}.${after}.${quoteFilterValue(value)}`,
+            `and(${sort}.eq.${quoteFilterValue(value)},${sameValueAfter})`,
+            `${sort}.is.null`
+          ].join(','));
+      }
+
+      const [{ data, error }, { count, error: countError }] = await Promise.all([
+        pageQuery,
+        filtered('id', true)
+      ]);
+
+      if (error || countError) {
+        console.error('Error listing user files:', error || countError);
+        return null;
+      }
+
+      const rows = (data || []) as unknown as FileRecord[];
+      const files = rows.slice(0, limit);
+      const last = files[files.length - 1];
+
+      return {
+        files: files.map(formatFile),
+        total: count || 0,
+        nextCursor: rows.length > limit && last
+          ? this.encodeListCursor({ value: (last[sort as keyof FileRecord] ?? null) as FileListCursor['value'], id: last.id })
+          : null
+      };
+    } catch (error) {
+      console.error('Error in listUserFiles:', error);
+      return null;
+    }
+  }
+
+  static encodeListCursor(cursor: FileListCursor): string {
+    return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+  }
+
+  /**
+   * Parse a cursor from a previous page. Returns null if it is malformed.
+   */
+  static decodeListCursor(cursor: string): FileListCursor | null {
+    try {
+      const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (!Array.isArray(parsed) || parsed.length !== 2 || typeof parsed[1] !== 'string') {
+        return null;
+      }
+
+      const [value, id] = parsed;
+      if (value !== null && typeof value !== 'string' && typeof value !== 'number') {
+        return null;
+      }
+
+      return { value, id };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Update a user's file. Attributes that are given replace the existing ones.
+   * Returns null if the file doesn't exist or isn't the user's.
+   */
+  static async updateFile(fileId: string, userId: string, updates: FileUpdate): Promise<FileRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
         .from('files')
-        .select('cid, filename')
+        .update(updates)
         .eq('id', fileId)
         .eq('user_id', userId)
-        .single();
+        .eq('status', 'active')
+        .select()
+        .maybeSingle();
 
-      if (fetchError) {
-        console.error('Error fetching file for deletion:', fetchError);
-        return false;
+      if (error) {
+        console.error('Error updating file:', error);
+        return null;
       }
 
-      if (!fileData) {
-        console.error('File not found or access denied');
-        return false;
+      return data;
+    } catch (error) {
+      console.error('Error in updateFile:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Move a user's files into a collection (null for the root).
+   * Returns null if the update itself failed.
+   */
+  static async moveFiles(fileIds: string[], userId: string, collectionId: string | null): Promise<BulkFileResult[] | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('files')
+        .update({ collection_id: collectionId })
+        .in('id', fileIds)
+        .eq('user_id', userId)
+        .eq('status', 'active')
+        .select('id');
+
+      if (error) {
+        console.error('Error moving files:', error);
+        return null;
       }
 
-      // Attempt to unpin the file from Codex network
-      try {
-        const unpinResponse = await fetch(`${process.env.CODEX_API_URL || 'http://localhost:8080'}/api/codex/v1/data/${fileData.cid}`, {
-          method: 'DELETE',
-          headers: {
-            'Content-Type': 'application/json',
-          }
-        });
+      return toBulkResults(fileIds, (data || []).map(file => file.id));
+    } catch (error) {
+      console.error('Error in moveFiles:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Add and remove tags on a user's files, keeping each file's other tags.
+   * Returns null if the files couldn't be read.
+   */
+  static async tagFiles(fileIds: string[], userId: string, changes: FileTagChanges): Promise<BulkFileResult[] | null> {
+    try {
+      const { data: files, error } = await supabaseServer
+        .from('files')
+        .select('id, tags')
+        .in('id', fileIds)
+        .eq('user_id', userId)
+        .eq('status', 'active');
 
-        if (!unpinResponse.ok) {
-          console.warn(`Failed to unpin file ${fileData.cid} from Codex network:`, unpinResponse.statusText);
-          // Continue with database deletion even if unpinning fails
+      if (error) {
+        console.error('Error fetching files to tag:', error);
+        return null;
+      }
+
+      const removed = new Set(changes.remove || []);
+      const updated: string[] = [];
+      const errors = new Map<string, string>();
+
+      // Each file keeps its own tags, so they're written one at a time
+      for (const file of (files || []) as { id: string; tags?: string[] }[]) {
+        const tags = [...new Set([...(file.tags || []), ...(changes.add || [])])]
+          .filter(tag => !removed.has(tag));
+
+        if (tags.length > MAX_FILE_TAGS) {
+          errors.set(file.id, `A file can have at most ${MAX_FILE_TAGS} tags`);
+        } else if (await this.updateFile(file.id, userId, { tags })) {
+          updated.push(file.id);
         } else {
-          console.log(`Successfully unpinned file ${fileData.filename} (${fileData.cid}) from Codex network`);
+          errors.set(file.id, 'Failed to update tags');
         }
-      } catch (unpinError) {
-        console.warn(`Error unpinning file ${fileData.cid}:`, unpinError);
-        // Continue with database deletion even if unpinning fails
       }
 
-      // Delete file record from database
-      const { error } = await supabaseServer
+      return toBulkResults(fileIds, updated, errors);
+    } catch (error) {
+      console.error('Error in tagFiles:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Copy files into a collection (null for the root). Copies share the original's
+   * content, so they don't use any more of the user's storage.
+   */
+  static async copyFiles(files: FileRecord[], collectionId: string | null): Promise<FileRecord[] | null> {
+    if (files.length === 0) {
+      return [];
+    }
+
+    try {
+      const { data, error } = await supabaseServer
         .from('files')
-        .delete()
+        .insert(files.map(file => ({
+          user_id: file.user_id,
+          filename: file.filename,
+          file_size: file.file_size,
+          cid: file.cid,
+          content_type: file.content_type,
+          upload_method: file.upload_method,
+          pinning_secret_id: file.pinning_secret_id || null,
+          source_network: file.source_network || null,
+          source_id: file.source_id || null,
+          tags: file.tags || [],
+          metadata: file.metadata || {},
+          visibility: file.visibility || 'public',
+          ...(file.encryption ? { encryption: file.encryption } : {}),
+          collection_id: collectionId,
+          status: 'active'
+        })))
+        .select();
+
+      if (error) {
+        console.error('Error copying files:', error);
+        return null;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in copyFiles:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a file by ID, moving it to the trash. Its content stays pinned
+   * until the trash is purged (see TrashService).
+   */
+  static async deleteFile(fileId: string, userId: string): Promise<boolean> {
+    try {
+      const { data: deleted, error } = await supabaseServer
+        .from('files')
+        .update({ status: 'trashed', deleted_at: new Date().toISOString() })
         .eq('id', fileId)
-        .eq('user_id', userId); // Ensure user can only delete their own files
+        .eq('user_id', userId) // Ensure user can only delete their own files
+        .eq('status', 'active')
+        .select('id');
 
       if (error) {
         console.error('Error deleting file from database:', error);
         return false;
       }
 
+      if (!deleted || deleted.length === 0) {
+        console.error('File not found or access denied');
+        return false;
+      }
+
       return true;
     } catch (error) {
       console.error('Error in deleteFile:', error);
@@ -134,6 +900,227 @@ export class FileService {
     }
   }
 
+  /**
+   * Delete several of a user's files, moving them to the trash.
+   * Returns null if the update itself failed.
+   */
+  static async deleteFiles(fileIds: string[], userId: string): Promise<BulkFileResult[] | null> {
+    try {
+      const { data: deleted, error } = await supabaseServer
+        .from('files')
+        .update({ status: 'trashed', deleted_at: new Date().toISOString() })
+        .in('id', fileIds)
+        .eq('user_id', userId)
+        .eq('status', 'active')
+        .select('id');
+
+      if (error) {
+        console.error('Error deleting files from database:', error);
+        return null;
+      }
+
+      return toBulkResults(fileIds, (deleted || []).map(file => file.id));
+    } catch (error) {
+      console.error('Error in deleteFiles:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record content as awaiting unpinning and queue a job for each CID.
+   * The ledger entry stays until Codex confirms the delete, so nothing is
+   * lost if queueing fails; the reconciliation pass requeues it.
+   */
+  static async enqueueUnpin(cids: string[], userId?: string): Promise<boolean> {
+    // Content another file still references stays pinned
+    const referenced = await this.getReferencedCids(cids);
+    const uniqueCids = [...new Set(cids)].filter(cid => !referenced.has(cid));
+    if (uniqueCids.length === 0) {
+      return true;
+    }
+
+    try {
+      const { error } = await supabaseServer
+        .from('pending_unpins')
+        .upsert(uniqueCids.map(cid => ({ cid, user_id: userId || null })), {
+          onConflict: 'cid',
+          ignoreDuplicates: true
+        });
+
+      if (error) {
+        console.error('Error recording pending unpins:', error);
+      }
+    } catch (error) {
+      console.error('Error in enqueueUnpin:', error);
+    }
+
+    return this.queueUnpinJobs(uniqueCids, userId);
+  }
+
+  /**
+   * Get which of the given CIDs are still referenced by a file or directory manifest.
+   * Lookup failures return an empty set; unpin jobs check again before unpinning.
+   */
+  static async getReferencedCids(cids: string[]): Promise<Set<string>> {
+    if (cids.length === 0) {
+      return new Set();
+    }
+
+    try {
+      const { data, error } = await supabaseServer
+        .from('content_refs')
+        .select('cid')
+        .in('cid', [...new Set(cids)])
+        .gt('ref_count', 0);
+
+      if (error) {
+        console.error('Error fetching content references:', error);
+        return new Set();
+      }
+
+      return new Set((data || []).map(ref => ref.cid));
+    } catch (error) {
+      console.error('Error in getReferencedCids:', error);
+      return new Set();
+    }
+  }
+
+  /**
+   * Find another of a user's files with the same content, if any
+   */
+  static async findDuplicateFile(userId: string, cid: string, excludeFileId: string): Promise<FileRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('files')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('cid', cid)
+        .eq('status', 'active')
+        .neq('id', excludeFileId)
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error checking for duplicate file:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in findDuplicateFile:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Queue unpin jobs for CIDs already in the ledger. CIDs with a job in progress are skipped.
+   */
+  static async queueUnpinJobs(cids: string[], userId?: string): Promise<boolean> {
+    const jobs = await Promise.all(cids.map(cid =>
+      JobQueue.enqueue('file.unpin', { cid }, { userId, dedupeKey: `unpin:${cid}` })
+    ));
+
+    const failed = cids.filter((_, index) => !jobs[index]);
+    if (failed.length > 0) {
+      console.warn(`Failed to queue unpinning of ${failed.length} CIDs:`, failed);
+    }
+
+    return failed.length === 0;
+  }
+
+  /**
+   * Unpin content from the Codex node and clear its ledger entry.
+   * Content that is already gone counts as unpinned.
+   */
+  static async unpinContent(cid: string, signal?: AbortSignal): Promise<JobResult> {
+    // Checked again at run time: the same content may have been uploaded since the job was queued.
+    // The claim also blocks new references to the CID until the delete below has finished.
+    const { data: claimed, error: claimError } = await supabaseServer
+      .rpc('claim_content_unpin', { p_cid: cid });
+
+    if (claimError) {
+      return { status: 'retry', error: 'Failed to check content references' };
+    }
+
+    if (!claimed) {
+      console.log(`Skipping unpin of ${cid}: still referenced`);
+      return { status: 'completed' };
+    }
+
+    const config = CodexService.getConfig();
+    if (!config) {
+      await this.recordUnpinFailure(cid, 'Storage service configuration missing');
+      return { status: 'retry', error: 'Storage service configuration missing' };
+    }
+
+    let failure: string;
+    try {
+      const unpinResponse = await CodexService.deleteData(config, cid, signal);
+      await unpinResponse.body?.cancel();
+
+      if (unpinResponse.ok || unpinResponse.status === 404) {
+        console.log(`Successfully unpinned ${cid} from Codex network`);
+        await supabaseServer.from('pending_unpins').delete().eq('cid', cid);
+        return { status: 'completed' };
+      }
+
+      console.warn(`Failed to unpin ${cid} from Codex network:`, unpinResponse.statusText);
+      failure = `Codex responded with ${unpinResponse.status}`;
+    } catch (unpinError) {
+      console.warn(`Error unpinning ${cid}:`, unpinError);
+      failure = 'Storage service unavailable';
+    }
+
+    await this.recordUnpinFailure(cid, failure);
+    return { status: 'retry', error: failure };
+  }
+
+  private static async recordUnpinFailure(cid: string, error: string): Promise<void> {
+    try {
+      const { data: entry } = await supabaseServer
+        .from('pending_unpins')
+        .select('attempts')
+        .eq('cid', cid)
+        .maybeSingle();
+
+      await supabaseServer
+        .from('pending_unpins')
+        .upsert({
+          cid,
+          attempts: (entry?.attempts || 0) + 1,
+          last_error: error,
+          last_attempt_at: new Date().toISOString(),
+          unpinning_at: null
+        }, { onConflict: 'cid' });
+    } catch (error) {
+      console.error('Error in recordUnpinFailure:', error);
+    }
+  }
+
+  /**
+   * Get CIDs still awaiting unpinning, oldest first
+   */
+  static async getPendingUnpins(limit: number = 1000): Promise<PendingUnpinRecord[]> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('pending_unpins')
+        .select('*')
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching pending unpins:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getPendingUnpins:', error);
+      return [];
+    }
+  }
+
   /**
    * Get file by ID
    */
@@ -144,6 +1131,7 @@ export class FileService {
         .select('*')
         .eq('id', fileId)
         .eq('user_id', userId)
+        .eq('status', 'active')
         .maybeSingle();
 
       if (error) {
@@ -168,6 +1156,7 @@ export class FileService {
         .select('*')
         .eq('cid', cid)
         .eq('user_id', userId)
+        .eq('status', 'active')
         .maybeSingle();
 
       if (error) {
@@ -183,21 +1172,103 @@ export class FileService {
   }
 
   /**
-   * Get user's total storage usage
+   * Whether content may only be served through a share link: no active file
+   * holds it publicly and a private file, possibly in the trash, holds it.
+   * Content no file holds is public, as before. Returns null if it couldn't be checked.
+   */
+  static async isContentPrivate(cid: string): Promise<boolean | null> {
+    try {
+      const { data: publicHolders, error: publicError } = await supabaseServer
+        .from('files')
+        .select('id')
+        .eq('cid', cid)
+        .eq('status', 'active')
+        .eq('visibility', 'public')
+        .limit(1);
+
+      if (publicError) {
+        console.error('Error checking content visibility:', publicError);
+        return null;
+      }
+      if ((publicHolders || []).length > 0) {
+        return false;
+      }
+
+      const { data: privateHolders, error: privateError } = await supabaseServer
+        .from('files')
+        .select('id')
+        .eq('cid', cid)
+        .in('status', ['active', 'trashed'])
+        .eq('visibility', 'private')
+        .limit(1);
+
+      if (privateError) {
+        console.error('Error checking content visibility:', privateError);
+        return null;
+      }
+
+      return (privateHolders || []).length > 0;
+    } catch (error) {
+      console.error('Error in isContentPrivate:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Whether one of the user's active files holds the content
+   */
+  static async userHoldsContent(userId: string, cid: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('files')
+        .select('id')
+        .eq('cid', cid)
+        .eq('user_id', userId)
+        .eq('status', 'active')
+        .limit(1);
+
+      if (error) {
+        console.error('Error checking content holder:', error);
+        return false;
+      }
+
+      return (data || []).length > 0;
+    } catch (error) {
+      console.error('Error in userHoldsContent:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get user's total storage usage. Content held by several of the user's
+   * files is counted once, and trashed files whose quota has been released
+   * not at all, matching how storage_used is maintained.
    */
   static async getUserStorageUsage(userId: string): Promise<number> {
     try {
       const { data, error } = await supabaseServer
         .from('files')
-        .select('file_size')
-        .eq('user_id', userId);
+        .select('cid, file_size')
+        .eq('user_id', userId)
+        .eq('quota_released', false);
 
       if (error) {
         console.error('Error calculating storage usage:', error);
         return 0;
       }
 
-      return (data || []).reduce((total, file) => total + file.file_size, 0);
+      const counted = new Set<string>();
+      return (data || []).reduce((total, file) => {
+        // Pending files without content yet are charged for their reservation
+        if (!file.cid) {
+          return total + file.file_size;
+        }
+        if (counted.has(file.cid)) {
+          return total;
+        }
+        counted.add(file.cid);
+        return total + file.file_size;
+      }, 0);
     } catch (error) {
       console.error('Error in getUserStorageUsage:', error);
       return 0;
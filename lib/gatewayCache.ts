@@ -0,0 +1,247 @@
+// On-disk content cache for the public gateway
+// Content is addressed by CID and never changes, so entries never need revalidation
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import type { ByteRange } from './httpRange';
+
+const GATEWAY_CACHE_DIR = process.env.GATEWAY_CACHE_DIR || path.join(os.tmpdir(), 'thirdstorage-gateway-cache');
+const DEFAULT_CACHE_MAX_BYTES = 2 * 1024 * 1024 * 1024; // 2GB
+// Larger objects bypass the cache so a single file can't flush everything else
+const MAX_OBJECT_FRACTION = 0.25;
+
+interface CacheEntry {
+  key: string;
+  size: number;
+  filePath: string;
+}
+
+export interface GatewayCacheEntry {
+  size: number;
+  filePath: string;
+}
+
+export interface GatewayCacheStats {
+  enabled: boolean;
+  entries: number;
+  sizeBytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  hitRatio: number;
+}
+
+class GatewayCache {
+  // Map iteration order doubles as LRU order: least recently used first
+  private entries = new Map<string, CacheEntry>();
+  private pendingFills = new Map<string, Promise<GatewayCacheEntry | null>>();
+  private sizeBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private ready: Promise<void> | null = null;
+
+  constructor(private directory: string, private maxBytes: number) {}
+
+  // CIDs come from the request URL, so file names are derived from a hash
+  private getKey(cid: string): string {
+    return crypto.createHash('sha256').update(cid).digest('hex');
+  }
+
+  /**
+   * Create the cache directory and index entries left by a previous process
+   */
+  private ensureReady(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.loadExistingEntries();
+    }
+    return this.ready;
+  }
+
+  private async loadExistingEntries(): Promise<void> {
+    try {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      const names = await fs.promises.readdir(this.directory);
+      const existing: (CacheEntry & { modifiedAt: number })[] = [];
+
+      for (const name of names) {
+        const filePath = path.join(this.directory, name);
+
+        // Partial downloads from an interrupted fill are discarded
+        if (name.endsWith('.tmp')) {
+          await fs.promises.rm(filePath, { force: true });
+          continue;
+        }
+
+        const stats = await fs.promises.stat(filePath);
+        existing.push({ key: name, size: stats.size, filePath, modifiedAt: stats.mtimeMs });
+      }
+
+      // Oldest first, matching LRU order
+      existing.sort((a, b) => a.modifiedAt - b.modifiedAt);
+      for (const { key, size, filePath } of existing) {
+        this.entries.set(key, { key, size, filePath });
+        this.sizeBytes += size;
+      }
+
+      await this.evict(0);
+    } catch (error) {
+      console.error('Error loading gateway cache:', error);
+    }
+  }
+
+  /**
+   * Remove least recently used entries until `incomingBytes` more fit in the budget
+   */
+  private async evict(incomingBytes: number): Promise<void> {
+    for (const entry of this.entries.values()) {
+      if (this.sizeBytes + incomingBytes <= this.maxBytes) {
+        break;
+      }
+
+      this.entries.delete(entry.key);
+      this.sizeBytes -= entry.size;
+      await fs.promises.rm(entry.filePath, { force: true }).catch(error => {
+        console.error('Error evicting gateway cache entry:', error);
+      });
+    }
+  }
+
+  /**
+   * Whether content of the given size may be stored
+   */
+  isCacheable(size: number): boolean {
+    return this.maxBytes > 0 && size > 0 && size <= this.maxBytes * MAX_OBJECT_FRACTION;
+  }
+
+  /**
+   * Look up cached content for a CID, counting the lookup as a hit or miss
+   */
+  async get(cid: string): Promise<GatewayCacheEntry | null> {
+    if (this.maxBytes <= 0) {
+      return null;
+    }
+
+    await this.ensureReady();
+    const key = this.getKey(cid);
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry;
+  }
+
+  /**
+   * Download content into the cache. Concurrent fills for the same CID share
+   * one upstream fetch. Resolves to null when the content could not be cached
+   * (upstream error, size mismatch or disk error) so callers can fall back to
+   * fetching it directly.
+   */
+  async fill(
+    cid: string,
+    expectedSize: number,
+    fetchContent: () => Promise<Response>
+  ): Promise<GatewayCacheEntry | null> {
+    const key = this.getKey(cid);
+    const pending = this.pendingFills.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const fill = this.download(key, expectedSize, fetchContent).finally(() => {
+      this.pendingFills.delete(key);
+    });
+    this.pendingFills.set(key, fill);
+    return fill;
+  }
+
+  private async download(
+    key: string,
+    expectedSize: number,
+    fetchContent: () => Promise<Response>
+  ): Promise<GatewayCacheEntry | null> {
+    await this.ensureReady();
+
+    // Another request may have finished filling it in the meantime
+    const existing = this.entries.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const filePath = path.join(this.directory, key);
+    const tempPath = `${filePath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+
+    try {
+      const response = await fetchContent();
+      if (response.status !== 200 || !response.body) {
+        await response.body?.cancel();
+        return null;
+      }
+
+      await pipeline(
+        Readable.fromWeb(response.body as unknown as NodeReadableStream<Uint8Array>),
+        fs.createWriteStream(tempPath)
+      );
+
+      const { size } = await fs.promises.stat(tempPath);
+      if (size !== expectedSize) {
+        console.warn(`Gateway cache fill size mismatch: expected ${expectedSize} bytes, received ${size}`);
+        await fs.promises.rm(tempPath, { force: true });
+        return null;
+      }
+
+      await this.evict(size);
+      await fs.promises.rename(tempPath, filePath);
+
+      const entry: CacheEntry = { key, size, filePath };
+      this.entries.set(key, entry);
+      this.sizeBytes += size;
+      return entry;
+    } catch (error) {
+      console.error('Error filling gateway cache:', error);
+      await fs.promises.rm(tempPath, { force: true }).catch(() => {});
+      return null;
+    }
+  }
+
+  /**
+   * Stream cached content, optionally only a byte range of it
+   */
+  createReadStream(entry: GatewayCacheEntry, range?: ByteRange): ReadableStream<Uint8Array> {
+    const stream = fs.createReadStream(entry.filePath, range ? { start: range.start, end: range.end } : {});
+    return Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>;
+  }
+
+  getStats(): GatewayCacheStats {
+    const lookups = this.hits + this.misses;
+
+    return {
+      enabled: this.maxBytes > 0,
+      entries: this.entries.size,
+      sizeBytes: this.sizeBytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRatio: lookups > 0 ? this.hits / lookups : 0
+    };
+  }
+}
+
+// Set GATEWAY_CACHE_MAX_BYTES=0 to disable the cache
+const configuredMaxBytes = parseInt(process.env.GATEWAY_CACHE_MAX_BYTES || '', 10);
+
+export const gatewayCache = new GatewayCache(
+  GATEWAY_CACHE_DIR,
+  Number.isNaN(configuredMaxBytes) ? DEFAULT_CACHE_MAX_BYTES : configuredMaxBytes
+);
\ No newline at end of file
@@ -0,0 +1,258 @@
+import fs from 'fs';
+import os from 'os';
+import Stripe from 'stripe';
+import { supabaseServer } from './supabase-server';
+import { CodexService } from './codexService';
+import { MAX_FILE_SIZE } from './uploadValidation';
+
+const PROBE_TIMEOUT_MS = 5000;
+// Probes slower than this report the component as degraded
+const SLOW_PROBE_MS = 2000;
+// Reports are reused briefly so frequent HEAD checks don't hammer dependencies
+const REPORT_TTL_MS = 10 * 1000;
+
+const DISK_DEGRADED_FREE_BYTES = 1024 * 1024 * 1024; // 1GB
+const DISK_DEGRADED_FREE_PERCENT = 5;
+const CODEX_DEGRADED_USED_PERCENT = 90;
+
+export type HealthStatus = 'healthy' | 'degraded' | 'down';
+
+export interface ComponentHealth {
+  name: string;
+  status: HealthStatus;
+  // Whether the service is down when this component is down
+  critical: boolean;
+  latencyMs: number | null;
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  timestamp: string;
+  uptime: number;
+  components: {
+    database: ComponentHealth;
+    storage: ComponentHealth;
+    payments: ComponentHealth;
+    disk: ComponentHealth;
+  };
+}
+
+type ProbeResult = Omit<ComponentHealth, 'name' | 'critical' | 'latencyMs'>;
+
+let cachedReport: { report: HealthReport; expiresAt: number } | null = null;
+let pendingReport: Promise<HealthReport> | null = null;
+
+/**
+ * Time a probe, treating slow successes as degraded and exceptions as down
+ */
+async function runProbe(
+  name: string,
+  critical: boolean,
+  probe: () => Promise<ProbeResult>
+): Promise<ComponentHealth> {
+  const startTime = Date.now();
+
+  try {
+    const result = await probe();
+    const latencyMs = Date.now() - startTime;
+
+    if (result.status === 'healthy' && latencyMs > SLOW_PROBE_MS) {
+      return { name, critical, latencyMs, ...result, status: 'degraded', message: `Slow response (${latencyMs}ms)` };
+    }
+
+    return { name, critical, latencyMs, ...result };
+  } catch (error) {
+    const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+    return {
+      name,
+      critical,
+      latencyMs: Date.now() - startTime,
+      status: 'down',
+      message: timedOut ? `No response within ${PROBE_TIMEOUT_MS}ms` : 'Connection failed'
+    };
+  }
+}
+
+export class HealthService {
+  /**
+   * Check that the database answers a trivial query
+   */
+  static async checkDatabase(): Promise<ComponentHealth> {
+    return runProbe('Database', true, async () => {
+      const { error } = await supabaseServer
+        .from('users')
+        .select('id')
+        .limit(1)
+        .abortSignal(AbortSignal.timeout(PROBE_TIMEOUT_MS));
+
+      if (error) {
+        console.error('Health check database error:', error);
+        return { status: 'down', message: 'Database query failed' };
+      }
+
+      return { status: 'healthy' };
+    });
+  }
+
+  /**
+   * Check the Codex node, using /space for capacity and /debug/info as a fallback
+   */
+  static async checkStorage(): Promise<ComponentHealth> {
+    return runProbe('Storage Network (Codex)', true, async () => {
+      const config = CodexService.getConfig();
+      if (!config) {
+        return { status: 'down', message: 'Storage service is not configured' };
+      }
+
+      const request = (endpoint: string) => fetch(`${config.apiUrl}${endpoint}`, {
+        headers: { 'Authorization': config.authHeader },
+        signal: AbortSignal.timeout(PROBE_TIMEOUT_MS)
+      });
+
+      const spaceResponse = await request('/space');
+      if (spaceResponse.ok) {
+        const space = await spaceResponse.json() as {
+          totalBlocks?: number;
+          quotaMaxBytes?: number;
+          quotaUsedBytes?: number;
+          quotaReservedBytes?: number;
+        };
+        const usedPercent = space.quotaMaxBytes
+          ? Math.round(((space.quotaUsedBytes || 0) + (space.quotaReservedBytes || 0)) / space.quotaMaxBytes * 100)
+          : null;
+        const details = { ...space, usedPercent };
+
+        if (usedPercent !== null && usedPercent >= CODEX_DEGRADED_USED_PERCENT) {
+          return { status: 'degraded', message: `Node storage ${usedPercent}% full`, details };
+        }
+
+        return { status: 'healthy', details };
+      }
+
+      if (spaceResponse.status === 401) {
+        return { status: 'down', message: 'Storage service authentication failed' };
+      }
+
+      const infoResponse = await request('/debug/info');
+      if (infoResponse.ok) {
+        await infoResponse.body?.cancel();
+        return { status: 'healthy' };
+      }
+
+      return { status: 'down', message: `Storage node responded with ${infoResponse.status}` };
+    });
+  }
+
+  /**
+   * Check that the Stripe key is configured and accepted.
+   * Payments being down doesn't stop storage, so it is not critical.
+   */
+  static async checkPayments(): Promise<ComponentHealth> {
+    return runProbe('Payments (Stripe)', false, async () => {
+      const secretKey = process.env.STRIPE_SECRET_KEY;
+      if (!secretKey) {
+        return { status: 'down', message: 'Payments are not configured' };
+      }
+
+      const stripe = new Stripe(secretKey, {
+        apiVersion: '2025-06-30.basil',
+        timeout: PROBE_TIMEOUT_MS,
+        maxNetworkRetries: 0
+      });
+
+      try {
+        await stripe.balance.retrieve();
+        return { status: 'healthy' };
+      } catch (error) {
+        if (error instanceof Stripe.errors.StripeAuthenticationError) {
+          return { status: 'down', message: 'Stripe API key was rejected' };
+        }
+        if (error instanceof Stripe.errors.StripeConnectionError) {
+          return { status: 'down', message: 'Stripe is unreachable' };
+        }
+        // Other API errors (e.g. restricted key permissions) still prove the key works
+        return { status: 'degraded', message: 'Stripe returned an unexpected error' };
+      }
+    });
+  }
+
+  /**
+   * Check free space on the volume holding temporary upload data
+   */
+  static async checkDisk(): Promise<ComponentHealth> {
+    return runProbe('Upload Disk', true, async () => {
+      const stats = await fs.promises.statfs(os.tmpdir());
+
+      const totalBytes = stats.blocks * stats.bsize;
+      const freeBytes = stats.bavail * stats.bsize;
+      const freePercent = totalBytes > 0 ? Math.round(freeBytes / totalBytes * 100) : 0;
+      const details = { freeBytes, totalBytes, freePercent };
+
+      // Not even a single maximum-size upload fits
+      if (freeBytes < MAX_FILE_SIZE) {
+        return { status: 'down', message: 'Insufficient disk space for uploads', details };
+      }
+
+      if (freeBytes < DISK_DEGRADED_FREE_BYTES || freePercent < DISK_DEGRADED_FREE_PERCENT) {
+        return { status: 'degraded', message: 'Disk space is running low', details };
+      }
+
+      return { status: 'healthy', details };
+    });
+  }
+
+  /**
+   * Run every probe in parallel and derive the overall status:
+   * down if a critical component is down, degraded if anything is unhealthy.
+   */
+  static async runChecks(): Promise<HealthReport> {
+    const [database, storage, payments, disk] = await Promise.all([
+      this.checkDatabase(),
+      this.checkStorage(),
+      this.checkPayments(),
+      this.checkDisk()
+    ]);
+
+    const components = { database, storage, payments, disk };
+    const all = Object.values(components);
+
+    let status: HealthStatus = 'healthy';
+    if (all.some(component => component.critical && component.status === 'down')) {
+      status = 'down';
+    } else if (all.some(component => component.status !== 'healthy')) {
+      status = 'degraded';
+    }
+
+    return {
+      status,
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+      components
+    };
+  }
+
+  /**
+   * Get a recent health report, running the checks at most once per TTL.
+   * Concurrent callers share a single run.
+   */
+  static async getReport(): Promise<HealthReport> {
+    if (cachedReport && cachedReport.expiresAt > Date.now()) {
+      return cachedReport.report;
+    }
+
+    if (!pendingReport) {
+      pendingReport = this.runChecks()
+        .then(report => {
+          cachedReport = { report, expiresAt: Date.now() + REPORT_TTL_MS };
+          return report;
+        })
+        .finally(() => {
+          pendingReport = null;
+        });
+    }
+
+    return pendingReport;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+// Conditional request helpers for content addressed by CID
+
+// Content behind a CID never changes, so verified content can be cached forever
+export const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/**
+ * Strong entity tag for content addressed by a CID
+ */
+export function getCidETag(cid: string): string {
+  return `"${cid}"`;
+}
+
+/**
+ * Check an If-None-Match header against an entity tag using weak comparison,
+ * so W/"<cid>" from an intermediary cache also matches.
+ */
+export function matchesIfNoneMatch(header: string | undefined, etag: string): boolean {
+  if (!header) {
+    return false;
+  }
+
+  if (header.trim() === '*') {
+    return true;
+  }
+
+  return header
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .includes(etag);
+}
+
+/**
+ * Check an If-Range header against an entity tag. If-Range requires a strong
+ * match; date validators are never considered a match since we don't send
+ * Last-Modified.
+ */
+export function matchesIfRange(header: string | string[] | undefined, etag: string): boolean {
+  if (!header) {
+    return true;
+  }
+
+  return !Array.isArray(header) && header.trim() === etag;
+}
\ No newline at end of file
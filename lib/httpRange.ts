@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+
+// Requests asking for more ranges than this are served in full
+const MAX_RANGES = 20;
+
+// Inclusive byte range, as in "Content-Range: bytes start-end/size"
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export type RangeParseResult =
+  | { type: 'none' }
+  | { type: 'unsatisfiable' }
+  | { type: 'ranges'; ranges: ByteRange[] };
+
+export interface MultipartRangeLayout {
+  contentType: string;
+  partHeaders: string[];
+  trailer: string;
+  contentLength: number;
+}
+
+/**
+ * Parse a Range header against a resource of the given size.
+ * Malformed headers and unsupported units are ignored ("none") so the full
+ * resource is served. Satisfiable ranges are sorted and overlapping or
+ * adjacent ranges are coalesced, so they can be served in a single pass.
+ */
+export function parseRangeHeader(header: string | undefined, size: number): RangeParseResult {
+  if (!header) {
+    return { type: 'none' };
+  }
+
+  const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header);
+  if (!match) {
+    return { type: 'none' };
+  }
+
+  const specs = match[1].split(',').map(spec => spec.trim()).filter(Boolean);
+  if (specs.length === 0 || specs.length > MAX_RANGES) {
+    return { type: 'none' };
+  }
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = /^(\d*)-(\d*)$/.exec(spec);
+    if (!parts || (!parts[1] && !parts[2])) {
+      return { type: 'none' };
+    }
+
+    if (!parts[1]) {
+      // Suffix range: the last N bytes
+      const suffixLength = parseInt(parts[2], 10);
+      if (suffixLength > 0 && size > 0) {
+        ranges.push({ start: Math.max(0, size - suffixLength), end: size - 1 });
+      }
+      continue;
+    }
+
+    const start = parseInt(parts[1], 10);
+    const end = parts[2] ? parseInt(parts[2], 10) : Infinity;
+    if (end < start) {
+      return { type: 'none' };
+    }
+
+    if (start < size) {
+      ranges.push({ start, end: Math.min(end, size - 1) });
+    }
+  }
+
+  if (ranges.length === 0) {
+    return { type: 'unsatisfiable' };
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const coalesced: ByteRange[] = [ranges[0]];
+  for (const range of ranges.slice(1)) {
+    const last = coalesced[coalesced.length - 1];
+    if (range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      coalesced.push(range);
+    }
+  }
+
+  return { type: 'ranges', ranges: coalesced };
+}
+
+/**
+ * Parse a Content-Range response header ("bytes 0-99/1000" or "bytes 0-99/*")
+ */
+export function parseContentRange(header: string | null): (ByteRange & { size: number | null }) | null {
+  if (!header) {
+    return null;
+  }
+
+  const match = /^\s*bytes\s+(\d+)-(\d+)\/(\d+|\*)\s*$/i.exec(header);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    start: parseInt(match[1], 10),
+    end: parseInt(match[2], 10),
+    size: match[3] === '*' ? null : parseInt(match[3], 10)
+  };
+}
+
+export function formatContentRange(range: ByteRange, size: number): string {
+  return `bytes ${range.start}-${range.end}/${size}`;
+}
+
+export function getRangeLength(range: ByteRange): number {
+  return range.end - range.start + 1;
+}
+
+/**
+ * Smallest single range covering all of the given (sorted) ranges
+ */
+export function getRangeSpan(ranges: ByteRange[]): ByteRange {
+  return { start: ranges[0].start, end: ranges[ranges.length - 1].end };
+}
+
+/**
+ * Build the part headers and trailer of a multipart/byteranges response
+ */
+export function buildMultipartLayout(
+  ranges: ByteRange[],
+  contentType: string,
+  size: number
+): MultipartRangeLayout {
+  const boundary = crypto.randomBytes(12).toString('hex');
+  const partHeaders = ranges.map(range =>
+    `\r\n--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: ${formatContentRange(range, size)}\r\n\r\n`
+  );
+  const trailer = `\r\n--${boundary}--\r\n`;
+
+  const contentLength = partHeaders.reduce((total, header) => total + Buffer.byteLength(header), 0) +
+    ranges.reduce((total, range) => total + getRangeLength(range), 0) +
+    Buffer.byteLength(trailer);
+
+  return {
+    contentType: `multipart/byteranges; boundary=${boundary}`,
+    partHeaders,
+    trailer,
+    contentLength
+  };
+}
+
+/**
+ * Write only the requested ranges out of a body whose first byte is at `offset`.
+ * Ranges must be sorted and non-overlapping (as returned by parseRangeHeader).
+ * Reading stops as soon as the last range has been written.
+ * Returns the number of content bytes written.
+ */
+export async function writeByteRanges(
+  body: ReadableStream<Uint8Array>,
+  offset: number,
+  ranges: ByteRange[],
+  write: (chunk: Uint8Array) => void,
+  onRangeStart?: (index: number) => void
+): Promise<number> {
+  const reader = body.getReader();
+  let position = offset;
+  let index = 0;
+  let startedIndex = -1;
+  let bytesWritten = 0;
+
+  try {
+    while (index < ranges.length) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      const chunkStart = position;
+      position += value.byteLength;
+
+      // Write every range that overlaps this chunk
+      while (index < ranges.length && ranges[index].start < position) {
+        const range = ranges[index];
+        const from = Math.max(range.start, chunkStart);
+        const to = Math.min(range.end + 1, position);
+
+        if (from < to) {
+          if (startedIndex !== index) {
+            onRangeStart?.(index);
+            startedIndex = index;
+          }
+          write(value.subarray(from - chunkStart, to - chunkStart));
+          bytesWritten += to - from;
+        }
+
+        if (range.end + 1 > position) {
+          break;
+        }
+        index++;
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+
+  return bytesWritten;
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+// Registers a handler for every job type with the worker
+
+import { jobWorker } from './jobWorker';
+import { FileService } from './fileService';
+import { MigrationService } from './migrationService';
+import { ReplicationService } from './replicationService';
+import { ReconciliationService } from './reconciliationService';
+import { StorageQuotaService } from './storageQuotaService';
+import { TrashService } from './trashService';
+import { UploadSessionService } from './uploadSessionService';
+import { BillingService, type CheckoutCompletedPayload } from './billingService';
+import { NotificationService, type NotificationPayload } from './notificationService';
+
+// How often abandoned pending uploads are looked for
+const PENDING_FILE_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+const RESERVATION_EXPIRY_INTERVAL_MS = 5 * 60 * 1000;
+const STORAGE_USAGE_RECONCILE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const TRASH_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const UPLOAD_SESSION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+let registered = false;
+
+function registerHandlers(): void {
+  jobWorker.register('file.unpin', (job, signal) =>
+    FileService.unpinContent(job.payload.cid as string, signal)
+  );
+
+  jobWorker.register('migration.run', (job, signal) =>
+    MigrationService.runJob(job.payload.migrationJobId as string, job, signal)
+  );
+
+  jobWorker.register('replication.request', job =>
+    ReplicationService.processStorageRequestJob(job)
+  );
+
+  jobWorker.register('stripe.checkout_completed', job =>
+    BillingService.applyCompletedCheckout(job.payload as unknown as CheckoutCompletedPayload)
+  );
+
+  jobWorker.register('stripe.cancel_subscriptions', job =>
+    BillingService.cancelCustomerSubscriptions(job.payload.customerId as string)
+  );
+
+  jobWorker.register('notification.send', (job, signal) =>
+    NotificationService.deliver(job.payload as unknown as NotificationPayload, signal)
+  );
+
+  jobWorker.schedule('files.sweep_pending', PENDING_FILE_SWEEP_INTERVAL_MS, () =>
+    FileService.sweepPendingFiles()
+  );
+
+  jobWorker.schedule('files.sweep_trash', TRASH_SWEEP_INTERVAL_MS, () =>
+    TrashService.sweepTrash()
+  );
+
+  jobWorker.schedule('uploads.sweep_expired', UPLOAD_SESSION_SWEEP_INTERVAL_MS, () =>
+    UploadSessionService.sweepExpiredSessions()
+  );
+
+  jobWorker.schedule('storage.expire_reservations', RESERVATION_EXPIRY_INTERVAL_MS, () =>
+    StorageQuotaService.expireReservations()
+  );
+
+  jobWorker.schedule('storage.reconcile_usage', STORAGE_USAGE_RECONCILE_INTERVAL_MS, async () => {
+    const report = await ReconciliationService.reconcileStorageUsage({ repair: true });
+    if (report && report.drifted.total > 0) {
+      console.warn(`Repaired storage usage drift for ${report.drifted.repaired} of ${report.drifted.total} users`);
+    }
+  });
+
+  jobWorker.onDeadLetter(async (job, error) => {
+    switch (job.type) {
+      case 'migration.run':
+        // Keep the user-facing migration record in step with the queue
+        await MigrationService.failJob(job.payload.migrationJobId as string, error);
+        break;
+      case 'stripe.checkout_completed':
+        await NotificationService.notify('billing.checkout_failed', { ...job.payload, jobId: job.id, error }, job.user_id || undefined);
+        break;
+    }
+
+    // A failing webhook shouldn't notify about itself
+    if (job.type !== 'notification.send') {
+      await NotificationService.notify('job.dead_lettered', {
+        jobId: job.id,
+        type: job.type,
+        attempts: job.attempts,
+        error
+      }, job.user_id || undefined);
+    }
+  });
+}
+
+/**
+ * Start processing queued jobs in this process
+ */
+export function startJobWorker(): void {
+  if (!registered) {
+    registerHandlers();
+    registered = true;
+  }
+
+  jobWorker.start();
+}
\ No newline at end of file
@@ -0,0 +1,412 @@
+import { supabaseServer } from './supabase-server';
+
+// Retries back off exponentially from this delay, capped at MAX_RETRY_DELAY_MS
+const RETRY_BASE_DELAY_MS = 10 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+export type JobType =
+  | 'file.unpin'
+  | 'migration.run'
+  | 'replication.request'
+  | 'stripe.checkout_completed'
+  | 'stripe.cancel_subscriptions'
+  | 'notification.send';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead' | 'cancelled';
+
+export const JOB_STATUSES: JobStatus[] = ['pending', 'running', 'completed', 'dead', 'cancelled'];
+
+export interface JobRecord {
+  id: string;
+  type: JobType;
+  payload: Record<string, unknown>;
+  user_id: string | null;
+  status: JobStatus;
+  priority: number;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  locked_until: string | null;
+  last_error: string | null;
+  dedupe_key: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface EnqueueOptions {
+  userId?: string;
+  // Delay before the first attempt
+  delayMs?: number;
+  maxAttempts?: number;
+  priority?: number;
+  // While a job with this key is pending or running, enqueueing another is a no-op
+  dedupeKey?: string;
+}
+
+export interface EnqueueRequest {
+  type: JobType;
+  payload: Record<string, unknown>;
+  options?: EnqueueOptions;
+}
+
+export type JobStats = Record<JobStatus, number>;
+
+/**
+ * Outcome of running a job. Thrown errors are treated as retryable.
+ */
+export type JobResult =
+  | { status: 'completed' }
+  | { status: 'retry'; error: string; delayMs?: number }
+  | { status: 'failed'; error: string };
+
+// `signal` aborts when the worker loses the job's lease or the job is cancelled
+export type JobHandler = (job: JobRecord, signal: AbortSignal) => Promise<JobResult>;
+
+function toJobRow(type: JobType, payload: Record<string, unknown>, options: EnqueueOptions = {}) {
+  return {
+    type,
+    payload,
+    user_id: options.userId || null,
+    priority: options.priority ?? 0,
+    max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    run_at: new Date(Date.now() + (options.delayMs ?? 0)).toISOString(),
+    dedupe_key: options.dedupeKey || null
+  };
+}
+
+export class JobQueue {
+  /**
+   * Delay before retrying a job that has failed `attempts` times, with jitter
+   */
+  static getRetryDelay(attempts: number): number {
+    const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY_MS);
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  /**
+   * Add a job to the queue. Returns the existing job when the dedupe key is already queued.
+   */
+  static async enqueue(
+    type: JobType,
+    payload: Record<string, unknown>,
+    options: EnqueueOptions = {}
+  ): Promise<JobRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('jobs')
+        .insert(toJobRow(type, payload, options))
+        .select()
+        .single();
+
+      if (error) {
+        // Unique violation on the dedupe key: the work is already queued
+        if (error.code === '23505' && options.dedupeKey) {
+          return this.getActiveJobByDedupeKey(options.dedupeKey);
+        }
+
+        console.error('Error enqueueing job:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in enqueue:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Add several jobs in a single insert. Dedupe keys are not supported here.
+   */
+  static async enqueueMany(requests: EnqueueRequest[]): Promise<boolean> {
+    if (requests.length === 0) {
+      return true;
+    }
+
+    try {
+      const { error } = await supabaseServer
+        .from('jobs')
+        .insert(requests.map(({ type, payload, options }) =>
+          toJobRow(type, payload, { ...options, dedupeKey: undefined })
+        ));
+
+      if (error) {
+        console.error('Error enqueueing jobs:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in enqueueMany:', error);
+      return false;
+    }
+  }
+
+  static async getActiveJobByDedupeKey(dedupeKey: string): Promise<JobRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('jobs')
+        .select('*')
+        .eq('dedupe_key', dedupeKey)
+        .in('status', ['pending', 'running'])
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching job by dedupe key:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in getActiveJobByDedupeKey:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Lease due jobs to a worker. Jobs whose lease expired are reclaimed.
+   */
+  static async claim(workerId: string, limit: number, leaseMs: number): Promise<JobRecord[]> {
+    try {
+      const { data, error } = await supabaseServer.rpc('claim_jobs', {
+        p_worker_id: workerId,
+        p_limit: limit,
+        p_lease_seconds: Math.ceil(leaseMs / 1000)
+      });
+
+      if (error) {
+        console.error('Error claiming jobs:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in claim:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Extend a lease. Returns false if the worker no longer holds the job
+   * (the lease expired and was reclaimed, or the job was cancelled).
+   */
+  static async extendLease(jobId: string, workerId: string, leaseMs: number): Promise<boolean> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('jobs')
+        .update({ locked_until: new Date(Date.now() + leaseMs).toISOString() })
+        .eq('id', jobId)
+        .eq('status', 'running')
+        .eq('locked_by', workerId)
+        .select('id');
+
+      if (error) {
+        console.error('Error extending job lease:', error);
+        // Keep working; the next heartbeat may succeed
+        return true;
+      }
+
+      return (data || []).length > 0;
+    } catch (error) {
+      console.error('Error in extendLease:', error);
+      return true;
+    }
+  }
+
+  static async complete(jobId: string, workerId: string): Promise<void> {
+    await this.finish(jobId, workerId, {
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+      last_error: null
+    });
+  }
+
+  /**
+   * Release a failed job back to the queue to run again after a delay
+   */
+  static async retryLater(jobId: string, workerId: string, error: string, delayMs: number): Promise<void> {
+    await this.finish(jobId, workerId, {
+      status: 'pending',
+      run_at: new Date(Date.now() + delayMs).toISOString(),
+      last_error: error
+    });
+  }
+
+  /**
+   * Give up on a job; it stays in the table for inspection and manual retry
+   */
+  static async deadLetter(jobId: string, workerId: string, error: string): Promise<void> {
+    await this.finish(jobId, workerId, {
+      status: 'dead',
+      completed_at: new Date().toISOString(),
+      last_error: error
+    });
+  }
+
+  private static async finish(jobId: string, workerId: string, updates: Record<string, unknown>): Promise<void> {
+    try {
+      const { error } = await supabaseServer
+        .from('jobs')
+        .update({ ...updates, locked_by: null, locked_until: null })
+        .eq('id', jobId)
+        .eq('status', 'running')
+        .eq('locked_by', workerId);
+
+      if (error) {
+        console.error('Error updating job:', error);
+      }
+    } catch (error) {
+      console.error('Error in finish job:', error);
+    }
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  static async getJobs(
+    { type, status, userId, limit = 50 }: { type?: string; status?: JobStatus; userId?: string; limit?: number } = {}
+  ): Promise<JobRecord[]> {
+    try {
+      let query = supabaseServer
+        .from('jobs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (type) {
+        query = query.eq('type', type);
+      }
+      if (status) {
+        query = query.eq('status', status);
+      }
+      if (userId) {
+        query = query.eq('user_id', userId);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching jobs:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getJobs:', error);
+      return [];
+    }
+  }
+
+  static async getJob(jobId: string): Promise<JobRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('jobs')
+        .select('*')
+        .eq('id', jobId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching job:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in getJob:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Count jobs by status
+   */
+  static async getStats(): Promise<JobStats> {
+    const stats: JobStats = { pending: 0, running: 0, completed: 0, dead: 0, cancelled: 0 };
+
+    try {
+      const counts = await Promise.all(JOB_STATUSES.map(status =>
+        supabaseServer
+          .from('jobs')
+          .select('id', { count: 'exact', head: true })
+          .eq('status', status)
+      ));
+
+      JOB_STATUSES.forEach((status, index) => {
+        stats[status] = counts[index].count || 0;
+      });
+
+      return stats;
+    } catch (error) {
+      console.error('Error in getStats:', error);
+      return stats;
+    }
+  }
+
+  /**
+   * Put a dead or cancelled job back in the queue with a fresh set of attempts
+   */
+  static async requeue(jobId: string): Promise<JobRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('jobs')
+        .update({
+          status: 'pending',
+          attempts: 0,
+          run_at: new Date().toISOString(),
+          completed_at: null
+        })
+        .eq('id', jobId)
+        .in('status', ['dead', 'cancelled'])
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error requeueing job:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in requeue:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Cancel a pending or running job. A running job notices on its next lease extension.
+   */
+  static async cancel(jobId: string): Promise<JobRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('jobs')
+        .update({
+          status: 'cancelled',
+          locked_by: null,
+          locked_until: null,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', jobId)
+        .in('status', ['pending', 'running'])
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error cancelling job:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in cancel:', error);
+      return null;
+    }
+  }
+
+  static async cancelByDedupeKey(dedupeKey: string): Promise<JobRecord | null> {
+    const job = await this.getActiveJobByDedupeKey(dedupeKey);
+    return job ? this.cancel(job.id) : null;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,169 @@
+// Polls the Postgres job queue and runs jobs in this process
+
+import crypto from 'crypto';
+import os from 'os';
+import { JobQueue, type JobHandler, type JobRecord, type JobResult, type JobType } from './jobQueue';
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_WORKER_POLL_INTERVAL_MS || '5000', 10);
+const CONCURRENCY = parseInt(process.env.JOB_WORKER_CONCURRENCY || '4', 10);
+// Leases are renewed every third of their length while a job runs
+const LEASE_MS = 60 * 1000;
+const HEARTBEAT_MS = LEASE_MS / 3;
+
+type DeadLetterListener = (job: JobRecord, error: string) => Promise<void>;
+
+interface ScheduledTask {
+  name: string;
+  intervalMs: number;
+  task: () => Promise<unknown>;
+  timer: NodeJS.Timeout | null;
+}
+
+class JobWorker {
+  readonly workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  private handlers = new Map<JobType, JobHandler>();
+  private activeJobs = new Map<string, AbortController>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private deadLetterListener: DeadLetterListener | null = null;
+  private scheduledTasks: ScheduledTask[] = [];
+
+  register(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  onDeadLetter(listener: DeadLetterListener): void {
+    this.deadLetterListener = listener;
+  }
+
+  /**
+   * Run a maintenance task periodically while the worker is running.
+   * Tasks must be safe to run on several servers at once.
+   */
+  schedule(name: string, intervalMs: number, task: () => Promise<unknown>): void {
+    this.scheduledTasks.push({ name, intervalMs, task, timer: null });
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+    this.timer.unref();
+    void this.poll();
+
+    for (const scheduled of this.scheduledTasks) {
+      scheduled.timer = setInterval(() => {
+        scheduled.task().catch(error => {
+          console.error(`Error in scheduled task ${scheduled.name}:`, error);
+        });
+      }, scheduled.intervalMs);
+      scheduled.timer.unref();
+    }
+
+    console.log(`Job worker ${this.workerId} started (concurrency ${CONCURRENCY})`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    for (const scheduled of this.scheduledTasks) {
+      if (scheduled.timer) {
+        clearInterval(scheduled.timer);
+        scheduled.timer = null;
+      }
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling || !this.timer) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      const slots = CONCURRENCY - this.activeJobs.size;
+      if (slots <= 0) {
+        return;
+      }
+
+      const jobs = await JobQueue.claim(this.workerId, slots, LEASE_MS);
+      for (const job of jobs) {
+        void this.run(job);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async run(job: JobRecord): Promise<void> {
+    const controller = new AbortController();
+    this.activeJobs.set(job.id, controller);
+
+    const heartbeat = setInterval(async () => {
+      const stillHeld = await JobQueue.extendLease(job.id, this.workerId, LEASE_MS);
+      if (!stillHeld) {
+        controller.abort();
+      }
+    }, HEARTBEAT_MS);
+
+    let result: JobResult;
+    try {
+      const handler = this.handlers.get(job.type);
+
+      if (!handler) {
+        result = { status: 'failed', error: `No handler registered for job type ${job.type}` };
+      } else if (job.attempts > job.max_attempts) {
+        // Reclaimed after its lease expired on the final attempt
+        result = { status: 'failed', error: job.last_error || 'Job lease expired too many times' };
+      } else {
+        result = await handler(job, controller.signal);
+      }
+    } catch (error) {
+      console.error(`Error running ${job.type} job ${job.id}:`, error);
+      result = { status: 'retry', error: error instanceof Error ? error.message : 'Unknown error' };
+    } finally {
+      clearInterval(heartbeat);
+      this.activeJobs.delete(job.id);
+    }
+
+    // Cancelled, or another worker has reclaimed the job and owns its outcome
+    if (controller.signal.aborted) {
+      void this.poll();
+      return;
+    }
+
+    if (result.status === 'completed') {
+      await JobQueue.complete(job.id, this.workerId);
+    } else if (result.status === 'retry' && job.attempts < job.max_attempts) {
+      await JobQueue.retryLater(
+        job.id,
+        this.workerId,
+        result.error,
+        result.delayMs ?? JobQueue.getRetryDelay(job.attempts)
+      );
+    } else {
+      console.error(`Job ${job.id} (${job.type}) dead-lettered after ${job.attempts} attempts: ${result.error}`);
+      await JobQueue.deadLetter(job.id, this.workerId, result.error);
+
+      if (this.deadLetterListener) {
+        await this.deadLetterListener(job, result.error).catch(error => {
+          console.error('Error in dead letter listener:', error);
+        });
+      }
+    }
+
+    // A slot has freed up
+    void this.poll();
+  }
+}
+
+export const jobWorker = new JobWorker();
\ No newline at end of file
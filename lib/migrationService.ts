@@ -0,0 +1,820 @@
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { supabaseServer } from './supabase-server';
+import { CodexService } from './codexService';
+import { FileService, type FileRecord } from './fileService';
+import { StorageQuotaService } from './storageQuotaService';
+import { PinningSecretService } from './pinningSecretService';
+import { ReplicationService } from './replicationService';
+import { JobQueue, type JobRecord, type JobResult } from './jobQueue';
+import { NotificationService } from './notificationService';
+import { MAX_RESUMABLE_FILE_SIZE, validateFile } from './uploadValidation';
+
+// Migrated content is streamed, so it gets the resumable upload limit
+const MAX_MIGRATION_SIZE = MAX_RESUMABLE_FILE_SIZE;
+const MAX_ATTEMPTS = 3;
+// Retries back off exponentially: 30s, 60s, 120s...
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+export const MAX_ACTIVE_MIGRATIONS_PER_USER = 5;
+// Progress is written to the database at most this often
+const PROGRESS_INTERVAL_MS = 2000;
+const SOURCE_RESPONSE_TIMEOUT_MS = 60 * 1000;
+const MAX_LOG_ENTRIES = 200;
+
+export type MigrationNetwork = 'ipfs' | 'arweave' | 'storj';
+
+export const MIGRATION_NETWORKS: MigrationNetwork[] = ['ipfs', 'arweave', 'storj'];
+
+export type MigrationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type MigrationLogLevel = 'info' | 'warn' | 'error';
+
+// Public gateways content is fetched from; operators can point these at their own
+const SOURCE_GATEWAYS: Record<MigrationNetwork, string> = {
+  ipfs: process.env.MIGRATION_IPFS_GATEWAY_URL || 'https://ipfs.io',
+  arweave: process.env.MIGRATION_ARWEAVE_GATEWAY_URL || 'https://arweave.net',
+  storj: process.env.MIGRATION_STORJ_LINKSHARE_URL || 'https://link.storjshare.io'
+};
+
+const SOURCE_ID_PATTERNS: Record<MigrationNetwork, RegExp> = {
+  // CIDv0, or CIDv1 in base32/base36, optionally followed by a path inside it
+  ipfs: /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,}|k[0-9a-z]{50,})(\/[^/]+)*$/,
+  // Arweave transaction ID
+  arweave: /^[A-Za-z0-9_-]{43}$/,
+  // Linksharing path: access key / bucket / object key
+  storj: /^[A-Za-z0-9]+\/[a-z0-9][a-z0-9.-]{1,62}(\/[^/]+)+$/
+};
+
+export interface MigrationJobRecord {
+  id: string;
+  user_id: string;
+  network: MigrationNetwork;
+  source_id: string;
+  preserve_metadata: boolean;
+  status: MigrationJobStatus;
+  bytes_total: number | null;
+  bytes_transferred: number;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string | null;
+  cid: string | null;
+  file_id: string | null;
+  error: string | null;
+  pinning_secret_id: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface MigrationJobLog {
+  id: number;
+  job_id: string;
+  level: MigrationLogLevel;
+  message: string;
+  created_at: string;
+}
+
+export interface CreateMigrationJobParams {
+  userId: string;
+  network: MigrationNetwork;
+  sourceId: string;
+  preserveMetadata: boolean;
+  pinningSecretId?: string;
+}
+
+type AttemptResult =
+  | { ok: true; file: FileRecord }
+  | { ok: false; retryable: boolean; error: string };
+
+// A failed transfer may still have stored (partial) content under a CID
+type TransferResult =
+  | { ok: true; cid: string; transferred: number }
+  | { ok: false; retryable: boolean; error: string; cid?: string };
+
+function getQueueDedupeKey(jobId: string): string {
+  return `migration:${jobId}`;
+}
+
+/**
+ * Pick a filename from the source response, falling back to the source identifier
+ */
+function getSourceFileName(response: Response, network: MigrationNetwork, sourceId: string): string {
+  const disposition = response.headers.get('content-disposition') || '';
+  const encoded = /filename\*\s*=\s*UTF-8''([^;]+)/i.exec(disposition);
+  const plain = /filename\s*=\s*"?([^";]+)"?/i.exec(disposition);
+
+  let fileName: string | null = null;
+  try {
+    fileName = encoded ? decodeURIComponent(encoded[1]) : plain ? plain[1] : null;
+  } catch {
+    fileName = plain ? plain[1] : null;
+  }
+
+  if (!fileName && sourceId.includes('/')) {
+    fileName = sourceId.substring(sourceId.lastIndexOf('/') + 1);
+  }
+
+  return path.basename(fileName || `${network}-${sourceId}`).substring(0, 255);
+}
+
+export class MigrationService {
+  /**
+   * Check that a source identifier is well-formed for its network
+   */
+  static validateSource(network: string, sourceId: string): string | null {
+    if (!MIGRATION_NETWORKS.includes(network as MigrationNetwork)) {
+      return `network must be one of: ${MIGRATION_NETWORKS.join(', ')}`;
+    }
+
+    if (sourceId.length > 1024 || sourceId.split('/').some(segment => segment === '.' || segment === '..')) {
+      return 'Invalid source identifier';
+    }
+
+    if (!SOURCE_ID_PATTERNS[network as MigrationNetwork].test(sourceId)) {
+      return `Invalid ${network.toUpperCase()} source identifier`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the URL content is downloaded from
+   */
+  static getSourceUrl(network: MigrationNetwork, sourceId: string): string {
+    const encodedId = sourceId.split('/').map(encodeURIComponent).join('/');
+
+    switch (network) {
+      case 'ipfs':
+        return `${SOURCE_GATEWAYS.ipfs}/ipfs/${encodedId}`;
+      case 'arweave':
+        return `${SOURCE_GATEWAYS.arweave}/${encodedId}`;
+      case 'storj':
+        return `${SOURCE_GATEWAYS.storj}/raw/${encodedId}`;
+    }
+  }
+
+  /**
+   * Record a migration job and queue it for the background worker
+   */
+  static async createJob({
+    userId,
+    network,
+    sourceId,
+    preserveMetadata,
+    pinningSecretId
+  }: CreateMigrationJobParams): Promise<MigrationJobRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('migration_jobs')
+        .insert({
+          user_id: userId,
+          network,
+          source_id: sourceId,
+          preserve_metadata: preserveMetadata,
+          status: 'queued',
+          max_attempts: MAX_ATTEMPTS,
+          next_attempt_at: new Date().toISOString(),
+          pinning_secret_id: pinningSecretId || null
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating migration job:', error);
+        return null;
+      }
+
+      if (!await this.enqueue(data)) {
+        await supabaseServer.from('migration_jobs').delete().eq('id', data.id);
+        return null;
+      }
+
+      await this.log(data.id, 'info', `Queued migration of ${sourceId} from ${network.toUpperCase()}`);
+      return data;
+    } catch (error) {
+      console.error('Error in createJob:', error);
+      return null;
+    }
+  }
+
+  private static async enqueue(job: MigrationJobRecord): Promise<boolean> {
+    const queued = await JobQueue.enqueue('migration.run', { migrationJobId: job.id }, {
+      userId: job.user_id,
+      maxAttempts: job.max_attempts,
+      dedupeKey: getQueueDedupeKey(job.id)
+    });
+    return queued !== null;
+  }
+
+  /**
+   * Count a user's queued and running jobs
+   */
+  static async countActiveJobs(userId: string): Promise<number> {
+    try {
+      const { count, error } = await supabaseServer
+        .from('migration_jobs')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .in('status', ['queued', 'running']);
+
+      if (error) {
+        console.error('Error counting migration jobs:', error);
+        return 0;
+      }
+
+      return count || 0;
+    } catch (error) {
+      console.error('Error in countActiveJobs:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get a user's migration jobs, newest first
+   */
+  static async getJobs(userId: string, limit: number = 50): Promise<MigrationJobRecord[]> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('migration_jobs')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching migration jobs:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getJobs:', error);
+      return [];
+    }
+  }
+
+  static async getJob(jobId: string, userId: string): Promise<MigrationJobRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('migration_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching migration job:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in getJob:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a job's log entries, oldest first
+   */
+  static async getJobLogs(jobId: string): Promise<MigrationJobLog[]> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('migration_job_logs')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('id', { ascending: true })
+        .limit(MAX_LOG_ENTRIES);
+
+      if (error) {
+        console.error('Error fetching migration job logs:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getJobLogs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Append to a job's log. Logging failures never affect the job.
+   */
+  private static async log(jobId: string, level: MigrationLogLevel, message: string): Promise<void> {
+    try {
+      const { error } = await supabaseServer
+        .from('migration_job_logs')
+        .insert({ job_id: jobId, level, message });
+
+      if (error) {
+        console.error('Error writing migration job log:', error);
+      }
+    } catch (error) {
+      console.error('Error in migration job log:', error);
+    }
+  }
+
+  /**
+   * Cancel a queued or running job
+   */
+  static async cancelJob(jobId: string, userId: string): Promise<MigrationJobRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('migration_jobs')
+        .update({ status: 'cancelled', next_attempt_at: null, completed_at: new Date().toISOString() })
+        .eq('id', jobId)
+        .eq('user_id', userId)
+        .in('status', ['queued', 'running'])
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error cancelling migration job:', error);
+        return null;
+      }
+
+      if (data) {
+        // A running transfer stops when the worker next renews its lease or reports progress
+        await JobQueue.cancelByDedupeKey(getQueueDedupeKey(jobId));
+        await this.log(jobId, 'warn', 'Migration cancelled');
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in cancelJob:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Queue a failed or cancelled job again with a fresh set of attempts
+   */
+  static async retryJob(jobId: string, userId: string): Promise<MigrationJobRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('migration_jobs')
+        .update({
+          status: 'queued',
+          attempts: 0,
+          error: null,
+          bytes_transferred: 0,
+          next_attempt_at: new Date().toISOString(),
+          completed_at: null
+        })
+        .eq('id', jobId)
+        .eq('user_id', userId)
+        .in('status', ['failed', 'cancelled'])
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error retrying migration job:', error);
+        return null;
+      }
+
+      if (data) {
+        if (!await this.enqueue(data)) {
+          await this.failJob(jobId, 'Failed to queue migration');
+          return null;
+        }
+        await this.log(jobId, 'info', 'Migration queued again');
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in retryJob:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Run one attempt of a migration for the job worker and record the outcome.
+   * Failures of the migration itself complete the queue job; they are
+   * recorded on the migration rather than dead-lettered.
+   */
+  static async runJob(migrationJobId: string, queueJob: JobRecord, signal: AbortSignal): Promise<JobResult> {
+    const { data: job, error } = await supabaseServer
+      .from('migration_jobs')
+      .update({
+        status: 'running',
+        attempts: queueJob.attempts,
+        max_attempts: queueJob.max_attempts,
+        next_attempt_at: null,
+        started_at: new Date().toISOString()
+      })
+      .eq('id', migrationJobId)
+      .in('status', ['queued', 'running'])
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return { status: 'retry', error: 'Failed to start migration' };
+    }
+    if (!job) {
+      // Cancelled or deleted since it was queued
+      return { status: 'completed' };
+    }
+
+    // Aborted by the worker, or by reportProgress when the job is cancelled mid-transfer
+    const controller = new AbortController();
+    signal.addEventListener('abort', () => controller.abort(), { once: true });
+
+    let result: AttemptResult;
+    try {
+      await this.log(job.id, 'info', `Attempt ${job.attempts} of ${job.max_attempts} started`);
+      result = await this.attemptMigration(job, controller);
+    } catch (error) {
+      console.error('Error running migration job:', error);
+      result = { ok: false, retryable: true, error: 'Unexpected migration error' };
+    }
+
+    if (controller.signal.aborted && !result.ok) {
+      // Cancelled jobs were already updated by cancelJob; reclaimed jobs belong to another worker
+      return { status: 'failed', error: result.error };
+    }
+
+    if (result.ok) {
+      await supabaseServer
+        .from('migration_jobs')
+        .update({
+          status: 'completed',
+          cid: result.file.cid,
+          file_id: result.file.id,
+          bytes_transferred: result.file.file_size,
+          next_attempt_at: null,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', job.id);
+
+      await this.log(job.id, 'info', `Migration completed with CID ${result.file.cid}`);
+      await NotificationService.notify('migration.completed', {
+        migrationJobId: job.id,
+        network: job.network,
+        sourceId: job.source_id,
+        cid: result.file.cid,
+        fileId: result.file.id
+      }, job.user_id);
+      return { status: 'completed' };
+    }
+
+    if (result.retryable && job.attempts < job.max_attempts) {
+      const delay = RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1);
+
+      await supabaseServer
+        .from('migration_jobs')
+        .update({
+          status: 'queued',
+          error: result.error,
+          next_attempt_at: new Date(Date.now() + delay).toISOString()
+        })
+        .eq('id', job.id)
+        .eq('status', 'running');
+
+      await this.log(job.id, 'warn', `${result.error}. Retrying in ${Math.round(delay / 1000)}s`);
+      return { status: 'retry', error: result.error, delayMs: delay };
+    }
+
+    await this.failJob(job.id, result.error);
+    return { status: 'completed' };
+  }
+
+  /**
+   * Mark a queued or running migration as failed and notify its owner
+   */
+  static async failJob(migrationJobId: string, error: string): Promise<void> {
+    try {
+      const { data: job } = await supabaseServer
+        .from('migration_jobs')
+        .update({
+          status: 'failed',
+          error,
+          next_attempt_at: null,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', migrationJobId)
+        .in('status', ['queued', 'running'])
+        .select()
+        .maybeSingle();
+
+      if (!job) {
+        return;
+      }
+
+      await this.log(job.id, 'error', error);
+      await NotificationService.notify('migration.failed', {
+        migrationJobId: job.id,
+        network: job.network,
+        sourceId: job.source_id,
+        error
+      }, job.user_id);
+    } catch (error) {
+      console.error('Error in failJob:', error);
+    }
+  }
+
+  /**
+   * Download content from the source network, store it on Codex and record the file
+   */
+  private static async attemptMigration(
+    job: MigrationJobRecord,
+    controller: AbortController
+  ): Promise<AttemptResult> {
+    if (!CodexService.getConfig()) {
+      return { ok: false, retryable: true, error: 'Storage service configuration missing' };
+    }
+
+    // Jobs created with a pinning secret count against its monthly quota
+    let monthlyQuotaGb: number | null = null;
+    if (job.pinning_secret_id) {
+      const { data: secret } = await supabaseServer
+        .from('pinning_secrets')
+        .select('monthly_quota_gb, is_active')
+        .eq('id', job.pinning_secret_id)
+        .maybeSingle();
+
+      if (!secret || !secret.is_active) {
+        return { ok: false, retryable: false, error: 'The pinning secret that created this migration was revoked' };
+      }
+      monthlyQuotaGb = secret.monthly_quota_gb;
+    }
+
+    const sourceUrl = this.getSourceUrl(job.network, job.source_id);
+    await this.log(job.id, 'info', `Fetching ${sourceUrl}`);
+
+    // The timeout only covers waiting for the response headers
+    const headersTimeout = new AbortController();
+    const timer = setTimeout(() => headersTimeout.abort(), SOURCE_RESPONSE_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(sourceUrl, {
+        headers: { 'User-Agent': 'ThirdStorage-Migration/1.0' },
+        redirect: 'follow',
+        signal: AbortSignal.any([controller.signal, headersTimeout.signal])
+      });
+    } catch {
+      return {
+        ok: false,
+        retryable: true,
+        error: headersTimeout.signal.aborted ? 'Source did not respond in time' : 'Could not reach source network'
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok || !response.body) {
+      await response.body?.cancel();
+
+      if (response.status === 404 || response.status === 410) {
+        return { ok: false, retryable: false, error: 'Content not found on source network' };
+      }
+      return {
+        ok: false,
+        retryable: response.status === 408 || response.status === 429 || response.status >= 500,
+        error: `Source responded with ${response.status}`
+      };
+    }
+
+    const contentLength = response.headers.get('content-length');
+    const declaredSize = contentLength ? parseInt(contentLength, 10) : null;
+    // Without preserved metadata the file is simply named after its source
+    const fileName = job.preserve_metadata
+      ? getSourceFileName(response, job.network, job.source_id)
+      : `${job.network}-${path.basename(job.source_id)}`.substring(0, 255);
+    const mimeType = (response.headers.get('content-type') || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+
+    const validation = validateFile(fileName, mimeType, declaredSize || 0, MAX_MIGRATION_SIZE);
+    if (!validation.valid) {
+      await response.body.cancel();
+      return { ok: false, retryable: false, error: validation.error || 'Invalid file' };
+    }
+
+    // Hold storage for the declared size up front; without one, whatever space is left
+    // is held and the stream is cut off once it is used up
+    const storage = await StorageQuotaService.reserve(job.user_id, declaredSize ?? MAX_MIGRATION_SIZE, {
+      minBytes: declaredSize ?? 1
+    });
+    if (!storage.reservation) {
+      await response.body.cancel();
+      // Failing to check the limit is transient; running out of space isn't
+      return { ok: false, retryable: storage.limit === undefined, error: storage.reason };
+    }
+
+    let result: AttemptResult | null = null;
+    try {
+      result = await this.storeContent(job, response, response.body, controller, {
+        fileName,
+        mimeType,
+        declaredSize,
+        monthlyQuotaGb,
+        storageBytes: storage.reservation.bytes
+      });
+      return result;
+    } finally {
+      await (result?.ok ? StorageQuotaService.commit(storage.reservation) : StorageQuotaService.release(storage.reservation));
+    }
+  }
+
+  /**
+   * Store fetched content within the held storage and record it as a file
+   */
+  private static async storeContent(
+    job: MigrationJobRecord,
+    response: Response,
+    body: ReadableStream<Uint8Array>,
+    controller: AbortController,
+    { fileName, mimeType, declaredSize, monthlyQuotaGb, storageBytes }: {
+      fileName: string;
+      mimeType: string;
+      declaredSize: number | null;
+      monthlyQuotaGb: number | null;
+      storageBytes: number;
+    }
+  ): Promise<AttemptResult> {
+    let maxBytes = Math.min(MAX_MIGRATION_SIZE, storageBytes);
+
+    if (job.pinning_secret_id) {
+      const quota = await PinningSecretService.checkMonthlyQuota(job.pinning_secret_id, monthlyQuotaGb, declaredSize || 0);
+      if (!quota.allowed) {
+        await body.cancel();
+        if (quota.lookupFailed) {
+          return { ok: false, retryable: true, error: 'Failed to check monthly quota' };
+        }
+        return { ok: false, retryable: false, error: 'Monthly upload quota exceeded for this pinning secret' };
+      }
+      if (quota.remainingBytes !== null) {
+        maxBytes = Math.min(maxBytes, quota.remainingBytes);
+      }
+    }
+
+    await supabaseServer
+      .from('migration_jobs')
+      .update({ bytes_total: declaredSize, bytes_transferred: 0 })
+      .eq('id', job.id);
+    await this.log(
+      job.id,
+      'info',
+      `Transferring ${fileName} (${mimeType}${declaredSize !== null ? `, ${declaredSize} bytes` : ''}) to Codex`
+    );
+
+    const lastModified = response.headers.get('last-modified');
+    const originalDate = lastModified ? new Date(lastModified) : null;
+
+    // Reserve the file first so content stored by a failed attempt is unpinned again
+    const reservation = await FileService.reservePendingFile({
+      user_id: job.user_id,
+      filename: fileName,
+      file_size: 0,
+      content_type: mimeType,
+      upload_date: job.preserve_metadata && originalDate && !isNaN(originalDate.getTime())
+        ? originalDate.toISOString()
+        : undefined,
+      upload_method: 'migration',
+      pinning_secret_id: job.pinning_secret_id || undefined,
+      source_network: job.network,
+      source_id: job.source_id
+    });
+
+    if (!reservation) {
+      await body.cancel();
+      return { ok: false, retryable: true, error: 'Failed to reserve file record' };
+    }
+
+    let cid: string | null = null;
+    let savedFile: FileRecord | null = null;
+    try {
+      const result = await this.transferContent(job, body, { fileName, mimeType, declaredSize, maxBytes }, controller);
+      cid = result.cid || null;
+      if (!result.ok) {
+        return { ok: false, retryable: result.retryable, error: result.error };
+      }
+
+      savedFile = await FileService.recordPendingContent(reservation.id, result.cid, result.transferred)
+        ? await FileService.commitPendingFile(reservation.id, { preserveUploadDate: job.preserve_metadata })
+        : null;
+
+      if (!savedFile) {
+        return { ok: false, retryable: true, error: 'Failed to save file metadata' };
+      }
+    } finally {
+      if (!savedFile) {
+        await FileService.abortPendingFiles([reservation.id], cid ? [cid] : []);
+      }
+    }
+
+    if (job.pinning_secret_id) {
+      await PinningSecretService.trackUsage(job.pinning_secret_id, savedFile.file_size, true);
+    }
+
+    await ReplicationService.applyDefaultRule(job.user_id, [savedFile]);
+    return { ok: true, file: savedFile };
+  }
+
+  /**
+   * Stream the source response to Codex, enforcing size limits and reporting progress
+   */
+  private static async transferContent(
+    job: MigrationJobRecord,
+    body: ReadableStream<Uint8Array>,
+    { fileName, mimeType, declaredSize, maxBytes }: { fileName: string; mimeType: string; declaredSize: number | null; maxBytes: number },
+    controller: AbortController
+  ): Promise<TransferResult> {
+    const config = CodexService.getConfig();
+    if (!config) {
+      return { ok: false, retryable: true, error: 'Storage service configuration missing' };
+    }
+
+    let transferred = 0;
+    let lastProgressAt = Date.now();
+    let limitError: string | null = null;
+
+    const counter = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        transferred += chunk.length;
+
+        if (transferred > maxBytes) {
+          limitError = transferred > MAX_MIGRATION_SIZE
+            ? `File too large. Maximum size is ${MAX_MIGRATION_SIZE / 1024 / 1024}MB`
+            : 'Storage limit exceeded';
+          callback(new Error(limitError));
+          return;
+        }
+
+        if (Date.now() - lastProgressAt >= PROGRESS_INTERVAL_MS) {
+          lastProgressAt = Date.now();
+          void this.reportProgress(job.id, transferred, controller);
+        }
+
+        callback(null, chunk);
+      }
+    });
+
+    const source = Readable.fromWeb(body as unknown as NodeReadableStream<Uint8Array>);
+    source.on('error', error => counter.destroy(error));
+    source.pipe(counter);
+
+    let cid: string;
+    try {
+      const uploadResponse = await CodexService.uploadStream(config, counter, {
+        fileName,
+        mimeType,
+        signal: controller.signal
+      });
+      const responseText = (await uploadResponse.text()).trim();
+
+      if (!uploadResponse.ok || !responseText) {
+        console.error(`Codex migration upload error: ${uploadResponse.status} ${responseText}`);
+        return { ok: false, retryable: true, error: `Storage service responded with ${uploadResponse.status}` };
+      }
+      cid = responseText;
+    } catch {
+      source.destroy();
+      if (limitError) {
+        return { ok: false, retryable: false, error: limitError };
+      }
+      if (controller.signal.aborted) {
+        return { ok: false, retryable: false, error: 'Migration cancelled' };
+      }
+      return { ok: false, retryable: true, error: 'Transfer interrupted' };
+    }
+
+    if (declaredSize !== null && transferred !== declaredSize) {
+      // The partial content is stored; let the caller unpin it
+      return { ok: false, retryable: true, error: `Expected ${declaredSize} bytes but received ${transferred}`, cid };
+    }
+
+    return { ok: true, cid, transferred };
+  }
+
+  /**
+   * Record transfer progress. Also stops the transfer if the job was cancelled elsewhere.
+   */
+  private static async reportProgress(
+    jobId: string,
+    bytesTransferred: number,
+    controller: AbortController
+  ): Promise<void> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('migration_jobs')
+        .update({ bytes_transferred: bytesTransferred })
+        .eq('id', jobId)
+        .eq('status', 'running')
+        .select('id');
+
+      if (error) {
+        console.error('Error updating migration progress:', error);
+        return;
+      }
+
+      if ((data || []).length === 0) {
+        controller.abort();
+      }
+    } catch (error) {
+      console.error('Error in reportProgress:', error);
+    }
+  }
+}
\ No newline at end of file
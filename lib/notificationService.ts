@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import { JobQueue, type JobResult } from './jobQueue';
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+export type NotificationEvent =
+  | 'migration.completed'
+  | 'migration.failed'
+  | 'billing.checkout_failed'
+  | 'job.dead_lettered'
+  | 'abuse.reported'
+  | 'content.blocked';
+
+export interface NotificationPayload {
+  event: NotificationEvent;
+  userId: string | null;
+  data: Record<string, unknown>;
+  createdAt: string;
+}
+
+export class NotificationService {
+  /**
+   * Queue a notification for delivery. Never throws.
+   */
+  static async notify(
+    event: NotificationEvent,
+    data: Record<string, unknown>,
+    userId?: string
+  ): Promise<void> {
+    const payload: NotificationPayload = {
+      event,
+      userId: userId || null,
+      data,
+      createdAt: new Date().toISOString()
+    };
+
+    const job = await JobQueue.enqueue('notification.send', { ...payload }, { userId });
+    if (!job) {
+      console.error(`Failed to queue ${event} notification`);
+    }
+  }
+
+  /**
+   * Deliver a notification to the operator's webhook (NOTIFICATION_WEBHOOK_URL).
+   * Bodies are signed with NOTIFICATION_WEBHOOK_SECRET when it is set.
+   */
+  static async deliver(payload: NotificationPayload, signal?: AbortSignal): Promise<JobResult> {
+    const webhookUrl = process.env.NOTIFICATION_WEBHOOK_URL;
+    if (!webhookUrl) {
+      // Nowhere to send it; nothing to retry
+      return { status: 'completed' };
+    }
+
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'ThirdStorage-Notifications/1.0'
+    };
+
+    const secret = process.env.NOTIFICATION_WEBHOOK_SECRET;
+    if (secret) {
+      headers['X-ThirdStorage-Signature'] = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+    }
+
+    try {
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers,
+        body,
+        signal: signal
+          ? AbortSignal.any([signal, AbortSignal.timeout(DELIVERY_TIMEOUT_MS)])
+          : AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      });
+      await response.body?.cancel();
+
+      if (response.ok) {
+        return { status: 'completed' };
+      }
+
+      // Client errors other than timeouts and rate limits won't succeed on retry
+      if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429) {
+        return { status: 'failed', error: `Notification webhook rejected delivery (${response.status})` };
+      }
+
+      return { status: 'retry', error: `Notification webhook responded with ${response.status}` };
+    } catch {
+      return { status: 'retry', error: 'Notification webhook unreachable' };
+    }
+  }
+}
\ No newline at end of file
@@ -52,6 +52,7 @@ export interface CreatePinningSecretParams {
 
 export interface PinningSecretWithUsage extends PinningSecretRecord {
   usage_this_month: number;
+  usage_bytes_this_month: number;
   last_used_display: string;
 }
 
@@ -61,9 +62,28 @@ export interface ValidatePinningSecretResult {
   secretId?: string;
   scopes?: string[];
   rateLimitPerMinute?: number;
+  monthlyQuotaGb?: number | null;
   error?: string;
 }
 
+export interface QuotaCheckResult {
+  allowed: boolean;
+  usedBytes: number;
+  quotaBytes: number | null;
+  remainingBytes: number | null;
+  // Monthly usage couldn't be read, so the request was refused without checking it
+  lookupFailed?: boolean;
+}
+
+export interface QuotaWarning {
+  level: 'approaching' | 'exceeded';
+  usagePercent: number;
+  message: string;
+}
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+const QUOTA_WARNING_THRESHOLD = 80; // percent
+
 // In-memory rate limiting
 interface RateLimitEntry {
   count: number;
@@ -72,6 +92,12 @@ interface RateLimitEntry {
 
 const rateLimitMap = new Map<string, RateLimitEntry>();
 
+// First day of the current month in the YYYY-MM-DD format used by usage rows
+const getMonthStartDate = (): string => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().split('T')[0];
+};
+
 // Clean up expired entries every 5 minutes
 setInterval(() => {
   const now = Date.now();
@@ -171,19 +197,17 @@ export class PinningSecretService {
       }
 
       // Calculate usage for each secret using aggregated data
+      const monthStart = getMonthStartDate();
       const secretsWithUsage: PinningSecretWithUsage[] = data.map(secret => {
-        const thisMonth = new Date();
-        thisMonth.setDate(1);
-        thisMonth.setHours(0, 0, 0, 0);
-
         const usageThisMonth = secret.pinning_secret_usage_daily
-          ?.filter((usage: { usage_date: string }) => new Date(usage.usage_date) >= thisMonth)
+          ?.filter((usage: { usage_date: string }) => usage.usage_date >= monthStart)
           .reduce((total: number, usage: { bytes_transferred?: number }) => total + (usage.bytes_transferred || 0), 0) || 0;
 
         return {
           ...secret,
           pinning_secret_usage_daily: undefined, // Remove the raw usage data
           usage_this_month: Math.round(usageThisMonth / (1024 * 1024)), // Convert to MB
+          usage_bytes_this_month: usageThisMonth,
           last_used_display: secret.last_used_at 
             ? new Date(secret.last_used_at).toLocaleDateString()
             : 'Never'
@@ -230,7 +254,8 @@ export class PinningSecretService {
         userId: data.user_id,
         secretId: data.id,
         scopes: data.scopes,
-        rateLimitPerMinute: data.rate_limit_per_minute
+        rateLimitPerMinute: data.rate_limit_per_minute,
+        monthlyQuotaGb: data.monthly_quota_gb
       };
     } catch (error) {
       console.error('Error validating pinning secret:', error);
@@ -238,6 +263,29 @@ export class PinningSecretService {
     }
   }
 
+  /**
+   * Get a pinning secret by ID, including revoked ones
+   */
+  static async getPinningSecret(secretId: string): Promise<PinningSecretRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('pinning_secrets')
+        .select('*')
+        .eq('id', secretId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching pinning secret:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in getPinningSecret:', error);
+      return null;
+    }
+  }
+
   /**
    * Revoke a pinning secret
    */
@@ -286,6 +334,88 @@ export class PinningSecretService {
       }
     }
 
+  /**
+   * Get bytes transferred by a pinning secret since the start of the month.
+   * Returns null if usage couldn't be read.
+   */
+  static async getMonthlyUsageBytes(secretId: string): Promise<number | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('pinning_secret_usage_daily')
+        .select('bytes_transferred')
+        .eq('pinning_secret_id', secretId)
+        .gte('usage_date', getMonthStartDate());
+
+      if (error || !data) {
+        console.error('Error fetching monthly usage:', error);
+        return null;
+      }
+
+      return data.reduce((sum, u) => sum + (u.bytes_transferred || 0), 0);
+    } catch (error) {
+      console.error('Error in getMonthlyUsageBytes:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Check whether transferring additional bytes would exceed the monthly quota
+   */
+  static async checkMonthlyQuota(
+    secretId: string,
+    monthlyQuotaGb: number | null | undefined,
+    additionalBytes: number = 0
+  ): Promise<QuotaCheckResult> {
+    if (!monthlyQuotaGb) {
+      // No quota configured - unlimited
+      return { allowed: true, usedBytes: 0, quotaBytes: null, remainingBytes: null };
+    }
+
+    const quotaBytes = monthlyQuotaGb * BYTES_PER_GB;
+    const usedBytes = await this.getMonthlyUsageBytes(secretId);
+    if (usedBytes === null) {
+      return { allowed: false, usedBytes: 0, quotaBytes, remainingBytes: 0, lookupFailed: true };
+    }
+
+    const remainingBytes = Math.max(0, quotaBytes - usedBytes);
+
+    return {
+      allowed: usedBytes < quotaBytes && additionalBytes <= remainingBytes,
+      usedBytes,
+      quotaBytes,
+      remainingBytes
+    };
+  }
+
+  /**
+   * Build a warning once monthly usage passes 80% or 100% of the quota
+   */
+  static getQuotaWarning(usedBytes: number, monthlyQuotaGb: number | null): QuotaWarning | null {
+    if (!monthlyQuotaGb) {
+      return null;
+    }
+
+    const usagePercent = Math.round((usedBytes / (monthlyQuotaGb * BYTES_PER_GB)) * 100);
+
+    if (usagePercent >= 100) {
+      return {
+        level: 'exceeded',
+        usagePercent,
+        message: `Monthly quota of ${monthlyQuotaGb} GB reached. Requests with this secret are rejected until next month.`
+      };
+    }
+
+    if (usagePercent >= QUOTA_WARNING_THRESHOLD) {
+      return {
+        level: 'approaching',
+        usagePercent,
+        message: `${usagePercent}% of the ${monthlyQuotaGb} GB monthly quota used.`
+      };
+    }
+
+    return null;
+  }
+
   /**
    * Check rate limit for a pinning secret (in-memory)
    */
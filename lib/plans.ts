@@ -8,6 +8,14 @@ export interface PlanFeature {
   limit?: string | number;
 }
 
+export interface PlanReplicationLimits {
+  maxNodes: number;
+  maxDurationDays: number;
+  // Integer token amounts, as Codex takes them; null for no cap
+  maxCollateralPerByte: string | null;
+  maxRequestCost: string | null;
+}
+
 export interface PlanConfig {
   id: PlanType;
   name: string;
@@ -22,6 +30,8 @@ export interface PlanConfig {
     formatted: string;
   };
   features: PlanFeature[];
+  // Codex storage requests the plan may make; null when replication isn't included
+  replication: PlanReplicationLimits | null;
   popular?: boolean;
   badge?: string;
   ctaText: string;
@@ -77,6 +87,7 @@ export const PLANS: Record<PlanType, PlanConfig> = {
         description: 'Advanced replication and analytics'
       }
     ],
+    replication: null,
     ctaText: 'Get Started',
   },
 
@@ -122,6 +133,12 @@ export const PLANS: Record<PlanType, PlanConfig> = {
         description: 'Detailed usage analytics and insights'
       }
     ],
+    replication: {
+      maxNodes: 10,
+      maxDurationDays: 30,
+      maxCollateralPerByte: '100',
+      maxRequestCost: '1000000000000000',
+    },
     popular: true,
     badge: 'Coming Soon',
     ctaText: 'Upgrade to Pro',
@@ -170,6 +187,12 @@ export const PLANS: Record<PlanType, PlanConfig> = {
         description: 'Dedicated customer success manager'
       },
     ],
+    replication: {
+      maxNodes: 20,
+      maxDurationDays: 90,
+      maxCollateralPerByte: null,
+      maxRequestCost: null,
+    },
     ctaText: 'Contact Sales',
   },
 };
@@ -187,6 +210,10 @@ export const getStorageLimitFormatted = (planType: PlanType): string => {
   return PLANS[planType].storage.formatted;
 };
 
+export const getReplicationLimits = (planType: PlanType): PlanReplicationLimits | null => {
+  return PLANS[planType].replication;
+};
+
 export const getPlanPrice = (planType: PlanType): number => {
   return PLANS[planType].price.monthly;
 };
@@ -145,6 +145,12 @@ export const burstRateLimiter = new RateLimiter({
   maxRequests: 20,        // 20 requests per 10 seconds per IP
 });
 
+// Abuse report rate limiter - the intake form is public
+export const abuseReportRateLimiter = new RateLimiter({
+  windowMs: 60 * 60 * 1000, // 1 hour window
+  maxRequests: 10,          // 10 reports per hour per IP
+});
+
 // Helper function to get client IP from request
 export function getClientIP(req: any): string {
   // Check various headers for real IP
@@ -178,6 +184,27 @@ export function getClientIP(req: any): string {
          'unknown';
 }
 
+// Reverse proxies in front of the app that append to X-Forwarded-For (e.g. 1 behind a single
+// load balancer, 0 when clients connect directly). Addresses they didn't add can be forged.
+const TRUSTED_PROXY_HOPS = Math.max(parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10) || 0, 0);
+
+/**
+ * Client IP as seen by the outermost trusted proxy, for decisions a client must not be able
+ * to influence. getClientIP takes the first X-Forwarded-For entry, which the client controls.
+ */
+export function getTrustedClientIP(req: any): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  const forwardedIPs = typeof forwarded === 'string'
+    ? forwarded.split(',').map(ip => ip.trim()).filter(Boolean)
+    : [];
+  const remoteAddress = req.socket?.remoteAddress || req.connection?.remoteAddress || 'unknown';
+
+  // Each trusted proxy appends the address it received the request from, so the client
+  // is the entry the outermost one added: TRUSTED_PROXY_HOPS from the end, counting the socket
+  const hops = [...forwardedIPs, remoteAddress];
+  return hops[Math.max(hops.length - 1 - TRUSTED_PROXY_HOPS, 0)];
+}
+
 // Helper function to detect suspicious activity patterns
 export function detectSuspiciousActivity(req: any): boolean {
   const userAgent = req.headers['user-agent'] || '';
@@ -0,0 +1,287 @@
+import { supabaseServer } from './supabase-server';
+import { CodexService, type CodexDataset } from './codexService';
+import { FileService } from './fileService';
+
+// Orphans must have been seen for this long before cleanup unpins them,
+// so content whose upload is still being recorded isn't removed
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+// Entries included in a report; totals always cover everything
+const MAX_REPORTED_ENTRIES = 500;
+
+export interface OrphanedContent {
+  cid: string;
+  datasetSize: number | null;
+  filename: string | null;
+  firstSeenAt: string;
+}
+
+export interface MissingContent {
+  fileId: string;
+  userId: string;
+  cid: string;
+  filename: string;
+}
+
+export interface ReconcileOptions {
+  // Unpin Codex content with no file or directory record
+  unpinOrphans?: boolean;
+  // Delete file records whose content is not on the Codex node
+  removeMissing?: boolean;
+}
+
+export interface ReconciliationReport {
+  startedAt: string;
+  completedAt: string;
+  codexDatasets: number;
+  knownCids: number;
+  // Content on Codex that no record references
+  orphanedContent: { total: number; entries: OrphanedContent[] };
+  // File records whose content is not on Codex
+  missingContent: { total: number; entries: MissingContent[] };
+  pendingUnpins: { total: number; requeued: number; resolved: number };
+  cleanup: { unpinnedOrphans: number; removedFiles: number };
+}
+
+export interface StorageUsageDrift {
+  userId: string;
+  // storage_used as recorded on the user
+  recorded: number;
+  // Usage computed from the user's files
+  actual: number;
+  drift: number;
+  repaired: boolean;
+}
+
+export interface StorageUsageReport {
+  startedAt: string;
+  completedAt: string;
+  usersChecked: number;
+  drifted: { total: number; repaired: number; entries: StorageUsageDrift[] };
+}
+
+/**
+ * Read a column from every row of a table, a page at a time
+ */
+async function fetchAll<T>(table: string, columns: string): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseServer
+      .from(table)
+      .select(columns)
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to read ${table}: ${error.message}`);
+    }
+
+    rows.push(...(data as T[]));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+export class ReconciliationService {
+  /**
+   * Compare the Codex node's local datasets against file and directory records.
+   * Reports orphans on both sides, requeues stuck unpins and optionally cleans up.
+   * Returns null if either side could not be listed.
+   */
+  static async reconcileStorage(options: ReconcileOptions = {}): Promise<ReconciliationReport | null> {
+    const startedAt = new Date().toISOString();
+
+    const config = CodexService.getConfig();
+    if (!config) {
+      console.error('Storage reconciliation skipped: storage service configuration missing');
+      return null;
+    }
+
+    try {
+      const datasets = await CodexService.listData(config);
+      if (!datasets) {
+        return null;
+      }
+
+      const [files, manifests, pendingUnpins] = await Promise.all([
+        fetchAll<{ id: string; user_id: string; cid: string | null; filename: string; status: string }>('files', 'id, user_id, cid, filename, status'),
+        fetchAll<{ id: string; cid: string }>('directory_manifests', 'id, cid'),
+        FileService.getPendingUnpins(PAGE_SIZE)
+      ]);
+
+      const codexCids = new Set(datasets.map(dataset => dataset.cid));
+      // Pending uploads count as known so their content isn't mistaken for an orphan
+      const knownCids = new Set([
+        ...files.map(file => file.cid).filter((cid): cid is string => cid !== null),
+        ...manifests.map(manifest => manifest.cid)
+      ]);
+      const pendingCids = new Set(pendingUnpins.map(entry => entry.cid));
+
+      // Pending unpins whose content is already gone need no further work
+      const resolvedCids = pendingUnpins.filter(entry => !codexCids.has(entry.cid)).map(entry => entry.cid);
+      if (resolvedCids.length > 0) {
+        await supabaseServer.from('pending_unpins').delete().in('cid', resolvedCids);
+      }
+
+      // Anything still pending is requeued; CIDs with a job in progress are skipped by the dedupe key
+      const stuckCids = pendingUnpins.filter(entry => codexCids.has(entry.cid)).map(entry => entry.cid);
+      if (stuckCids.length > 0) {
+        await FileService.queueUnpinJobs(stuckCids);
+      }
+
+      // Content already awaiting an unpin isn't an orphan
+      const orphanDatasets = datasets.filter(dataset => !knownCids.has(dataset.cid) && !pendingCids.has(dataset.cid));
+      const orphans = await this.trackOrphans(orphanDatasets);
+
+      const missing: MissingContent[] = files
+        .filter(file => file.status === 'active' && file.cid && !codexCids.has(file.cid))
+        .map(file => ({ fileId: file.id, userId: file.user_id, cid: file.cid!, filename: file.filename }));
+
+      const cleanup = { unpinnedOrphans: 0, removedFiles: 0 };
+
+      if (options.unpinOrphans) {
+        const graceCutoff = Date.now() - ORPHAN_GRACE_MS;
+        const expired = orphans.filter(orphan => new Date(orphan.firstSeenAt).getTime() < graceCutoff);
+
+        if (expired.length > 0 && await FileService.enqueueUnpin(expired.map(orphan => orphan.cid))) {
+          await supabaseServer.from('storage_orphans').delete().in('cid', expired.map(orphan => orphan.cid));
+          cleanup.unpinnedOrphans = expired.length;
+        }
+      }
+
+      if (options.removeMissing && missing.length > 0) {
+        const missingIds = missing.map(entry => entry.fileId);
+        for (let i = 0; i < missingIds.length; i += PAGE_SIZE) {
+          const { data: removed, error } = await supabaseServer
+            .from('files')
+            .delete()
+            .in('id', missingIds.slice(i, i + PAGE_SIZE))
+            .select('id');
+
+          if (error) {
+            console.error('Error removing files with missing content:', error);
+            break;
+          }
+          cleanup.removedFiles += (removed || []).length;
+        }
+      }
+
+      return {
+        startedAt,
+        completedAt: new Date().toISOString(),
+        codexDatasets: datasets.length,
+        knownCids: knownCids.size,
+        orphanedContent: { total: orphans.length, entries: orphans.slice(0, MAX_REPORTED_ENTRIES) },
+        missingContent: { total: missing.length, entries: missing.slice(0, MAX_REPORTED_ENTRIES) },
+        pendingUnpins: { total: pendingUnpins.length - resolvedCids.length, requeued: stuckCids.length, resolved: resolvedCids.length },
+        cleanup
+      };
+    } catch (error) {
+      console.error('Error in reconcileStorage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Compare each user's recorded storage_used against the usage computed from their files.
+   * With `repair`, drifted users have storage_used recomputed in the database.
+   * Returns null if users could not be listed.
+   */
+  static async reconcileStorageUsage({ repair = false }: { repair?: boolean } = {}): Promise<StorageUsageReport | null> {
+    const startedAt = new Date().toISOString();
+
+    try {
+      const users = await fetchAll<{ id: string; storage_used: number }>('users', 'id, storage_used');
+      const drifted: StorageUsageDrift[] = [];
+
+      for (const user of users) {
+        const actual = await FileService.getUserStorageUsage(user.id);
+        if (actual === user.storage_used) {
+          continue;
+        }
+
+        const entry: StorageUsageDrift = {
+          userId: user.id,
+          recorded: user.storage_used,
+          actual,
+          drift: user.storage_used - actual,
+          repaired: false
+        };
+
+        if (repair) {
+          // Recomputed under the user's row lock, so concurrent uploads can't be lost
+          const { data, error } = await supabaseServer.rpc('repair_storage_used', { p_user_id: user.id });
+          if (error) {
+            console.error(`Error repairing storage usage for user ${user.id}:`, error);
+          } else {
+            entry.actual = data ?? actual;
+            entry.drift = user.storage_used - entry.actual;
+            entry.repaired = true;
+          }
+        }
+
+        drifted.push(entry);
+      }
+
+      return {
+        startedAt,
+        completedAt: new Date().toISOString(),
+        usersChecked: users.length,
+        drifted: {
+          total: drifted.length,
+          repaired: drifted.filter(entry => entry.repaired).length,
+          entries: drifted.slice(0, MAX_REPORTED_ENTRIES)
+        }
+      };
+    } catch (error) {
+      console.error('Error in reconcileStorageUsage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record the current set of orphans, keeping when each was first seen,
+   * and forget content that is no longer orphaned
+   */
+  private static async trackOrphans(datasets: CodexDataset[]): Promise<OrphanedContent[]> {
+    const now = new Date().toISOString();
+    const cids = datasets.map(dataset => dataset.cid);
+
+    const { data: previous, error } = await supabaseServer
+      .from('storage_orphans')
+      .select('cid, first_seen_at');
+
+    if (error) {
+      throw new Error(`Failed to read storage orphans: ${error.message}`);
+    }
+
+    const firstSeen = new Map<string, string>((previous || []).map(row => [row.cid, row.first_seen_at]));
+    const current = new Set(cids);
+    const gone = [...firstSeen.keys()].filter(cid => !current.has(cid));
+
+    if (gone.length > 0) {
+      await supabaseServer.from('storage_orphans').delete().in('cid', gone);
+    }
+
+    if (datasets.length > 0) {
+      await supabaseServer
+        .from('storage_orphans')
+        .upsert(datasets.map(dataset => ({
+          cid: dataset.cid,
+          dataset_size: dataset.manifest?.datasetSize ?? null,
+          filename: dataset.manifest?.filename || null,
+          first_seen_at: firstSeen.get(dataset.cid) || now,
+          last_seen_at: now
+        })), { onConflict: 'cid' });
+    }
+
+    return datasets.map(dataset => ({
+      cid: dataset.cid,
+      datasetSize: dataset.manifest?.datasetSize ?? null,
+      filename: dataset.manifest?.filename || null,
+      firstSeenAt: firstSeen.get(dataset.cid) || now
+    }));
+  }
+}
\ No newline at end of file
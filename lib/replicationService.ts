@@ -0,0 +1,648 @@
+import { supabaseServer } from './supabase-server';
+import { CodexService } from './codexService';
+import { FileService, type FileRecord } from './fileService';
+import { JobQueue, type JobRecord, type JobResult } from './jobQueue';
+import { UserService } from './userService';
+import { getReplicationLimits, type PlanReplicationLimits } from './plans';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Bounds for user-defined rules
+export const MAX_REPLICATION_NODES = 20;
+export const MIN_REPLICATION_DURATION = SECONDS_PER_DAY;
+export const MAX_REPLICATION_DURATION = 90 * SECONDS_PER_DAY;
+
+// Market parameters are set by the operator rather than per rule
+const PRICE_PER_BYTE_PER_SECOND = process.env.CODEX_PRICE_PER_BYTE_PER_SECOND || '1';
+const PROOF_PROBABILITY = process.env.CODEX_PROOF_PROBABILITY || '100';
+const STORAGE_REQUEST_EXPIRY = parseInt(process.env.CODEX_STORAGE_REQUEST_EXPIRY || '900', 10); // seconds
+
+// Active requests are re-checked against Codex at most this often
+const STATUS_REFRESH_INTERVAL_MS = 60 * 1000;
+
+export type StorageRequestStatus = 'pending' | 'started' | 'finished' | 'failed';
+
+export const STORAGE_REQUEST_STATUSES: StorageRequestStatus[] = ['pending', 'started', 'finished', 'failed'];
+
+export interface ReplicationRuleRecord {
+  id: string;
+  user_id: string;
+  // null for the user's default rule, applied to new uploads
+  file_id: string | null;
+  nodes: number;
+  tolerance: number;
+  duration_seconds: number;
+  collateral_per_byte: string;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReplicationRuleInput {
+  nodes: number;
+  tolerance: number;
+  durationSeconds: number;
+  collateralPerByte: string;
+  enabled: boolean;
+}
+
+export interface StorageRequestRecord {
+  id: string;
+  user_id: string;
+  file_id: string;
+  rule_id: string | null;
+  cid: string;
+  purchase_id: string | null;
+  status: StorageRequestStatus;
+  codex_state: string | null;
+  error: string | null;
+  nodes: number;
+  tolerance: number;
+  duration_seconds: number;
+  collateral_per_byte: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReplicationSummary {
+  rules: number;
+  requests: Record<StorageRequestStatus, number>;
+}
+
+/**
+ * Approximate price of a storage request: every slot holds 1/(nodes - tolerance)
+ * of the file and is paid for each second of the duration
+ */
+export function estimateRequestCost(
+  fileSize: number,
+  { nodes, tolerance, durationSeconds }: { nodes: number; tolerance: number; durationSeconds: number }
+): bigint {
+  return BigInt(PRICE_PER_BYTE_PER_SECOND) * BigInt(fileSize) * BigInt(durationSeconds) * BigInt(nodes)
+    / BigInt(nodes - tolerance);
+}
+
+/**
+ * Check rule values against a plan's replication limits, and the request's
+ * cost too when the file size is known. Returns an error message, or null if allowed.
+ */
+export function checkReplicationLimits(
+  limits: PlanReplicationLimits | null,
+  rule: { nodes: number; tolerance: number; durationSeconds: number; collateralPerByte: string },
+  fileSize?: number | null
+): string | null {
+  if (!limits) {
+    return 'Replication is not included in your plan';
+  }
+
+  if (rule.nodes > limits.maxNodes) {
+    return `Your plan allows at most ${limits.maxNodes} nodes`;
+  }
+
+  if (rule.durationSeconds > limits.maxDurationDays * SECONDS_PER_DAY) {
+    return `Your plan allows storage requests of at most ${limits.maxDurationDays} days`;
+  }
+
+  if (limits.maxCollateralPerByte !== null && BigInt(rule.collateralPerByte) > BigInt(limits.maxCollateralPerByte)) {
+    return `Your plan allows a collateralPerByte of at most ${limits.maxCollateralPerByte}`;
+  }
+
+  if (limits.maxRequestCost !== null && fileSize && estimateRequestCost(fileSize, rule) > BigInt(limits.maxRequestCost)) {
+    return 'The storage request would cost more than your plan allows; use fewer nodes or a shorter duration';
+  }
+
+  return null;
+}
+
+/**
+ * Map a Codex purchase state onto the states we track
+ */
+function mapPurchaseState(state: string): StorageRequestStatus {
+  switch (state) {
+    case 'started':
+      return 'started';
+    case 'finished':
+      return 'finished';
+    case 'failed':
+    case 'cancelled':
+    case 'errored':
+      return 'failed';
+    default:
+      // pending, submitted and unknown purchases are still waiting for hosts
+      return 'pending';
+  }
+}
+
+export class ReplicationService {
+  /**
+   * Validate rule fields from a request body.
+   * Codex erasure-codes a dataset into `nodes - tolerance` data slots and
+   * `tolerance` parity slots, which constrains the two values.
+   * The values must also be within the user's plan limits.
+   */
+  static validateRuleInput(
+    body: Record<string, unknown>,
+    limits: PlanReplicationLimits | null
+  ): { input?: ReplicationRuleInput; error?: string } {
+    const { nodes, tolerance, durationDays, collateralPerByte, enabled } = body;
+
+    if (typeof nodes !== 'number' || !Number.isInteger(nodes) || nodes < 3 || nodes > MAX_REPLICATION_NODES) {
+      return { error: `nodes must be an integer between 3 and ${MAX_REPLICATION_NODES}` };
+    }
+
+    if (typeof tolerance !== 'number' || !Number.isInteger(tolerance) || tolerance < 1) {
+      return { error: 'tolerance must be a positive integer' };
+    }
+
+    if (nodes - tolerance < tolerance || nodes - tolerance < 2) {
+      return { error: 'tolerance is too high for the number of nodes' };
+    }
+
+    if (typeof durationDays !== 'number' || !Number.isInteger(durationDays)) {
+      return { error: 'durationDays must be an integer' };
+    }
+
+    const durationSeconds = durationDays * SECONDS_PER_DAY;
+    if (durationSeconds < MIN_REPLICATION_DURATION || durationSeconds > MAX_REPLICATION_DURATION) {
+      return {
+        error: `durationDays must be between ${MIN_REPLICATION_DURATION / SECONDS_PER_DAY} and ${MAX_REPLICATION_DURATION / SECONDS_PER_DAY}`
+      };
+    }
+
+    const collateral = collateralPerByte === undefined ? '1' : String(collateralPerByte);
+    if (!/^\d{1,30}$/.test(collateral)) {
+      return { error: 'collateralPerByte must be a non-negative integer amount' };
+    }
+
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      return { error: 'enabled must be a boolean' };
+    }
+
+    const limitError = checkReplicationLimits(limits, { nodes, tolerance, durationSeconds, collateralPerByte: collateral });
+    if (limitError) {
+      return { error: limitError };
+    }
+
+    return {
+      input: {
+        nodes,
+        tolerance,
+        durationSeconds,
+        collateralPerByte: collateral,
+        enabled: enabled ?? true
+      }
+    };
+  }
+
+  /**
+   * Replication limits of the user's current plan, null if it doesn't include replication
+   */
+  static async getLimits(userId: string): Promise<PlanReplicationLimits | null> {
+    return getReplicationLimits(await UserService.getUserPlan(userId));
+  }
+
+  /**
+   * Get all replication rules for a user, default rule first
+   */
+  static async getRules(userId: string): Promise<ReplicationRuleRecord[]> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('replication_rules')
+        .select('*')
+        .eq('user_id', userId)
+        .order('file_id', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching replication rules:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getRules:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create or replace the rule for a file, or the user's default rule when fileId is null
+   */
+  static async saveRule(
+    userId: string,
+    fileId: string | null,
+    input: ReplicationRuleInput
+  ): Promise<ReplicationRuleRecord | null> {
+    const values = {
+      nodes: input.nodes,
+      tolerance: input.tolerance,
+      duration_seconds: input.durationSeconds,
+      collateral_per_byte: input.collateralPerByte,
+      enabled: input.enabled
+    };
+
+    try {
+      let existingQuery = supabaseServer
+        .from('replication_rules')
+        .select('id')
+        .eq('user_id', userId);
+      existingQuery = fileId ? existingQuery.eq('file_id', fileId) : existingQuery.is('file_id', null);
+
+      const { data: existing, error: fetchError } = await existingQuery.maybeSingle();
+      if (fetchError) {
+        console.error('Error fetching replication rule:', fetchError);
+        return null;
+      }
+
+      const { data, error } = existing
+        ? await supabaseServer
+          .from('replication_rules')
+          .update(values)
+          .eq('id', existing.id)
+          .select()
+          .single()
+        : await supabaseServer
+          .from('replication_rules')
+          .insert({ ...values, user_id: userId, file_id: fileId })
+          .select()
+          .single();
+
+      if (error) {
+        console.error('Error saving replication rule:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in saveRule:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a replication rule. Storage requests already made are unaffected.
+   */
+  static async deleteRule(ruleId: string, userId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('replication_rules')
+        .delete()
+        .eq('id', ruleId)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) {
+        console.error('Error deleting replication rule:', error);
+        return false;
+      }
+
+      return (data || []).length > 0;
+    } catch (error) {
+      console.error('Error in deleteRule:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the rule that applies to a file: its own rule, else the user's default
+   */
+  static async getEffectiveRule(userId: string, fileId: string): Promise<ReplicationRuleRecord | null> {
+    try {
+      const [fileRule, defaultRule] = await Promise.all([
+        supabaseServer
+          .from('replication_rules')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('file_id', fileId)
+          .maybeSingle(),
+        supabaseServer
+          .from('replication_rules')
+          .select('*')
+          .eq('user_id', userId)
+          .is('file_id', null)
+          .maybeSingle()
+      ]);
+
+      if (fileRule.error || defaultRule.error) {
+        console.error('Error fetching effective replication rule:', fileRule.error || defaultRule.error);
+        return null;
+      }
+
+      return fileRule.data || defaultRule.data;
+    } catch (error) {
+      console.error('Error in getEffectiveRule:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the storage request for a file that is still pending or started, if any
+   */
+  static async getActiveRequest(fileId: string, userId: string): Promise<StorageRequestRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('storage_requests')
+        .select('*')
+        .eq('file_id', fileId)
+        .eq('user_id', userId)
+        .in('status', ['pending', 'started'])
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching active storage request:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in getActiveRequest:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Submit a Codex storage request for a file according to a rule and record it.
+   * Requests Codex rejects, or that the user's plan doesn't allow (it may have
+   * changed since the rule was saved), are recorded as failed so the error is visible.
+   */
+  static async requestStorage(
+    file: FileRecord,
+    rule: ReplicationRuleRecord
+  ): Promise<StorageRequestRecord | null> {
+    const record = {
+      user_id: file.user_id,
+      file_id: file.id,
+      rule_id: rule.id,
+      cid: file.cid,
+      nodes: rule.nodes,
+      tolerance: rule.tolerance,
+      duration_seconds: rule.duration_seconds,
+      collateral_per_byte: rule.collateral_per_byte
+    };
+
+    let purchaseId: string | null = null;
+    let requestError: string | null = null;
+
+    const limitError = checkReplicationLimits(await this.getLimits(file.user_id), {
+      nodes: rule.nodes,
+      tolerance: rule.tolerance,
+      durationSeconds: rule.duration_seconds,
+      collateralPerByte: rule.collateral_per_byte
+    }, file.file_size);
+
+    const config = CodexService.getConfig();
+    if (limitError) {
+      requestError = limitError;
+    } else if (!config) {
+      requestError = 'Storage service configuration missing';
+    } else {
+      try {
+        const response = await CodexService.requestStorage(config, file.cid, {
+          duration: rule.duration_seconds,
+          pricePerBytePerSecond: PRICE_PER_BYTE_PER_SECOND,
+          proofProbability: PROOF_PROBABILITY,
+          nodes: rule.nodes,
+          tolerance: rule.tolerance,
+          collateralPerByte: rule.collateral_per_byte,
+          expiry: STORAGE_REQUEST_EXPIRY
+        });
+        const body = (await response.text()).trim();
+
+        if (response.ok && body) {
+          purchaseId = body;
+        } else {
+          console.error(`Codex storage request error: ${response.status} ${body}`);
+          requestError = body || `Storage request rejected (${response.status})`;
+        }
+      } catch (error) {
+        console.error('Error submitting storage request:', error);
+        requestError = 'Storage service unavailable';
+      }
+    }
+
+    try {
+      const { data, error } = await supabaseServer
+        .from('storage_requests')
+        .insert({
+          ...record,
+          purchase_id: purchaseId,
+          status: purchaseId ? 'pending' : 'failed',
+          error: requestError
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving storage request:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in requestStorage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Queue a storage request for a file, using the rule that applies when the job runs.
+   * Returns the existing job if one is already queued for the file.
+   */
+  static async queueStorageRequest(fileId: string, userId: string): Promise<JobRecord | null> {
+    return JobQueue.enqueue('replication.request', { fileId }, {
+      userId,
+      dedupeKey: `replication:${fileId}`
+    });
+  }
+
+  /**
+   * Job worker handler for queued storage requests
+   */
+  static async processStorageRequestJob(job: JobRecord): Promise<JobResult> {
+    const fileId = job.payload.fileId as string;
+    if (!job.user_id || !fileId) {
+      return { status: 'failed', error: 'Storage request job is missing its file' };
+    }
+
+    const file = await FileService.getFile(fileId, job.user_id);
+    if (!file) {
+      // Deleted since the job was queued
+      return { status: 'completed' };
+    }
+
+    const rule = await this.getEffectiveRule(job.user_id, file.id);
+    if (!rule || !rule.enabled) {
+      return { status: 'completed' };
+    }
+
+    if (await this.getActiveRequest(file.id, job.user_id)) {
+      return { status: 'completed' };
+    }
+
+    const request = await this.requestStorage(file, rule);
+    if (!request) {
+      return { status: 'retry', error: 'Failed to record storage request' };
+    }
+
+    // Rejected requests are recorded as failed for the user to see and retry
+    return { status: 'completed' };
+  }
+
+  /**
+   * Queue storage requests for newly uploaded files covered by an enabled default rule.
+   * Failures are logged and never fail the upload.
+   */
+  static async applyDefaultRule(userId: string, files: FileRecord[]): Promise<void> {
+    try {
+      const { data: rule, error } = await supabaseServer
+        .from('replication_rules')
+        .select('*')
+        .eq('user_id', userId)
+        .is('file_id', null)
+        .eq('enabled', true)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching default replication rule:', error);
+        return;
+      }
+
+      // A default rule left over from a plan that included replication requests nothing
+      if (!rule || !await this.getLimits(userId)) {
+        return;
+      }
+
+      const queued = await JobQueue.enqueueMany(files.map(file => ({
+        type: 'replication.request' as const,
+        payload: { fileId: file.id },
+        options: { userId }
+      })));
+
+      if (!queued) {
+        console.error(`Failed to queue storage requests for ${files.length} files`);
+      }
+    } catch (error) {
+      console.error('Error in applyDefaultRule:', error);
+    }
+  }
+
+  /**
+   * Poll Codex for the current state of a pending or started request
+   */
+  static async refreshRequest(request: StorageRequestRecord): Promise<StorageRequestRecord> {
+    const config = CodexService.getConfig();
+    if (!config || !request.purchase_id) {
+      return request;
+    }
+
+    try {
+      const purchase = await CodexService.getPurchase(config, request.purchase_id);
+      if (!purchase) {
+        return request;
+      }
+
+      const status = mapPurchaseState(purchase.state);
+      const { data, error } = await supabaseServer
+        .from('storage_requests')
+        .update({
+          status,
+          codex_state: purchase.state,
+          error: purchase.error || null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', request.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating storage request:', error);
+        return request;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in refreshRequest:', error);
+      return request;
+    }
+  }
+
+  /**
+   * Get a user's storage requests, newest first. Active requests that
+   * haven't been checked recently are refreshed from Codex first.
+   */
+  static async getStorageRequests(
+    userId: string,
+    { fileId, status, limit = 50 }: { fileId?: string; status?: StorageRequestStatus; limit?: number } = {}
+  ): Promise<StorageRequestRecord[]> {
+    try {
+      let query = supabaseServer
+        .from('storage_requests')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (fileId) {
+        query = query.eq('file_id', fileId);
+      }
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching storage requests:', error);
+        return [];
+      }
+
+      const staleBefore = Date.now() - STATUS_REFRESH_INTERVAL_MS;
+      return Promise.all((data || []).map(request =>
+        (request.status === 'pending' || request.status === 'started') &&
+          new Date(request.updated_at).getTime() < staleBefore
+          ? this.refreshRequest(request)
+          : request
+      ));
+    } catch (error) {
+      console.error('Error in getStorageRequests:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Count rules and storage requests by status
+   */
+  static async getSummary(userId: string): Promise<ReplicationSummary> {
+    const summary: ReplicationSummary = {
+      rules: 0,
+      requests: { pending: 0, started: 0, finished: 0, failed: 0 }
+    };
+
+    try {
+      const [rulesResult, requestsResult] = await Promise.all([
+        supabaseServer
+          .from('replication_rules')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId),
+        supabaseServer
+          .from('storage_requests')
+          .select('status')
+          .eq('user_id', userId)
+      ]);
+
+      if (rulesResult.error || requestsResult.error) {
+        console.error('Error fetching replication summary:', rulesResult.error || requestsResult.error);
+        return summary;
+      }
+
+      summary.rules = rulesResult.count || 0;
+      for (const request of requestsResult.data || []) {
+        summary.requests[request.status as StorageRequestStatus]++;
+      }
+
+      return summary;
+    } catch (error) {
+      console.error('Error in getSummary:', error);
+      return summary;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,255 @@
+import crypto from 'crypto';
+import { supabaseServer } from './supabase-server';
+import type { FileRecord } from './fileService';
+
+export const DEFAULT_SHARE_LINK_TTL_SECONDS = 24 * 60 * 60;
+export const MAX_SHARE_LINK_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://thirdstorage.com';
+
+export interface ShareLinkRecord {
+  id: string;
+  file_id: string;
+  user_id: string;
+  cid: string;
+  expires_at: string;
+  // Only requests from this IP may use the link
+  ip_address: string | null;
+  max_downloads: number | null;
+  download_count: number;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+export interface ShareLink extends ShareLinkRecord {
+  // Signed gateway path, e.g. /api/gateway/<cid>?share=...&expires=...&sig=...
+  path: string;
+  url: string;
+}
+
+export interface ShareLinkOptions {
+  expiresInSeconds?: number;
+  ipAddress?: string | null;
+  maxDownloads?: number | null;
+}
+
+// Query parameters of a signed gateway URL
+export interface ShareLinkParams {
+  linkId: string;
+  expires: string;
+  signature: string;
+  // Present when the signature covers the requester's IP
+  bound: boolean;
+}
+
+export type ShareLinkCheck = { valid: true } | { valid: false; error: string };
+
+/**
+ * Links are signed with SHARE_LINK_SECRET; sharing is disabled when it is unset
+ */
+function getSecret(): string | null {
+  return process.env.SHARE_LINK_SECRET || null;
+}
+
+function sign(secret: string, linkId: string, cid: string, expires: number, ipAddress: string | null): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${linkId}:${cid}:${expires}:${ipAddress || ''}`)
+    .digest('base64url');
+}
+
+function toShareLink(secret: string, link: ShareLinkRecord): ShareLink {
+  const expires = Math.floor(new Date(link.expires_at).getTime() / 1000);
+  const params = new URLSearchParams({
+    share: link.id,
+    expires: String(expires),
+    sig: sign(secret, link.id, link.cid, expires, link.ip_address)
+  });
+  if (link.ip_address) {
+    params.set('bound', '1');
+  }
+
+  const path = `/api/gateway/${link.cid}?${params}`;
+  return { ...link, path, url: `${SITE_URL}${path}` };
+}
+
+export class ShareLinkService {
+  static isConfigured(): boolean {
+    return getSecret() !== null;
+  }
+
+  /**
+   * Mint a signed link to a file's content
+   */
+  static async createLink(
+    file: FileRecord,
+    { expiresInSeconds = DEFAULT_SHARE_LINK_TTL_SECONDS, ipAddress = null, maxDownloads = null }: ShareLinkOptions = {}
+  ): Promise<ShareLink | null> {
+    const secret = getSecret();
+    if (!secret || !file.cid) {
+      return null;
+    }
+
+    try {
+      // Whole seconds, so the expiry in the URL matches the stored one
+      const expiresAt = new Date((Math.floor(Date.now() / 1000) + expiresInSeconds) * 1000);
+
+      const { data, error } = await supabaseServer
+        .from('share_links')
+        .insert({
+          file_id: file.id,
+          user_id: file.user_id,
+          cid: file.cid,
+          expires_at: expiresAt.toISOString(),
+          ip_address: ipAddress,
+          max_downloads: maxDownloads
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating share link:', error);
+        return null;
+      }
+
+      return toShareLink(secret, data);
+    } catch (error) {
+      console.error('Error in createLink:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List a file's links that can still be used: unrevoked, unexpired and under their download cap
+   */
+  static async listLinks(fileId: string, userId: string): Promise<ShareLink[] | null> {
+    const secret = getSecret();
+    if (!secret) {
+      return [];
+    }
+
+    try {
+      const { data, error } = await supabaseServer
+        .from('share_links')
+        .select('*')
+        .eq('file_id', fileId)
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching share links:', error);
+        return null;
+      }
+
+      return ((data || []) as ShareLinkRecord[])
+        .filter(link => link.max_downloads === null || link.download_count < link.max_downloads)
+        .map(link => toShareLink(secret, link));
+    } catch (error) {
+      console.error('Error in listLinks:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Revoke one of a file's links. Returns false if it doesn't exist or is already revoked.
+   */
+  static async revokeLink(linkId: string, fileId: string, userId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('share_links')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', linkId)
+        .eq('file_id', fileId)
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .select('id');
+
+      if (error) {
+        console.error('Error revoking share link:', error);
+        return false;
+      }
+
+      return (data || []).length > 0;
+    } catch (error) {
+      console.error('Error in revokeLink:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check a signed gateway request for a CID: its signature and expiry, and that
+   * the link is neither revoked nor out of downloads. Doesn't count a download.
+   * For bound links `clientIP` must come from getTrustedClientIP, not a client-set header.
+   */
+  static async verifyLink(cid: string, params: ShareLinkParams, clientIP: string): Promise<ShareLinkCheck> {
+    const secret = getSecret();
+    if (!secret) {
+      return { valid: false, error: 'Share links are not enabled' };
+    }
+
+    const expires = Number(params.expires);
+    if (!Number.isSafeInteger(expires)) {
+      return { valid: false, error: 'Invalid share link' };
+    }
+
+    const expected = Buffer.from(sign(secret, params.linkId, cid, expires, params.bound ? clientIP : null));
+    const actual = Buffer.from(params.signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return { valid: false, error: 'Invalid share link' };
+    }
+
+    if (expires * 1000 <= Date.now()) {
+      return { valid: false, error: 'Share link has expired' };
+    }
+
+    try {
+      const { data, error } = await supabaseServer
+        .from('share_links')
+        .select('max_downloads, download_count')
+        .eq('id', params.linkId)
+        .eq('cid', cid)
+        .is('revoked_at', null)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching share link:', error);
+        return { valid: false, error: 'Failed to check share link' };
+      }
+
+      return data && (data.max_downloads === null || data.download_count < data.max_downloads)
+        ? { valid: true }
+        : { valid: false, error: 'Share link has been revoked or used up' };
+    } catch (error) {
+      console.error('Error in verifyLink:', error);
+      return { valid: false, error: 'Failed to check share link' };
+    }
+  }
+
+  /**
+   * Count a download against a link already checked with verifyLink,
+   * rejecting it if the link was revoked or used up in the meantime
+   */
+  static async consumeDownload(linkId: string, cid: string): Promise<ShareLinkCheck> {
+    try {
+      const { data, error } = await supabaseServer.rpc('consume_share_link', {
+        p_link_id: linkId,
+        p_cid: cid
+      });
+
+      if (error) {
+        console.error('Error consuming share link:', error);
+        return { valid: false, error: 'Failed to check share link' };
+      }
+
+      return data === null
+        ? { valid: false, error: 'Share link has been revoked or used up' }
+        : { valid: true };
+    } catch (error) {
+      console.error('Error in consumeDownload:', error);
+      return { valid: false, error: 'Failed to check share link' };
+    }
+  }
+}
\ No newline at end of file
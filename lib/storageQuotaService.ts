@@ -0,0 +1,129 @@
+import { supabaseServer } from './supabase-server';
+import { formatFileSize } from './supabase';
+import { getStorageLimit } from './plans';
+import { UserService } from './userService';
+
+// Reservations outlive any single upload; expired ones are released automatically
+const RESERVATION_TTL_MS = 2 * 60 * 60 * 1000;
+
+export interface StorageReservation {
+  id: string;
+  userId: string;
+  bytes: number;
+}
+
+export type ReserveStorageResult =
+  | { reservation: StorageReservation; currentUsage: number; limit: number }
+  | { reservation: null; reason: string; currentUsage?: number; limit?: number };
+
+export class StorageQuotaService {
+  /**
+   * Atomically hold storage for an upload against the user's plan limit.
+   * Grants as much of `bytes` as fits, failing if less than `minBytes` (default: all of it) does.
+   * The hold must be committed once the upload's files are saved, or released if it fails.
+   * Holds that must outlive a single request can set a longer `ttlMs`.
+   */
+  static async reserve(
+    userId: string,
+    bytes: number,
+    { minBytes = bytes, ttlMs = RESERVATION_TTL_MS }: { minBytes?: number; ttlMs?: number } = {}
+  ): Promise<ReserveStorageResult> {
+    try {
+      const planType = await UserService.getUserPlan(userId);
+      const limit = getStorageLimit(planType);
+
+      const { data, error } = await supabaseServer.rpc('reserve_storage', {
+        p_user_id: userId,
+        p_bytes: Math.max(bytes, 1),
+        p_min_bytes: Math.max(minBytes, 1),
+        p_limit: limit,
+        p_ttl_seconds: Math.ceil(ttlMs / 1000)
+      });
+
+      if (error) {
+        console.error('Error reserving storage:', error);
+        return { reservation: null, reason: 'Error checking storage limits' };
+      }
+
+      const granted = (data || [])[0] as {
+        reservation_id: string;
+        granted_bytes: number;
+        storage_used: number;
+        storage_reserved: number;
+      } | undefined;
+
+      if (!granted) {
+        const user = await UserService.getUser(userId);
+        if (!user) {
+          return { reservation: null, reason: 'User profile not found' };
+        }
+
+        const currentUsage = user.storage_used + (user.storage_reserved || 0);
+        return {
+          reservation: null,
+          reason: `Insufficient storage space. You need ${formatFileSize(minBytes)} but only have ${formatFileSize(Math.max(0, limit - currentUsage))} remaining.`,
+          currentUsage,
+          limit
+        };
+      }
+
+      return {
+        reservation: { id: granted.reservation_id, userId, bytes: granted.granted_bytes },
+        // Usage before this reservation
+        currentUsage: granted.storage_used + granted.storage_reserved - granted.granted_bytes,
+        limit
+      };
+    } catch (error) {
+      console.error('Error in reserve:', error);
+      return { reservation: null, reason: 'Error checking storage limits' };
+    }
+  }
+
+  /**
+   * Drop a hold once the upload's files are saved; their size now counts in storage_used
+   */
+  static async commit(reservation: StorageReservation): Promise<void> {
+    await this.releaseReservation(reservation.id);
+  }
+
+  /**
+   * Give back a hold for an upload that failed
+   */
+  static async release(reservation: StorageReservation): Promise<void> {
+    await this.releaseReservation(reservation.id);
+  }
+
+  private static async releaseReservation(reservationId: string): Promise<void> {
+    try {
+      const { error } = await supabaseServer.rpc('release_storage_reservation', {
+        p_reservation_id: reservationId
+      });
+
+      if (error) {
+        // The hold is released when it expires
+        console.error('Error releasing storage reservation:', error);
+      }
+    } catch (error) {
+      console.error('Error in releaseReservation:', error);
+    }
+  }
+
+  /**
+   * Release reservations left behind by uploads that never finished. Returns how many were released.
+   */
+  static async expireReservations(): Promise<number> {
+    try {
+      const { data, error } = await supabaseServer.rpc('expire_storage_reservations');
+
+      if (error) {
+        console.error('Error expiring storage reservations:', error);
+        return 0;
+      }
+
+      return data || 0;
+    } catch (error) {
+      console.error('Error in expireReservations:', error);
+      return 0;
+    }
+  }
+}
\ No newline at end of file
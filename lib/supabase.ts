@@ -9,6 +9,7 @@ export interface Database {
           id: string; // TEXT to support Privy DIDs
           email: string;
           storage_used: number;
+          storage_reserved?: number;
           created_at: string;
           updated_at: string;
         };
@@ -0,0 +1,254 @@
+import { supabaseServer } from './supabase-server';
+import {
+  FileService,
+  formatFile,
+  toBulkResults,
+  type BulkFileResult,
+  type FileRecord,
+  type FileWithFormatted
+} from './fileService';
+import { StorageQuotaService } from './storageQuotaService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long deleted files can be restored before they are purged and unpinned
+export const TRASH_RETENTION_MS = parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10) * DAY_MS;
+// How long trashed files keep counting toward storage
+export const TRASH_QUOTA_GRACE_MS = Math.min(
+  parseInt(process.env.TRASH_QUOTA_GRACE_DAYS || '7', 10) * DAY_MS,
+  TRASH_RETENTION_MS
+);
+
+export const DEFAULT_TRASH_LIST_LIMIT = 50;
+export const MAX_TRASH_LIST_LIMIT = 200;
+
+const SWEEP_BATCH_SIZE = 1000;
+
+export interface TrashedFile extends FileWithFormatted {
+  deleted_at: string;
+  // When the file will be purged
+  expires_at: string;
+  // When the file stops counting toward storage, null once it has
+  quota_release_at: string | null;
+}
+
+export interface TrashPage {
+  files: TrashedFile[];
+  total: number;
+}
+
+export interface TrashSweepResult {
+  released: number;
+  purged: number;
+}
+
+function toTrashedFile(file: FileRecord): TrashedFile {
+  const deletedAt = new Date(file.deleted_at!).getTime();
+  return {
+    ...formatFile(file),
+    deleted_at: file.deleted_at!,
+    expires_at: new Date(deletedAt + TRASH_RETENTION_MS).toISOString(),
+    quota_release_at: file.quota_released ? null : new Date(deletedAt + TRASH_QUOTA_GRACE_MS).toISOString()
+  };
+}
+
+export class TrashService {
+  /**
+   * List a user's trashed files, most recently deleted first
+   */
+  static async listTrash(
+    userId: string,
+    { limit = DEFAULT_TRASH_LIST_LIMIT, offset = 0 }: { limit?: number; offset?: number } = {}
+  ): Promise<TrashPage | null> {
+    try {
+      const { data, error, count } = await supabaseServer
+        .from('files')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId)
+        .eq('status', 'trashed')
+        .order('deleted_at', { ascending: false })
+        .order('id', { ascending: true })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        console.error('Error fetching trash:', error);
+        return null;
+      }
+
+      return {
+        files: ((data || []) as FileRecord[]).map(toTrashedFile),
+        total: count || 0
+      };
+    } catch (error) {
+      console.error('Error in listTrash:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Move trashed files back to the user's files. Files whose quota was already
+   * released are charged again, and stay in the trash if that doesn't fit.
+   * Returns null if the trash couldn't be read.
+   */
+  static async restoreFiles(fileIds: string[], userId: string): Promise<BulkFileResult[] | null> {
+    try {
+      const { data: trashed, error } = await supabaseServer
+        .from('files')
+        .select('id, file_size, quota_released')
+        .in('id', fileIds)
+        .eq('user_id', userId)
+        .eq('status', 'trashed');
+
+      if (error) {
+        console.error('Error fetching trashed files:', error);
+        return null;
+      }
+
+      const files = (trashed || []) as Pick<FileRecord, 'id' | 'file_size' | 'quota_released'>[];
+      const released = files.filter(file => file.quota_released);
+      const errors = new Map<string, string>();
+      let restoreIds = files.map(file => file.id);
+
+      // Hold the storage the released files will use again until they're restored
+      const releasedBytes = released.reduce((total, file) => total + file.file_size, 0);
+      const quota = releasedBytes > 0 ? await StorageQuotaService.reserve(userId, releasedBytes) : null;
+      if (quota && !quota.reservation) {
+        for (const file of released) {
+          errors.set(file.id, quota.reason);
+        }
+        restoreIds = files.filter(file => !file.quota_released).map(file => file.id);
+      }
+
+      try {
+        if (restoreIds.length === 0) {
+          return toBulkResults(fileIds, [], errors);
+        }
+
+        const { data: restored, error: restoreError } = await supabaseServer
+          .from('files')
+          .update({ status: 'active', deleted_at: null, quota_released: false })
+          .in('id', restoreIds)
+          .eq('user_id', userId)
+          .eq('status', 'trashed')
+          .select('id');
+
+        if (restoreError) {
+          console.error('Error restoring files:', restoreError);
+          return null;
+        }
+
+        return toBulkResults(fileIds, (restored || []).map(file => file.id), errors);
+      } finally {
+        if (quota?.reservation) {
+          await StorageQuotaService.commit(quota.reservation);
+        }
+      }
+    } catch (error) {
+      console.error('Error in restoreFiles:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Permanently delete trashed files, or the whole trash when no IDs are given.
+   * Content no other file references is unpinned by a background job.
+   * Returns the IDs of the purged files, or null on error.
+   */
+  static async purgeFiles(userId: string, fileIds?: string[]): Promise<string[] | null> {
+    try {
+      let query = supabaseServer
+        .from('files')
+        .delete()
+        .eq('user_id', userId)
+        .eq('status', 'trashed');
+
+      if (fileIds) {
+        query = query.in('id', fileIds);
+      }
+
+      const { data: purged, error } = await query.select('id, cid');
+
+      if (error) {
+        console.error('Error purging trashed files:', error);
+        return null;
+      }
+
+      if (purged && purged.length > 0) {
+        await FileService.enqueueUnpin(purged.map(file => file.cid), userId);
+      }
+
+      return (purged || []).map(file => file.id);
+    } catch (error) {
+      console.error('Error in purgeFiles:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Stop charging for files trashed longer than the grace period and purge
+   * those past the retention window, unpinning content nothing else holds
+   */
+  static async sweepTrash(): Promise<TrashSweepResult> {
+    const result: TrashSweepResult = { released: 0, purged: 0 };
+
+    try {
+      const graceCutoff = new Date(Date.now() - TRASH_QUOTA_GRACE_MS).toISOString();
+      const { data: released, error: releaseError } = await supabaseServer
+        .from('files')
+        .update({ quota_released: true })
+        .eq('status', 'trashed')
+        .eq('quota_released', false)
+        .lt('deleted_at', graceCutoff)
+        .select('id');
+
+      if (releaseError) {
+        console.error('Error releasing trashed file quota:', releaseError);
+      }
+      result.released = (released || []).length;
+
+      const retentionCutoff = new Date(Date.now() - TRASH_RETENTION_MS).toISOString();
+      for (;;) {
+        const { data: expired, error: expiredError } = await supabaseServer
+          .from('files')
+          .select('id')
+          .eq('status', 'trashed')
+          .lt('deleted_at', retentionCutoff)
+          .limit(SWEEP_BATCH_SIZE);
+
+        if (expiredError) {
+          console.error('Error fetching expired trash:', expiredError);
+          break;
+        }
+        if (!expired || expired.length === 0) {
+          break;
+        }
+
+        const { data: purged, error: purgeError } = await supabaseServer
+          .from('files')
+          .delete()
+          .in('id', expired.map(file => file.id))
+          .eq('status', 'trashed')
+          .select('cid');
+
+        if (purgeError) {
+          console.error('Error purging expired trash:', purgeError);
+          break;
+        }
+
+        const cids = (purged || []).map(file => file.cid).filter(Boolean);
+        if (cids.length > 0) {
+          await FileService.enqueueUnpin(cids);
+        }
+        result.purged += (purged || []).length;
+
+        if (expired.length < SWEEP_BATCH_SIZE) {
+          break;
+        }
+      }
+    } catch (error) {
+      console.error('Error in sweepTrash:', error);
+    }
+
+    return result;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,464 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { supabaseServer } from './supabase-server';
+import { StorageQuotaService } from './storageQuotaService';
+
+// Chunk data is kept in Supabase Storage until the session completes, so any
+// instance can accept the next chunk or complete the upload
+export const UPLOAD_SESSION_BUCKET = process.env.UPLOAD_SESSION_BUCKET || 'upload-sessions';
+export const MAX_CHUNK_SIZE = 4 * 1024 * 1024; // 4MB, below typical serverless body limits
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // Sessions can be resumed for 24 hours
+export const MAX_ACTIVE_SESSIONS_PER_USER = 10;
+// Expired sessions are kept a while so a completion started just before expiry can finish
+const SESSION_SWEEP_GRACE_MS = 60 * 60 * 1000;
+// A session's storage is held until it is swept; the reservation's own expiry is only a backstop
+export const SESSION_RESERVATION_TTL_MS = SESSION_TTL_MS + 2 * SESSION_SWEEP_GRACE_MS;
+const SWEEP_BATCH_SIZE = 500;
+const STORAGE_LIST_LIMIT = 1000;
+
+export type UploadSessionStatus = 'active' | 'completing' | 'completed' | 'cancelled';
+
+export interface UploadSessionRecord {
+  id: string;
+  user_id: string;
+  filename: string;
+  content_type: string;
+  total_size: number;
+  upload_offset: number;
+  status: UploadSessionStatus;
+  upload_method: 'dashboard' | 'api';
+  pinning_secret_id: string | null;
+  storage_reservation_id: string | null;
+  cid: string | null;
+  file_id: string | null;
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateUploadSessionParams {
+  userId: string;
+  filename: string;
+  contentType: string;
+  totalSize: number;
+  uploadMethod: 'dashboard' | 'api';
+  pinningSecretId?: string;
+  storageReservationId?: string;
+}
+
+export interface UploadChunkRecord {
+  session_id: string;
+  chunk_offset: number;
+  length: number;
+  object_path: string;
+}
+
+export interface WriteChunkResult {
+  success: boolean;
+  session?: UploadSessionRecord;
+  error?: 'offset_mismatch' | 'chunk_too_large' | 'write_failed';
+}
+
+export class UploadSessionService {
+  /**
+   * Storage bucket holding every session's chunks
+   */
+  private static bucket() {
+    return supabaseServer.storage.from(UPLOAD_SESSION_BUCKET);
+  }
+
+  /**
+   * Create a new resumable upload session
+   */
+  static async createSession({
+    userId,
+    filename,
+    contentType,
+    totalSize,
+    uploadMethod,
+    pinningSecretId,
+    storageReservationId
+  }: CreateUploadSessionParams): Promise<UploadSessionRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('upload_sessions')
+        .insert({
+          user_id: userId,
+          filename,
+          content_type: contentType,
+          total_size: totalSize,
+          upload_offset: 0,
+          status: 'active',
+          upload_method: uploadMethod,
+          pinning_secret_id: pinningSecretId || null,
+          ...(storageReservationId ? { storage_reservation_id: storageReservationId } : {}),
+          expires_at: new Date(Date.now() + SESSION_TTL_MS).toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating upload session:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in createSession:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Count a user's unexpired sessions that are still being uploaded or completed
+   */
+  static async countActiveSessions(userId: string): Promise<number | null> {
+    try {
+      const { count, error } = await supabaseServer
+        .from('upload_sessions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .in('status', ['active', 'completing'])
+        .gt('expires_at', new Date().toISOString());
+
+      if (error) {
+        console.error('Error counting upload sessions:', error);
+        return null;
+      }
+
+      return count || 0;
+    } catch (error) {
+      console.error('Error in countActiveSessions:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get an upload session owned by a user.
+   * Expired sessions are treated as missing.
+   */
+  static async getSession(sessionId: string, userId: string): Promise<UploadSessionRecord | null> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('upload_sessions')
+        .select('*')
+        .eq('id', sessionId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching upload session:', error);
+        return null;
+      }
+
+      if (!data || new Date(data.expires_at).getTime() < Date.now()) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in getSession:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Write a chunk at the given offset and persist the new offset.
+   * The offset must match the server-side offset so interrupted
+   * uploads resume exactly where the last acknowledged chunk ended.
+   */
+  static async writeChunk(
+    session: UploadSessionRecord,
+    offset: number,
+    chunk: Readable
+  ): Promise<WriteChunkResult> {
+    if (offset !== session.upload_offset) {
+      return { success: false, error: 'offset_mismatch' };
+    }
+
+    const maxBytes = Math.min(MAX_CHUNK_SIZE, session.total_size - offset);
+    const parts: Buffer[] = [];
+    let bytesRead = 0;
+
+    try {
+      for await (const data of chunk) {
+        bytesRead += data.length;
+        if (bytesRead > maxBytes) {
+          chunk.destroy();
+          return { success: false, error: 'chunk_too_large' };
+        }
+        parts.push(data);
+      }
+    } catch (error) {
+      console.error('Error reading upload chunk:', error);
+      return { success: false, error: 'write_failed' };
+    }
+
+    if (bytesRead === 0) {
+      return { success: true, session };
+    }
+
+    // Every attempt gets its own object; only the one whose offset update wins is recorded
+    const objectPath = `${session.id}/${offset}-${crypto.randomUUID()}`;
+
+    try {
+      const { error: uploadError } = await this.bucket().upload(objectPath, Buffer.concat(parts), {
+        contentType: 'application/octet-stream'
+      });
+
+      if (uploadError) {
+        console.error('Error storing upload chunk:', uploadError);
+        return { success: false, error: 'write_failed' };
+      }
+
+      // Advances the offset and records the chunk together, only if no concurrent request moved it first
+      const { data, error } = await supabaseServer.rpc('record_upload_chunk', {
+        p_session_id: session.id,
+        p_offset: offset,
+        p_length: bytesRead,
+        p_object_path: objectPath
+      });
+
+      const updated = (data || [])[0] as UploadSessionRecord | undefined;
+      if (error || !updated) {
+        await this.bucket().remove([objectPath]);
+        if (error) {
+          console.error('Error updating upload offset:', error);
+          return { success: false, error: 'write_failed' };
+        }
+        return { success: false, error: 'offset_mismatch' };
+      }
+
+      return { success: true, session: updated };
+    } catch (error) {
+      console.error('Error in writeChunk:', error);
+      return { success: false, error: 'write_failed' };
+    }
+  }
+
+  /**
+   * Move a session between statuses, only if it is still in the expected one
+   */
+  static async transitionStatus(
+    sessionId: string,
+    from: UploadSessionStatus,
+    to: UploadSessionStatus,
+    updates: { cid?: string; file_id?: string } = {}
+  ): Promise<boolean> {
+    try {
+      const { data, error } = await supabaseServer
+        .from('upload_sessions')
+        .update({
+          ...updates,
+          status: to,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', sessionId)
+        .eq('status', from)
+        .select('id')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error updating upload session status:', error);
+        return false;
+      }
+
+      return !!data;
+    } catch (error) {
+      console.error('Error in transitionStatus:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Stream the assembled upload from its stored chunks, in order
+   */
+  static createReadStream(session: UploadSessionRecord): Readable {
+    const bucket = this.bucket();
+
+    async function* readChunks() {
+      const { data: chunks, error } = await supabaseServer
+        .from('upload_session_chunks')
+        .select('*')
+        .eq('session_id', session.id)
+        .order('chunk_offset', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to read upload chunks: ${error.message}`);
+      }
+
+      let position = 0;
+      for (const chunk of (chunks || []) as UploadChunkRecord[]) {
+        if (chunk.chunk_offset !== position) {
+          throw new Error(`Upload ${session.id} is missing data at byte ${position}`);
+        }
+
+        const { data, error: downloadError } = await bucket.download(chunk.object_path);
+        if (downloadError || !data) {
+          throw new Error(`Failed to read upload chunk at byte ${position}`);
+        }
+
+        yield Buffer.from(await data.arrayBuffer());
+        position += chunk.length;
+      }
+
+      if (position !== session.total_size) {
+        throw new Error(`Upload ${session.id} has ${position} of ${session.total_size} bytes stored`);
+      }
+    }
+
+    return Readable.from(readChunks());
+  }
+
+  /**
+   * Remove the stored chunks of a session, including those of unacknowledged attempts
+   */
+  static async removeChunkData(sessionId: string): Promise<void> {
+    try {
+      for (;;) {
+        const { data, error } = await this.bucket().list(sessionId, { limit: STORAGE_LIST_LIMIT });
+        if (error) {
+          console.error('Error listing upload session data:', error);
+          return;
+        }
+        if (!data || data.length === 0) {
+          return;
+        }
+
+        const { error: removeError } = await this.bucket().remove(data.map(object => `${sessionId}/${object.name}`));
+        if (removeError) {
+          console.error('Error removing upload session data:', removeError);
+          return;
+        }
+
+        if (data.length < STORAGE_LIST_LIMIT) {
+          return;
+        }
+      }
+    } catch (error) {
+      console.error('Error removing upload session data:', error);
+    }
+  }
+
+  /**
+   * Cancel an active session and discard its data
+   */
+  static async cancelSession(session: UploadSessionRecord): Promise<boolean> {
+    const cancelled = await this.transitionStatus(session.id, 'active', 'cancelled');
+    if (cancelled) {
+      await this.removeChunkData(session.id);
+      await this.releaseStorage(session);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Give back the storage held for a session that will not be completed
+   */
+  static async releaseStorage(
+    session: Pick<UploadSessionRecord, 'user_id' | 'total_size' | 'storage_reservation_id'>
+  ): Promise<void> {
+    if (session.storage_reservation_id) {
+      await StorageQuotaService.release({
+        id: session.storage_reservation_id,
+        userId: session.user_id,
+        bytes: session.total_size
+      });
+    }
+  }
+
+  /**
+   * Delete expired sessions with their chunk data and held storage,
+   * then any stored chunks left without a session. Returns how many sessions were deleted.
+   */
+  static async sweepExpiredSessions(): Promise<number> {
+    let deleted = 0;
+
+    try {
+      const cutoff = new Date(Date.now() - SESSION_SWEEP_GRACE_MS).toISOString();
+
+      for (;;) {
+        const { data: expired, error: expiredError } = await supabaseServer
+          .from('upload_sessions')
+          .select('id, user_id, total_size, storage_reservation_id')
+          .lt('expires_at', cutoff)
+          .limit(SWEEP_BATCH_SIZE);
+
+        if (expiredError) {
+          console.error('Error fetching expired upload sessions:', expiredError);
+          break;
+        }
+        if (!expired || expired.length === 0) {
+          break;
+        }
+
+        for (const session of expired) {
+          await this.removeChunkData(session.id);
+          await this.releaseStorage(session);
+        }
+
+        const { error: deleteError } = await supabaseServer
+          .from('upload_sessions')
+          .delete()
+          .in('id', expired.map(session => session.id));
+
+        if (deleteError) {
+          console.error('Error deleting expired upload sessions:', deleteError);
+          break;
+        }
+        deleted += expired.length;
+
+        if (expired.length < SWEEP_BATCH_SIZE) {
+          break;
+        }
+      }
+
+      await this.removeOrphanedChunkData();
+    } catch (error) {
+      console.error('Error in sweepExpiredSessions:', error);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Remove stored chunks whose session row is gone, e.g. with a deleted account
+   */
+  private static async removeOrphanedChunkData(): Promise<void> {
+    let offset = 0;
+    for (;;) {
+      // Each session's chunks are stored under a folder named after its ID
+      const { data: folders, error } = await this.bucket().list('', { limit: STORAGE_LIST_LIMIT, offset });
+      if (error) {
+        console.error('Error listing upload session data:', error);
+        return;
+      }
+      if (!folders || folders.length === 0) {
+        return;
+      }
+
+      const sessionIds = folders.map(folder => folder.name);
+      const { data: sessions, error: sessionsError } = await supabaseServer
+        .from('upload_sessions')
+        .select('id')
+        .in('id', sessionIds);
+
+      if (sessionsError) {
+        console.error('Error fetching upload sessions:', sessionsError);
+        return;
+      }
+
+      const live = new Set((sessions || []).map(session => session.id));
+      const orphaned = sessionIds.filter(id => !live.has(id));
+      for (const sessionId of orphaned) {
+        await this.removeChunkData(sessionId);
+      }
+
+      if (folders.length < STORAGE_LIST_LIMIT) {
+        return;
+      }
+      // Removed folders no longer take up a place in the listing
+      offset += folders.length - orphaned.length;
+    }
+  }
+}
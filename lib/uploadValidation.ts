@@ -0,0 +1,113 @@
+import path from 'path';
+
+// File validation constants
+export const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB for single-request uploads
+export const MAX_RESUMABLE_FILE_SIZE = 5 * 1024 * 1024 * 1024; // 5GB for resumable uploads
+export const MAX_DIRECTORY_FILES = 200; // Files per directory upload
+export const MAX_DIRECTORY_SIZE = 1024 * 1024 * 1024; // 1GB total per directory upload
+export const ALLOWED_FILE_TYPES = [
+  // Images
+  'image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml',
+  // Documents
+  'application/pdf', 'text/plain', 'application/msword', 
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint', 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  // Audio
+  'audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/mp4',
+  // Video
+  'video/mp4', 'video/mpeg', 'video/quicktime', 'video/x-msvideo',
+  // Archives
+  'application/zip', 'application/x-rar-compressed', 'application/x-7z-compressed',
+  // Code
+  'application/json', 'text/html', 'text/css', 'text/javascript'
+];
+
+export const DANGEROUS_FILE_EXTENSIONS = [
+  '.exe', '.scr', '.bat', '.cmd', '.com', '.pif', '.vbs', '.js', '.jar',
+  '.app', '.deb', '.pkg', '.dmg', '.rpm', '.msi', '.bin', '.run'
+];
+
+export interface FileValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+export function validateFile(
+  fileName: string,
+  mimeType: string,
+  fileSize: number,
+  maxFileSize: number = MAX_FILE_SIZE
+): FileValidationResult {
+  // Check file size
+  if (fileSize > maxFileSize) {
+    return { valid: false, error: `File too large. Maximum size is ${maxFileSize / 1024 / 1024}MB` };
+  }
+
+  const nameValidation = validateFileName(fileName);
+  if (!nameValidation.valid) {
+    return nameValidation;
+  }
+
+  return validateContentType(mimeType);
+}
+
+/**
+ * Validate a filename, at upload or when a file is renamed
+ */
+export function validateFileName(fileName: string): FileValidationResult {
+  // Check file extension
+  const fileExtension = path.extname(fileName).toLowerCase();
+  if (DANGEROUS_FILE_EXTENSIONS.includes(fileExtension)) {
+    return { valid: false, error: `File type '${fileExtension}' is not allowed for security reasons` };
+  }
+
+  // Additional filename validation
+  if (fileName.length > 255) {
+    return { valid: false, error: 'Filename too long' };
+  }
+
+  if (!/^[\w\-. ]+$/.test(fileName)) {
+    return { valid: false, error: 'Filename contains invalid characters' };
+  }
+
+  return { valid: true };
+}
+
+export function validateContentType(mimeType: string): FileValidationResult {
+  if (!ALLOWED_FILE_TYPES.includes(mimeType)) {
+    return { valid: false, error: `File type '${mimeType}' is not supported` };
+  }
+
+  return { valid: true };
+}
+
+const MAX_PATH_LENGTH = 1024;
+const MAX_PATH_DEPTH = 32;
+
+/**
+ * Validate a relative path from a directory upload, e.g. "assets/img/logo.png".
+ * Every segment must be a valid filename and the path may not escape its root.
+ */
+export function validateRelativePath(relativePath: string): FileValidationResult {
+  if (relativePath.length > MAX_PATH_LENGTH) {
+    return { valid: false, error: 'Path too long' };
+  }
+
+  const segments = relativePath.split('/');
+  if (segments.length > MAX_PATH_DEPTH) {
+    return { valid: false, error: 'Path is nested too deeply' };
+  }
+
+  for (const segment of segments) {
+    if (!segment || segment === '.' || segment === '..') {
+      return { valid: false, error: `Invalid path '${relativePath}'` };
+    }
+
+    if (segment.length > 255 || !/^[\w\-. ]+$/.test(segment)) {
+      return { valid: false, error: `Path '${relativePath}' contains invalid characters` };
+    }
+  }
+
+  return { valid: true };
+}
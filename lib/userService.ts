@@ -123,7 +123,8 @@ export class UserService {
   }
 
   /**
-   * Check if user can upload a file
+   * Check if user can upload a file. This is advisory only; uploads hold
+   * space with StorageQuotaService.reserve() before storing content.
    */
   static async canUserUploadFile(userId: string, fileSize: number): Promise<{
     canUpload: boolean;
@@ -140,21 +141,23 @@ export class UserService {
       // Get plan type from subscriptions table (single source of truth)
       const planType = await this.getUserPlan(userId);
       const limit = getStorageLimit(planType);
-      const canUpload = canUploadFile(userProfile.storage_used, fileSize, planType);
+      // Space held by uploads in progress is already spoken for
+      const currentUsage = userProfile.storage_used + (userProfile.storage_reserved || 0);
+      const canUpload = canUploadFile(currentUsage, fileSize, planType);
 
       if (!canUpload) {
-        const remainingSpace = limit - userProfile.storage_used;
+        const remainingSpace = Math.max(0, limit - currentUsage);
         return {
           canUpload: false,
           reason: `Insufficient storage space. You need ${formatFileSize(fileSize)} but only have ${formatFileSize(remainingSpace)} remaining.`,
-          currentUsage: userProfile.storage_used,
+          currentUsage,
           limit
         };
       }
 
       return {
         canUpload: true,
-        currentUsage: userProfile.storage_used,
+        currentUsage,
         limit
       };
     } catch (error) {
@@ -261,7 +264,8 @@ export class UserService {
       const { count: filesCount, error: filesError } = await supabaseServer
         .from('files')
         .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .eq('status', 'active');
 
       if (filesError) {
         console.error('Error fetching files count:', filesError);
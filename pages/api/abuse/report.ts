@@ -0,0 +1,80 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  DENYLIST_REASONS,
+  DenylistService,
+  MAX_REPORT_DESCRIPTION_LENGTH,
+  isValidCid,
+  type DenylistReason
+} from '../../../lib/denylistService';
+import { abuseReportRateLimiter, getTrustedClientIP } from '../../../lib/rateLimiter';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Public intake for abuse reports; reports are reviewed by an operator before anything is blocked
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Keyed on the address our proxies saw, so a forged X-Forwarded-For can't dodge the limit
+  const clientIP = getTrustedClientIP(req);
+  const rateLimitResult = abuseReportRateLimiter.check(clientIP);
+  if (!rateLimitResult.allowed) {
+    const retryAfter = Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000);
+    res.setHeader('Retry-After', retryAfter);
+    return res.status(429).json({
+      error: 'Too many reports',
+      message: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+      retryAfter
+    });
+  }
+
+  try {
+    const { cid, reason, description, email } = req.body || {};
+
+    if (typeof cid !== 'string' || !isValidCid(cid.trim())) {
+      return res.status(400).json({ error: 'A valid CID is required' });
+    }
+
+    if (!DENYLIST_REASONS.includes(reason as DenylistReason)) {
+      return res.status(400).json({ error: `reason must be one of: ${DENYLIST_REASONS.join(', ')}` });
+    }
+
+    if (description !== undefined && description !== null) {
+      if (typeof description !== 'string' || description.length > MAX_REPORT_DESCRIPTION_LENGTH) {
+        return res.status(400).json({ error: `description must be text of at most ${MAX_REPORT_DESCRIPTION_LENGTH} characters` });
+      }
+    }
+
+    if (email !== undefined && email !== null && email !== '') {
+      if (typeof email !== 'string' || email.length > 254 || !EMAIL_PATTERN.test(email.trim())) {
+        return res.status(400).json({ error: 'email must be a valid email address' });
+      }
+    }
+
+    const report = await DenylistService.createReport({
+      cid: cid.trim(),
+      reason: reason as DenylistReason,
+      description: description?.trim() || null,
+      reporterEmail: email?.trim() || null,
+      reporterIp: clientIP
+    });
+
+    if (!report) {
+      return res.status(500).json({ error: 'Failed to submit report' });
+    }
+
+    return res.status(202).json({
+      success: true,
+      reportId: report.id,
+      message: 'Thank you. The report will be reviewed.'
+    });
+
+  } catch (error) {
+    console.error('Error in abuse report handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,72 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAdminAuth } from '../../../../../lib/auth';
+import { DENYLIST_REASONS, DenylistService, type DenylistReason } from '../../../../../lib/denylistService';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (typeof id !== 'string') {
+    return res.status(400).json({ error: 'Report ID is required' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const report = await DenylistService.getReport(id);
+      if (!report) {
+        return res.status(404).json({ error: 'Report not found' });
+      }
+
+      const denylistCheck = await DenylistService.findBlockedEntry(report.cid);
+      if (denylistCheck.lookupFailed) {
+        return res.status(500).json({ error: 'Failed to check denylist' });
+      }
+
+      return res.status(200).json({ report, blockedBy: denylistCheck.entry });
+
+    } else if (req.method === 'POST') {
+      // Block the reported CID, optionally removing it from the accounts holding it, or dismiss the report
+      const { action, reason, notes, unpin } = req.body || {};
+
+      if (action !== 'block' && action !== 'dismiss') {
+        return res.status(400).json({ error: "action must be 'block' or 'dismiss'" });
+      }
+      if (reason !== undefined && !DENYLIST_REASONS.includes(reason as DenylistReason)) {
+        return res.status(400).json({ error: `reason must be one of: ${DENYLIST_REASONS.join(', ')}` });
+      }
+      if (notes !== undefined && notes !== null && typeof notes !== 'string') {
+        return res.status(400).json({ error: 'notes must be a string' });
+      }
+      if (unpin !== undefined && typeof unpin !== 'boolean') {
+        return res.status(400).json({ error: 'unpin must be a boolean' });
+      }
+
+      const existing = await DenylistService.getReport(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Report not found' });
+      }
+      if (existing.status !== 'pending') {
+        return res.status(409).json({ error: 'Only pending reports can be reviewed', report: existing });
+      }
+
+      const report = await DenylistService.reviewReport(id, {
+        action,
+        reason: reason as DenylistReason | undefined,
+        notes: notes || null,
+        unpin: unpin === true
+      });
+      if (!report) {
+        return res.status(500).json({ error: 'Failed to review report' });
+      }
+
+      return res.status(200).json({ success: true, report });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error in admin abuse report handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAdminAuth(handler);
\ No newline at end of file
@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAdminAuth } from '../../../../../lib/auth';
+import {
+  ABUSE_REPORT_STATUSES,
+  DEFAULT_DENYLIST_PAGE_LIMIT,
+  DenylistService,
+  MAX_DENYLIST_PAGE_LIMIT,
+  type AbuseReportStatus
+} from '../../../../../lib/denylistService';
+
+// The review queue: pending reports by default, oldest first
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { status = 'pending', limit, offset } = req.query;
+
+    if (status !== 'all' && !ABUSE_REPORT_STATUSES.includes(status as AbuseReportStatus)) {
+      return res.status(400).json({ error: `status must be all or one of: ${ABUSE_REPORT_STATUSES.join(', ')}` });
+    }
+
+    const parsedLimit = typeof limit === 'string' ? parseInt(limit, 10) : DEFAULT_DENYLIST_PAGE_LIMIT;
+    const parsedOffset = typeof offset === 'string' ? parseInt(offset, 10) : 0;
+
+    const page = await DenylistService.listReports({
+      status: status === 'all' ? undefined : status as AbuseReportStatus,
+      limit: Number.isFinite(parsedLimit) ? Math.min(Math.max(parsedLimit, 1), MAX_DENYLIST_PAGE_LIMIT) : DEFAULT_DENYLIST_PAGE_LIMIT,
+      offset: Number.isFinite(parsedOffset) ? Math.max(parsedOffset, 0) : 0
+    });
+
+    if (!page) {
+      return res.status(500).json({ error: 'Failed to fetch abuse reports' });
+    }
+
+    return res.status(200).json({ reports: page.items, total: page.total });
+  } catch (error) {
+    console.error('Error listing abuse reports:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAdminAuth(handler);
\ No newline at end of file
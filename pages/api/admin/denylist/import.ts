@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAdminAuth } from '../../../../lib/auth';
+import { DENYLIST_REASONS, DenylistService, type DenylistReason } from '../../../../lib/denylistService';
+
+const SOURCE_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+// Import a "bad bits" denylist sent as the raw request body (text/plain), e.g.
+// curl --data-binary @badbits.deny -H 'Content-Type: text/plain' '.../import?source=badbits&reason=illegal'
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { source, reason = 'other' } = req.query;
+
+    if (typeof source !== 'string' || !SOURCE_PATTERN.test(source) || source === 'manual' || source === 'report') {
+      return res.status(400).json({ error: 'source must name the list, using letters, numbers, dots, dashes and underscores' });
+    }
+    if (!DENYLIST_REASONS.includes(reason as DenylistReason)) {
+      return res.status(400).json({ error: `reason must be one of: ${DENYLIST_REASONS.join(', ')}` });
+    }
+    if (typeof req.body !== 'string' || req.body.trim() === '') {
+      return res.status(400).json({ error: 'Send the denylist as a text/plain request body' });
+    }
+
+    const result = await DenylistService.importList(req.body, { reason: reason as DenylistReason, source });
+    if (!result) {
+      return res.status(500).json({ error: 'Failed to import denylist' });
+    }
+
+    return res.status(200).json({ success: true, source, ...result });
+  } catch (error) {
+    console.error('Error importing denylist:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAdminAuth(handler);
+
+// Published denylists run to several megabytes
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '25mb',
+    },
+  },
+};
\ No newline at end of file
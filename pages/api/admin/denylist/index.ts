@@ -0,0 +1,84 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAdminAuth } from '../../../../lib/auth';
+import {
+  DEFAULT_DENYLIST_PAGE_LIMIT,
+  DENYLIST_REASONS,
+  DenylistService,
+  MAX_DENYLIST_PAGE_LIMIT,
+  isValidCid,
+  type DenylistReason
+} from '../../../../lib/denylistService';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET') {
+      const { source, cid, limit, offset } = req.query;
+
+      const parsedLimit = typeof limit === 'string' ? parseInt(limit, 10) : DEFAULT_DENYLIST_PAGE_LIMIT;
+      const parsedOffset = typeof offset === 'string' ? parseInt(offset, 10) : 0;
+
+      const page = await DenylistService.listEntries({
+        source: typeof source === 'string' ? source : undefined,
+        cid: typeof cid === 'string' ? cid : undefined,
+        limit: Number.isFinite(parsedLimit) ? Math.min(Math.max(parsedLimit, 1), MAX_DENYLIST_PAGE_LIMIT) : DEFAULT_DENYLIST_PAGE_LIMIT,
+        offset: Number.isFinite(parsedOffset) ? Math.max(parsedOffset, 0) : 0
+      });
+
+      if (!page) {
+        return res.status(500).json({ error: 'Failed to fetch denylist' });
+      }
+
+      return res.status(200).json({ entries: page.items, total: page.total });
+
+    } else if (req.method === 'POST') {
+      // Block a CID directly, without a report
+      const { cid, reason, notes, unpin } = req.body || {};
+
+      if (typeof cid !== 'string' || !isValidCid(cid)) {
+        return res.status(400).json({ error: 'A valid CID is required' });
+      }
+      if (!DENYLIST_REASONS.includes(reason as DenylistReason)) {
+        return res.status(400).json({ error: `reason must be one of: ${DENYLIST_REASONS.join(', ')}` });
+      }
+      if (notes !== undefined && notes !== null && typeof notes !== 'string') {
+        return res.status(400).json({ error: 'notes must be a string' });
+      }
+      if (unpin !== undefined && typeof unpin !== 'boolean') {
+        return res.status(400).json({ error: 'unpin must be a boolean' });
+      }
+
+      const entry = await DenylistService.addEntry(cid, reason as DenylistReason, { notes: notes || null });
+      if (!entry) {
+        return res.status(500).json({ error: 'Failed to block CID' });
+      }
+
+      const unpinnedFileCount = unpin === true
+        ? await DenylistService.removeFromAccounts(cid, entry.reason)
+        : 0;
+
+      return res.status(201).json({ success: true, entry, unpinnedFileCount });
+
+    } else if (req.method === 'DELETE') {
+      const { id } = req.query;
+
+      if (typeof id !== 'string') {
+        return res.status(400).json({ error: 'Entry ID is required' });
+      }
+
+      const removed = await DenylistService.removeEntry(id);
+      if (!removed) {
+        return res.status(404).json({ error: 'Denylist entry not found' });
+      }
+
+      return res.status(200).json({ success: true });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error in admin denylist handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAdminAuth(handler);
\ No newline at end of file
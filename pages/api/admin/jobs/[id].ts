@@ -0,0 +1,55 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAdminAuth } from '../../../../lib/auth';
+import { JobQueue } from '../../../../lib/jobQueue';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (typeof id !== 'string') {
+    return res.status(400).json({ error: 'Job ID is required' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const job = await JobQueue.getJob(id);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      return res.status(200).json({ job });
+
+    } else if (req.method === 'POST') {
+      // Manually retry a dead-lettered job or cancel one that hasn't finished
+      const { action } = req.body || {};
+
+      if (action !== 'retry' && action !== 'cancel') {
+        return res.status(400).json({ error: "action must be 'retry' or 'cancel'" });
+      }
+
+      const existing = await JobQueue.getJob(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      const job = action === 'retry' ? await JobQueue.requeue(id) : await JobQueue.cancel(id);
+      if (!job) {
+        return res.status(409).json({
+          error: action === 'retry'
+            ? 'Only dead or cancelled jobs can be retried'
+            : 'Only pending or running jobs can be cancelled',
+          job: existing
+        });
+      }
+
+      return res.status(200).json({ success: true, job });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error in admin job handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAdminAuth(handler);
\ No newline at end of file
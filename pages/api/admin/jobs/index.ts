@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAdminAuth } from '../../../../lib/auth';
+import { JobQueue, JOB_STATUSES, type JobStatus } from '../../../../lib/jobQueue';
+
+const MAX_LIMIT = 200;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { type, status, userId, limit } = req.query;
+
+    if (status !== undefined && !JOB_STATUSES.includes(status as JobStatus)) {
+      return res.status(400).json({ error: `status must be one of: ${JOB_STATUSES.join(', ')}` });
+    }
+
+    const parsedLimit = typeof limit === 'string' ? parseInt(limit, 10) : 50;
+
+    const [jobs, stats] = await Promise.all([
+      JobQueue.getJobs({
+        type: typeof type === 'string' ? type : undefined,
+        status: status as JobStatus | undefined,
+        userId: typeof userId === 'string' ? userId : undefined,
+        limit: Number.isFinite(parsedLimit) ? Math.min(Math.max(parsedLimit, 1), MAX_LIMIT) : 50
+      }),
+      JobQueue.getStats()
+    ]);
+
+    return res.status(200).json({ jobs, stats });
+  } catch (error) {
+    console.error('Error listing jobs:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAdminAuth(handler);
\ No newline at end of file
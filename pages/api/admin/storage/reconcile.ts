@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAdminAuth } from '../../../../lib/auth';
+import { ReconciliationService } from '../../../../lib/reconciliationService';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // GET only reports; POST can also clean up
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { unpinOrphans, removeMissing } = req.method === 'POST' ? (req.body || {}) : {};
+
+    if ((unpinOrphans !== undefined && typeof unpinOrphans !== 'boolean') ||
+        (removeMissing !== undefined && typeof removeMissing !== 'boolean')) {
+      return res.status(400).json({ error: 'unpinOrphans and removeMissing must be booleans' });
+    }
+
+    const report = await ReconciliationService.reconcileStorage({ unpinOrphans, removeMissing });
+    if (!report) {
+      return res.status(502).json({ error: 'Storage reconciliation failed - could not list Codex or database content' });
+    }
+
+    return res.status(200).json({ report });
+  } catch (error) {
+    console.error('Error reconciling storage:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAdminAuth(handler);
\ No newline at end of file
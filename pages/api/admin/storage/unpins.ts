@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAdminAuth } from '../../../../lib/auth';
+import { FileService } from '../../../../lib/fileService';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET') {
+      const pendingUnpins = await FileService.getPendingUnpins();
+      return res.status(200).json({ pendingUnpins });
+
+    } else if (req.method === 'POST') {
+      // Retry every pending unpin now; CIDs with a job in progress are left alone
+      const pendingUnpins = await FileService.getPendingUnpins();
+      const queued = await FileService.queueUnpinJobs(pendingUnpins.map(entry => entry.cid));
+
+      return res.status(queued ? 202 : 500).json({ success: queued, count: pendingUnpins.length });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error in pending unpins handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAdminAuth(handler);
\ No newline at end of file
@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAdminAuth } from '../../../../lib/auth';
+import { ReconciliationService } from '../../../../lib/reconciliationService';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // GET only reports drift; POST can also repair it
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { repair } = req.method === 'POST' ? (req.body || {}) : {};
+
+    if (repair !== undefined && typeof repair !== 'boolean') {
+      return res.status(400).json({ error: 'repair must be a boolean' });
+    }
+
+    const report = await ReconciliationService.reconcileStorageUsage({ repair });
+    if (!report) {
+      return res.status(500).json({ error: 'Storage usage reconciliation failed' });
+    }
+
+    return res.status(200).json({ report });
+  } catch (error) {
+    console.error('Error reconciling storage usage:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withAdminAuth(handler);
\ No newline at end of file
@@ -112,6 +112,6 @@ const billingHistoryHandler = withAuth(async (req, res) => {
     console.error('Error fetching billing history:', error);
     res.status(500).json({ error: 'Failed to fetch billing history' });
   }
-});
+}, { requiredScopes: ['billing:read'] });
 
 export default billingHistoryHandler; 
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { withAuth } from '../../../../lib/auth';
+import { CollectionService, COLLECTION_FAILURE_STATUS } from '../../../../lib/collectionService';
+
+const copyCollectionHandler = withAuth(async (req, res) => {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const userId = req.user.id;
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Collection ID is required' });
+  }
+
+  try {
+    // Copy under another parent, or to the top level when parentId is null
+    const { parentId = null } = req.body || {};
+    if (parentId !== null && typeof parentId !== 'string') {
+      return res.status(400).json({ error: 'parentId must be a collection ID or null' });
+    }
+
+    const result = await CollectionService.copyCollection(id, userId, parentId);
+    if (!result) {
+      return res.status(500).json({ error: 'Failed to copy collection' });
+    }
+    if (!result.ok) {
+      return res.status(COLLECTION_FAILURE_STATUS[result.reason]).json({ error: result.error });
+    }
+
+    return res.status(201).json({ success: true, collection: result.collection });
+  } catch (error) {
+    console.error('Error copying collection:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['files:write'] });
+
+export default copyCollectionHandler;
\ No newline at end of file
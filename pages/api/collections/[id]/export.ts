@@ -0,0 +1,47 @@
+import { withAuth } from '../../../../lib/auth';
+import { CollectionService, COLLECTION_FAILURE_STATUS } from '../../../../lib/collectionService';
+
+const exportCollectionHandler = withAuth(async (req, res) => {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const userId = req.user.id;
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Collection ID is required' });
+  }
+
+  try {
+    const result = await CollectionService.exportCollection(id, userId, {
+      uploadMethod: req.user.authMethod === 'pinning_secret' ? 'api' : 'dashboard',
+      pinningSecretId: req.user.pinningSecretId
+    });
+    if (!result) {
+      return res.status(500).json({ error: 'Failed to export collection' });
+    }
+    if (!result.ok) {
+      return res.status(COLLECTION_FAILURE_STATUS[result.reason]).json({ error: result.error });
+    }
+
+    const { manifest } = result;
+    return res.status(201).json({
+      success: true,
+      export: {
+        id: manifest.id,
+        cid: manifest.cid,
+        name: manifest.name,
+        fileCount: manifest.file_count,
+        totalSize: manifest.total_size,
+        createdAt: manifest.created_at,
+        gatewayPath: `/api/gateway/${manifest.cid}`
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting collection:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['files:write'] });
+
+export default exportCollectionHandler;
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { withAuth, findMissingScope, sendMissingScope } from '../../../../lib/auth';
+import { CollectionService, COLLECTION_FAILURE_STATUS } from '../../../../lib/collectionService';
+
+const collectionHandler = withAuth(async (req, res) => {
+  const userId = req.user.id;
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Collection ID is required' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const collection = await CollectionService.getCollection(id, userId);
+      if (!collection) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+
+      return res.status(200).json({ collection });
+    }
+
+    if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const missingScope = findMissingScope(req.user, ['files:write']);
+    if (missingScope) {
+      return sendMissingScope(res, missingScope, ['files:write']);
+    }
+
+    if (req.method === 'PATCH') {
+      // Rename and/or move under another parent (null for the top level)
+      const { name, parentId } = req.body || {};
+
+      if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+        return res.status(400).json({ error: 'name must be a non-empty string' });
+      }
+      if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+        return res.status(400).json({ error: 'parentId must be a collection ID or null' });
+      }
+      if (name === undefined && parentId === undefined) {
+        return res.status(400).json({ error: 'Nothing to update. Provide name or parentId' });
+      }
+
+      const result = await CollectionService.updateCollection(id, userId, {
+        name: name?.trim(),
+        parentId
+      });
+      if (!result) {
+        return res.status(500).json({ error: 'Failed to update collection' });
+      }
+      if (!result.ok) {
+        return res.status(COLLECTION_FAILURE_STATUS[result.reason]).json({ error: result.error });
+      }
+
+      return res.status(200).json({ success: true, collection: result.collection });
+    }
+
+    // Subcollections are deleted too; files inside move back to the root
+    const deleted = await CollectionService.deleteCollection(id, userId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Collection not found or access denied' });
+    }
+
+    return res.status(200).json({ success: true, message: 'Collection deleted successfully' });
+  } catch (error) {
+    console.error('Error in collection handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['files:read'] });
+
+export default collectionHandler;
\ No newline at end of file
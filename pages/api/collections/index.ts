@@ -0,0 +1,51 @@
+import { withAuth, findMissingScope, sendMissingScope } from '../../../lib/auth';
+import { CollectionService, COLLECTION_FAILURE_STATUS } from '../../../lib/collectionService';
+
+const collectionsHandler = withAuth(async (req, res) => {
+  const userId = req.user.id;
+
+  try {
+    if (req.method === 'GET') {
+      // Every collection as a tree, with file counts and sizes
+      const tree = await CollectionService.getCollectionTree(userId);
+      if (!tree) {
+        return res.status(500).json({ error: 'Failed to fetch collections' });
+      }
+
+      return res.status(200).json(tree);
+
+    } else if (req.method === 'POST') {
+      const missingScope = findMissingScope(req.user, ['files:write']);
+      if (missingScope) {
+        return sendMissingScope(res, missingScope, ['files:write']);
+      }
+
+      const { name, parentId = null } = req.body || {};
+
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'Collection name is required' });
+      }
+      if (parentId !== null && typeof parentId !== 'string') {
+        return res.status(400).json({ error: 'parentId must be a collection ID or null' });
+      }
+
+      const result = await CollectionService.createCollection(userId, name.trim(), parentId);
+      if (!result) {
+        return res.status(500).json({ error: 'Failed to create collection' });
+      }
+      if (!result.ok) {
+        return res.status(COLLECTION_FAILURE_STATUS[result.reason]).json({ error: result.error });
+      }
+
+      return res.status(201).json({ success: true, collection: result.collection });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error in collections handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['files:read'] });
+
+export default collectionsHandler;
\ No newline at end of file
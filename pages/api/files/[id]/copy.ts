@@ -0,0 +1,46 @@
+import { withAuth } from '../../../../lib/auth';
+import { FileService } from '../../../../lib/fileService';
+import { CollectionService } from '../../../../lib/collectionService';
+
+const copyFileHandler = withAuth(async (req, res) => {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const userId = req.user.id;
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'File ID is required' });
+  }
+
+  try {
+    // Copy into a collection, or to the root when collectionId is null
+    const { collectionId = null } = req.body || {};
+    if (collectionId !== null && typeof collectionId !== 'string') {
+      return res.status(400).json({ error: 'collectionId must be a collection ID or null' });
+    }
+
+    const file = await FileService.getFile(id, userId);
+    if (!file) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    if (collectionId && !await CollectionService.getCollection(collectionId, userId)) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    // The copy shares the original's content, so it isn't charged against storage again
+    const copies = await FileService.copyFiles([file], collectionId);
+    if (!copies || copies.length === 0) {
+      return res.status(500).json({ error: 'Failed to copy file' });
+    }
+
+    return res.status(201).json({ success: true, file: copies[0] });
+  } catch (error) {
+    console.error('Error copying file:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['files:write'] });
+
+export default copyFileHandler;
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { withAuth, findMissingScope, sendMissingScope } from '../../../../lib/auth';
+import { FileService, type FileUpdate } from '../../../../lib/fileService';
+import { CollectionService } from '../../../../lib/collectionService';
+import { parseMetadata, parseTags, parseVisibility } from '../../../../lib/fileMetadata';
+import { validateContentType, validateFileName } from '../../../../lib/uploadValidation';
+
+const fileHandler = withAuth(async (req, res) => {
+  const userId = req.user.id;
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'File ID is required' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const file = await FileService.getFile(id, userId);
+      if (!file) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      return res.status(200).json({ file });
+
+    } else if (req.method === 'PATCH') {
+      const missingScope = findMissingScope(req.user, ['files:write']);
+      if (missingScope) {
+        return sendMissingScope(res, missingScope, ['files:write']);
+      }
+
+      // Given attributes replace the file's current ones; collectionId moves the file
+      const { filename, contentType, tags, metadata, visibility, collectionId } = req.body || {};
+      const updates: FileUpdate = {};
+
+      if (filename !== undefined) {
+        const validation = typeof filename === 'string'
+          ? validateFileName(filename)
+          : { valid: false, error: 'filename must be a string' };
+        if (!validation.valid) {
+          return res.status(400).json({ error: validation.error });
+        }
+        updates.filename = filename;
+      }
+
+      if (contentType !== undefined) {
+        const validation = typeof contentType === 'string'
+          ? validateContentType(contentType)
+          : { valid: false, error: 'contentType must be a string' };
+        if (!validation.valid) {
+          return res.status(400).json({ error: validation.error });
+        }
+        updates.content_type = contentType;
+      }
+
+      if (tags !== undefined) {
+        const parsed = parseTags(tags);
+        if (!parsed.valid) {
+          return res.status(400).json({ error: parsed.error });
+        }
+        updates.tags = parsed.value;
+      }
+
+      if (metadata !== undefined) {
+        const parsed = parseMetadata(metadata);
+        if (!parsed.valid) {
+          return res.status(400).json({ error: parsed.error });
+        }
+        updates.metadata = parsed.value;
+      }
+
+      if (visibility !== undefined) {
+        const parsed = parseVisibility(visibility);
+        if (!parsed.valid) {
+          return res.status(400).json({ error: parsed.error });
+        }
+        updates.visibility = parsed.value;
+      }
+
+      if (collectionId !== undefined) {
+        if (collectionId !== null && typeof collectionId !== 'string') {
+          return res.status(400).json({ error: 'collectionId must be a collection ID or null' });
+        }
+        if (collectionId && !await CollectionService.getCollection(collectionId, userId)) {
+          return res.status(404).json({ error: 'Collection not found' });
+        }
+        updates.collection_id = collectionId;
+      }
+
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ error: 'Nothing to update. Provide filename, contentType, tags, metadata, visibility or collectionId' });
+      }
+
+      const file = await FileService.updateFile(id, userId, updates);
+      if (!file) {
+        return res.status(404).json({ error: 'File not found or access denied' });
+      }
+
+      return res.status(200).json({ success: true, file });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error in file handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['files:read'] });
+
+export default fileHandler;
\ No newline at end of file
@@ -0,0 +1,100 @@
+import net from 'net';
+import { withAuth, findMissingScope, sendMissingScope } from '../../../../lib/auth';
+import { FileService } from '../../../../lib/fileService';
+import {
+  ShareLinkService,
+  MAX_SHARE_LINK_TTL_SECONDS,
+  type ShareLinkOptions
+} from '../../../../lib/shareLinkService';
+
+const MIN_SHARE_LINK_TTL_SECONDS = 60;
+
+const shareHandler = withAuth(async (req, res) => {
+  const userId = req.user.id;
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'File ID is required' });
+  }
+
+  if (!ShareLinkService.isConfigured()) {
+    return res.status(503).json({ error: 'Share links are not enabled' });
+  }
+
+  try {
+    const file = await FileService.getFile(id, userId);
+    if (!file) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    if (req.method === 'GET') {
+      // Links that can still be used
+      const links = await ShareLinkService.listLinks(file.id, userId);
+      if (!links) {
+        return res.status(500).json({ error: 'Failed to fetch share links' });
+      }
+
+      return res.status(200).json({ links, visibility: file.visibility || 'public' });
+
+    } else if (req.method === 'POST' || req.method === 'DELETE') {
+      const missingScope = findMissingScope(req.user, ['files:write']);
+      if (missingScope) {
+        return sendMissingScope(res, missingScope, ['files:write']);
+      }
+
+      if (req.method === 'DELETE') {
+        const { linkId } = req.query;
+        if (!linkId || typeof linkId !== 'string') {
+          return res.status(400).json({ error: 'linkId is required' });
+        }
+
+        if (!await ShareLinkService.revokeLink(linkId, file.id, userId)) {
+          return res.status(404).json({ error: 'Share link not found or already revoked' });
+        }
+
+        return res.status(200).json({ success: true, message: 'Share link revoked' });
+      }
+
+      const { expiresIn, ipAddress, maxDownloads } = req.body || {};
+      const options: ShareLinkOptions = {};
+
+      if (expiresIn !== undefined) {
+        if (!Number.isSafeInteger(expiresIn) || expiresIn < MIN_SHARE_LINK_TTL_SECONDS || expiresIn > MAX_SHARE_LINK_TTL_SECONDS) {
+          return res.status(400).json({
+            error: `expiresIn must be between ${MIN_SHARE_LINK_TTL_SECONDS} and ${MAX_SHARE_LINK_TTL_SECONDS} seconds`
+          });
+        }
+        options.expiresInSeconds = expiresIn;
+      }
+
+      if (ipAddress !== undefined && ipAddress !== null) {
+        if (typeof ipAddress !== 'string' || net.isIP(ipAddress) === 0) {
+          return res.status(400).json({ error: 'ipAddress must be a valid IPv4 or IPv6 address' });
+        }
+        options.ipAddress = ipAddress;
+      }
+
+      if (maxDownloads !== undefined && maxDownloads !== null) {
+        if (!Number.isSafeInteger(maxDownloads) || maxDownloads < 1) {
+          return res.status(400).json({ error: 'maxDownloads must be a positive integer' });
+        }
+        options.maxDownloads = maxDownloads;
+      }
+
+      const link = await ShareLinkService.createLink(file, options);
+      if (!link) {
+        return res.status(500).json({ error: 'Failed to create share link' });
+      }
+
+      return res.status(201).json({ success: true, link });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error in share handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['files:read'] });
+
+export default shareHandler;
\ No newline at end of file
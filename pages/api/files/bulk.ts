@@ -0,0 +1,96 @@
+import { withAuth, findMissingScope, sendMissingScope, type AuthScope } from '../../../lib/auth';
+import { FileService, MAX_BULK_FILE_IDS, type BulkFileResult } from '../../../lib/fileService';
+import { CollectionService } from '../../../lib/collectionService';
+import { parseTags } from '../../../lib/fileMetadata';
+
+type BulkAction = 'delete' | 'tag' | 'move';
+
+const ACTION_SCOPES: Record<BulkAction, AuthScope[]> = {
+  delete: ['files:delete'],
+  tag: ['files:write'],
+  move: ['files:write']
+};
+
+/**
+ * Apply one action to many files. Each file ID gets its own result, so a
+ * request can partly succeed; only invalid requests fail as a whole.
+ */
+const bulkFilesHandler = withAuth(async (req, res) => {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const userId = req.user.id;
+    const { action, fileIds, addTags, removeTags, collectionId } = req.body || {};
+
+    if (!Object.keys(ACTION_SCOPES).includes(action)) {
+      return res.status(400).json({ error: `action must be one of: ${Object.keys(ACTION_SCOPES).join(', ')}` });
+    }
+
+    const requiredScopes = ACTION_SCOPES[action as BulkAction];
+    const missingScope = findMissingScope(req.user, requiredScopes);
+    if (missingScope) {
+      return sendMissingScope(res, missingScope, requiredScopes);
+    }
+
+    if (!Array.isArray(fileIds) || fileIds.length === 0 || !fileIds.every(id => typeof id === 'string' && id)) {
+      return res.status(400).json({ error: 'fileIds must be a non-empty array of file IDs' });
+    }
+    if (fileIds.length > MAX_BULK_FILE_IDS) {
+      return res.status(400).json({ error: `At most ${MAX_BULK_FILE_IDS} files can be changed at once` });
+    }
+
+    const ids = [...new Set(fileIds as string[])];
+    let results: BulkFileResult[] | null;
+
+    if (action === 'delete') {
+      results = await FileService.deleteFiles(ids, userId);
+
+    } else if (action === 'tag') {
+      const add = parseTags(addTags ?? []);
+      if (!add.valid) {
+        return res.status(400).json({ error: add.error });
+      }
+      const remove = parseTags(removeTags ?? []);
+      if (!remove.valid) {
+        return res.status(400).json({ error: remove.error });
+      }
+      if (add.value.length === 0 && remove.value.length === 0) {
+        return res.status(400).json({ error: 'Provide addTags or removeTags' });
+      }
+
+      results = await FileService.tagFiles(ids, userId, { add: add.value, remove: remove.value });
+
+    } else {
+      if (collectionId === undefined || (collectionId !== null && typeof collectionId !== 'string')) {
+        return res.status(400).json({ error: 'collectionId must be a collection ID or null' });
+      }
+      if (collectionId && !await CollectionService.getCollection(collectionId, userId)) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+
+      results = await FileService.moveFiles(ids, userId, collectionId);
+    }
+
+    if (!results) {
+      return res.status(500).json({ error: `Failed to ${action} files` });
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+
+    return res.status(200).json({
+      success: succeeded === results.length,
+      action,
+      succeeded,
+      failed: results.length - succeeded,
+      results
+    });
+
+  } catch (error) {
+    console.error('Error in bulk files handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default bulkFilesHandler;
\ No newline at end of file
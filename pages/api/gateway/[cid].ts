@@ -1,10 +1,34 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { supabaseServer } from '../../../lib/supabase-server';
+import { verifyAuth, findMissingScope, sendMissingScope, sendQuotaExceeded } from '../../../lib/auth';
+import { PinningSecretService } from '../../../lib/pinningSecretService';
+import { FileService } from '../../../lib/fileService';
+import type { FileEncryption } from '../../../lib/fileEncryption';
+import { ShareLinkService } from '../../../lib/shareLinkService';
+import { DenylistService } from '../../../lib/denylistService';
+import { gatewayCache } from '../../../lib/gatewayCache';
+import {
+  IMMUTABLE_CACHE_CONTROL,
+  getCidETag,
+  matchesIfNoneMatch,
+  matchesIfRange
+} from '../../../lib/httpConditional';
+import {
+  type ByteRange,
+  buildMultipartLayout,
+  formatContentRange,
+  getRangeLength,
+  getRangeSpan,
+  parseContentRange,
+  parseRangeHeader,
+  writeByteRanges
+} from '../../../lib/httpRange';
 import { 
   gatewayRateLimiter, 
   aggressiveRateLimiter, 
   burstRateLimiter,
   getClientIP, 
+  getTrustedClientIP,
   detectSuspiciousActivity 
 } from '../../../lib/rateLimiter';
 
@@ -81,17 +105,159 @@ const gatewayHandler = async (req: NextApiRequest, res: NextApiResponse) => {
     return res.status(400).json({ error: 'Invalid or missing CID parameter' });
   }
 
+  // Authentication is optional, but pinning secret reads are scoped and metered
+  let authUserId: string | undefined;
+  let pinningSecretId: string | undefined;
+  let monthlyQuotaGb: number | null = null;
+  if (req.headers.authorization) {
+    const authUser = await verifyAuth(req, res);
+    if (!authUser) {
+      // verifyAuth already sent an error response
+      return;
+    }
+
+    const missingScope = findMissingScope(authUser, ['download']);
+    if (missingScope) {
+      return sendMissingScope(res, missingScope, ['download']);
+    }
+
+    authUserId = authUser.id;
+    pinningSecretId = authUser.pinningSecretId;
+    monthlyQuotaGb = authUser.monthlyQuotaGb ?? null;
+  }
+
+  // Record usage against the pinning secret, if the request used one
+  const recordUsage = async (bytes: number, success: boolean) => {
+    if (pinningSecretId) {
+      await PinningSecretService.trackUsage(pinningSecretId, bytes, success);
+    }
+  };
+
+  if (pinningSecretId) {
+    const quota = await PinningSecretService.checkMonthlyQuota(pinningSecretId, monthlyQuotaGb);
+    if (!quota.allowed) {
+      await recordUsage(0, false);
+      return sendQuotaExceeded(res, quota);
+    }
+  }
+
+  // Set by the [cid]/[...path] route for files inside a directory upload
+  const requestedPath = Array.isArray(req.query.path) ? req.query.path.join('/') : '';
+
   try {
-    // Check if the CID exists in our database (for basic validation)
-    const { data: fileRecord, error: dbError } = await supabaseServer
-      .from('files')
-      .select('filename, content_type')
-      .eq('cid', cid)
-      .single();
+    // Directory CIDs address a manifest; paths resolve to the CID of the file inside it
+    let contentCid = cid;
+    let fileRecord: {
+      filename: string;
+      content_type: string;
+      file_size: number | null;
+      encryption?: FileEncryption | null;
+    } | null = null;
+    const directoryManifest = await FileService.getDirectoryManifestByCid(cid);
+
+    if (directoryManifest) {
+      const directoryFile = await FileService.resolveDirectoryPath(directoryManifest, requestedPath);
+
+      if (directoryFile) {
+        contentCid = directoryFile.cid;
+        fileRecord = directoryFile;
+      } else if (requestedPath) {
+        await recordUsage(0, false);
+        return res.status(404).json({ error: `Path '${requestedPath}' not found in directory` });
+      } else {
+        // Without an index.html the directory root serves its manifest
+        fileRecord = {
+          filename: `${directoryManifest.name}.manifest.json`,
+          content_type: 'application/json',
+          file_size: null
+        };
+      }
+    } else if (requestedPath) {
+      await recordUsage(0, false);
+      return res.status(404).json({ error: 'CID is not a directory' });
+    } else {
+      // Check if the CID exists in our database (for basic validation)
+      const { data, error: dbError } = await supabaseServer
+        .from('files')
+        .select('filename, content_type, file_size, encryption')
+        .eq('cid', cid)
+        .eq('status', 'active')
+        // Shared content has a file record per holder; any of them describes it
+        .limit(1)
+        .maybeSingle();
+
+      if (dbError || !data) {
+        // Even if not in our DB, try to fetch from Codex anyway
+        console.log(`CID ${cid} not found in database, trying Codex directly`);
+      }
+      fileRecord = data;
+    }
 
-    if (dbError || !fileRecord) {
-      // Even if not in our DB, try to fetch from Codex anyway
-      console.log(`CID ${cid} not found in database, trying Codex directly`);
+    // Content taken down by an operator isn't served to anyone, its owners included
+    const denylistCheck = await DenylistService.findBlockedEntry(cid, requestedPath, contentCid);
+    if (denylistCheck.lookupFailed) {
+      await recordUsage(0, false);
+      res.setHeader('Cache-Control', 'no-store');
+      return res.status(503).json({ error: 'Failed to check content availability', message: 'Please try again' });
+    }
+
+    const blockedBy = denylistCheck.entry;
+    if (blockedBy) {
+      console.warn(`Gateway refused denylisted content: CID=${cid}${requestedPath ? `/${requestedPath}` : ''}, reason=${blockedBy.reason}, IP=${clientIP}`);
+      await recordUsage(0, false);
+      res.setHeader('Cache-Control', 'no-store');
+      return res.status(410).json({
+        error: 'Content unavailable',
+        message: 'This content has been blocked and is no longer served by this gateway',
+        reason: blockedBy.reason
+      });
+    }
+
+    // Private content is served to its owners and through share links only
+    const isPrivate = await FileService.isContentPrivate(contentCid);
+    if (isPrivate === null) {
+      await recordUsage(0, false);
+      return res.status(500).json({ error: 'Failed to check content access' });
+    }
+
+    // Set when private content is served through a share link, whose downloads are counted
+    let shareLinkId: string | null = null;
+
+    if (isPrivate && !(authUserId && await FileService.userHoldsContent(authUserId, contentCid))) {
+      const { share, expires, sig, bound } = req.query;
+      if (typeof share !== 'string' || typeof expires !== 'string' || typeof sig !== 'string') {
+        await recordUsage(0, false);
+        return res.status(403).json({ error: 'This content is private', message: 'A share link is required to access it' });
+      }
+
+      // Bound links are checked against the address our own proxies saw, which the client can't set
+      const access = await ShareLinkService.verifyLink(
+        contentCid,
+        { linkId: share, expires, signature: sig, bound: bound === '1' },
+        getTrustedClientIP(req)
+      );
+      if (!access.valid) {
+        await recordUsage(0, false);
+        return res.status(403).json({ error: access.error });
+      }
+      shareLinkId = share;
+    }
+
+    // Content we track is verified and immutable; unknown CIDs are cached briefly.
+    // Private content must not be kept by shared caches.
+    const etag = getCidETag(contentCid);
+    const cacheControl = isPrivate
+      ? 'private, no-store'
+      : fileRecord ? IMMUTABLE_CACHE_CONTROL : 'public, max-age=3600';
+
+    // The content behind a CID never changes, so a matching validator is always current
+    if (matchesIfNoneMatch(req.headers['if-none-match'], etag)) {
+      res.setHeader('ETag', etag);
+      res.setHeader('Cache-Control', cacheControl);
+      res.setHeader('X-Codex-CID', contentCid);
+      res.status(304).end();
+      await recordUsage(0, true);
+      return;
     }
 
     // Get Codex API credentials from environment variables
@@ -108,54 +274,164 @@ const gatewayHandler = async (req: NextApiRequest, res: NextApiResponse) => {
     const basicAuth = Buffer.from(`${codexUsername}:${codexPassword}`).toString('base64');
     
     // Construct the Codex API URL for streaming content
-    const codexUrl = `${codexApiUrl}/data/${cid}/network/stream`;
+    const codexUrl = `${codexApiUrl}/data/${contentCid}/network/stream`;
     
     console.log(`Public gateway fetching: ${codexUrl}`);
 
-    // Make request to Codex API with basic auth
-    const codexResponse = await fetch(codexUrl, {
+    // Make request to Codex API with basic auth, optionally for a byte range
+    const fetchFromCodex = (range?: ByteRange) => fetch(codexUrl, {
       method: 'GET',
       headers: {
         'Authorization': `Basic ${basicAuth}`,
         'User-Agent': 'ThirdStorage-Gateway/1.0',
+        ...(range ? { 'Range': `bytes=${range.start}-${range.end}` } : {}),
       },
     });
 
-    // Handle Codex API errors
-    if (!codexResponse.ok) {
-      console.error(`Codex API error: ${codexResponse.status} ${codexResponse.statusText}`);
-      
-      // If it's a browser request, redirect to our nice error page
-      if (isBrowserRequest(req)) {
-        return res.redirect(302, `/gateway/${cid}`);
+    // Range requests only apply to GET; HEAD always describes the full content
+    // A stale If-Range validator means the client wants the full content
+    const rangeHeader = req.method === 'GET' && matchesIfRange(req.headers['if-range'], etag)
+      ? req.headers.range
+      : undefined;
+    let totalSize = fileRecord?.file_size ?? null;
+
+    // Serve from the local cache when possible; GET misses for cacheable content
+    // fill it first, with concurrent misses sharing a single Codex fetch
+    let cacheEntry = await gatewayCache.get(contentCid);
+    res.setHeader('X-Cache', cacheEntry ? 'HIT' : 'MISS');
+
+    if (!cacheEntry && req.method === 'GET' && totalSize !== null && gatewayCache.isCacheable(totalSize)) {
+      cacheEntry = await gatewayCache.fill(contentCid, totalSize, () => fetchFromCodex());
+    }
+
+    if (cacheEntry) {
+      totalSize = cacheEntry.size;
+    }
+
+    let rangeResult = rangeHeader && totalSize !== null ? parseRangeHeader(rangeHeader, totalSize) : null;
+
+    if (rangeResult?.type === 'unsatisfiable') {
+      await recordUsage(0, false);
+      res.setHeader('Content-Range', `bytes */${totalSize}`);
+      return res.status(416).json({ error: 'Requested range not satisfiable' });
+    }
+
+    // Only the span covering every requested range is read
+    const requestedSpan = rangeResult?.type === 'ranges' ? getRangeSpan(rangeResult.ranges) : undefined;
+    let body: ReadableStream<Uint8Array> | null;
+    // Position of the first byte of the body within the content
+    let bodyOffset = 0;
+    let contentLength: string | null;
+    let upstreamContentType: string | null = null;
+
+    if (cacheEntry) {
+      body = gatewayCache.createReadStream(cacheEntry, requestedSpan);
+      bodyOffset = requestedSpan?.start ?? 0;
+      contentLength = String(cacheEntry.size);
+    } else {
+      let codexResponse = await fetchFromCodex(requestedSpan);
+
+      if (requestedSpan && codexResponse.status === 206) {
+        const upstreamRange = parseContentRange(codexResponse.headers.get('content-range'));
+        if (upstreamRange && upstreamRange.start <= requestedSpan.start && upstreamRange.end >= requestedSpan.end) {
+          bodyOffset = upstreamRange.start;
+        } else {
+          // Codex answered with a range we can't use, slice the full body locally instead
+          await codexResponse.body?.cancel();
+          codexResponse = await fetchFromCodex();
+        }
+      } else if (requestedSpan && codexResponse.status === 416) {
+        codexResponse = await fetchFromCodex();
       }
+
+      // Handle Codex API errors
+      if (!codexResponse.ok) {
+        console.error(`Codex API error: ${codexResponse.status} ${codexResponse.statusText}`);
+        await recordUsage(0, false);
       
-      // Otherwise return JSON for API clients
-      if (codexResponse.status === 400) {
-        return res.status(400).json({ error: 'Invalid CID specified' });
-      } else if (codexResponse.status === 404) {
-        return res.status(404).json({ error: 'Content not found on Codex network' });
-      } else if (codexResponse.status === 500) {
-        return res.status(500).json({ error: 'Internal server error from Codex' });
-      } else if (codexResponse.status === 401) {
-        return res.status(500).json({ error: 'Authentication failed' });
-      } else {
-        return res.status(502).json({ error: 'Bad gateway - Codex API error' });
+        // If it's a browser request, redirect to our nice error page
+        if (isBrowserRequest(req)) {
+          return res.redirect(302, `/gateway/${cid}`);
+        }
+      
+        // Otherwise return JSON for API clients
+        if (codexResponse.status === 400) {
+          return res.status(400).json({ error: 'Invalid CID specified' });
+        } else if (codexResponse.status === 404) {
+          return res.status(404).json({ error: 'Content not found on Codex network' });
+        } else if (codexResponse.status === 500) {
+          return res.status(500).json({ error: 'Internal server error from Codex' });
+        } else if (codexResponse.status === 401) {
+          return res.status(500).json({ error: 'Authentication failed' });
+        } else {
+          return res.status(502).json({ error: 'Bad gateway - Codex API error' });
+        }
+      }
+
+      upstreamContentType = codexResponse.headers.get('content-type');
+      contentLength = codexResponse.status === 200 ? codexResponse.headers.get('content-length') : null;
+      body = codexResponse.body;
+    }
+
+    // Get content type - use from database if available, otherwise from response.
+    // Encrypted content is served as-is for the viewer's browser to decrypt.
+    const encryption = fileRecord?.encryption || null;
+    const contentType = encryption
+      ? 'application/octet-stream'
+      : fileRecord?.content_type || upstreamContentType || 'application/octet-stream';
+
+    // Without a stored size, ranges can only be resolved once Codex reports the length
+    if (rangeHeader && totalSize === null && contentLength) {
+      totalSize = parseInt(contentLength, 10);
+      rangeResult = parseRangeHeader(rangeHeader, totalSize);
+
+      if (rangeResult.type === 'unsatisfiable') {
+        await body?.cancel();
+        await recordUsage(0, false);
+        res.setHeader('Content-Range', `bytes */${totalSize}`);
+        return res.status(416).json({ error: 'Requested range not satisfiable' });
+      }
+    }
+
+    const ranges = rangeResult?.type === 'ranges' ? rangeResult.ranges : null;
+    const bytesToSend = ranges
+      ? ranges.reduce((total, range) => total + getRangeLength(range), 0)
+      : contentLength ? parseInt(contentLength, 10) : null;
+
+    // Reject reads that would push the pinning secret past its monthly quota
+    if (pinningSecretId && bytesToSend !== null && req.method === 'GET') {
+      const quota = await PinningSecretService.checkMonthlyQuota(
+        pinningSecretId,
+        monthlyQuotaGb,
+        bytesToSend
+      );
+      if (!quota.allowed) {
+        await body?.cancel();
+        await recordUsage(0, false);
+        return sendQuotaExceeded(res, quota);
       }
     }
 
-    // Get content type - use from database if available, otherwise from response
-    const contentType = fileRecord?.content_type || 
-                       codexResponse.headers.get('content-type') || 
-                       'application/octet-stream';
-    const contentLength = codexResponse.headers.get('content-length');
+    // Every GET that sends content counts as a download, ranges included, so a link's
+    // cap can't be dodged by skipping the first byte; HEAD requests and 304s are free
+    if (shareLinkId && req.method === 'GET') {
+      const consumed = await ShareLinkService.consumeDownload(shareLinkId, contentCid);
+      if (!consumed.valid) {
+        await body?.cancel();
+        await recordUsage(0, false);
+        return res.status(403).json({ error: consumed.error });
+      }
+    }
     
     // Set appropriate headers for the response
     res.setHeader('Content-Type', contentType);
-    res.setHeader('Cache-Control', 'public, max-age=3600'); // Cache for 1 hour
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD');
-    res.setHeader('Access-Control-Allow-Headers', '*');
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', cacheControl);
+    if (!isPrivate) {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD');
+      res.setHeader('Access-Control-Allow-Headers', '*');
+    }
     
     // Security headers
     res.setHeader('X-Content-Type-Options', 'nosniff');
@@ -163,7 +439,20 @@ const gatewayHandler = async (req: NextApiRequest, res: NextApiResponse) => {
     res.setHeader('X-XSS-Protection', '1; mode=block');
     res.setHeader('Referrer-Policy', 'strict-origin-when-cross-origin');
     
-    if (contentLength) {
+    res.setHeader('Accept-Ranges', 'bytes');
+
+    // Multi-range responses are sent as multipart/byteranges
+    const multipartLayout = ranges && ranges.length > 1
+      ? buildMultipartLayout(ranges, contentType, totalSize!)
+      : null;
+
+    if (multipartLayout) {
+      res.setHeader('Content-Type', multipartLayout.contentType);
+      res.setHeader('Content-Length', multipartLayout.contentLength);
+    } else if (ranges) {
+      res.setHeader('Content-Range', formatContentRange(ranges[0], totalSize!));
+      res.setHeader('Content-Length', getRangeLength(ranges[0]));
+    } else if (contentLength) {
       res.setHeader('Content-Length', contentLength);
     }
 
@@ -173,22 +462,54 @@ const gatewayHandler = async (req: NextApiRequest, res: NextApiResponse) => {
     }
     
     // Add custom headers for debugging
-    res.setHeader('X-Codex-CID', cid);
-    res.setHeader('X-Gateway-Type', 'public');
+    res.setHeader('X-Codex-CID', contentCid);
+    if (directoryManifest) {
+      res.setHeader('X-Directory-CID', cid);
+    }
+    res.setHeader('X-Gateway-Type', isPrivate ? 'private' : 'public');
+    if (encryption) {
+      res.setHeader('X-Encrypted', `${encryption.cipher}; iv=${encryption.iv}; key-id=${encryption.keyId}`);
+    }
 
     // Log successful request for monitoring
-    console.log(`Gateway access: CID=${cid}, IP=${clientIP}, Method=${req.method}, UserAgent=${req.headers['user-agent']?.substring(0, 100) || 'unknown'}`);
+    console.log(`Gateway access: CID=${cid}${requestedPath ? `/${requestedPath}` : ''}, IP=${clientIP}, Method=${req.method}, UserAgent=${req.headers['user-agent']?.substring(0, 100) || 'unknown'}`);
 
     // For HEAD requests, only send headers
     if (req.method === 'HEAD') {
+      await body?.cancel();
       res.status(200).end();
+      await recordUsage(0, true);
+      return;
+    }
+
+    // Stream only the requested ranges, slicing locally if Codex sent more
+    if (ranges && body) {
+      res.status(206);
+      const bytesSent = await writeByteRanges(
+        body,
+        bodyOffset,
+        ranges,
+        chunk => res.write(chunk),
+        index => {
+          if (multipartLayout) {
+            res.write(multipartLayout.partHeaders[index]);
+          }
+        }
+      );
+
+      if (multipartLayout) {
+        res.write(multipartLayout.trailer);
+      }
+      res.end();
+      await recordUsage(bytesSent, true);
       return;
     }
 
     // Stream the response body for GET requests
-    if (codexResponse.body) {
+    if (body) {
       // Convert the ReadableStream to a Node.js readable stream
-      const reader = codexResponse.body.getReader();
+      const reader = body.getReader();
+      let bytesSent = 0;
       
       const pump = async (): Promise<void> => {
         const { done, value } = await reader.read();
@@ -198,19 +519,21 @@ const gatewayHandler = async (req: NextApiRequest, res: NextApiResponse) => {
           return;
         }
         
+        bytesSent += value.byteLength;
         res.write(value);
         return pump();
       };
       
       await pump();
+      await recordUsage(bytesSent, true);
     } else {
-      // Fallback: read the entire response and send it
-      const buffer = await codexResponse.arrayBuffer();
-      res.send(Buffer.from(buffer));
+      res.end();
+      await recordUsage(0, true);
     }
 
   } catch (error) {
     console.error('Gateway error:', error);
+    await recordUsage(0, false);
     
     // Check if response was already sent
     if (!res.headersSent) {
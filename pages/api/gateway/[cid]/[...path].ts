@@ -0,0 +1,2 @@
+// Serves files inside directory uploads, e.g. /api/gateway/<cid>/path/to/file.html
+export { default } from '../[cid]';
\ No newline at end of file
@@ -1,4 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { gatewayCache } from '../../../lib/gatewayCache';
+import { HealthService } from '../../../lib/healthService';
 
 export default async function handler(
   req: NextApiRequest,
@@ -9,39 +11,38 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  res.setHeader('Cache-Control', 'no-store');
+
   try {
-    // Basic health check - just return 200 if the API is responding
-    // In a real implementation, you might want to check:
-    // - Database connectivity
-    // - External service availability
-    // - System resources
-    
-    // For now, we'll just check if we can respond
-    const healthStatus = {
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      uptime: process.uptime(),
-      service: 'gateway'
-    };
+    // Probes Supabase, the Codex node, Stripe and upload disk space
+    const report = await HealthService.getReport();
+
+    // Degraded still serves traffic; only a critical component being down fails the check
+    const statusCode = report.status === 'down' ? 503 : 200;
+    res.setHeader('X-Health-Status', report.status);
 
     // For HEAD requests, just return status code
     if (req.method === 'HEAD') {
-      return res.status(200).end();
+      return res.status(statusCode).end();
     }
 
-    // For GET requests, return the health status object
-    return res.status(200).json(healthStatus);
+    // For GET requests, return the detailed health report
+    return res.status(statusCode).json({
+      ...report,
+      service: 'gateway',
+      cache: gatewayCache.getStats()
+    });
   } catch (error) {
     console.error('Health check failed:', error);
-    
+
     if (req.method === 'HEAD') {
       return res.status(503).end();
     }
-    
+
     return res.status(503).json({
-      status: 'unhealthy',
+      status: 'down',
       error: 'Service unavailable',
       timestamp: new Date().toISOString()
     });
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
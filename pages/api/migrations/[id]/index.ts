@@ -0,0 +1,46 @@
+import { withAuth } from '../../../../lib/auth';
+import { MigrationService } from '../../../../lib/migrationService';
+
+const migrationJobHandler = withAuth(async (req, res) => {
+  const userId = req.user.id;
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Migration ID is required' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const job = await MigrationService.getJob(id, userId);
+      if (!job) {
+        return res.status(404).json({ error: 'Migration not found' });
+      }
+
+      const logs = await MigrationService.getJobLogs(job.id);
+      return res.status(200).json({ job, logs });
+
+    } else if (req.method === 'DELETE') {
+      // Cancel the migration; content already stored is kept
+      const job = await MigrationService.getJob(id, userId);
+      if (!job) {
+        return res.status(404).json({ error: 'Migration not found' });
+      }
+
+      const cancelled = await MigrationService.cancelJob(job.id, userId);
+      if (!cancelled) {
+        return res.status(409).json({ error: `Migration is already ${job.status}` });
+      }
+
+      return res.status(200).json({ success: true, job: cancelled });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error) {
+    console.error('Error in migration job handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['upload'] });
+
+export default migrationJobHandler;
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { withAuth } from '../../../../lib/auth';
+import { MigrationService, MAX_ACTIVE_MIGRATIONS_PER_USER } from '../../../../lib/migrationService';
+
+const retryMigrationHandler = withAuth(async (req, res) => {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const userId = req.user.id;
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Migration ID is required' });
+  }
+
+  try {
+    const job = await MigrationService.getJob(id, userId);
+    if (!job) {
+      return res.status(404).json({ error: 'Migration not found' });
+    }
+
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      return res.status(409).json({ error: `Migration is ${job.status}` });
+    }
+
+    const activeJobs = await MigrationService.countActiveJobs(userId);
+    if (activeJobs >= MAX_ACTIVE_MIGRATIONS_PER_USER) {
+      return res.status(429).json({
+        error: 'Too many active migrations',
+        message: `You can have up to ${MAX_ACTIVE_MIGRATIONS_PER_USER} migrations queued or running at once.`
+      });
+    }
+
+    const retried = await MigrationService.retryJob(job.id, userId);
+    if (!retried) {
+      return res.status(409).json({ error: 'Migration could not be retried' });
+    }
+
+    return res.status(202).json({ success: true, job: retried });
+  } catch (error) {
+    console.error('Error retrying migration:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['upload'] });
+
+export default retryMigrationHandler;
\ No newline at end of file
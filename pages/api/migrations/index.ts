@@ -0,0 +1,98 @@
+import { withAuth, sendQuotaExceeded } from '../../../lib/auth';
+import { UserService } from '../../../lib/userService';
+import { PinningSecretService } from '../../../lib/pinningSecretService';
+import {
+  MigrationService,
+  MAX_ACTIVE_MIGRATIONS_PER_USER,
+  type MigrationNetwork
+} from '../../../lib/migrationService';
+
+const migrationsHandler = withAuth(async (req, res) => {
+  const userId = req.user.id;
+
+  try {
+    if (req.method === 'GET') {
+      const jobs = await MigrationService.getJobs(userId);
+      return res.status(200).json({ jobs });
+
+    } else if (req.method === 'POST') {
+      const { network, sourceId, preserveMetadata } = req.body || {};
+
+      if (!network || typeof network !== 'string') {
+        return res.status(400).json({ error: 'Network is required' });
+      }
+
+      if (!sourceId || typeof sourceId !== 'string') {
+        return res.status(400).json({ error: 'Source identifier is required' });
+      }
+
+      if (preserveMetadata !== undefined && typeof preserveMetadata !== 'boolean') {
+        return res.status(400).json({ error: 'preserveMetadata must be a boolean' });
+      }
+
+      const trimmedSourceId = sourceId.trim();
+      const sourceError = MigrationService.validateSource(network, trimmedSourceId);
+      if (sourceError) {
+        return res.status(400).json({ error: sourceError });
+      }
+
+      // Ensure user profile exists
+      const userProfile = await UserService.upsertUserProfile(userId, req.user.email);
+      if (!userProfile) {
+        return res.status(500).json({ error: 'Failed to create user profile' });
+      }
+
+      // The content size isn't known yet; reject users who are already out of space
+      const canUpload = await UserService.canUserUploadFile(userId, 1);
+      if (!canUpload.canUpload) {
+        return res.status(413).json({
+          error: 'Storage limit exceeded',
+          message: canUpload.reason,
+          currentUsage: canUpload.currentUsage,
+          limit: canUpload.limit
+        });
+      }
+
+      if (req.user.pinningSecretId) {
+        const quota = await PinningSecretService.checkMonthlyQuota(
+          req.user.pinningSecretId,
+          req.user.monthlyQuotaGb
+        );
+        if (!quota.allowed) {
+          return sendQuotaExceeded(res, quota);
+        }
+      }
+
+      const activeJobs = await MigrationService.countActiveJobs(userId);
+      if (activeJobs >= MAX_ACTIVE_MIGRATIONS_PER_USER) {
+        return res.status(429).json({
+          error: 'Too many active migrations',
+          message: `You can have up to ${MAX_ACTIVE_MIGRATIONS_PER_USER} migrations queued or running at once.`
+        });
+      }
+
+      const job = await MigrationService.createJob({
+        userId,
+        network: network as MigrationNetwork,
+        sourceId: trimmedSourceId,
+        preserveMetadata: preserveMetadata ?? true,
+        pinningSecretId: req.user.pinningSecretId
+      });
+
+      if (!job) {
+        return res.status(500).json({ error: 'Failed to create migration job' });
+      }
+
+      return res.status(202).json({ success: true, job });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error) {
+    console.error('Error in migrations handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['upload'] });
+
+export default migrationsHandler;
\ No newline at end of file
@@ -1,4 +1,10 @@
-import { withAuth } from '../../../lib/auth';
+import {
+  withAuth,
+  sendMissingScope,
+  isValidPinningSecretScope,
+  PINNING_SECRET_SCOPES,
+  type PinningSecretScope
+} from '../../../lib/auth';
 import { PinningSecretService } from '../../../lib/pinningSecretService';
 
 const createPinningSecretHandler = withAuth(async (req, res) => {
@@ -24,9 +30,15 @@ const createPinningSecretHandler = withAuth(async (req, res) => {
       return res.status(400).json({ error: 'Scopes must be an array' });
     }
 
-    const validScopes = ['upload', 'download'];
-    if (scopes && scopes.some((scope: string) => !validScopes.includes(scope))) {
-      return res.status(400).json({ error: 'Invalid scope. Valid scopes are: upload, download' });
+    if (scopes && scopes.some((scope: string) => !isValidPinningSecretScope(scope))) {
+      return res.status(400).json({ error: `Invalid scope. Valid scopes are: ${PINNING_SECRET_SCOPES.join(', ')}` });
+    }
+
+    // A pinning secret cannot mint another secret with broader access than its own
+    const requestedScopes: PinningSecretScope[] = scopes || ['upload', 'download'];
+    const escalatedScope = requestedScopes.find(scope => !req.user.scopes.includes(scope));
+    if (escalatedScope) {
+      return sendMissingScope(res, escalatedScope, requestedScopes);
     }
 
     // Validate rate limit if provided
@@ -52,7 +64,7 @@ const createPinningSecretHandler = withAuth(async (req, res) => {
     const result = await PinningSecretService.createPinningSecret({
       userId,
       name: name.trim(),
-      scopes: scopes || ['upload', 'download'],
+      scopes: requestedScopes,
       rateLimitPerMinute: rateLimitPerMinute || 100,
       monthlyQuotaGb: monthlyQuotaGb || null
     });
@@ -81,6 +93,6 @@ const createPinningSecretHandler = withAuth(async (req, res) => {
     console.error('Error creating pinning secret:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
-});
+}, { requiredScopes: ['secrets:manage'] });
 
 export default createPinningSecretHandler; 
\ No newline at end of file
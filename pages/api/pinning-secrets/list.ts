@@ -12,29 +12,41 @@ const listPinningSecretsHandler = withAuth(async (req, res) => {
     const secrets = await PinningSecretService.getUserPinningSecrets(userId);
 
     // Format the response to not include sensitive data
-    const formattedSecrets = secrets.map(secret => ({
-      id: secret.id,
-      name: secret.name,
-      prefix: secret.secret_prefix,
-      scopes: secret.scopes,
-      rateLimitPerMinute: secret.rate_limit_per_minute,
-      monthlyQuotaGb: secret.monthly_quota_gb,
-      usageThisMonth: secret.usage_this_month,
-      isActive: secret.is_active,
-      lastUsed: secret.last_used_display,
-      createdAt: new Date(secret.created_at).toLocaleDateString()
-    }));
+    const formattedSecrets = secrets.map(secret => {
+      const quotaWarning = secret.is_active
+        ? PinningSecretService.getQuotaWarning(secret.usage_bytes_this_month, secret.monthly_quota_gb)
+        : null;
+
+      return {
+        id: secret.id,
+        name: secret.name,
+        prefix: secret.secret_prefix,
+        scopes: secret.scopes,
+        rateLimitPerMinute: secret.rate_limit_per_minute,
+        monthlyQuotaGb: secret.monthly_quota_gb,
+        usageThisMonth: secret.usage_this_month,
+        quotaWarning,
+        isActive: secret.is_active,
+        lastUsed: secret.last_used_display,
+        createdAt: new Date(secret.created_at).toLocaleDateString()
+      };
+    });
+
+    const quotaWarnings = formattedSecrets
+      .filter(secret => secret.quotaWarning)
+      .map(secret => ({ secretId: secret.id, name: secret.name, ...secret.quotaWarning! }));
 
     return res.status(200).json({
       success: true,
       secrets: formattedSecrets,
-      count: formattedSecrets.length
+      count: formattedSecrets.length,
+      quotaWarnings
     });
 
   } catch (error) {
     console.error('Error listing pinning secrets:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
-});
+}, { requiredScopes: ['secrets:manage'] });
 
 export default listPinningSecretsHandler; 
\ No newline at end of file
@@ -31,6 +31,6 @@ const revokePinningSecretHandler = withAuth(async (req, res) => {
     console.error('Error revoking pinning secret:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
-});
+}, { requiredScopes: ['secrets:manage'] });
 
 export default revokePinningSecretHandler; 
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { withAuth, findMissingScope, sendMissingScope } from '../../../lib/auth';
+import { FileService } from '../../../lib/fileService';
+import {
+  ReplicationService,
+  STORAGE_REQUEST_STATUSES,
+  type StorageRequestStatus
+} from '../../../lib/replicationService';
+
+const storageRequestsHandler = withAuth(async (req, res) => {
+  const userId = req.user.id;
+
+  try {
+    if (req.method === 'GET') {
+      const { fileId, status } = req.query;
+
+      if (status !== undefined && !STORAGE_REQUEST_STATUSES.includes(status as StorageRequestStatus)) {
+        return res.status(400).json({ error: `status must be one of: ${STORAGE_REQUEST_STATUSES.join(', ')}` });
+      }
+
+      const requests = await ReplicationService.getStorageRequests(userId, {
+        fileId: typeof fileId === 'string' ? fileId : undefined,
+        status: status as StorageRequestStatus | undefined
+      });
+
+      return res.status(200).json({ requests });
+
+    } else if (req.method === 'POST') {
+      const missingScope = findMissingScope(req.user, ['replication:manage']);
+      if (missingScope) {
+        return sendMissingScope(res, missingScope, ['replication:manage']);
+      }
+
+      if (!await ReplicationService.getLimits(userId)) {
+        return res.status(403).json({ error: 'Replication is not included in your plan' });
+      }
+
+      // Queue a storage request for a file using the rule that applies to it
+      const { fileId } = req.body;
+
+      if (!fileId || typeof fileId !== 'string') {
+        return res.status(400).json({ error: 'File ID is required' });
+      }
+
+      const file = await FileService.getFile(fileId, userId);
+      if (!file) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      const rule = await ReplicationService.getEffectiveRule(userId, file.id);
+      if (!rule || !rule.enabled) {
+        return res.status(400).json({ error: 'No enabled replication rule applies to this file' });
+      }
+
+      const activeRequest = await ReplicationService.getActiveRequest(file.id, userId);
+      if (activeRequest) {
+        return res.status(409).json({ error: 'A storage request for this file is already in progress', request: activeRequest });
+      }
+
+      const job = await ReplicationService.queueStorageRequest(file.id, userId);
+      if (!job) {
+        return res.status(500).json({ error: 'Failed to queue storage request' });
+      }
+
+      return res.status(202).json({ success: true, job });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error) {
+    console.error('Error in storage requests handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['files:read'] });
+
+export default storageRequestsHandler;
\ No newline at end of file
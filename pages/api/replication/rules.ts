@@ -0,0 +1,94 @@
+import { withAuth, findMissingScope, sendMissingScope } from '../../../lib/auth';
+import { FileService } from '../../../lib/fileService';
+import { ReplicationService, checkReplicationLimits } from '../../../lib/replicationService';
+
+const replicationRulesHandler = withAuth(async (req, res) => {
+  const userId = req.user.id;
+
+  // Reading rules only needs file access; changing them can spend funds on storage requests
+  if (req.method === 'POST' || req.method === 'DELETE') {
+    const missingScope = findMissingScope(req.user, ['replication:manage']);
+    if (missingScope) {
+      return sendMissingScope(res, missingScope, ['replication:manage']);
+    }
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const rules = await ReplicationService.getRules(userId);
+      return res.status(200).json({ rules });
+
+    } else if (req.method === 'POST') {
+      // Create or replace a rule; without fileId it is the default rule for new uploads
+      const { fileId, apply } = req.body;
+
+      if (fileId !== undefined && fileId !== null && typeof fileId !== 'string') {
+        return res.status(400).json({ error: 'fileId must be a string' });
+      }
+
+      const limits = await ReplicationService.getLimits(userId);
+      if (!limits) {
+        return res.status(403).json({ error: 'Replication is not included in your plan' });
+      }
+
+      const validation = ReplicationService.validateRuleInput(req.body, limits);
+      if (!validation.input) {
+        return res.status(400).json({ error: validation.error });
+      }
+
+      const file = fileId ? await FileService.getFile(fileId, userId) : null;
+      if (fileId && !file) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      // A file's size is known up front, so its rule can be checked against the plan's cost cap
+      const costError = file ? checkReplicationLimits(limits, validation.input, file.file_size) : null;
+      if (costError) {
+        return res.status(400).json({ error: costError });
+      }
+
+      const rule = await ReplicationService.saveRule(userId, fileId || null, validation.input);
+      if (!rule) {
+        return res.status(500).json({ error: 'Failed to save replication rule' });
+      }
+
+      // Optionally queue a storage request for the file straight away
+      let storageRequest = null;
+      let job = null;
+      if (file && apply && rule.enabled) {
+        storageRequest = await ReplicationService.getActiveRequest(file.id, userId);
+        if (!storageRequest) {
+          job = await ReplicationService.queueStorageRequest(file.id, userId);
+          if (!job) {
+            return res.status(500).json({ error: 'Replication rule saved, but the storage request could not be queued', rule });
+          }
+        }
+      }
+
+      return res.status(200).json({ rule, storageRequest, job });
+
+    } else if (req.method === 'DELETE') {
+      const { id } = req.body;
+
+      if (!id || typeof id !== 'string') {
+        return res.status(400).json({ error: 'Rule ID is required' });
+      }
+
+      const deleted = await ReplicationService.deleteRule(id, userId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Replication rule not found' });
+      }
+
+      return res.status(200).json({ success: true });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+  } catch (error) {
+    console.error('Error in replication rules handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['files:read'] });
+
+export default replicationRulesHandler;
\ No newline at end of file
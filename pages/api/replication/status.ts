@@ -0,0 +1,33 @@
+import { withAuth } from '../../../lib/auth';
+import { ReplicationService } from '../../../lib/replicationService';
+
+const RECENT_REQUESTS_LIMIT = 20;
+
+const replicationStatusHandler = withAuth(async (req, res) => {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const userId = req.user.id;
+
+  try {
+    // Requests are loaded before the summary so refreshed states are counted
+    const requests = await ReplicationService.getStorageRequests(userId, { limit: RECENT_REQUESTS_LIMIT });
+    const [summary, rules] = await Promise.all([
+      ReplicationService.getSummary(userId),
+      ReplicationService.getRules(userId)
+    ]);
+
+    return res.status(200).json({
+      summary,
+      defaultRule: rules.find(rule => rule.file_id === null) || null,
+      rules,
+      requests
+    });
+  } catch (error) {
+    console.error('Error fetching replication status:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['files:read'] });
+
+export default replicationStatusHandler;
\ No newline at end of file
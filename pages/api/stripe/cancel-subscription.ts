@@ -1,6 +1,6 @@
 import Stripe from 'stripe';
 import { supabaseServer } from '../../../lib/supabase-server';
-import { withAuth } from '../../../lib/auth';
+import { withAuth, ACCOUNT_SCOPE } from '../../../lib/auth';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2025-06-30.basil',
@@ -84,6 +84,6 @@ const cancelSubscriptionHandler = withAuth(async (req, res) => {
     console.error('Cancel subscription error:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
-});
+}, { requiredScopes: [ACCOUNT_SCOPE] });
 
 export default cancelSubscriptionHandler; 
\ No newline at end of file
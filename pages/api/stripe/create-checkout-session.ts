@@ -1,7 +1,7 @@
 import Stripe from 'stripe';
 import { supabaseServer } from '../../../lib/supabase-server';
 import { UserService } from '../../../lib/userService';
-import { withAuth } from '../../../lib/auth';
+import { withAuth, ACCOUNT_SCOPE } from '../../../lib/auth';
 import { getPlan } from '../../../lib/plans';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -157,6 +157,6 @@ const createCheckoutHandler = withAuth(async (req, res) => {
     
     res.status(500).json({ error: 'Failed to create checkout session. Please try again.' });
   }
-});
+}, { requiredScopes: [ACCOUNT_SCOPE] });
 
 export default createCheckoutHandler; 
\ No newline at end of file
@@ -1,5 +1,5 @@
 import Stripe from 'stripe';
-import { withAuth } from '../../../lib/auth';
+import { withAuth, ACCOUNT_SCOPE } from '../../../lib/auth';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2025-06-30.basil',
@@ -79,6 +79,6 @@ const validateCouponHandler = withAuth(async (req, res) => {
       valid: false 
     });
   }
-});
+}, { requiredScopes: [ACCOUNT_SCOPE] });
 
 export default validateCouponHandler; 
\ No newline at end of file
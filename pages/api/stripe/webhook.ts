@@ -1,5 +1,6 @@
 import Stripe from 'stripe';
 import { supabaseServer } from '../../../lib/supabase-server';
+import { JobQueue } from '../../../lib/jobQueue';
 import { NextApiRequest, NextApiResponse } from 'next';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -75,53 +76,26 @@ export default async function handler(
             });
           }
 
-          console.log(`👤 Upgrading user ${userId} to ${planType} plan`);
-
-          // Get the subscription from Stripe with retry logic
-          let subscription!: Stripe.Subscription; // Definite assignment assertion
-          let retries = 3;
-          while (retries > 0) {
-            try {
-              subscription = await stripe.subscriptions.retrieve(session.subscription as string);
-              break;
-            } catch (error) {
-              console.warn(`⚠️  Retry ${4 - retries}: Failed to retrieve subscription ${session.subscription}`);
-              retries--;
-              if (retries === 0) {
-                console.error(`❌ Failed to retrieve subscription after 3 retries: ${session.subscription}`);
-                throw error;
-              }
-              await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second
-            }
-          }
-          
-          // Update subscription record (SINGLE source of truth)
-          console.log(`💾 Updating subscription record for ${userId}`);
-          const { error: subscriptionError } = await supabaseServer
-            .from('subscriptions')
-            .upsert({
-              user_id: userId,
-              plan_type: planType,
-              stripe_subscription_id: subscription.id,
-              stripe_customer_id: subscription.customer as string,
-              status: subscription.status,
-              // Stripe types do not always include these fields, so use (subscription as any)
-              current_period_start: safeConvertDate((subscription as any).current_period_start),
-              current_period_end: safeConvertDate((subscription as any).current_period_end),
-              cancel_at_period_end: (subscription as any).cancel_at_period_end ?? false,
-              updated_at: new Date().toISOString()
-            }, {
-              onConflict: 'user_id'
-            });
-
-          if (subscriptionError) {
-            console.error(`❌ Failed to update subscription record for ${userId}:`, subscriptionError);
-            throw new Error('Subscription update failed');
-          } else {
-            console.log(`✅ Subscription record updated for ${userId}`);
+          // Fetching the subscription and recording it runs as a job,
+          // so a Stripe or database hiccup is retried with backoff
+          console.log(`👤 Queueing upgrade of user ${userId} to ${planType} plan`);
+          const job = await JobQueue.enqueue('stripe.checkout_completed', {
+            sessionId: session.id,
+            userId,
+            planType,
+            subscriptionId: session.subscription as string
+          }, {
+            userId,
+            dedupeKey: `stripe:${event.id}`
+          });
+
+          if (!job) {
+            console.error(`❌ Failed to queue checkout session ${session.id}`);
+            // Let Stripe redeliver the event
+            return res.status(500).json({ error: 'Failed to queue checkout processing' });
           }
 
-          console.log(`🎉 User ${userId} successfully upgraded to ${planType} plan`);
+          console.log(`✅ Checkout session ${session.id} queued as job ${job.id}`);
         }
         break;
       }
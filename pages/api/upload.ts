@@ -1,74 +1,29 @@
-import { IncomingForm, File } from 'formidable';
-import fs from 'fs';
+import { IncomingForm } from 'formidable';
 import path from 'path';
-import { withAuth } from '../../lib/auth';
+import { Transform } from 'stream';
+import { withAuth, sendQuotaExceeded } from '../../lib/auth';
 import { UserService } from '../../lib/userService';
-import { FileService } from '../../lib/fileService';
-
-// File validation constants
-const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
-const ALLOWED_FILE_TYPES = [
-  // Images
-  'image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml',
-  // Documents
-  'application/pdf', 'text/plain', 'application/msword', 
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-  'application/vnd.ms-powerpoint', 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-  // Audio
-  'audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/mp4',
-  // Video
-  'video/mp4', 'video/mpeg', 'video/quicktime', 'video/x-msvideo',
-  // Archives
-  'application/zip', 'application/x-rar-compressed', 'application/x-7z-compressed',
-  // Code
-  'application/json', 'text/html', 'text/css', 'text/javascript'
-];
-
-const DANGEROUS_FILE_EXTENSIONS = [
-  '.exe', '.scr', '.bat', '.cmd', '.com', '.pif', '.vbs', '.js', '.jar',
-  '.app', '.deb', '.pkg', '.dmg', '.rpm', '.msi', '.bin', '.run'
-];
+import { formatFileSize } from '../../lib/supabase';
+import { FileService, type FileAttributes, type FileRecord } from '../../lib/fileService';
+import { MAX_METADATA_BYTES, parseMetadata, parseTags, parseVisibility } from '../../lib/fileMetadata';
+import { GCM_TAG_BYTES, MAX_ENCRYPTED_FILE_SIZE, parseEncryption, type FileEncryption } from '../../lib/fileEncryption';
+import { PinningSecretService, type QuotaCheckResult } from '../../lib/pinningSecretService';
+import { CodexService } from '../../lib/codexService';
+import { StorageQuotaService, type StorageReservation } from '../../lib/storageQuotaService';
+import { ReplicationService } from '../../lib/replicationService';
+import {
+  MAX_DIRECTORY_FILES,
+  MAX_DIRECTORY_SIZE,
+  MAX_FILE_SIZE,
+  validateFile,
+  validateRelativePath
+} from '../../lib/uploadValidation';
 
 // Rate limiting (in-memory store)
 const uploadAttempts = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
 const MAX_UPLOADS_PER_MINUTE = 5;
 
-interface FileValidationResult {
-  valid: boolean;
-  error?: string;
-}
-
-function validateFile(fileName: string, mimeType: string, fileSize: number): FileValidationResult {
-  // Check file size
-  if (fileSize > MAX_FILE_SIZE) {
-    return { valid: false, error: `File too large. Maximum size is ${MAX_FILE_SIZE / 1024 / 1024}MB` };
-  }
-
-  // Check file extension
-  const fileExtension = path.extname(fileName).toLowerCase();
-  if (DANGEROUS_FILE_EXTENSIONS.includes(fileExtension)) {
-    return { valid: false, error: `File type '${fileExtension}' is not allowed for security reasons` };
-  }
-
-  // Check MIME type
-  if (!ALLOWED_FILE_TYPES.includes(mimeType)) {
-    return { valid: false, error: `File type '${mimeType}' is not supported` };
-  }
-
-  // Additional filename validation
-  if (fileName.length > 255) {
-    return { valid: false, error: 'Filename too long' };
-  }
-
-  if (!/^[\w\-. ]+$/.test(fileName)) {
-    return { valid: false, error: 'Filename contains invalid characters' };
-  }
-
-  return { valid: true };
-}
-
 function checkRateLimit(userId: string): { allowed: boolean; resetTime?: number } {
   const now = Date.now();
   const userAttempts = uploadAttempts.get(userId);
@@ -89,14 +44,65 @@ function checkRateLimit(userId: string): { allowed: boolean; resetTime?: number
   return { allowed: true };
 }
 
-function cleanupTempFile(filepath: string) {
-  try {
-    if (fs.existsSync(filepath)) {
-      fs.unlinkSync(filepath);
+// A file part being streamed to Codex
+interface StreamedFile {
+  path: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  // Streamed after an encryption field, so stored as opaque data
+  encrypted: boolean;
+  upload: Promise<Response>;
+  cid: string;
+  // Pending file reserved for this part before its content is stored
+  reservation: Promise<FileRecord | null>;
+}
+
+/**
+ * Work out the directory name and root-relative paths for a directory upload.
+ * Browsers prefix every path with the selected folder's name, so a shared
+ * top-level folder is stripped and used as the default name.
+ */
+function resolveDirectoryLayout(
+  paths: string[],
+  requestedName?: string
+): { name: string; paths: string[] } {
+  const topLevel = paths[0].split('/')[0];
+  const sharesRoot = paths.every(filePath => filePath.startsWith(`${topLevel}/`));
+
+  return {
+    name: requestedName || (sharesRoot ? topLevel : 'directory'),
+    paths: sharesRoot ? paths.map(filePath => filePath.substring(topLevel.length + 1)) : paths
+  };
+}
+
+/**
+ * Undo an upload that failed after content may have reached Codex
+ */
+async function rollbackUpload(streamedFiles: StreamedFile[], manifestCid: string | null): Promise<void> {
+  const storedCids = manifestCid ? [manifestCid] : [];
+
+  for (const streamedFile of streamedFiles) {
+    if (!streamedFile.cid) {
+      // Parts that finished before the upload was aborted are stored even though their CID was never read
+      try {
+        const response = await streamedFile.upload;
+        streamedFile.cid = response.ok ? (await response.text()).trim() : '';
+      } catch {
+        // Aborted before Codex stored it
+      }
+    }
+
+    if (streamedFile.cid) {
+      storedCids.push(streamedFile.cid);
     }
-  } catch (error) {
-    console.error('Error cleaning up temp file:', error);
   }
+
+  const reservations = await Promise.all(streamedFiles.map(file => file.reservation));
+  await FileService.abortPendingFiles(
+    reservations.filter((file): file is FileRecord => file !== null).map(file => file.id),
+    storedCids
+  );
 }
 
 const uploadHandler = withAuth(async (req, res) => {
@@ -107,6 +113,14 @@ const uploadHandler = withAuth(async (req, res) => {
 
   const userId = req.user.id;
   const userEmail = req.user.email;
+  const pinningSecretId = req.user.pinningSecretId;
+
+  // Record usage against the pinning secret, if the request used one
+  const recordUsage = async (bytes: number, success: boolean) => {
+    if (pinningSecretId) {
+      await PinningSecretService.trackUsage(pinningSecretId, bytes, success);
+    }
+  };
 
   // Check rate limit
   const rateLimitResult = checkRateLimit(userId);
@@ -120,204 +134,511 @@ const uploadHandler = withAuth(async (req, res) => {
   }
 
   // Get Codex API credentials from environment variables
-  const codexApiUrl = process.env.CODEX_API_URL || 'https://api.demo.codex.storage/fileshareapp/api/codex/v1';
-  const codexUsername = process.env.CODEX_USERNAME || 'codex';
-  const codexPassword = process.env.CODEX_PASSWORD;
-
-  if (!codexPassword) {
+  const codexConfig = CodexService.getConfig();
+  if (!codexConfig) {
     return res.status(500).json({ error: 'Storage service configuration missing' });
   }
 
-  let uploadedFile: File | undefined = undefined;
+  // Aborts the upstream Codex requests when a limit is crossed mid-stream
+  const abortController = new AbortController();
+  // "file" uploads a single file; "files" uploads a directory using relative paths as filenames
+  let uploadKind: 'file' | 'directory' | null = null;
+  const streamedFiles: StreamedFile[] = [];
+  let pendingFile: Omit<StreamedFile, 'size' | 'encrypted' | 'upload' | 'cid' | 'reservation'> | null = null;
+  // Set once an "encryption" field is read; it has to precede the file it describes
+  let encryptionField: string | null = null;
+  // Stored directory manifest, which has no file of its own
+  let manifestCid: string | null = null;
+  // Once the upload is committed its files are no longer rolled back
+  let committed = false;
+  const uploadMethod = req.user.authMethod === 'pinning_secret' ? 'api' : 'dashboard';
+  let totalSize = 0;
+  let rejectionReason: string | undefined;
+  let limitExceeded: 'file_size' | 'storage' | 'quota' | null = null;
+
+  // Limits are resolved before parsing so they can be enforced on the fly
+  let storageRemaining = 0;
+  let storageCheck: { currentUsage?: number; limit?: number } | null = null;
+  let storageReservation: StorageReservation | null = null;
+  let quota: QuotaCheckResult | null = null;
 
   try {
     console.log('Processing upload request for user:', userId);
 
+    // Ensure user profile exists
+    const userProfile = await UserService.upsertUserProfile(userId, userEmail);
+    if (!userProfile) {
+      return res.status(500).json({ error: 'Failed to create user profile' });
+    }
+
+    // Hold storage for the upload so parallel uploads can't overcommit the plan limit.
+    // The request size bounds the upload; whatever fits is granted and enforced while streaming.
+    const requestSize = parseInt(req.headers['content-length'] || '', 10);
+    const reserved = await StorageQuotaService.reserve(
+      userId,
+      Number.isFinite(requestSize) && requestSize > 0 ? Math.min(requestSize, MAX_DIRECTORY_SIZE) : MAX_DIRECTORY_SIZE,
+      { minBytes: 1 }
+    );
+    storageCheck = { currentUsage: reserved.currentUsage, limit: reserved.limit };
+
+    if (!reserved.reservation) {
+      if (reserved.limit === undefined) {
+        return res.status(500).json({ error: reserved.reason });
+      }
+      return res.status(413).json({
+        error: 'Storage limit exceeded',
+        message: reserved.reason,
+        currentUsage: reserved.currentUsage,
+        limit: reserved.limit
+      });
+    }
+    storageReservation = reserved.reservation;
+    storageRemaining = storageReservation.bytes;
+
+    // Enforce the pinning secret's monthly transfer quota
+    if (pinningSecretId) {
+      quota = await PinningSecretService.checkMonthlyQuota(pinningSecretId, req.user.monthlyQuotaGb);
+      if (!quota.allowed) {
+        await recordUsage(0, false);
+        return sendQuotaExceeded(res, quota);
+      }
+    }
+    const quotaRemaining = quota?.remainingBytes ?? Number.MAX_SAFE_INTEGER;
+
     // Parse the multipart form data with enhanced security
     const form = new IncomingForm({
       maxFileSize: MAX_FILE_SIZE,
+      maxTotalFileSize: MAX_DIRECTORY_SIZE,
+      maxFiles: MAX_DIRECTORY_FILES,
       maxFields: 10,
-      maxFieldsSize: 1024, // 1KB for form fields
+      maxFieldsSize: MAX_METADATA_BYTES + 2 * 1024, // Metadata plus room for the other form fields
       allowEmptyFiles: false,
       filter: ({ name, originalFilename, mimetype }) => {
         // Additional filtering during parsing
-        if (name !== 'file') return false;
+        if (name !== 'file' && name !== 'files') return false;
         if (!originalFilename || !mimetype) return false;
-        
-        // Only check filename and mimetype during filter, not file size
-        // File size will be checked after the file is fully parsed
-        const fileExtension = path.extname(originalFilename).toLowerCase();
-        if (DANGEROUS_FILE_EXTENSIONS.includes(fileExtension)) {
-          return false;
+        if (rejectionReason) return false;
+
+        // Only a single file is streamed for "file", and the two fields can't be mixed
+        const kind = name === 'file' ? 'file' : 'directory';
+        if (uploadKind && (uploadKind !== kind || kind === 'file')) return false;
+
+        const relativePath = kind === 'directory' ? originalFilename.replace(/\\/g, '/') : originalFilename;
+        const baseName = path.posix.basename(relativePath);
+
+        // Only check path, filename and mimetype during filter, file size is
+        // enforced while the file streams to Codex
+        let validation = kind === 'directory' ? validateRelativePath(relativePath) : { valid: true };
+        if (validation.valid) {
+          validation = validateFile(baseName, mimetype, 0);
         }
-        
-        if (!ALLOWED_FILE_TYPES.includes(mimetype)) {
+        if (validation.valid && streamedFiles.some(file => file.path === relativePath)) {
+          validation = { valid: false, error: `Duplicate path '${relativePath}'` };
+        }
+
+        if (!validation.valid) {
+          rejectionReason = validation.error;
+          // Directories are stored all-or-nothing, so stop the files already streaming
+          if (kind === 'directory') {
+            abortController.abort();
+          }
           return false;
         }
-        
+
+        uploadKind = kind;
+        pendingFile = { path: relativePath, fileName: baseName, mimeType: mimetype };
         return true;
+      },
+      // Pipe each file part straight to Codex instead of a temp file
+      fileWriteStreamHandler: () => {
+        const { path: filePath, fileName, mimeType } = pendingFile!;
+        const isDirectoryEntry = uploadKind === 'directory';
+        const encrypted = encryptionField !== null;
+        let fileSize = 0;
+
+        const byteCounter = new Transform({
+          transform(chunk: Buffer, _encoding, callback) {
+            fileSize += chunk.length;
+            totalSize += chunk.length;
+            streamedFile.size = fileSize;
+
+            if (fileSize > MAX_FILE_SIZE) {
+              limitExceeded = 'file_size';
+            } else if (totalSize > storageRemaining) {
+              limitExceeded = 'storage';
+            } else if (totalSize > quotaRemaining) {
+              limitExceeded = 'quota';
+            }
+
+            if (limitExceeded) {
+              abortController.abort();
+              callback(new Error(`Upload limit exceeded: ${limitExceeded}`));
+              return;
+            }
+
+            callback(null, chunk);
+          }
+        });
+
+        console.log(`Streaming file: ${filePath} (${mimeType}) to Codex for user: ${userId}`);
+
+        const streamedFile: StreamedFile = {
+          path: filePath,
+          fileName,
+          mimeType,
+          size: 0,
+          encrypted,
+          // Codex gets no hint of what encrypted content is
+          upload: CodexService.uploadStream(codexConfig, byteCounter, {
+            fileName: encrypted ? 'encrypted' : fileName,
+            mimeType: encrypted ? 'application/octet-stream' : mimeType,
+            signal: abortController.signal
+          }),
+          cid: '',
+          // Reserved alongside the upload; its size is set once the content is stored
+          reservation: FileService.reservePendingFile({
+            user_id: userId,
+            filename: fileName,
+            file_size: 0,
+            content_type: mimeType,
+            upload_method: uploadMethod,
+            pinning_secret_id: pinningSecretId || undefined,
+            path: isDirectoryEntry ? filePath : null
+          })
+        };
+        // Rejections are handled once parsing finishes
+        streamedFile.upload.catch(() => {});
+        streamedFiles.push(streamedFile);
+
+        return byteCounter;
       }
     });
 
-    const [, files] = await form.parse(req);
+    form.on('field', (name: string, value: string) => {
+      if (name === 'encryption' && encryptionField === null) {
+        encryptionField = value;
+      }
+    });
 
-    // Get the uploaded file
-    uploadedFile = Array.isArray(files.file) ? files.file[0] : files.file;
-    
-    if (!uploadedFile) {
-      return res.status(400).json({ error: 'No file uploaded or file was rejected' });
+    const [fields] = await form.parse(req);
+
+    if (streamedFiles.length === 0 || (uploadKind === 'directory' && rejectionReason)) {
+      abortController.abort();
+      return res.status(400).json({ error: rejectionReason || 'No file uploaded or file was rejected' });
     }
 
-    // Read file content
-    const fileContent = fs.readFileSync(uploadedFile.filepath);
-    const fileName = uploadedFile.originalFilename || 'unnamed-file';
-    const mimeType = uploadedFile.mimetype || 'application/octet-stream';
-    const fileSize = fileContent.length;
-
-    // Validate file
-    const validation = validateFile(fileName, mimeType, fileSize);
-    if (!validation.valid) {
-      cleanupTempFile(uploadedFile.filepath);
-      return res.status(400).json({ error: validation.error });
+    // Optional "tags" (repeated or comma-separated), "metadata" (a JSON object)
+    // and "visibility" (public or private) fields
+    const attributes: FileAttributes = {};
+    if (fields.tags) {
+      const tags = parseTags(fields.tags.flatMap(value => value.split(',')));
+      if (!tags.valid) {
+        abortController.abort();
+        await recordUsage(0, false);
+        return res.status(400).json({ error: tags.error });
+      }
+      attributes.tags = tags.value;
+    }
+    if (fields.metadata) {
+      const metadata = parseMetadata(fields.metadata[0]);
+      if (!metadata.valid) {
+        abortController.abort();
+        await recordUsage(0, false);
+        return res.status(400).json({ error: metadata.error });
+      }
+      attributes.metadata = metadata.value;
+    }
+    if (fields.visibility) {
+      const visibility = parseVisibility(fields.visibility[0]);
+      if (!visibility.valid) {
+        abortController.abort();
+        await recordUsage(0, false);
+        return res.status(400).json({ error: visibility.error });
+      }
+      attributes.visibility = visibility.value;
     }
 
-    console.log(`Processing file: ${fileName} (${mimeType}, ${fileSize} bytes) for user: ${userId}`);
+    // Optional "encryption" field describing content the client encrypted before upload
+    let encryption: FileEncryption | null = null;
+    if (fields.encryption) {
+      const rejectEncryption = async (error: string) => {
+        abortController.abort();
+        await recordUsage(0, false);
+        return res.status(400).json({ error });
+      };
+
+      if (uploadKind === 'directory') {
+        return rejectEncryption('Encrypted uploads must be single files');
+      }
+      if (!streamedFiles[0].encrypted) {
+        return rejectEncryption('The encryption field must be sent before the file');
+      }
 
-    // Ensure user profile exists
-    const userProfile = await UserService.upsertUserProfile(userId, userEmail);
-    if (!userProfile) {
-      cleanupTempFile(uploadedFile.filepath);
-      return res.status(500).json({ error: 'Failed to create user profile' });
+      const parsed = parseEncryption(fields.encryption[0]);
+      if (!parsed.valid) {
+        return rejectEncryption(parsed.error);
+      }
+      if (parsed.value.size > MAX_ENCRYPTED_FILE_SIZE) {
+        return rejectEncryption(`Encrypted uploads are limited to ${Math.round(MAX_ENCRYPTED_FILE_SIZE / (1024 * 1024))}MB`);
+      }
+      // AES-GCM ciphertext is the plaintext plus its authentication tag
+      if (streamedFiles[0].size !== parsed.value.size + GCM_TAG_BYTES) {
+        return rejectEncryption('File size does not match the encryption parameters');
+      }
+      encryption = parsed.value;
     }
 
-    // Check storage limits
-    const canUpload = await UserService.canUserUploadFile(userId, fileSize);
-    if (!canUpload.canUpload) {
-      cleanupTempFile(uploadedFile.filepath);
-      return res.status(413).json({ 
-        error: 'Storage limit exceeded', 
-        message: canUpload.reason,
-        currentUsage: canUpload.currentUsage,
-        limit: canUpload.limit
-      });
-    }
+    // Wait for Codex to store every file
+    for (const streamedFile of streamedFiles) {
+      const codexResponse: Response = await streamedFile.upload;
 
-    // Create basic auth header
-    const basicAuth = Buffer.from(`${codexUsername}:${codexPassword}`).toString('base64');
-    
-    // Upload to Codex
-    const codexUrl = `${codexApiUrl}/data`;
-    
-    console.log(`Uploading to Codex: ${codexUrl}`);
-    
-    const codexResponse = await fetch(codexUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${basicAuth}`,
-        'Content-Type': mimeType,
-        'Content-Disposition': `attachment; filename="${fileName}"`,
-        'User-Agent': 'ThirdStorage-Upload/1.0',
-      },
-      body: fileContent,
-    });
+      // Handle Codex API responses
+      if (!codexResponse.ok) {
+        console.error(`Codex upload error: ${codexResponse.status} ${codexResponse.statusText}`);
+        abortController.abort();
+        await recordUsage(0, false);
+
+        const codexError = CodexService.getUploadErrorResponse(codexResponse.status);
+        return res.status(codexError.status).json({ error: codexError.error });
+      }
 
-    // Clean up temporary file immediately after upload
-    cleanupTempFile(uploadedFile.filepath);
-    uploadedFile = undefined; // Mark as cleaned up
-
-    // Handle Codex API responses
-    if (!codexResponse.ok) {
-      console.error(`Codex upload error: ${codexResponse.status} ${codexResponse.statusText}`);
-      
-      if (codexResponse.status === 422) {
-        return res.status(422).json({ error: 'The file type is invalid or not supported by the storage service' });
-      } else if (codexResponse.status === 500) {
-        return res.status(500).json({ error: 'Storage service error - please try again later' });
-      } else if (codexResponse.status === 401) {
-        return res.status(500).json({ error: 'Storage service authentication failed' });
-      } else if (codexResponse.status === 413) {
-        return res.status(413).json({ error: 'File too large for storage service' });
-      } else {
-        return res.status(502).json({ error: 'Storage service unavailable - please try again later' });
+      // Get the CID from the response
+      streamedFile.cid = (await codexResponse.text()).trim();
+
+      if (!streamedFile.cid) {
+        abortController.abort();
+        await recordUsage(0, false);
+        return res.status(500).json({ error: 'Invalid response from storage service' });
+      }
+
+      // Record the CID right away so the content can be unpinned if the upload is never committed
+      const reservation = await streamedFile.reservation;
+      if (!reservation || !await FileService.recordPendingContent(reservation.id, streamedFile.cid, streamedFile.size)) {
+        console.error('Failed to record pending file in database');
+        abortController.abort();
+        await recordUsage(0, false);
+        return res.status(500).json({ error: 'Failed to save file metadata', message: 'The upload was rolled back - please try again' });
       }
     }
 
-    // Get the CID from the response
-    const cid = await codexResponse.text();
-    
-    if (!cid || cid.trim() === '') {
-      return res.status(500).json({ error: 'Invalid response from storage service' });
+    if (uploadKind === 'directory') {
+      const requestedName = fields.name?.[0]?.trim();
+      if (requestedName && (requestedName.includes('/') || !validateRelativePath(requestedName).valid)) {
+        await recordUsage(0, false);
+        return res.status(400).json({ error: 'Invalid directory name' });
+      }
+
+      const layout = resolveDirectoryLayout(streamedFiles.map(file => file.path), requestedName);
+      const entries = streamedFiles.map((file, index) => ({
+        path: layout.paths[index],
+        cid: file.cid,
+        size: file.size,
+        contentType: file.mimeType
+      }));
+
+      // Store the manifest itself; its CID addresses the whole directory
+      const manifest = FileService.buildDirectoryManifest(layout.name, entries);
+      const manifestResponse = await CodexService.uploadBuffer(
+        codexConfig,
+        Buffer.from(JSON.stringify(manifest)),
+        { fileName: `${layout.name}.manifest.json`, mimeType: 'application/json' }
+      );
+
+      if (!manifestResponse.ok) {
+        console.error(`Codex manifest upload error: ${manifestResponse.status} ${manifestResponse.statusText}`);
+        await recordUsage(0, false);
+        const codexError = CodexService.getUploadErrorResponse(manifestResponse.status);
+        return res.status(codexError.status).json({ error: codexError.error });
+      }
+
+      manifestCid = (await manifestResponse.text()).trim();
+      if (!manifestCid) {
+        await recordUsage(0, false);
+        return res.status(500).json({ error: 'Invalid response from storage service' });
+      }
+
+      console.log(`Directory ${layout.name} uploaded with manifest CID: ${manifestCid} (${entries.length} files, ${totalSize} bytes)`);
+
+      const savedDirectory = await FileService.saveDirectory({
+        userId,
+        name: layout.name,
+        cid: manifestCid,
+        uploadMethod,
+        pinningSecretId,
+        entries,
+        pendingFileIds: (await Promise.all(streamedFiles.map(file => file.reservation))).map(file => file!.id),
+        attributes
+      });
+
+      if (!savedDirectory) {
+        console.error('Failed to save directory metadata to database');
+        await recordUsage(totalSize, false);
+        return res.status(500).json({
+          error: 'Failed to save directory metadata',
+          message: 'The upload was rolled back - please try again'
+        });
+      }
+
+      committed = true;
+
+      await recordUsage(totalSize, true);
+
+      // Storage requests are queued for the job worker so the response isn't delayed
+      await ReplicationService.applyDefaultRule(userId, savedDirectory.files);
+
+      return res.status(200).json({
+        success: true,
+        directory: {
+          id: savedDirectory.manifest.id,
+          cid: manifestCid,
+          name: layout.name,
+          fileCount: entries.length,
+          totalSize,
+          uploadedAt: savedDirectory.manifest.created_at,
+          uploadMethod,
+          tags: attributes.tags || [],
+          metadata: attributes.metadata || {},
+          visibility: attributes.visibility || 'public'
+        },
+        files: savedDirectory.files.map(file => ({
+          id: file.id,
+          cid: file.cid,
+          path: file.path,
+          contentType: file.content_type,
+          size: file.file_size
+        })),
+        message: 'Directory uploaded successfully'
+      });
     }
 
-    console.log(`File uploaded successfully with CID: ${cid}`);
-
-    // Save file metadata to database
-    const savedFile = await FileService.saveFile({
-      user_id: userId,
-      filename: fileName,
-      file_size: fileSize,
-      cid: cid.trim(),
-      content_type: mimeType,
-      upload_date: new Date().toISOString(),
-      upload_method: req.user.authMethod === 'pinning_secret' ? 'api' : 'dashboard',
-      pinning_secret_id: req.user.pinningSecretId || undefined,
-    });
+    const { cid, fileName, mimeType, size: fileSize, reservation } = streamedFiles[0];
+
+    console.log(`File uploaded successfully with CID: ${cid} (${fileSize} bytes)`);
+
+    // Commit the reserved file now that its content is stored
+    const savedFile = await FileService.commitPendingFile((await reservation)!.id, { attributes, encryption });
 
     if (!savedFile) {
-      console.error('Failed to save file metadata to database');
-      // TODO: In production, implement cleanup of uploaded file from Codex
-      return res.status(500).json({ 
-        error: 'File uploaded but failed to save metadata', 
-        message: 'Please contact support if this persists' 
+      console.error('Failed to commit file metadata to database');
+      await recordUsage(fileSize, false);
+      return res.status(500).json({
+        error: 'Failed to save file metadata',
+        message: 'The upload was rolled back - please try again'
       });
     }
 
+    committed = true;
+
+    await recordUsage(fileSize, true);
+
+    // The same content uploaded again by this user is stored and charged once
+    const duplicate = await FileService.findDuplicateFile(userId, cid, savedFile.id);
+
+    // Storage requests are queued for the job worker so the response isn't delayed.
+    // A duplicate's content is already covered by the original's requests.
+    if (!duplicate) {
+      await ReplicationService.applyDefaultRule(userId, [savedFile]);
+    }
+
     // Return success response with file info
     return res.status(200).json({
       success: true,
       file: {
         id: savedFile.id,
-        cid: cid.trim(),
+        cid,
         filename: fileName,
         contentType: mimeType,
         size: fileSize,
-        uploadedAt: new Date().toISOString(),
-        uploadMethod: req.user.authMethod === 'pinning_secret' ? 'api' : 'dashboard'
+        uploadedAt: savedFile.upload_date,
+        uploadMethod,
+        tags: savedFile.tags || [],
+        metadata: savedFile.metadata || {},
+        visibility: savedFile.visibility || 'public',
+        encrypted: Boolean(encryption),
+        encryption,
+        duplicateOf: duplicate?.id || null
       },
-      message: 'File uploaded successfully'
+      message: duplicate
+        ? `File uploaded successfully (same content as ${duplicate.filename}, not counted twice against storage)`
+        : 'File uploaded successfully'
     });
 
   } catch (error) {
-    console.error('Upload error:', error);
-    
-    // Clean up temporary file if it exists
-    if (uploadedFile && uploadedFile.filepath) {
-      cleanupTempFile(uploadedFile.filepath);
-    }
-    
-    // Handle specific error types
-    if (error instanceof Error) {
-      if (error.message.includes('Storage limit exceeded')) {
+    // Make sure nothing keeps streaming to Codex
+    abortController.abort();
+
+    if (limitExceeded) {
+      console.warn(`Upload aborted for user ${userId} after ${totalSize} bytes: ${limitExceeded} limit exceeded`);
+      await recordUsage(0, false);
+
+      if (limitExceeded === 'quota' && quota) {
+        return sendQuotaExceeded(res, quota);
+      }
+
+      if (limitExceeded === 'storage') {
         return res.status(413).json({ 
           error: 'Storage limit exceeded', 
-          message: error.message 
+          message: `Insufficient storage space. Only ${formatFileSize(storageRemaining)} remaining.`,
+          currentUsage: storageCheck?.currentUsage,
+          limit: storageCheck?.limit
         });
       }
-      
+
+      return res.status(413).json({ 
+        error: 'File too large', 
+        message: `File size exceeds maximum limit of ${MAX_FILE_SIZE / (1024 * 1024)}MB` 
+      });
+    }
+
+    // A rejected directory entry aborts the files already streaming
+    if (uploadKind === 'directory' && rejectionReason) {
+      await recordUsage(0, false);
+      return res.status(400).json({ error: rejectionReason });
+    }
+
+    console.error('Upload error:', error);
+    await recordUsage(0, false);
+    
+    // Handle specific error types
+    if (error instanceof Error) {
       if (error.message.includes('maxFileSize')) {
         return res.status(413).json({ 
           error: 'File too large', 
           message: `File size exceeds maximum limit of ${MAX_FILE_SIZE / (1024 * 1024)}MB` 
         });
       }
+      if (error.message.includes('maxTotalFileSize')) {
+        return res.status(413).json({
+          error: 'Directory too large',
+          message: `Directory size exceeds maximum limit of ${MAX_DIRECTORY_SIZE / (1024 * 1024)}MB`
+        });
+      }
+      if (error.message.includes('maxFiles')) {
+        return res.status(413).json({
+          error: 'Too many files',
+          message: `Directory uploads are limited to ${MAX_DIRECTORY_FILES} files`
+        });
+      }
     }
     
     return res.status(500).json({ 
       error: 'Internal server error', 
       message: 'File upload failed - please try again' 
     });
+  } finally {
+    // Committed files now count in storage_used, so the hold is no longer needed either way
+    if (storageReservation) {
+      await (committed ? StorageQuotaService.commit(storageReservation) : StorageQuotaService.release(storageReservation));
+    }
+
+    if (!committed && streamedFiles.length > 0) {
+      // Compensate for an upload that won't be committed: stop any transfers still
+      // running, then remove the reserved files and unpin whatever was stored
+      abortController.abort();
+      await rollbackUpload(streamedFiles, manifestCid);
+    }
   }
-});
+}, { requiredScopes: ['upload'] });
 
 export { uploadHandler as default };
 
@@ -326,4 +647,4 @@ export const config = {
   api: {
     bodyParser: false,
   },
-}; 
\ No newline at end of file
+};
\ No newline at end of file
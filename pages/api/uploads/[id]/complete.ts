@@ -0,0 +1,228 @@
+import { withAuth, sendQuotaExceeded } from '../../../../lib/auth';
+import { FileService } from '../../../../lib/fileService';
+import { PinningSecretService } from '../../../../lib/pinningSecretService';
+import { CodexService } from '../../../../lib/codexService';
+import { UploadSessionService } from '../../../../lib/uploadSessionService';
+import { ReplicationService } from '../../../../lib/replicationService';
+import { StorageQuotaService, type StorageReservation } from '../../../../lib/storageQuotaService';
+
+const completeUploadHandler = withAuth(async (req, res) => {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const userId = req.user.id;
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Upload ID is required' });
+  }
+
+  const codexConfig = CodexService.getConfig();
+  if (!codexConfig) {
+    return res.status(500).json({ error: 'Storage service configuration missing' });
+  }
+
+  const session = await UploadSessionService.getSession(id, userId);
+  if (!session) {
+    return res.status(404).json({ error: 'Upload session not found or expired' });
+  }
+
+  if (session.status === 'completed') {
+    // Completing twice is harmless - return the stored result
+    return res.status(200).json({
+      success: true,
+      file: { id: session.file_id, cid: session.cid, filename: session.filename, size: session.total_size },
+      message: 'File uploaded successfully'
+    });
+  }
+
+  if (session.upload_offset !== session.total_size) {
+    return res.status(409).json({
+      error: 'Upload incomplete',
+      message: `Received ${session.upload_offset} of ${session.total_size} bytes`,
+      offset: session.upload_offset
+    });
+  }
+
+  // Claim the session so concurrent completions don't push twice
+  const claimed = await UploadSessionService.transitionStatus(session.id, 'active', 'completing');
+  if (!claimed) {
+    return res.status(409).json({ error: 'Upload session is already being completed' });
+  }
+
+  // Record usage against the pinning secret the session was created with
+  const recordUsage = async (bytes: number, success: boolean) => {
+    if (session.pinning_secret_id) {
+      await PinningSecretService.trackUsage(session.pinning_secret_id, bytes, success);
+    }
+  };
+
+  // Return the session to active so the client can retry completion
+  const releaseSession = () => UploadSessionService.transitionStatus(session.id, 'completing', 'active');
+
+  // Reserved before the content is pushed to Codex; removed again unless committed
+  let reservedFileId: string | null = null;
+  let storedCid: string | null = null;
+  let storageReservation: StorageReservation | null = null;
+  let committed = false;
+
+  try {
+    if (session.storage_reservation_id) {
+      // Held since the session was created
+      storageReservation = { id: session.storage_reservation_id, userId, bytes: session.total_size };
+    } else {
+      // The session's hold has lapsed, so the space must be held again before storing anything
+      const reserved = await StorageQuotaService.reserve(userId, session.total_size);
+      if (!reserved.reservation) {
+        await releaseSession();
+        return res.status(reserved.limit === undefined ? 500 : 413).json({
+          error: reserved.limit === undefined ? 'Error checking storage limits' : 'Storage limit exceeded',
+          message: reserved.reason,
+          currentUsage: reserved.currentUsage,
+          limit: reserved.limit
+        });
+      }
+      storageReservation = reserved.reservation;
+    }
+
+    // The upload is charged to the session's pinning secret, whichever credential completes it
+    if (session.pinning_secret_id) {
+      const secret = session.pinning_secret_id === req.user.pinningSecretId
+        ? { monthly_quota_gb: req.user.monthlyQuotaGb ?? null }
+        : await PinningSecretService.getPinningSecret(session.pinning_secret_id);
+
+      if (!secret) {
+        await releaseSession();
+        return res.status(500).json({ error: 'Failed to check monthly quota' });
+      }
+
+      const quota = await PinningSecretService.checkMonthlyQuota(
+        session.pinning_secret_id,
+        secret.monthly_quota_gb,
+        session.total_size
+      );
+      if (!quota.allowed) {
+        await releaseSession();
+        await recordUsage(0, false);
+        return sendQuotaExceeded(res, quota);
+      }
+    }
+
+    console.log(`Completing resumable upload ${session.id}: ${session.filename} (${session.total_size} bytes)`);
+
+    // The quota reservation holds the space until the content is recorded
+    const reservation = await FileService.reservePendingFile({
+      user_id: userId,
+      filename: session.filename,
+      file_size: 0,
+      content_type: session.content_type,
+      upload_method: session.upload_method,
+      pinning_secret_id: session.pinning_secret_id || undefined,
+    });
+
+    if (!reservation) {
+      await releaseSession();
+      return res.status(500).json({ error: 'Failed to save file metadata', message: 'Please try again' });
+    }
+    reservedFileId = reservation.id;
+
+    const codexResponse = await CodexService.uploadStream(
+      codexConfig,
+      UploadSessionService.createReadStream(session),
+      { fileName: session.filename, mimeType: session.content_type }
+    );
+
+    if (!codexResponse.ok) {
+      console.error(`Codex upload error: ${codexResponse.status} ${codexResponse.statusText}`);
+      await releaseSession();
+      await recordUsage(0, false);
+
+      const codexError = CodexService.getUploadErrorResponse(codexResponse.status);
+      return res.status(codexError.status).json({ error: codexError.error });
+    }
+
+    const cid = (await codexResponse.text()).trim();
+
+    if (!cid) {
+      await releaseSession();
+      await recordUsage(0, false);
+      return res.status(500).json({ error: 'Invalid response from storage service' });
+    }
+    storedCid = cid;
+
+    // Record the CID before committing so the content can be unpinned if the commit never happens
+    const savedFile = await FileService.recordPendingContent(reservation.id, cid, session.total_size)
+      ? await FileService.commitPendingFile(reservation.id)
+      : null;
+
+    if (!savedFile) {
+      console.error('Failed to save file metadata to database');
+      await releaseSession();
+      await recordUsage(session.total_size, false);
+      return res.status(500).json({
+        error: 'Failed to save file metadata',
+        message: 'The upload was rolled back - please try completing it again'
+      });
+    }
+
+    committed = true;
+
+    await UploadSessionService.transitionStatus(session.id, 'completing', 'completed', {
+      cid,
+      file_id: savedFile.id
+    });
+    await UploadSessionService.removeChunkData(session.id);
+    await recordUsage(session.total_size, true);
+
+    // The same content uploaded again by this user is stored and charged once
+    const duplicate = await FileService.findDuplicateFile(userId, cid, savedFile.id);
+
+    // Storage requests are queued for the job worker so the response isn't delayed.
+    // A duplicate's content is already covered by the original's requests.
+    if (!duplicate) {
+      await ReplicationService.applyDefaultRule(userId, [savedFile]);
+    }
+
+    return res.status(200).json({
+      success: true,
+      file: {
+        id: savedFile.id,
+        cid,
+        filename: session.filename,
+        contentType: session.content_type,
+        size: session.total_size,
+        uploadedAt: savedFile.upload_date,
+        uploadMethod: session.upload_method,
+        duplicateOf: duplicate?.id || null
+      },
+      message: duplicate
+        ? `File uploaded successfully (same content as ${duplicate.filename}, not counted twice against storage)`
+        : 'File uploaded successfully'
+    });
+
+  } catch (error) {
+    console.error('Error completing upload:', error);
+    await releaseSession();
+    await recordUsage(0, false);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Upload completion failed - please try again'
+    });
+  } finally {
+    if (committed && storageReservation) {
+      await StorageQuotaService.commit(storageReservation);
+    } else if (storageReservation && storageReservation.id !== session.storage_reservation_id) {
+      // The session's own hold is kept so completion can be retried
+      await StorageQuotaService.release(storageReservation);
+    }
+
+    if (reservedFileId && !committed) {
+      // Remove the reserved file and unpin its content; the session keeps
+      // its chunks so completion can be retried
+      await FileService.abortPendingFiles([reservedFileId], storedCid ? [storedCid] : []);
+    }
+  }
+}, { requiredScopes: ['upload'] });
+
+export default completeUploadHandler;
@@ -0,0 +1,114 @@
+import { withAuth } from '../../../../lib/auth';
+import { UploadSessionService } from '../../../../lib/uploadSessionService';
+
+const uploadSessionHandler = withAuth(async (req, res) => {
+  const userId = req.user.id;
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Upload ID is required' });
+  }
+
+  try {
+    const session = await UploadSessionService.getSession(id, userId);
+
+    if (!session) {
+      return res.status(404).json({ error: 'Upload session not found or expired' });
+    }
+
+    // Offset headers let clients resume without parsing the body
+    res.setHeader('Upload-Offset', String(session.upload_offset));
+    res.setHeader('Upload-Length', String(session.total_size));
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (req.method === 'HEAD') {
+      res.status(200).end();
+      return;
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({
+        success: true,
+        upload: {
+          id: session.id,
+          filename: session.filename,
+          size: session.total_size,
+          offset: session.upload_offset,
+          status: session.status,
+          cid: session.cid,
+          fileId: session.file_id,
+          expiresAt: session.expires_at
+        }
+      });
+    }
+
+    if (req.method === 'PATCH') {
+      if (session.status !== 'active') {
+        return res.status(409).json({ error: `Upload session is ${session.status}` });
+      }
+
+      const offsetHeader = req.headers['upload-offset'];
+      const offset = typeof offsetHeader === 'string' ? parseInt(offsetHeader, 10) : NaN;
+
+      if (Number.isNaN(offset) || offset < 0) {
+        return res.status(400).json({ error: 'Upload-Offset header is required' });
+      }
+
+      const result = await UploadSessionService.writeChunk(session, offset, req);
+
+      if (!result.success) {
+        if (result.error === 'offset_mismatch') {
+          // Tell the client where to resume from
+          const current = await UploadSessionService.getSession(id, userId);
+          return res.status(409).json({
+            error: 'Upload offset mismatch',
+            message: 'Resume from the current server offset',
+            offset: current?.upload_offset ?? session.upload_offset
+          });
+        }
+
+        if (result.error === 'chunk_too_large') {
+          return res.status(413).json({ error: 'Chunk exceeds the allowed chunk size or remaining file size' });
+        }
+
+        return res.status(500).json({ error: 'Failed to store chunk' });
+      }
+
+      res.setHeader('Upload-Offset', String(result.session!.upload_offset));
+      return res.status(200).json({
+        success: true,
+        offset: result.session!.upload_offset,
+        size: result.session!.total_size,
+        complete: result.session!.upload_offset === result.session!.total_size
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      const cancelled = await UploadSessionService.cancelSession(session);
+
+      if (!cancelled) {
+        return res.status(409).json({ error: `Upload session is ${session.status}` });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Upload session cancelled'
+      });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+
+  } catch (error) {
+    console.error('Error in upload session handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['upload'] });
+
+export default uploadSessionHandler;
+
+// Chunks are read as raw bytes
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
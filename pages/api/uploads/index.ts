@@ -0,0 +1,117 @@
+import { withAuth, sendQuotaExceeded } from '../../../lib/auth';
+import { UserService } from '../../../lib/userService';
+import { PinningSecretService } from '../../../lib/pinningSecretService';
+import { StorageQuotaService } from '../../../lib/storageQuotaService';
+import {
+  UploadSessionService,
+  MAX_CHUNK_SIZE,
+  MAX_ACTIVE_SESSIONS_PER_USER,
+  SESSION_RESERVATION_TTL_MS
+} from '../../../lib/uploadSessionService';
+import { MAX_RESUMABLE_FILE_SIZE, validateFile } from '../../../lib/uploadValidation';
+
+const createUploadSessionHandler = withAuth(async (req, res) => {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const userId = req.user.id;
+  const { filename, contentType, size } = req.body || {};
+
+  try {
+    // Validate required fields
+    if (!filename || typeof filename !== 'string') {
+      return res.status(400).json({ error: 'Filename is required' });
+    }
+
+    if (!contentType || typeof contentType !== 'string') {
+      return res.status(400).json({ error: 'Content type is required' });
+    }
+
+    if (typeof size !== 'number' || !Number.isInteger(size) || size < 1) {
+      return res.status(400).json({ error: 'Size must be a positive integer number of bytes' });
+    }
+
+    const validation = validateFile(filename, contentType, size, MAX_RESUMABLE_FILE_SIZE);
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    // Ensure user profile exists
+    const userProfile = await UserService.upsertUserProfile(userId, req.user.email);
+    if (!userProfile) {
+      return res.status(500).json({ error: 'Failed to create user profile' });
+    }
+
+    const activeSessions = await UploadSessionService.countActiveSessions(userId);
+    if (activeSessions === null) {
+      return res.status(500).json({ error: 'Failed to check upload sessions' });
+    }
+    if (activeSessions >= MAX_ACTIVE_SESSIONS_PER_USER) {
+      return res.status(429).json({
+        error: 'Too many active uploads',
+        message: `Complete or cancel one of your ${activeSessions} active uploads before starting another`
+      });
+    }
+
+    if (req.user.pinningSecretId) {
+      const quota = await PinningSecretService.checkMonthlyQuota(
+        req.user.pinningSecretId,
+        req.user.monthlyQuotaGb,
+        size
+      );
+      if (!quota.allowed) {
+        return sendQuotaExceeded(res, quota);
+      }
+    }
+
+    // Hold the finished file's size for the life of the session, so parallel
+    // sessions can't together promise more storage than the plan allows
+    const reserved = await StorageQuotaService.reserve(userId, size, { ttlMs: SESSION_RESERVATION_TTL_MS });
+    if (!reserved.reservation) {
+      return res.status(reserved.limit === undefined ? 500 : 413).json({
+        error: reserved.limit === undefined ? 'Error checking storage limits' : 'Storage limit exceeded',
+        message: reserved.reason,
+        currentUsage: reserved.currentUsage,
+        limit: reserved.limit
+      });
+    }
+
+    const session = await UploadSessionService.createSession({
+      userId,
+      filename,
+      contentType,
+      totalSize: size,
+      uploadMethod: req.user.authMethod === 'pinning_secret' ? 'api' : 'dashboard',
+      pinningSecretId: req.user.pinningSecretId,
+      storageReservationId: reserved.reservation.id
+    });
+
+    if (!session) {
+      await StorageQuotaService.release(reserved.reservation);
+      return res.status(500).json({ error: 'Failed to create upload session' });
+    }
+
+    res.setHeader('Location', `/api/uploads/${session.id}`);
+    res.setHeader('Upload-Offset', '0');
+    res.setHeader('Upload-Length', String(session.total_size));
+
+    return res.status(201).json({
+      success: true,
+      upload: {
+        id: session.id,
+        filename: session.filename,
+        size: session.total_size,
+        offset: session.upload_offset,
+        chunkSize: MAX_CHUNK_SIZE,
+        expiresAt: session.expires_at
+      }
+    });
+
+  } catch (error) {
+    console.error('Error creating upload session:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['upload'] });
+
+export default createUploadSessionHandler;
@@ -1,5 +1,6 @@
 import { withAuth } from '../../../lib/auth';
 import { supabaseServer } from '../../../lib/supabase-server';
+import { DomainRestrictionService } from '../../../lib/domainRestrictionService';
 
 const allowedDomainsHandler = withAuth(async (req, res) => {
   const userId = req.user.id;
@@ -19,7 +20,11 @@ const allowedDomainsHandler = withAuth(async (req, res) => {
       }
 
       const domains = data?.map(row => row.domain) || [];
-      return res.status(200).json({ domains });
+
+      // Include recently blocked origins so misconfigured frontends are easy to spot
+      const blockedOrigins = await DomainRestrictionService.getRecentBlockedOrigins(userId);
+
+      return res.status(200).json({ domains, blockedOrigins });
 
     } else if (req.method === 'POST') {
       // Add new domain
@@ -29,12 +34,16 @@ const allowedDomainsHandler = withAuth(async (req, res) => {
         return res.status(400).json({ error: 'Domain is required' });
       }
 
-      // Validate domain format
-      const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+      // Validate domain format (an optional "*." prefix allows all subdomains)
+      const domainRegex = /^(\*\.)?[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
       if (!domainRegex.test(domain)) {
         return res.status(400).json({ error: 'Invalid domain format' });
       }
 
+      if (domain.startsWith('*.') && domain.split('.').length < 3) {
+        return res.status(400).json({ error: 'Wildcard domains must include a base domain, e.g. *.example.com' });
+      }
+
       // Check if domain already exists
       const { data: existing } = await supabaseServer
         .from('api_domain_restrictions')
@@ -117,6 +126,6 @@ const allowedDomainsHandler = withAuth(async (req, res) => {
     console.error('Error in allowed domains handler:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
-});
+}, { requiredScopes: ['secrets:manage'] });
 
 export default allowedDomainsHandler; 
\ No newline at end of file
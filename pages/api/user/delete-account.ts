@@ -1,5 +1,35 @@
-import { withAuth } from '../../../lib/auth';
+import { withAuth, ACCOUNT_SCOPE } from '../../../lib/auth';
 import { supabaseServer } from '../../../lib/supabase-server';
+import { FileService } from '../../../lib/fileService';
+import { JobQueue } from '../../../lib/jobQueue';
+
+const PAGE_SIZE = 1000;
+
+/**
+ * CIDs of all of a user's rows in a table, read a page at a time
+ */
+async function getUserCids(table: 'files' | 'directory_manifests', userId: string): Promise<string[]> {
+  const cids: string[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseServer
+      .from(table)
+      .select('id, cid')
+      .eq('user_id', userId)
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to read ${table}: ${error.message}`);
+    }
+
+    // Pending uploads may not have stored any content yet
+    cids.push(...(data || []).map(row => row.cid).filter(Boolean));
+    if (!data || data.length < PAGE_SIZE) {
+      return cids;
+    }
+  }
+}
 
 const deleteAccountHandler = withAuth(async (req, res) => {
   console.log('Delete account request received:', req.method);
@@ -12,50 +42,34 @@ const deleteAccountHandler = withAuth(async (req, res) => {
     const userId = req.user.id;
     console.log('User ID from auth:', userId);
 
-    // First, get all user files to unpin them from storage
+    // First, get the content of all user files so it can be unpinned from storage
     console.log('Fetching user files for deletion...');
-    const { data: userFiles, error: filesError } = await supabaseServer
-      .from('files')
-      .select('id, cid, filename')
-      .eq('user_id', userId);
-
-    if (filesError) {
+    let fileCids: string[];
+    try {
+      fileCids = await getUserCids('files', userId);
+    } catch (filesError) {
       console.error('Error fetching user files for deletion:', filesError);
-      return res.status(500).json({ error: 'Failed to fetch user files', details: filesError.message });
+      return res.status(500).json({ error: 'Failed to fetch user files', details: (filesError as Error).message });
     }
 
-    console.log(`Found ${userFiles?.length || 0} files to delete for user ${userId}`);
-
-    // Unpin files from Codex network
-    console.log('Starting Codex file unpinning process...');
-    if (userFiles && userFiles.length > 0) {
-      for (const file of userFiles) {
-        try {
-          console.log(`Attempting to unpin file: ${file.filename} (${file.cid})`);
-          // Attempt to unpin the file from the Codex network
-          // Note: This assumes you have a Codex API endpoint for unpinning
-          const unpinResponse = await fetch(`${process.env.CODEX_API_URL || 'http://localhost:8080'}/api/codex/v1/data/${file.cid}`, {
-            method: 'DELETE',
-            headers: {
-              'Content-Type': 'application/json',
-            }
-          });
-
-          if (!unpinResponse.ok) {
-            console.warn(`Failed to unpin file ${file.cid} from Codex network:`, unpinResponse.statusText);
-            // Continue with deletion even if unpinning fails
-          } else {
-            console.log(`Successfully unpinned file ${file.filename} (${file.cid}) from Codex network`);
-          }
-        } catch (unpinError) {
-          console.warn(`Error unpinning file ${file.cid}:`, unpinError);
-          // Continue with deletion even if unpinning fails
-        }
-      }
-    } else {
-      console.log('No files found to unpin from Codex network');
+    console.log(`Found ${fileCids.length} files to delete for user ${userId}`);
+
+    // Directory manifests are stored on Codex too and go with the user record
+    let manifestCids: string[];
+    try {
+      manifestCids = await getUserCids('directory_manifests', userId);
+    } catch (manifestsError) {
+      console.error('Error fetching directory manifests for deletion:', manifestsError);
+      return res.status(500).json({ error: 'Failed to fetch directory manifests', details: (manifestsError as Error).message });
     }
 
+    // Look up the Stripe customer before the user record is gone
+    const { data: billingData } = await supabaseServer
+      .from('users')
+      .select('stripe_customer_id')
+      .eq('id', userId)
+      .maybeSingle();
+
     // Now delete all user data from database
     console.log('Deleting user data from database...');
     
@@ -100,42 +114,23 @@ const deleteAccountHandler = withAuth(async (req, res) => {
       return res.status(500).json({ error: 'Failed to delete account from database', details: dbError });
     }
 
-    // If using Stripe, cancel their subscription
-    console.log('Checking for Stripe subscriptions to cancel...');
-    if (process.env.STRIPE_SECRET_KEY) {
-      try {
-        const stripeModule = await import('stripe');
-        const stripe = new stripeModule.default(process.env.STRIPE_SECRET_KEY);
-        
-        // Get user's Stripe customer ID from the database (if it exists)
-        const { data: userData } = await supabaseServer
-          .from('users')
-          .select('stripe_customer_id')
-          .eq('id', userId)
-          .single();
-
-        if (userData?.stripe_customer_id) {
-          console.log(`Found Stripe customer ID: ${userData.stripe_customer_id}`);
-          // Cancel all active subscriptions
-          const subscriptions = await stripe.subscriptions.list({
-            customer: userData.stripe_customer_id,
-            status: 'active'
-          });
-
-          console.log(`Found ${subscriptions.data.length} active subscriptions to cancel`);
-          for (const subscription of subscriptions.data) {
-            await stripe.subscriptions.cancel(subscription.id);
-            console.log(`Cancelled subscription: ${subscription.id}`);
-          }
-        } else {
-          console.log('No Stripe customer ID found for user');
-        }
-      } catch (stripeError) {
-        console.error('Error cancelling Stripe subscription:', stripeError);
-        // Don't fail the account deletion if Stripe cleanup fails
-      }
+    // Unpinning and subscription cancellation run as background jobs
+    // so a slow storage node or Stripe outage can't block or fail the deletion
+    if (fileCids.length > 0) {
+      console.log(`Queueing ${fileCids.length} files for unpinning from Codex network`);
+      await FileService.enqueueUnpin(fileCids);
     } else {
-      console.log('No Stripe secret key configured, skipping subscription cancellation');
+      console.log('No files found to unpin from Codex network');
+    }
+
+    if (manifestCids.length > 0) {
+      console.log(`Queueing ${manifestCids.length} directory manifests for unpinning from Codex network`);
+      await FileService.enqueueUnpin(manifestCids);
+    }
+
+    if (billingData?.stripe_customer_id) {
+      console.log(`Queueing subscription cancellation for Stripe customer ${billingData.stripe_customer_id}`);
+      await JobQueue.enqueue('stripe.cancel_subscriptions', { customerId: billingData.stripe_customer_id });
     }
 
     console.log('Account deletion completed successfully');
@@ -152,6 +147,6 @@ const deleteAccountHandler = withAuth(async (req, res) => {
       stack: process.env.NODE_ENV === 'development' ? errorStack : undefined
     });
   }
-});
+}, { requiredScopes: [ACCOUNT_SCOPE] });
 
 export default deleteAccountHandler; 
\ No newline at end of file
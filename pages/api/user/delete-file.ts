@@ -27,7 +27,7 @@ const deleteFileHandler = withAuth(async (req, res) => {
 
     return res.status(200).json({
       success: true,
-      message: 'File deleted successfully'
+      message: 'File moved to trash'
     });
 
   } catch (error) {
@@ -37,6 +37,6 @@ const deleteFileHandler = withAuth(async (req, res) => {
       message: error instanceof Error ? error.message : 'Unknown error' 
     });
   }
-});
+}, { requiredScopes: ['files:delete'] });
 
 export default deleteFileHandler; 
\ No newline at end of file
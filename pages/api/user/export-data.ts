@@ -1,4 +1,4 @@
-import { withAuth } from '../../../lib/auth';
+import { withAuth, ACCOUNT_SCOPE } from '../../../lib/auth';
 import { supabaseServer } from '../../../lib/supabase-server';
 
 const exportDataHandler = withAuth(async (req, res) => {
@@ -26,6 +26,7 @@ const exportDataHandler = withAuth(async (req, res) => {
       .from('files')
       .select('*')
       .eq('user_id', userId)
+      .eq('status', 'active')
       .order('created_at', { ascending: false });
 
     if (filesError) {
@@ -94,9 +95,15 @@ const exportDataHandler = withAuth(async (req, res) => {
         content_type: file.content_type,
         size: file.size,
         upload_method: file.upload_method,
+        source_network: file.source_network,
+        source_id: file.source_id,
         gateway_url: `https://gateway.thirdstorage.com/ipfs/${file.cid}`,
         created_at: file.created_at,
-        metadata: file.metadata
+        tags: file.tags || [],
+        metadata: file.metadata || {},
+        collection_id: file.collection_id || null,
+        visibility: file.visibility || 'public',
+        encryption: file.encryption || null
       })) || [],
       pinning_secrets: (secretsData && !secretsError) ? secretsData.map(secret => ({
         id: secret.id || null,
@@ -135,6 +142,6 @@ const exportDataHandler = withAuth(async (req, res) => {
     console.error('Error in export data handler:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
-});
+}, { requiredScopes: [ACCOUNT_SCOPE] });
 
 export default exportDataHandler; 
\ No newline at end of file
@@ -1,5 +1,12 @@
 import { withAuth } from '../../../lib/auth';
-import { FileService } from '../../../lib/fileService';
+import {
+  FileService,
+  FILE_LIST_SORT_FIELDS,
+  MAX_FILE_LIST_LIMIT,
+  type FileListOptions,
+  type FileListSortField
+} from '../../../lib/fileService';
+import { METADATA_KEY_PATTERN, parseTags } from '../../../lib/fileMetadata';
 
 const userFilesHandler = withAuth(async (req, res) => {
   // Only allow GET requests
@@ -11,22 +18,119 @@ const userFilesHandler = withAuth(async (req, res) => {
     // Get user ID from JWT verification
     const userId = req.user.id;
 
-    // Get user files from database
-    const files = await FileService.getUserFiles(userId);
+    const param = (name: string) => {
+      const value = req.query[name];
+      return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+    };
+
+    const options: FileListOptions = {
+      search: param('search'),
+      contentType: param('contentType'),
+      uploadMethod: param('uploadMethod'),
+      pinningSecretId: param('pinningSecretId')
+    };
+
+    const sort = param('sort');
+    if (sort !== undefined) {
+      if (!FILE_LIST_SORT_FIELDS.includes(sort as FileListSortField)) {
+        return res.status(400).json({ error: `sort must be one of: ${FILE_LIST_SORT_FIELDS.join(', ')}` });
+      }
+      options.sort = sort as FileListSortField;
+    }
+
+    const order = param('order');
+    if (order !== undefined) {
+      if (order !== 'asc' && order !== 'desc') {
+        return res.status(400).json({ error: 'order must be asc or desc' });
+      }
+      options.order = order;
+    }
+
+    for (const [name, key] of [['limit', 'limit'], ['minSize', 'minSize'], ['maxSize', 'maxSize']] as const) {
+      const value = param(name);
+      if (value === undefined) {
+        continue;
+      }
+      const parsed = Number(value);
+      if (!Number.isSafeInteger(parsed) || parsed < 0) {
+        return res.status(400).json({ error: `${name} must be a non-negative integer` });
+      }
+      options[key] = parsed;
+    }
+
+    if (options.limit !== undefined && (options.limit < 1 || options.limit > MAX_FILE_LIST_LIMIT)) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_FILE_LIST_LIMIT}` });
+    }
+
+    for (const [name, key] of [['uploadedAfter', 'uploadedAfter'], ['uploadedBefore', 'uploadedBefore']] as const) {
+      const value = param(name);
+      if (value === undefined) {
+        continue;
+      }
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ error: `${name} must be a valid date` });
+      }
+      options[key] = date.toISOString();
+    }
+
+    // tag=invoices, repeated to require several tags
+    const tagParam = req.query.tag;
+    if (tagParam !== undefined) {
+      const tags = parseTags(Array.isArray(tagParam) ? tagParam : [tagParam]);
+      if (!tags.valid) {
+        return res.status(400).json({ error: tags.error });
+      }
+      options.tags = tags.value;
+    }
+
+    // meta.<key>=<value>, compared against the metadata value as text
+    for (const [name, value] of Object.entries(req.query)) {
+      if (!name.startsWith('meta.')) {
+        continue;
+      }
+      const key = name.slice('meta.'.length);
+      if (!METADATA_KEY_PATTERN.test(key) || typeof value !== 'string') {
+        return res.status(400).json({ error: `Invalid metadata filter '${name}'` });
+      }
+      options.metadata = { ...options.metadata, [key]: value };
+    }
+
+    // collection=<id> for the files directly in a collection, collection=root for files in none
+    const collection = param('collection');
+    if (collection !== undefined) {
+      options.collectionId = collection === 'root' ? null : collection;
+    }
+
+    const cursor = param('cursor');
+    if (cursor !== undefined) {
+      const decoded = FileService.decodeListCursor(cursor);
+      if (!decoded) {
+        return res.status(400).json({ error: 'Invalid cursor' });
+      }
+      options.cursor = decoded;
+    }
+
+    const page = await FileService.listUserFiles(userId, options);
+    if (!page) {
+      return res.status(500).json({ error: 'Failed to list files' });
+    }
 
     return res.status(200).json({
       success: true,
-      files,
-      count: files.length
+      files: page.files,
+      count: page.files.length,
+      total: page.total,
+      nextCursor: page.nextCursor
     });
 
   } catch (error) {
     console.error('Error fetching user files:', error);
-    return res.status(500).json({ 
-      error: 'Internal server error', 
-      message: error instanceof Error ? error.message : 'Unknown error' 
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
     });
   }
-});
+}, { requiredScopes: ['files:read'] });
 
-export default userFilesHandler; 
\ No newline at end of file
+export default userFilesHandler;
\ No newline at end of file
@@ -38,6 +38,6 @@ const userStatsHandler = withAuth(async (req, res) => {
       message: error instanceof Error ? error.message : 'Unknown error' 
     });
   }
-});
+}, { requiredScopes: ['files:read'] });
 
 export default userStatsHandler; 
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { withAuth, findMissingScope, sendMissingScope } from '../../../lib/auth';
+import { MAX_BULK_FILE_IDS, toBulkResults, type BulkFileResult } from '../../../lib/fileService';
+import {
+  TrashService,
+  MAX_TRASH_LIST_LIMIT,
+  TRASH_QUOTA_GRACE_MS,
+  TRASH_RETENTION_MS
+} from '../../../lib/trashService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const trashHandler = withAuth(async (req, res) => {
+  const userId = req.user.id;
+
+  try {
+    if (req.method === 'GET') {
+      const pagination: { limit?: number; offset?: number } = {};
+      for (const name of ['limit', 'offset'] as const) {
+        const value = req.query[name];
+        if (value === undefined) {
+          continue;
+        }
+        const parsed = Number(value);
+        if (typeof value !== 'string' || !Number.isSafeInteger(parsed) || parsed < 0) {
+          return res.status(400).json({ error: `${name} must be a non-negative integer` });
+        }
+        pagination[name] = parsed;
+      }
+
+      if (pagination.limit !== undefined && (pagination.limit < 1 || pagination.limit > MAX_TRASH_LIST_LIMIT)) {
+        return res.status(400).json({ error: `limit must be between 1 and ${MAX_TRASH_LIST_LIMIT}` });
+      }
+
+      const page = await TrashService.listTrash(userId, pagination);
+      if (!page) {
+        return res.status(500).json({ error: 'Failed to fetch trash' });
+      }
+
+      return res.status(200).json({
+        success: true,
+        files: page.files,
+        count: page.files.length,
+        total: page.total,
+        retentionDays: TRASH_RETENTION_MS / DAY_MS,
+        quotaGraceDays: TRASH_QUOTA_GRACE_MS / DAY_MS
+      });
+
+    } else if (req.method === 'POST' || req.method === 'DELETE') {
+      const missingScope = findMissingScope(req.user, ['files:delete']);
+      if (missingScope) {
+        return sendMissingScope(res, missingScope, ['files:delete']);
+      }
+
+      // DELETE with no body empties the whole trash
+      if (req.method === 'DELETE') {
+        const purged = await TrashService.purgeFiles(userId);
+        if (!purged) {
+          return res.status(500).json({ error: 'Failed to empty trash' });
+        }
+
+        return res.status(200).json({ success: true, purged: purged.length });
+      }
+
+      const { action, fileIds } = req.body || {};
+
+      if (action !== 'restore' && action !== 'purge') {
+        return res.status(400).json({ error: 'action must be one of: restore, purge' });
+      }
+      if (!Array.isArray(fileIds) || fileIds.length === 0 || !fileIds.every(id => typeof id === 'string' && id)) {
+        return res.status(400).json({ error: 'fileIds must be a non-empty array of file IDs' });
+      }
+      if (fileIds.length > MAX_BULK_FILE_IDS) {
+        return res.status(400).json({ error: `At most ${MAX_BULK_FILE_IDS} files can be changed at once` });
+      }
+
+      const ids = [...new Set(fileIds as string[])];
+      let results: BulkFileResult[] | null;
+
+      if (action === 'restore') {
+        results = await TrashService.restoreFiles(ids, userId);
+      } else {
+        const purged = await TrashService.purgeFiles(userId, ids);
+        results = purged && toBulkResults(ids, purged);
+      }
+
+      if (!results) {
+        return res.status(500).json({ error: `Failed to ${action} files` });
+      }
+
+      const succeeded = results.filter(result => result.success).length;
+
+      return res.status(200).json({
+        success: succeeded === results.length,
+        action,
+        succeeded,
+        failed: results.length - succeeded,
+        results
+      });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error in trash handler:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}, { requiredScopes: ['files:read'] });
+
+export default trashHandler;
\ No newline at end of file
@@ -2,7 +2,26 @@ import { useRouter } from 'next/router';
 import { usePrivy } from '@privy-io/react-auth';
 import { useEffect, useState, useRef, useCallback } from 'react';
 import { UserStats } from '../lib/userService';
-import { FileWithFormatted } from '../lib/fileService';
+import type { FileListSortField, FileWithFormatted } from '../lib/fileService';
+import type { CollectionNode, CollectionTree } from '../lib/collectionService';
+import type { TrashedFile } from '../lib/trashService';
+import type { ShareLink } from '../lib/shareLinkService';
+import type { FileVisibility } from '../lib/fileMetadata';
+import {
+  MAX_ENCRYPTED_FILE_SIZE,
+  decryptFile,
+  encryptFile,
+  formatDecryptFragment,
+  generateUserKey,
+  getSafeBlobType,
+  getUserKeyId,
+  isInlineViewable,
+  isValidUserKey,
+  unwrapDataKey,
+  type FileEncryption
+} from '../lib/fileEncryption';
+import type { ReplicationRuleRecord, ReplicationSummary, StorageRequestRecord } from '../lib/replicationService';
+import type { MigrationJobLog, MigrationJobRecord } from '../lib/migrationService';
 import Image from 'next/image';
 import { getPlan, type PlanType } from '../lib/plans';
 import { IoKeyOutline } from "react-icons/io5";
@@ -20,10 +39,22 @@ interface UploadedFile {
   uploadedAt: string;
   cid: string;
   status: 'uploading' | 'uploaded' | 'error';
+  progress?: number; // Percent, for resumable uploads
   error?: string;
   originalId?: string; // For database files
+  tags?: string[]; // For database files
+  visibility?: FileVisibility; // For database files
+  encryption?: FileEncryption | null; // For database files
 }
 
+// Files above this size use the resumable /api/uploads protocol
+const RESUMABLE_UPLOAD_THRESHOLD = 10 * 1024 * 1024; // 10MB
+const RESUMABLE_SESSIONS_KEY = 'thirdstorage-upload-sessions';
+const MAX_CHUNK_RETRIES = 3;
+const FILES_PAGE_SIZE = 50;
+// The user key never leaves the browser; losing it loses every file it encrypted
+const ENCRYPTION_KEY_STORAGE_KEY = 'thirdstorage-encryption-key';
+
 interface CouponDiscount {
   formattedOriginalPrice: string;
   formattedDiscountAmount: string;
@@ -40,11 +71,34 @@ interface PinningSecret {
   rateLimitPerMinute: number;
   monthlyQuotaGb: number | null;
   usageThisMonth: number;
+  quotaWarning: {
+    level: 'approaching' | 'exceeded';
+    usagePercent: number;
+    message: string;
+  } | null;
   isActive: boolean;
   lastUsed: string;
   createdAt: string;
 }
 
+interface BlockedOrigin {
+  origin: string;
+  block_count: number;
+  last_blocked_at: string;
+}
+
+interface FileListFilters {
+  // '' for all files, 'root' for files in no collection, or a collection ID
+  collection: string;
+  search: string;
+  tag: string;
+  contentType: string;
+  uploadMethod: string;
+  pinningSecretId: string;
+  sort: FileListSortField;
+  order: 'asc' | 'desc';
+}
+
 // Add BillingHistoryItem type
 interface BillingHistoryItem {
   id: string;
@@ -67,6 +121,36 @@ export default function Dashboard() {
   const [isUploading, setIsUploading] = useState(false);
   const [userStats, setUserStats] = useState<UserStats | null>(null);
   const [databaseFiles, setDatabaseFiles] = useState<FileWithFormatted[]>([]);
+  const [filesTotal, setFilesTotal] = useState(0);
+  const [filesNextCursor, setFilesNextCursor] = useState<string | null>(null);
+  const [isLoadingMoreFiles, setIsLoadingMoreFiles] = useState(false);
+  const [fileSearch, setFileSearch] = useState('');
+  const [fileFilters, setFileFilters] = useState<FileListFilters>({
+    collection: '',
+    search: '',
+    tag: '',
+    contentType: '',
+    uploadMethod: '',
+    pinningSecretId: '',
+    sort: 'upload_date',
+    order: 'desc'
+  });
+  // Filters the loaded files were fetched with
+  const appliedFileFilters = useRef(fileFilters);
+  const filesRequestId = useRef(0);
+  const [collectionTree, setCollectionTree] = useState<CollectionTree | null>(null);
+  const [selectedFileIds, setSelectedFileIds] = useState<string[]>([]);
+  const [isBulkUpdating, setIsBulkUpdating] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [trashFiles, setTrashFiles] = useState<TrashedFile[]>([]);
+  const [trashTotal, setTrashTotal] = useState(0);
+  const [shareFile, setShareFile] = useState<UploadedFile | null>(null);
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+  const [shareForm, setShareForm] = useState({ expiresIn: 24 * 60 * 60, maxDownloads: '', ipAddress: '' });
+  const [isCreatingShareLink, setIsCreatingShareLink] = useState(false);
+  const [encryptionKey, setEncryptionKey] = useState<string | null>(null);
+  const [encryptionKeyId, setEncryptionKeyId] = useState<string | null>(null);
+  const [encryptUploads, setEncryptUploads] = useState(false);
   const [pinningSecrets, setPinningSecrets] = useState<PinningSecret[]>([]);
   const [showCreateSecretModal, setShowCreateSecretModal] = useState(false);
   const [newSecretName, setNewSecretName] = useState('');
@@ -93,6 +177,26 @@ export default function Dashboard() {
   const [selectedNetwork, setSelectedNetwork] = useState<'ipfs' | 'arweave' | 'storj'>('ipfs');
   const [migrationCid, setMigrationCid] = useState('');
   const [isMigrating, setIsMigrating] = useState(false);
+  const [preserveMetadata, setPreserveMetadata] = useState(true);
+  const [migrationJobs, setMigrationJobs] = useState<MigrationJobRecord[]>([]);
+  const [expandedMigrationId, setExpandedMigrationId] = useState<string | null>(null);
+  const [migrationLogs, setMigrationLogs] = useState<MigrationJobLog[]>([]);
+
+  // Replication state
+  const [replicationSummary, setReplicationSummary] = useState<ReplicationSummary | null>(null);
+  const [replicationRules, setReplicationRules] = useState<ReplicationRuleRecord[]>([]);
+  const [storageRequests, setStorageRequests] = useState<StorageRequestRecord[]>([]);
+  const [isReplicationLoading, setIsReplicationLoading] = useState(false);
+  const [ruleForm, setRuleForm] = useState({
+    nodes: 3,
+    tolerance: 1,
+    durationDays: 30,
+    collateralPerByte: '1',
+    enabled: true
+  });
+  const [isSavingRule, setIsSavingRule] = useState(false);
+  const [replicationFileId, setReplicationFileId] = useState('');
+  const [isRequestingStorage, setIsRequestingStorage] = useState(false);
 
   // Downgrade confirmation state
   const [showDowngradeConfirm, setShowDowngradeConfirm] = useState(false);
@@ -101,6 +205,7 @@ export default function Dashboard() {
   const [deleteAccountStep, setDeleteAccountStep] = useState(1);
   const [deleteConfirmationText, setDeleteConfirmationText] = useState('');
   const [allowedDomains, setAllowedDomains] = useState<string[]>([]);
+  const [blockedOrigins, setBlockedOrigins] = useState<BlockedOrigin[]>([]);
   const [newDomain, setNewDomain] = useState('');
   const [isExportingData, setIsExportingData] = useState(false);
 
@@ -403,6 +508,120 @@ export default function Dashboard() {
     return typeMap[contentType] || contentType;
   };
 
+  // Load a page of files matching the storage filters; without a cursor the list starts over
+  const loadFiles = useCallback(async (cursor?: string) => {
+    if (!user?.id) return;
+
+    // Responses for superseded filters are ignored
+    const requestId = ++filesRequestId.current;
+    const filters = appliedFileFilters.current;
+
+    try {
+      const accessToken = await getAccessToken();
+      const params = new URLSearchParams({
+        sort: filters.sort,
+        order: filters.order,
+        limit: String(FILES_PAGE_SIZE)
+      });
+      if (filters.collection) params.set('collection', filters.collection);
+      if (filters.search) params.set('search', filters.search);
+      if (filters.tag) params.set('tag', filters.tag);
+      if (filters.contentType) params.set('contentType', filters.contentType);
+      if (filters.uploadMethod) params.set('uploadMethod', filters.uploadMethod);
+      if (filters.pinningSecretId) params.set('pinningSecretId', filters.pinningSecretId);
+      if (cursor) params.set('cursor', cursor);
+
+      const response = await fetch(`/api/user/files?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (response.ok && requestId === filesRequestId.current) {
+        const data = await response.json();
+        setDatabaseFiles(prev => cursor ? [...prev, ...data.files] : data.files);
+        if (!cursor) {
+          setSelectedFileIds([]);
+        }
+        setFilesTotal(data.total);
+        setFilesNextCursor(data.nextCursor);
+      }
+    } catch (error) {
+      console.error('Error loading files:', error);
+    }
+  }, [user?.id, getAccessToken]);
+
+  // Load the collection tree with per-collection totals
+  const loadCollections = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const accessToken = await getAccessToken();
+      const response = await fetch('/api/collections', {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (response.ok) {
+        setCollectionTree(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading collections:', error);
+    }
+  }, [user?.id, getAccessToken]);
+
+  // Load deleted files that can still be restored
+  const loadTrash = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const accessToken = await getAccessToken();
+      const response = await fetch('/api/user/trash?limit=200', {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setTrashFiles(data.files);
+        setTrashTotal(data.total);
+      }
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    }
+  }, [user?.id, getAccessToken]);
+
+  const handleLoadMoreFiles = async () => {
+    if (!filesNextCursor || isLoadingMoreFiles) return;
+
+    setIsLoadingMoreFiles(true);
+    try {
+      await loadFiles(filesNextCursor);
+    } finally {
+      setIsLoadingMoreFiles(false);
+    }
+  };
+
+  // Reload from the first page when the filters change; the initial page comes with loadUserData
+  useEffect(() => {
+    if (appliedFileFilters.current === fileFilters) return;
+    appliedFileFilters.current = fileFilters;
+    loadFiles();
+  }, [fileFilters, loadFiles]);
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFileFilters(prev => prev.search === fileSearch.trim() ? prev : { ...prev, search: fileSearch.trim() });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [fileSearch]);
+
   // Load user stats and files from database
   const loadUserData = useCallback(async () => {
     if (!user?.id) return;
@@ -424,18 +643,8 @@ export default function Dashboard() {
         setUserStats(statsData.stats);
       }
 
-      // Load user files
-      const filesResponse = await fetch('/api/user/files', {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (filesResponse.ok) {
-        const filesData = await filesResponse.json();
-        setDatabaseFiles(filesData.files);
-      }
+      // Load the first page of user files, the collections they're organized in and the trash
+      await Promise.all([loadFiles(), loadCollections(), loadTrash()]);
 
       // Load pinning secrets
       const secretsResponse = await fetch('/api/pinning-secrets/list', {
@@ -461,11 +670,12 @@ export default function Dashboard() {
       if (domainsResponse.ok) {
         const domainsData = await domainsResponse.json();
         setAllowedDomains(domainsData.domains || []);
+        setBlockedOrigins(domainsData.blockedOrigins || []);
       }
     } catch (error) {
       console.error('Error loading user data:', error);
     }
-  }, [user?.id, getAccessToken]);
+  }, [user?.id, getAccessToken, loadFiles, loadCollections, loadTrash]);
 
   // Add allowed domain
   const handleAddDomain = async () => {
@@ -733,6 +943,15 @@ export default function Dashboard() {
     }
   }, [ready, authenticated, router, user, loadUserData]);
 
+  // Restore the encryption key saved in this browser
+  useEffect(() => {
+    const savedKey = localStorage.getItem(ENCRYPTION_KEY_STORAGE_KEY);
+    if (savedKey) {
+      setEncryptionKey(savedKey);
+      getUserKeyId(savedKey).then(setEncryptionKeyId).catch(() => setEncryptionKeyId(null));
+    }
+  }, []);
+
   // Keyboard shortcut for search
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -784,6 +1003,15 @@ export default function Dashboard() {
     e.target.value = '';
   };
 
+  const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      handleDirectoryUpload(files);
+    }
+    // Reset the input
+    e.target.value = '';
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -792,6 +1020,110 @@ export default function Dashboard() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  // Upload a large file in chunks, resuming any earlier session for the same file
+  const uploadFileResumable = async (
+    file: File,
+    onProgress: (percent: number) => void
+  ): Promise<Response> => {
+    const sessionKey = `${file.name}:${file.size}:${file.lastModified}`;
+    const savedSessions: Record<string, string> = JSON.parse(localStorage.getItem(RESUMABLE_SESSIONS_KEY) || '{}');
+    const saveSessions = () => localStorage.setItem(RESUMABLE_SESSIONS_KEY, JSON.stringify(savedSessions));
+    const authHeaders = async () => ({ 'Authorization': `Bearer ${await getAccessToken()}` });
+
+    let uploadId = savedSessions[sessionKey];
+    let offset = 0;
+    let chunkSize = 4 * 1024 * 1024;
+
+    // Resume an interrupted session if the server still has it
+    if (uploadId) {
+      const statusResponse = await fetch(`/api/uploads/${uploadId}`, { headers: await authHeaders() });
+      const statusData = statusResponse.ok ? await statusResponse.json() : null;
+      if (statusData?.upload?.status === 'active') {
+        offset = statusData.upload.offset;
+      } else {
+        uploadId = '';
+      }
+    }
+
+    if (!uploadId) {
+      const createResponse = await fetch('/api/uploads', {
+        method: 'POST',
+        headers: { ...(await authHeaders()), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          filename: file.name,
+          contentType: file.type || 'application/octet-stream',
+          size: file.size
+        }),
+      });
+
+      if (!createResponse.ok) {
+        return createResponse;
+      }
+
+      const createData = await createResponse.json();
+      uploadId = createData.upload.id;
+      chunkSize = createData.upload.chunkSize;
+      savedSessions[sessionKey] = uploadId;
+      saveSessions();
+    }
+
+    let retries = 0;
+    while (offset < file.size) {
+      onProgress(Math.floor((offset / file.size) * 100));
+
+      try {
+        const chunkResponse = await fetch(`/api/uploads/${uploadId}`, {
+          method: 'PATCH',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/offset+octet-stream',
+            'Upload-Offset': String(offset),
+          },
+          body: file.slice(offset, offset + chunkSize),
+        });
+        const chunkData = await chunkResponse.json();
+
+        if (chunkResponse.ok) {
+          offset = chunkData.offset;
+          retries = 0;
+          continue;
+        }
+
+        if (chunkResponse.status === 409 && typeof chunkData.offset === 'number') {
+          // Server acknowledged a different offset - resume from there
+          offset = chunkData.offset;
+          continue;
+        }
+
+        if (chunkResponse.status < 500) {
+          return new Response(JSON.stringify(chunkData), { status: chunkResponse.status });
+        }
+      } catch {
+        // Network error - retry below
+      }
+
+      retries++;
+      if (retries > MAX_CHUNK_RETRIES) {
+        return new Response(JSON.stringify({ error: 'Upload interrupted - retry to resume' }), { status: 503 });
+      }
+      await new Promise(resolve => setTimeout(resolve, 1000 * retries));
+    }
+
+    onProgress(100);
+
+    const completeResponse = await fetch(`/api/uploads/${uploadId}/complete`, {
+      method: 'POST',
+      headers: await authHeaders(),
+    });
+
+    if (completeResponse.ok) {
+      delete savedSessions[sessionKey];
+      saveSessions();
+    }
+
+    return completeResponse;
+  };
+
   const handleFileUpload = async (files: File[]) => {
     setIsUploading(true);
 
@@ -828,18 +1160,54 @@ export default function Dashboard() {
         const uploadId = newUploads[index].id;
 
         try {
-          const formData = new FormData();
-          formData.append('file', file);
+          let response: Response;
 
-          console.log('Uploading file with JWT token authentication');
+          if (encryptUploads) {
+            if (!encryptionKey) {
+              throw new Error('Create or import an encryption key first');
+            }
+            if (file.size > MAX_ENCRYPTED_FILE_SIZE) {
+              throw new Error(`Encrypted uploads are limited to ${Math.round(MAX_ENCRYPTED_FILE_SIZE / (1024 * 1024))}MB`);
+            }
 
-          const response = await fetch('/api/upload', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${accessToken}`,
-            },
-            body: formData,
-          });
+            const { ciphertext, encryption } = await encryptFile(file, encryptionKey);
+
+            // The encryption field has to come before the file it describes
+            const formData = new FormData();
+            formData.append('encryption', JSON.stringify(encryption));
+            formData.append('file', new Blob([ciphertext], { type: file.type || 'application/octet-stream' }), file.name);
+
+            console.log('Uploading encrypted file with JWT token authentication');
+
+            response = await fetch('/api/upload', {
+              method: 'POST',
+              headers: {
+                'Authorization': `Bearer ${accessToken}`,
+              },
+              body: formData,
+            });
+          } else if (file.size > RESUMABLE_UPLOAD_THRESHOLD) {
+            console.log('Uploading large file with resumable upload session');
+
+            response = await uploadFileResumable(file, (progress) => {
+              setUploadedFiles(prev => prev.map(f =>
+                f.id === uploadId ? { ...f, progress } : f
+              ));
+            });
+          } else {
+            const formData = new FormData();
+            formData.append('file', file);
+
+            console.log('Uploading file with JWT token authentication');
+
+            response = await fetch('/api/upload', {
+              method: 'POST',
+              headers: {
+                'Authorization': `Bearer ${accessToken}`,
+              },
+              body: formData,
+            });
+          }
 
           if (response.ok) {
             const result = await response.json();
@@ -870,10 +1238,10 @@ export default function Dashboard() {
                 : f
             ));
           }
-        } catch {
+        } catch (error) {
           setUploadedFiles(prev => prev.map(f =>
             f.id === uploadId
-              ? { ...f, status: 'error' as const, error: 'Network error' }
+              ? { ...f, status: 'error' as const, error: encryptUploads && error instanceof Error ? error.message : 'Network error' }
               : f
           ));
         }
@@ -890,94 +1258,874 @@ export default function Dashboard() {
     setIsUploading(false);
   };
 
-  const handleDeleteFile = async (fileId: string) => {
-    if (!user?.id) return;
+  const handleDirectoryUpload = async (files: File[]) => {
+    if (!user?.id) {
+      showToast({
+        type: 'warning',
+        title: 'Login Required',
+        message: 'Please make sure you are logged in before uploading files.'
+      });
+      return;
+    }
 
-    if (confirm('Are you sure you want to delete this file?')) {
-      try {
-        // Get access token from Privy
-        const accessToken = await getAccessToken();
+    if (encryptUploads) {
+      showToast({
+        type: 'warning',
+        title: 'Folders Not Supported',
+        message: 'Encrypted uploads must be single files. Turn off encryption to upload a folder.'
+      });
+      return;
+    }
 
-        const response = await fetch('/api/user/delete-file', {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ fileId }),
-        });
+    setIsUploading(true);
 
-        if (response.ok) {
-          // Remove from local state
-          setDatabaseFiles(prev => prev.filter(f => f.id !== fileId));
-          // Reload user data to update stats
-          await loadUserData();
-          showToast({
-            type: 'success',
-            title: 'File Deleted',
-            message: 'File deleted successfully'
-          });
-        } else {
-          const error = await response.json();
+    // Browsers prefix each relative path with the selected folder's name
+    const folderName = files[0].webkitRelativePath.split('/')[0] || 'folder';
+    const totalSize = files.reduce((total, file) => total + file.size, 0);
+    const uploadId = `${Date.now()}-${Math.random()}`;
+
+    setUploadedFiles(prev => [{
+      id: uploadId,
+      name: `${folderName}/ (${files.length} files)`,
+      size: formatFileSize(totalSize),
+      type: 'directory',
+      uploadedAt: new Date().toISOString(),
+      cid: '',
+      status: 'uploading' as const,
+    }, ...prev]);
+
+    try {
+      const accessToken = await getAccessToken();
+
+      // The whole folder is sent in one request so the server can build its manifest
+      const formData = new FormData();
+      formData.append('name', folderName);
+      for (const file of files) {
+        formData.append('files', file, file.webkitRelativePath || file.name);
+      }
+
+      const response = await fetch('/api/upload', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        body: formData,
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setUploadedFiles(prev => prev.map(f =>
+          f.id === uploadId
+            ? { ...f, status: 'uploaded' as const, cid: result.directory.cid }
+            : f
+        ));
+
+        await loadUserData();
+      } else {
+        if (response.status === 413) {
           showToast({
             type: 'error',
-            title: 'Delete Failed',
-            message: error.error
+            title: 'Upload Limit Exceeded',
+            message: result.message || result.error || 'Upload limit exceeded'
           });
         }
-      } catch (error) {
-        console.error('Error deleting file:', error);
-        showToast({
-          type: 'error',
-          title: 'Delete Failed',
-          message: 'Error deleting file. Please try again.'
-        });
+
+        setUploadedFiles(prev => prev.map(f =>
+          f.id === uploadId
+            ? { ...f, status: 'error' as const, error: result.error || 'Upload failed' }
+            : f
+        ));
       }
+    } catch {
+      setUploadedFiles(prev => prev.map(f =>
+        f.id === uploadId
+          ? { ...f, status: 'error' as const, error: 'Network error' }
+          : f
+      ));
     }
-  };
 
-  // Handle viewing file content through public gateway
-  const handleViewContent = (cid: string) => {
-    // Since gateway is now public, just open the URL directly
-    const gatewayUrl = `/api/gateway/${cid}`;
-    window.open(gatewayUrl, '_blank');
+    setIsUploading(false);
   };
 
-  // Handle copying CID to clipboard
-  const handleCopyCID = async (cid: string) => {
+  // Load replication rules, storage requests and their summary
+  const loadReplication = useCallback(async () => {
+    if (!user?.id) return;
+
+    setIsReplicationLoading(true);
     try {
-      await navigator.clipboard.writeText(cid);
-      // Could add a toast notification here
-      showToast({
-        type: 'success',
-        title: 'Copied!',
-        message: 'CID copied to clipboard'
+      const accessToken = await getAccessToken();
+      const response = await fetch('/api/replication/status', {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
       });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch replication status');
+      }
+
+      const data = await response.json();
+      setReplicationSummary(data.summary);
+      setReplicationRules(data.rules || []);
+      setStorageRequests(data.requests || []);
+
+      if (data.defaultRule) {
+        setRuleForm({
+          nodes: data.defaultRule.nodes,
+          tolerance: data.defaultRule.tolerance,
+          durationDays: Math.round(data.defaultRule.duration_seconds / 86400),
+          collateralPerByte: data.defaultRule.collateral_per_byte,
+          enabled: data.defaultRule.enabled
+        });
+      }
     } catch (error) {
-      console.error('Failed to copy CID:', error);
+      console.error('Error loading replication status:', error);
       showToast({
         type: 'error',
-        title: 'Copy Failed',
-        message: 'Failed to copy CID to clipboard'
+        title: 'Replication',
+        message: 'Failed to load replication status'
       });
+    } finally {
+      setIsReplicationLoading(false);
     }
-  };
-
-  // Handle search submission
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    const query = searchQuery.trim();
+  }, [user?.id, getAccessToken, showToast]);
 
-    if (!query) return;
+  useEffect(() => {
+    if (activeSection === 'replication') {
+      loadReplication();
+    }
+  }, [activeSection, loadReplication]);
 
-    // Check if the query looks like a CID (basic validation)
-    // CIDs typically start with 'Qm' (CIDv0) or 'ba' (CIDv1) and are long alphanumeric strings
-    const cidPattern = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|ba[a-z2-7]{57}|b[a-z2-7]+)$/;
+  // Save the replication rule form as the default rule, or as a rule for one file
+  const handleSaveRule = async (fileId?: string) => {
+    setIsSavingRule(true);
+    try {
+      const accessToken = await getAccessToken();
+      const response = await fetch('/api/replication/rules', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...ruleForm, fileId, apply: Boolean(fileId) }),
+      });
 
-    if (cidPattern.test(query) || query.length > 40) {
-      // Treat as CID and open in gateway
-      handleViewContent(query);
-      setSearchQuery(''); // Clear search after opening
+      const result = await response.json();
+      if (!response.ok) {
+        showToast({
+          type: 'error',
+          title: 'Rule Not Saved',
+          message: result.error || 'Failed to save replication rule'
+        });
+        return;
+      }
+
+      showToast({
+        type: 'success',
+        title: 'Rule Saved',
+        message: fileId ? 'File replication rule saved' : 'Default replication rule saved'
+      });
+      await loadReplication();
+    } catch (error) {
+      console.error('Error saving replication rule:', error);
+      showToast({
+        type: 'error',
+        title: 'Rule Not Saved',
+        message: 'Error saving replication rule. Please try again.'
+      });
+    } finally {
+      setIsSavingRule(false);
+    }
+  };
+
+  const handleDeleteRule = async (ruleId: string) => {
+    if (!confirm('Delete this replication rule? Existing storage requests are not affected.')) return;
+
+    try {
+      const accessToken = await getAccessToken();
+      const response = await fetch('/api/replication/rules', {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: ruleId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        showToast({
+          type: 'error',
+          title: 'Delete Failed',
+          message: error.error
+        });
+        return;
+      }
+
+      setReplicationRules(prev => prev.filter(rule => rule.id !== ruleId));
+      await loadReplication();
+    } catch (error) {
+      console.error('Error deleting replication rule:', error);
+      showToast({
+        type: 'error',
+        title: 'Delete Failed',
+        message: 'Error deleting replication rule. Please try again.'
+      });
+    }
+  };
+
+  // Request storage for a file using the rule that applies to it
+  const handleRequestStorage = async (fileId: string) => {
+    setIsRequestingStorage(true);
+    try {
+      const accessToken = await getAccessToken();
+      const response = await fetch('/api/replication/requests', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ fileId }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        showToast({
+          type: 'error',
+          title: 'Storage Request Failed',
+          message: result.error || 'Failed to request storage'
+        });
+      } else {
+        showToast({
+          type: 'success',
+          title: 'Storage Requested',
+          message: 'Storage request queued. It will appear below once submitted to the Codex network.'
+        });
+      }
+      await loadReplication();
+    } catch (error) {
+      console.error('Error requesting storage:', error);
+      showToast({
+        type: 'error',
+        title: 'Storage Request Failed',
+        message: 'Error requesting storage. Please try again.'
+      });
+    } finally {
+      setIsRequestingStorage(false);
+    }
+  };
+
+  // Load migration jobs
+  const loadMigrations = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const accessToken = await getAccessToken();
+      const response = await fetch('/api/migrations', {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch migrations');
+      }
+
+      const data = await response.json();
+      setMigrationJobs(data.jobs || []);
+    } catch (error) {
+      console.error('Error loading migrations:', error);
+    }
+  }, [user?.id, getAccessToken]);
+
+  // Load a migration's log
+  const loadMigrationLogs = useCallback(async (jobId: string) => {
+    try {
+      const accessToken = await getAccessToken();
+      const response = await fetch(`/api/migrations/${jobId}`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setMigrationLogs(data.logs || []);
+      }
+    } catch (error) {
+      console.error('Error loading migration logs:', error);
+    }
+  }, [getAccessToken]);
+
+  const hasActiveMigrations = migrationJobs.some(job => job.status === 'queued' || job.status === 'running');
+
+  // Poll while migrations are in progress
+  useEffect(() => {
+    if (activeSection !== 'migrations') return;
+
+    loadMigrations();
+    if (!hasActiveMigrations) return;
+
+    const interval = setInterval(() => {
+      loadMigrations();
+      if (expandedMigrationId) {
+        loadMigrationLogs(expandedMigrationId);
+      }
+    }, 3000);
+    return () => clearInterval(interval);
+  }, [activeSection, hasActiveMigrations, expandedMigrationId, loadMigrations, loadMigrationLogs]);
+
+  const handleStartMigration = async () => {
+    setIsMigrating(true);
+    try {
+      const accessToken = await getAccessToken();
+      const response = await fetch('/api/migrations', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          network: selectedNetwork,
+          sourceId: migrationCid.trim(),
+          preserveMetadata
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        showToast({
+          type: 'error',
+          title: 'Migration Failed',
+          message: result.message || result.error || 'Failed to start migration'
+        });
+        return;
+      }
+
+      setMigrationJobs(prev => [result.job, ...prev]);
+      setMigrationCid('');
+      showToast({
+        type: 'success',
+        title: 'Migration Started',
+        message: `Importing content from ${selectedNetwork.toUpperCase()}`
+      });
+    } catch (error) {
+      console.error('Error starting migration:', error);
+      showToast({
+        type: 'error',
+        title: 'Migration Failed',
+        message: 'Error starting migration. Please try again.'
+      });
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  // Cancel a queued or running migration, or retry a failed one
+  const handleMigrationAction = async (jobId: string, action: 'cancel' | 'retry') => {
+    try {
+      const accessToken = await getAccessToken();
+      const response = await fetch(action === 'cancel' ? `/api/migrations/${jobId}` : `/api/migrations/${jobId}/retry`, {
+        method: action === 'cancel' ? 'DELETE' : 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        showToast({
+          type: 'error',
+          title: action === 'cancel' ? 'Cancel Failed' : 'Retry Failed',
+          message: result.message || result.error
+        });
+        return;
+      }
+
+      setMigrationJobs(prev => prev.map(job => job.id === jobId ? result.job : job));
+      if (expandedMigrationId === jobId) {
+        loadMigrationLogs(jobId);
+      }
+    } catch (error) {
+      console.error(`Error ${action === 'cancel' ? 'cancelling' : 'retrying'} migration:`, error);
+    }
+  };
+
+  const handleToggleMigrationLogs = (jobId: string) => {
+    if (expandedMigrationId === jobId) {
+      setExpandedMigrationId(null);
+      return;
+    }
+
+    setExpandedMigrationId(jobId);
+    setMigrationLogs([]);
+    loadMigrationLogs(jobId);
+  };
+
+  const handleDeleteFile = async (fileId: string) => {
+    if (!user?.id) return;
+
+    if (confirm('Move this file to the trash?')) {
+      try {
+        // Get access token from Privy
+        const accessToken = await getAccessToken();
+
+        const response = await fetch(`/api/user/delete-file?fileId=${encodeURIComponent(fileId)}`, {
+          method: 'DELETE',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+        });
+
+        if (response.ok) {
+          // Remove from local state
+          setDatabaseFiles(prev => prev.filter(f => f.id !== fileId));
+          // Reload user data to update stats
+          await loadUserData();
+          showToast({
+            type: 'success',
+            title: 'File Deleted',
+            message: 'File moved to trash'
+          });
+        } else {
+          const error = await response.json();
+          showToast({
+            type: 'error',
+            title: 'Delete Failed',
+            message: error.error
+          });
+        }
+      } catch (error) {
+        console.error('Error deleting file:', error);
+        showToast({
+          type: 'error',
+          title: 'Delete Failed',
+          message: 'Error deleting file. Please try again.'
+        });
+      }
+    }
+  };
+
+  // Handle viewing file content through public gateway
+  const handleViewContent = (cid: string) => {
+    // Since gateway is now public, just open the URL directly
+    const gatewayUrl = `/api/gateway/${cid}`;
+    window.open(gatewayUrl, '_blank');
+  };
+
+  // Fetch an encrypted file through the gateway and decrypt it in the browser
+  const handleViewEncryptedFile = async (file: UploadedFile, encryption: FileEncryption) => {
+    if (!encryptionKey || encryptionKeyId !== encryption.keyId) {
+      showToast({
+        type: 'error',
+        title: 'Encryption Key Required',
+        message: 'This file was encrypted with a different key. Import that key in Settings to open it.'
+      });
+      return;
+    }
+
+    // Types that could run script with this site's origin are downloaded instead of opened
+    const viewable = isInlineViewable(file.type);
+    const viewer = viewable ? window.open('', '_blank') : null;
+    try {
+      const response = await fetch(`/api/gateway/${file.cid}`, {
+        headers: { 'Authorization': `Bearer ${await getAccessToken()}` },
+      });
+      if (!response.ok) {
+        throw new Error(`Gateway returned ${response.status}`);
+      }
+
+      const plaintext = await decryptFile(await response.arrayBuffer(), encryption, encryptionKey);
+      const url = URL.createObjectURL(new Blob([plaintext], { type: getSafeBlobType(file.type) }));
+      if (viewer) {
+        viewer.location.href = url;
+      } else if (!viewable) {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = file.name;
+        link.click();
+      }
+      // Give the viewer time to load it before the URL is released
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    } catch (error) {
+      console.error('Error decrypting file:', error);
+      viewer?.close();
+      showToast({
+        type: 'error',
+        title: 'Decryption Failed',
+        message: 'The file could not be fetched or decrypted.'
+      });
+    }
+  };
+
+  // Private files can't be opened from the public gateway, so they get a short-lived link
+  const handleViewFile = async (file: UploadedFile) => {
+    if (file.encryption) {
+      await handleViewEncryptedFile(file, file.encryption);
+      return;
+    }
+
+    if (file.visibility !== 'private' || !file.originalId) {
+      handleViewContent(file.cid);
+      return;
+    }
+
+    // Opened before the request so popup blockers allow it
+    const viewer = window.open('', '_blank');
+    const data = await sendFileRequest(`/api/files/${file.originalId}/share`, 'POST', { expiresIn: 5 * 60 });
+    if (data && viewer) {
+      viewer.location.href = data.link.path;
+    } else {
+      viewer?.close();
+    }
+  };
+
+  const loadShareLinks = async (fileId: string) => {
+    const data = await sendFileRequest(`/api/files/${fileId}/share`, 'GET');
+    setShareLinks(data?.links || []);
+  };
+
+  // Links to encrypted files open the decrypt page, with the file's data key in the fragment
+  const getShareUrl = async (file: UploadedFile, path: string) => {
+    if (!file.encryption) {
+      return `${window.location.origin}${path}`;
+    }
+    if (!encryptionKey || encryptionKeyId !== file.encryption.keyId) {
+      throw new Error('This file was encrypted with a different key. Import that key in Settings to share it.');
+    }
+
+    const fragment = formatDecryptFragment({
+      src: path,
+      dataKey: await unwrapDataKey(file.encryption, encryptionKey),
+      iv: file.encryption.iv,
+      contentType: file.type,
+      fileName: file.name
+    });
+    return `${window.location.origin}/gateway/decrypt#${fragment}`;
+  };
+
+  const handleCopyShareUrl = async (file: UploadedFile, path: string) => {
+    try {
+      await navigator.clipboard.writeText(await getShareUrl(file, path));
+      showToast({ type: 'success', title: 'Copied!', message: 'Share link copied to clipboard' });
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'Copy Failed',
+        message: error instanceof Error ? error.message : 'Could not copy the share link'
+      });
+    }
+  };
+
+  const handleOpenShare = async (file: UploadedFile) => {
+    setShareFile(file);
+    setShareLinks([]);
+    setShareForm({ expiresIn: 24 * 60 * 60, maxDownloads: '', ipAddress: '' });
+    await loadShareLinks(file.originalId!);
+  };
+
+  const handleSetVisibility = async (file: UploadedFile, visibility: FileVisibility) => {
+    const data = await sendFileRequest(`/api/files/${file.originalId}`, 'PATCH', { visibility });
+    if (!data) return;
+
+    setDatabaseFiles(prev => prev.map(f => f.id === file.originalId ? { ...f, visibility } : f));
+    setShareFile(prev => prev && prev.originalId === file.originalId ? { ...prev, visibility } : prev);
+    showToast({
+      type: 'success',
+      title: 'Visibility Updated',
+      message: visibility === 'private' ? 'File is now private' : 'File is now public'
+    });
+  };
+
+  const handleCreateShareLink = async () => {
+    if (!shareFile?.originalId) return;
+
+    setIsCreatingShareLink(true);
+    const data = await sendFileRequest(`/api/files/${shareFile.originalId}/share`, 'POST', {
+      expiresIn: shareForm.expiresIn,
+      maxDownloads: shareForm.maxDownloads ? Number(shareForm.maxDownloads) : null,
+      ipAddress: shareForm.ipAddress.trim() || null
+    });
+    setIsCreatingShareLink(false);
+    if (!data) return;
+
+    const copied = await getShareUrl(shareFile, data.link.path)
+      .then(url => navigator.clipboard.writeText(url))
+      .then(() => true, () => false);
+    showToast({
+      type: 'success',
+      title: 'Share Link Created',
+      message: copied ? 'Link copied to clipboard' : 'Use Copy to copy the link'
+    });
+    await loadShareLinks(shareFile.originalId);
+  };
+
+  const handleRevokeShareLink = async (linkId: string) => {
+    if (!shareFile?.originalId) return;
+
+    const data = await sendFileRequest(`/api/files/${shareFile.originalId}/share?linkId=${encodeURIComponent(linkId)}`, 'DELETE');
+    if (data) {
+      await loadShareLinks(shareFile.originalId);
+    }
+  };
+
+  const saveEncryptionKey = async (key: string | null) => {
+    if (key) {
+      localStorage.setItem(ENCRYPTION_KEY_STORAGE_KEY, key);
+    } else {
+      localStorage.removeItem(ENCRYPTION_KEY_STORAGE_KEY);
+      setEncryptUploads(false);
+    }
+    setEncryptionKey(key);
+    setEncryptionKeyId(key ? await getUserKeyId(key) : null);
+  };
+
+  const handleCreateEncryptionKey = async () => {
+    if (encryptionKey && !confirm('Replace your encryption key? Files encrypted with the current key can only be opened again by importing it.')) {
+      return;
+    }
+
+    const key = generateUserKey();
+    await saveEncryptionKey(key);
+    await navigator.clipboard.writeText(key).catch(() => undefined);
+    showToast({
+      type: 'success',
+      title: 'Encryption Key Created',
+      message: 'Key copied to clipboard. Keep a copy somewhere safe - it cannot be recovered.'
+    });
+  };
+
+  const handleImportEncryptionKey = async () => {
+    const key = prompt('Paste your encryption key')?.trim();
+    if (!key) return;
+
+    if (!await isValidUserKey(key)) {
+      showToast({ type: 'error', title: 'Invalid Key', message: 'That is not a valid encryption key' });
+      return;
+    }
+
+    await saveEncryptionKey(key);
+    showToast({ type: 'success', title: 'Key Imported', message: 'Encrypted files using this key can now be opened' });
+  };
+
+  const handleForgetEncryptionKey = async () => {
+    if (confirm('Remove the encryption key from this browser? Make sure you have a copy first.')) {
+      await saveEncryptionKey(null);
+    }
+  };
+
+  // Handle copying CID to clipboard
+  const handleCopyCID = async (cid: string) => {
+    try {
+      await navigator.clipboard.writeText(cid);
+      // Could add a toast notification here
+      showToast({
+        type: 'success',
+        title: 'Copied!',
+        message: 'CID copied to clipboard'
+      });
+    } catch (error) {
+      console.error('Failed to copy CID:', error);
+      showToast({
+        type: 'error',
+        title: 'Copy Failed',
+        message: 'Failed to copy CID to clipboard'
+      });
+    }
+  };
+
+  // Send a collection or file change and report any error; returns the response body on success
+  const sendFileRequest = async (url: string, method: string, body?: unknown) => {
+    try {
+      const accessToken = await getAccessToken();
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        showToast({
+          type: 'error',
+          title: 'Request Failed',
+          message: data.error || 'Please try again'
+        });
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error updating files:', error);
+      showToast({
+        type: 'error',
+        title: 'Request Failed',
+        message: 'Network error. Please try again.'
+      });
+      return null;
+    }
+  };
+
+  // New collections go inside the selected one
+  const handleCreateCollection = async () => {
+    const name = prompt('Collection name')?.trim();
+    if (!name) return;
+
+    const parentId = fileFilters.collection && fileFilters.collection !== 'root' ? fileFilters.collection : null;
+    const data = await sendFileRequest('/api/collections', 'POST', { name, parentId });
+    if (data) {
+      await loadCollections();
+      setFileFilters(prev => ({ ...prev, collection: data.collection.id }));
+    }
+  };
+
+  const handleRenameCollection = async (collection: CollectionNode) => {
+    const name = prompt('Rename collection', collection.name)?.trim();
+    if (!name || name === collection.name) return;
+
+    if (await sendFileRequest(`/api/collections/${collection.id}`, 'PATCH', { name })) {
+      await loadCollections();
+    }
+  };
+
+  const handleDeleteCollection = async (collection: CollectionNode) => {
+    if (!confirm(`Delete "${collection.name}" and its subcollections? Files inside are kept and moved to Unfiled.`)) return;
+
+    if (await sendFileRequest(`/api/collections/${collection.id}`, 'DELETE')) {
+      setFileFilters(prev => ({ ...prev, collection: '' }));
+      await loadCollections();
+    }
+  };
+
+  const handleExportCollection = async (collection: CollectionNode) => {
+    const data = await sendFileRequest(`/api/collections/${collection.id}/export`, 'POST');
+    if (data) {
+      await handleCopyCID(data.export.cid);
+      showToast({
+        type: 'success',
+        title: 'Collection Exported',
+        message: `${data.export.fileCount} files are shared under manifest CID ${data.export.cid}`,
+        duration: 10000
+      });
+    }
+  };
+
+  // Move a file into a collection, or out of all of them with null
+  const handleMoveFile = async (fileId: string, collectionId: string | null) => {
+    if (await sendFileRequest(`/api/files/${fileId}`, 'PATCH', { collectionId })) {
+      await Promise.all([loadFiles(), loadCollections()]);
+    }
+  };
+
+  const toggleFileSelection = (fileId: string) => {
+    setSelectedFileIds(prev => prev.includes(fileId) ? prev.filter(id => id !== fileId) : [...prev, fileId]);
+  };
+
+  // Apply one action to every selected file; files it failed for stay selected
+  const handleBulkAction = async (action: 'delete' | 'tag' | 'move', options: Record<string, unknown> = {}) => {
+    if (selectedFileIds.length === 0) return;
+    if (action === 'delete' && !confirm(`Move ${selectedFileIds.length} files to the trash?`)) return;
+
+    setIsBulkUpdating(true);
+    const data = await sendFileRequest('/api/files/bulk', 'POST', { action, fileIds: selectedFileIds, ...options });
+    setIsBulkUpdating(false);
+    if (!data) return;
+
+    const failed: { id: string; error: string }[] = data.results.filter((result: { success: boolean }) => !result.success);
+    if (failed.length === 0) {
+      showToast({
+        type: 'success',
+        title: 'Files Updated',
+        message: `${data.succeeded} files updated`
+      });
+    } else {
+      showToast({
+        type: data.succeeded > 0 ? 'warning' : 'error',
+        title: data.succeeded > 0 ? 'Some Files Not Updated' : 'Update Failed',
+        message: `${data.succeeded} updated, ${failed.length} failed: ${failed[0].error}`
+      });
+    }
+
+    if (action === 'delete') {
+      await loadUserData();
+    } else {
+      await Promise.all([loadFiles(), loadCollections()]);
+    }
+    setSelectedFileIds(failed.map(result => result.id));
+  };
+
+  const handleShowTrash = async () => {
+    setShowTrash(true);
+    await loadTrash();
+  };
+
+  // Restore or permanently delete files in the trash
+  const handleTrashAction = async (action: 'restore' | 'purge', fileIds: string[]) => {
+    if (action === 'purge' && !confirm('Permanently delete this file? This cannot be undone.')) return;
+
+    const data = await sendFileRequest('/api/user/trash', 'POST', { action, fileIds });
+    if (!data) return;
+
+    const failed = data.results.filter((result: { success: boolean }) => !result.success);
+    if (failed.length > 0) {
+      showToast({
+        type: 'error',
+        title: action === 'restore' ? 'Restore Failed' : 'Delete Failed',
+        message: failed[0].error
+      });
+    } else {
+      showToast({
+        type: 'success',
+        title: action === 'restore' ? 'File Restored' : 'File Deleted',
+        message: action === 'restore' ? 'File restored from trash' : 'File permanently deleted'
+      });
+    }
+
+    await loadUserData();
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(`Permanently delete all ${trashTotal} files in the trash? This cannot be undone.`)) return;
+
+    const data = await sendFileRequest('/api/user/trash', 'DELETE');
+    if (!data) return;
+
+    showToast({
+      type: 'success',
+      title: 'Trash Emptied',
+      message: `${data.purged} files permanently deleted`
+    });
+    await loadUserData();
+  };
+
+  const handleBulkTag = async (mode: 'add' | 'remove') => {
+    const input = prompt(mode === 'add' ? 'Tags to add (comma separated)' : 'Tags to remove (comma separated)');
+    const tags = input?.split(',').map(tag => tag.trim()).filter(Boolean);
+    if (!tags || tags.length === 0) return;
+
+    await handleBulkAction('tag', mode === 'add' ? { addTags: tags } : { removeTags: tags });
+  };
+
+  // Handle search submission
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+
+    if (!query) return;
+
+    // Check if the query looks like a CID (basic validation)
+    // CIDs typically start with 'Qm' (CIDv0) or 'ba' (CIDv1) and are long alphanumeric strings
+    const cidPattern = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|ba[a-z2-7]{57}|b[a-z2-7]+)$/;
+
+    if (cidPattern.test(query) || query.length > 40) {
+      // Treat as CID and open in gateway
+      handleViewContent(query);
+      setSearchQuery(''); // Clear search after opening
     } else {
       // For now, just alert that we're searching for files
       // In the future, this could search through file names
@@ -1124,6 +2272,9 @@ export default function Dashboard() {
       cid: file.cid,
       status: 'uploaded' as const,
       originalId: file.id, // Keep original ID for delete operations
+      tags: file.tags || [],
+      visibility: file.visibility || 'public',
+      encryption: file.encryption || null,
     }));
 
     // Add currently uploading files (but only those not already in database)
@@ -1133,6 +2284,15 @@ export default function Dashboard() {
   };
 
   const allFiles = getAllFiles();
+  // Collections in tree order, with their nesting depth
+  const flattenCollections = (nodes: CollectionNode[], depth = 0): { node: CollectionNode; depth: number }[] =>
+    nodes.flatMap(node => [{ node, depth }, ...flattenCollections(node.children, depth + 1)]);
+  const flatCollections = flattenCollections(collectionTree?.collections || []);
+  const selectedCollection = flatCollections.find(({ node }) => node.id === fileFilters.collection)?.node || null;
+
+  const hasFileFilters = Boolean(
+    fileFilters.search || fileFilters.tag || fileFilters.contentType || fileFilters.uploadMethod || fileFilters.pinningSecretId
+  );
 
   // Navigation items with Vercel-inspired design
   const navigationItems = [
@@ -1374,7 +2534,7 @@ export default function Dashboard() {
                       </div>
                       <div>
                         <p className="text-sm text-zinc-400 mb-1">Total Files</p>
-                        <p className="text-2xl font-semibold text-white">{allFiles.length}</p>
+                        <p className="text-2xl font-semibold text-white">{userStats?.filesCount ?? filesTotal}</p>
                       </div>
                     </div>
                   </div>
@@ -1501,6 +2661,18 @@ export default function Dashboard() {
                         </p>
                         <p className="text-zinc-400">Support for any file type up to 100MB</p>
                       </div>
+                      <label className="inline-flex items-center space-x-2 text-sm text-zinc-400">
+                        <input
+                          type="checkbox"
+                          checked={encryptUploads}
+                          onChange={(e) => setEncryptUploads(e.target.checked)}
+                          disabled={!encryptionKey || isUploading}
+                          className="accent-white"
+                        />
+                        <span>
+                          {encryptionKey ? 'Encrypt uploads in this browser' : 'Create an encryption key in Settings to encrypt uploads'}
+                        </span>
+                      </label>
                       <div>
                         <input
                           type="file"
@@ -1519,6 +2691,24 @@ export default function Dashboard() {
                         >
                           {isUploading ? 'Uploading...' : 'Choose Files'}
                         </label>
+                        <input
+                          type="file"
+                          multiple
+                          onChange={handleFolderSelect}
+                          className="hidden"
+                          id="folder-upload"
+                          disabled={isUploading}
+                          {...{ webkitdirectory: '' }}
+                        />
+                        <label
+                          htmlFor="folder-upload"
+                          className={`ml-2 inline-flex items-center px-4 py-2 rounded-md font-medium text-sm transition-colors cursor-pointer ${isUploading
+                              ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
+                              : 'bg-zinc-800 text-white hover:bg-zinc-700'
+                            }`}
+                        >
+                          Upload Folder
+                        </label>
                       </div>
                     </div>
                   </div>
@@ -1702,7 +2892,7 @@ fetch('https://thirdstorage.cloud/api/upload', {
                                 : 'bg-zinc-900/80 text-zinc-400 border border-zinc-800/50'
                             }`}>
                             {file.status === 'uploaded' ? 'Pinned' :
-                              file.status === 'uploading' ? 'Uploading' : 'Error'}
+                              file.status === 'uploading' ? `Uploading${file.progress !== undefined ? ` ${file.progress}%` : ''}` : 'Error'}
                           </span>
                         </div>
                       </div>
@@ -1762,107 +2952,391 @@ fetch('https://thirdstorage.cloud/api/upload', {
               </div>
             </div>
 
-            {allFiles.length === 0 ? (
-              <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg h-[480px] flex items-center justify-center">
-                <div className="text-center">
-                  <div className="mx-auto w-16 h-16 bg-zinc-800 rounded-lg flex items-center justify-center mb-4">
-                    <svg className="w-8 h-8 text-zinc-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-3-3v6m5 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                    </svg>
+            <div className="flex flex-col lg:flex-row gap-6">
+              {/* Collections */}
+              <aside className="lg:w-64 flex-shrink-0">
+                <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-3 space-y-1">
+                  <div className="flex items-center justify-between px-2 pb-2">
+                    <h3 className="text-sm font-semibold text-white">Collections</h3>
+                    <button
+                      onClick={handleCreateCollection}
+                      className="text-xs text-zinc-400 hover:text-white transition-colors"
+                      title={selectedCollection ? `New collection in ${selectedCollection.name}` : 'New collection'}
+                    >
+                      + New
+                    </button>
                   </div>
-                  <h3 className="text-lg font-medium text-white mb-2">No files yet</h3>
-                  <p className="text-zinc-400 mb-6">Upload your first file to get started</p>
-                  <button
-                    onClick={() => setActiveSection('overview')}
-                    className="inline-flex items-center px-4 py-2 bg-white text-black rounded-md hover:bg-zinc-100 transition-colors"
+                  {[
+                    { id: '', label: 'All files', count: userStats?.filesCount },
+                    { id: 'root', label: 'Unfiled', count: collectionTree?.root.fileCount }
+                  ].map(item => (
+                    <button
+                      key={item.id || 'all'}
+                      onClick={() => {
+                        setShowTrash(false);
+                        setFileFilters(prev => ({ ...prev, collection: item.id }));
+                      }}
+                      className={`w-full flex items-center justify-between px-2 py-1.5 rounded text-sm transition-colors ${!showTrash && fileFilters.collection === item.id
+                          ? 'bg-zinc-800 text-white'
+                          : 'text-zinc-400 hover:text-white hover:bg-zinc-800/50'
+                        }`}
+                    >
+                      <span>{item.label}</span>
+                      {item.count !== undefined && <span className="text-xs text-zinc-500">{item.count}</span>}
+                    </button>
+                  ))}
+                  {flatCollections.map(({ node, depth }) => (
+                    <button
+                      key={node.id}
+                      onClick={() => {
+                        setShowTrash(false);
+                        setFileFilters(prev => ({ ...prev, collection: node.id }));
+                      }}
+                      style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+                      className={`w-full flex items-center justify-between pr-2 py-1.5 rounded text-sm transition-colors ${!showTrash && fileFilters.collection === node.id
+                          ? 'bg-zinc-800 text-white'
+                          : 'text-zinc-400 hover:text-white hover:bg-zinc-800/50'
+                        }`}
+                      title={`${node.nestedTotals.fileCount} files, ${formatFileSize(node.nestedTotals.totalSize)} including subcollections`}
+                    >
+                      <span className="truncate">{node.children.length > 0 ? '▾' : '•'} {node.name}</span>
+                      <span className="text-xs text-zinc-500 ml-2">{node.nestedTotals.fileCount}</span>
+                    </button>
+                  ))}
+                  <div className="pt-2 mt-2 border-t border-zinc-800">
+                    <button
+                      onClick={handleShowTrash}
+                      className={`w-full flex items-center justify-between px-2 py-1.5 rounded text-sm transition-colors ${showTrash
+                          ? 'bg-zinc-800 text-white'
+                          : 'text-zinc-400 hover:text-white hover:bg-zinc-800/50'
+                        }`}
+                    >
+                      <span>Trash</span>
+                      {trashTotal > 0 && <span className="text-xs text-zinc-500">{trashTotal}</span>}
+                    </button>
+                  </div>
+                </div>
+
+                {selectedCollection && !showTrash && (
+                  <div className="mt-3 bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-3 space-y-2 text-sm">
+                    <p className="text-white font-medium truncate">{selectedCollection.name}</p>
+                    <p className="text-xs text-zinc-400">
+                      {selectedCollection.totals.fileCount} files ({formatFileSize(selectedCollection.totals.totalSize)})
+                      {selectedCollection.children.length > 0 && (
+                        <> · {selectedCollection.nestedTotals.fileCount} including subcollections ({formatFileSize(selectedCollection.nestedTotals.totalSize)})</>
+                      )}
+                    </p>
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      <button
+                        onClick={() => handleExportCollection(selectedCollection)}
+                        className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded text-xs transition-colors"
+                      >
+                        Export CID
+                      </button>
+                      <button
+                        onClick={() => handleRenameCollection(selectedCollection)}
+                        className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded text-xs transition-colors"
+                      >
+                        Rename
+                      </button>
+                      <button
+                        onClick={() => handleDeleteCollection(selectedCollection)}
+                        className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded text-xs text-red-400 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </aside>
+
+              {showTrash && (
+                <div className="flex-1 min-w-0 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-zinc-400">
+                      Deleted files can be restored until they are permanently deleted
+                    </p>
+                    {trashTotal > 0 && (
+                      <button
+                        onClick={handleEmptyTrash}
+                        className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-md text-xs text-red-400 transition-colors"
+                      >
+                        Empty trash
+                      </button>
+                    )}
+                  </div>
+
+                  {trashFiles.length === 0 ? (
+                    <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-12 text-center">
+                      <h3 className="text-lg font-medium text-white mb-2">Trash is empty</h3>
+                      <p className="text-zinc-400">Files you delete appear here</p>
+                    </div>
+                  ) : (
+                    <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg overflow-hidden">
+                      <div className="divide-y divide-zinc-800">
+                        {trashFiles.map((file) => (
+                          <div key={file.id} className="p-4 flex items-center justify-between">
+                            <div className="flex items-center space-x-3 flex-1 min-w-0">
+                              <div className="w-8 h-8 bg-zinc-800 rounded flex items-center justify-center">
+                                <span>{getFileIcon(file.content_type)}</span>
+                              </div>
+                              <div className="flex-1 min-w-0">
+                                <p className="font-medium text-white text-sm truncate">{file.filename}</p>
+                                <p className="text-zinc-400 text-xs">
+                                  {file.formattedSize} • Deleted {new Date(file.deleted_at).toLocaleDateString()} • Permanently deleted {new Date(file.expires_at).toLocaleDateString()}
+                                  {file.quota_release_at && ` • Counts toward storage until ${new Date(file.quota_release_at).toLocaleDateString()}`}
+                                </p>
+                              </div>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <button
+                                onClick={() => handleTrashAction('restore', [file.id])}
+                                className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-md text-xs transition-colors"
+                              >
+                                Restore
+                              </button>
+                              <button
+                                onClick={() => handleTrashAction('purge', [file.id])}
+                                className="px-3 py-1.5 text-xs text-zinc-400 hover:text-red-400 transition-colors"
+                              >
+                                Delete forever
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {trashTotal > trashFiles.length && (
+                    <p className="text-sm text-zinc-400">Showing {trashFiles.length} of {trashTotal} files</p>
+                  )}
+                </div>
+              )}
+
+              <div className={`flex-1 min-w-0 space-y-6 ${showTrash ? 'hidden' : ''}`}>
+                {/* Filters */}
+                <div className="flex flex-col lg:flex-row gap-3">
+                  <input
+                    type="text"
+                    placeholder="Filter by filename"
+                    value={fileSearch}
+                    onChange={(e) => setFileSearch(e.target.value)}
+                    className="flex-1 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white placeholder-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-600 text-sm"
+                  />
+                  <select
+                    value={fileFilters.contentType}
+                    onChange={(e) => setFileFilters(prev => ({ ...prev, contentType: e.target.value }))}
+                    className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-zinc-600 text-sm"
                   >
-                    Upload Files
-                  </button>
+                    <option value="">All types</option>
+                    <option value="image/*">Images</option>
+                    <option value="video/*">Video</option>
+                    <option value="audio/*">Audio</option>
+                    <option value="text/*">Text</option>
+                    <option value="application/pdf">PDF</option>
+                    <option value="application/json">JSON</option>
+                  </select>
+                  <select
+                    value={fileFilters.uploadMethod}
+                    onChange={(e) => setFileFilters(prev => ({ ...prev, uploadMethod: e.target.value }))}
+                    className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-zinc-600 text-sm"
+                  >
+                    <option value="">All sources</option>
+                    <option value="dashboard">Dashboard</option>
+                    <option value="api">API</option>
+                    <option value="migration">Migration</option>
+                  </select>
+                  {pinningSecrets.length > 0 && (
+                    <select
+                      value={fileFilters.pinningSecretId}
+                      onChange={(e) => setFileFilters(prev => ({ ...prev, pinningSecretId: e.target.value }))}
+                      className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-zinc-600 text-sm"
+                    >
+                      <option value="">All API keys</option>
+                      {pinningSecrets.map(secret => (
+                        <option key={secret.id} value={secret.id}>{secret.name}</option>
+                      ))}
+                    </select>
+                  )}
+                  <select
+                    value={`${fileFilters.sort}:${fileFilters.order}`}
+                    onChange={(e) => {
+                      const [sort, order] = e.target.value.split(':') as [FileListSortField, 'asc' | 'desc'];
+                      setFileFilters(prev => ({ ...prev, sort, order }));
+                    }}
+                    className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-zinc-600 text-sm"
+                  >
+                    <option value="upload_date:desc">Newest first</option>
+                    <option value="upload_date:asc">Oldest first</option>
+                    <option value="filename:asc">Name (A-Z)</option>
+                    <option value="filename:desc">Name (Z-A)</option>
+                    <option value="file_size:desc">Largest first</option>
+                    <option value="file_size:asc">Smallest first</option>
+                    <option value="content_type:asc">Type</option>
+                  </select>
                 </div>
-              </div>
-            ) : viewMode === 'grid' ? (
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-                {allFiles.map((file) => (
-                  <div key={file.id} className="group bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-4 hover:border-zinc-700/80 transition-colors">
-                    <div className="flex items-start justify-between mb-3">
-                      <div className="w-10 h-10 bg-zinc-800 rounded-lg flex items-center justify-center">
-                        {file.status === 'uploading' ? (
-                          <div className="animate-spin rounded-full h-5 w-5 border-2 border-zinc-600 border-t-white"></div>
-                        ) : (
-                          <span className="text-lg">{getFileIcon(file.type)}</span>
-                        )}
-                      </div>
-                      {file.status === 'uploaded' && (
-                        <div className="opacity-0 group-hover:opacity-100 transition-opacity">
-                          <button
-                            onClick={() => handleDeleteFile(file.originalId || file.id)}
-                            className="p-1 text-zinc-400 hover:text-red-400 transition-colors"
-                          >
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                            </svg>
-                          </button>
-                        </div>
-                      )}
-                    </div>
-                    <div className="space-y-2">
-                      <h4 className="font-medium text-white text-sm truncate">{file.name}</h4>
-                      <p className="text-zinc-400 text-xs">{file.size}</p>
-                      <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium backdrop-blur-sm ${file.status === 'uploaded'
-                          ? 'bg-zinc-800/80 text-zinc-300 border border-zinc-700/50'
-                          : file.status === 'uploading'
-                            ? 'bg-zinc-700/80 text-zinc-200 border border-zinc-600/50'
-                            : 'bg-zinc-900/80 text-zinc-400 border border-zinc-800/50'
-                        }`}>
-                        {file.status === 'uploaded' ? 'Pinned' :
-                          file.status === 'uploading' ? 'Uploading' : 'Error'}
-                      </span>
-                    </div>
-                    {file.status === 'uploaded' && (
-                      <div className="mt-3 pt-3 border-t border-zinc-800 space-y-2">
+
+                {fileFilters.tag && (
+                  <div className="flex items-center space-x-2 text-sm text-zinc-400">
+                    <span>Tagged</span>
+                    <button
+                      onClick={() => setFileFilters(prev => ({ ...prev, tag: '' }))}
+                      className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-zinc-800 border border-zinc-700 text-zinc-200 hover:bg-zinc-700 transition-colors"
+                      title="Remove tag filter"
+                    >
+                      #{fileFilters.tag} ×
+                    </button>
+                  </div>
+                )}
+
+                {/* Bulk actions */}
+                {databaseFiles.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <label className="flex items-center space-x-2 text-zinc-400">
+                      <input
+                        type="checkbox"
+                        checked={selectedFileIds.length === databaseFiles.length}
+                        onChange={(e) => setSelectedFileIds(e.target.checked ? databaseFiles.map(file => file.id) : [])}
+                        className="accent-white"
+                      />
+                      <span>{selectedFileIds.length > 0 ? `${selectedFileIds.length} selected` : 'Select all'}</span>
+                    </label>
+                    {selectedFileIds.length > 0 && (
+                      <>
                         <button
-                          onClick={() => handleViewContent(file.cid)}
-                          className="w-full text-xs text-zinc-400 hover:text-white transition-colors text-left"
+                          onClick={() => handleBulkTag('add')}
+                          disabled={isBulkUpdating}
+                          className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-md text-xs transition-colors disabled:opacity-50"
                         >
-                          View content →
+                          Add tags
                         </button>
-                        <div className="flex items-center justify-between">
-                          <span className="text-xs text-zinc-500 font-mono truncate">{file.cid.slice(0, 12)}...</span>
-                          <button
-                            onClick={() => handleCopyCID(file.cid)}
-                            className="p-1 text-zinc-400 hover:text-white transition-colors"
-                            title="Copy CID"
-                          >
-                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                            </svg>
-                          </button>
-                        </div>
-                      </div>
+                        <button
+                          onClick={() => handleBulkTag('remove')}
+                          disabled={isBulkUpdating}
+                          className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-md text-xs transition-colors disabled:opacity-50"
+                        >
+                          Remove tags
+                        </button>
+                        <select
+                          value=""
+                          onChange={(e) => handleBulkAction('move', { collectionId: e.target.value === 'root' ? null : e.target.value })}
+                          disabled={isBulkUpdating}
+                          className="px-2 py-1.5 bg-zinc-800 border border-zinc-700 rounded-md text-xs text-zinc-300 focus:outline-none focus:ring-1 focus:ring-zinc-600 disabled:opacity-50"
+                        >
+                          <option value="" disabled>Move to...</option>
+                          <option value="root">Unfiled</option>
+                          {flatCollections.map(({ node, depth }) => (
+                            <option key={node.id} value={node.id}>
+                              {'\u00a0\u00a0'.repeat(depth)}{node.name}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handleBulkAction('delete')}
+                          disabled={isBulkUpdating}
+                          className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-md text-xs text-red-400 transition-colors disabled:opacity-50"
+                        >
+                          Delete
+                        </button>
+                        <button
+                          onClick={() => setSelectedFileIds([])}
+                          className="px-2 py-1.5 text-xs text-zinc-400 hover:text-white transition-colors"
+                        >
+                          Clear
+                        </button>
+                      </>
                     )}
                   </div>
-                ))}
-              </div>
-            ) : (
-              <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg overflow-hidden">
-                <div className="divide-y divide-zinc-800">
-                  {allFiles.map((file) => (
-                    <div key={file.id} className="p-4 hover:bg-zinc-800 transition-colors">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-3 flex-1 min-w-0">
-                          <div className="w-8 h-8 bg-zinc-800 rounded flex items-center justify-center">
+                )}
+
+                {allFiles.length === 0 && (hasFileFilters || fileFilters.collection) ? (
+                  <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-12 text-center">
+                    <h3 className="text-lg font-medium text-white mb-2">{hasFileFilters ? 'No matching files' : 'No files here'}</h3>
+                    <p className="text-zinc-400 mb-6">
+                      {hasFileFilters ? 'No files match the current filters' : 'Move files into this collection from the list view'}
+                    </p>
+                    {hasFileFilters && (
+                      <button
+                        onClick={() => {
+                          setFileSearch('');
+                          setFileFilters(prev => ({ ...prev, search: '', tag: '', contentType: '', uploadMethod: '', pinningSecretId: '' }));
+                        }}
+                        className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-md text-sm transition-colors"
+                      >
+                        Clear filters
+                      </button>
+                    )}
+                  </div>
+                ) : allFiles.length === 0 ? (
+                  <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg h-[480px] flex items-center justify-center">
+                    <div className="text-center">
+                      <div className="mx-auto w-16 h-16 bg-zinc-800 rounded-lg flex items-center justify-center mb-4">
+                        <svg className="w-8 h-8 text-zinc-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-3-3v6m5 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                        </svg>
+                      </div>
+                      <h3 className="text-lg font-medium text-white mb-2">No files yet</h3>
+                      <p className="text-zinc-400 mb-6">Upload your first file to get started</p>
+                      <button
+                        onClick={() => setActiveSection('overview')}
+                        className="inline-flex items-center px-4 py-2 bg-white text-black rounded-md hover:bg-zinc-100 transition-colors"
+                      >
+                        Upload Files
+                      </button>
+                    </div>
+                  </div>
+                ) : viewMode === 'grid' ? (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                    {allFiles.map((file) => (
+                      <div key={file.id} className={`group bg-zinc-900/50 backdrop-blur-sm border rounded-lg p-4 hover:border-zinc-700/80 transition-colors ${file.originalId && selectedFileIds.includes(file.originalId) ? 'border-zinc-500' : 'border-zinc-800/50'
+                        }`}>
+                        <div className="flex items-start justify-between mb-3">
+                          {file.originalId && (
+                            <input
+                              type="checkbox"
+                              checked={selectedFileIds.includes(file.originalId)}
+                              onChange={() => toggleFileSelection(file.originalId!)}
+                              className={`mt-1 mr-2 accent-white ${selectedFileIds.length > 0 ? '' : 'opacity-0 group-hover:opacity-100'} transition-opacity`}
+                              aria-label={`Select ${file.name}`}
+                            />
+                          )}
+                          <div className="w-10 h-10 mr-auto bg-zinc-800 rounded-lg flex items-center justify-center">
                             {file.status === 'uploading' ? (
-                              <div className="animate-spin rounded-full h-4 w-4 border-2 border-zinc-600 border-t-white"></div>
+                              <div className="animate-spin rounded-full h-5 w-5 border-2 border-zinc-600 border-t-white"></div>
                             ) : (
-                              <span>{getFileIcon(file.type)}</span>
+                              <span className="text-lg">{getFileIcon(file.type)}</span>
                             )}
                           </div>
-                          <div className="flex-1 min-w-0">
-                            <p className="font-medium text-white text-sm truncate">{file.name}</p>
-                            <p className="text-zinc-400 text-xs">{file.size} • {formatContentType(file.type)}</p>
-                          </div>
+                          {file.status === 'uploaded' && (
+                            <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+                              <button
+                                onClick={() => handleDeleteFile(file.originalId || file.id)}
+                                className="p-1 text-zinc-400 hover:text-red-400 transition-colors"
+                              >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                </svg>
+                              </button>
+                            </div>
+                          )}
                         </div>
-                        <div className="flex items-center space-x-3">
+                        <div className="space-y-2">
+                          <h4 className="font-medium text-white text-sm truncate">{file.name}</h4>
+                          <p className="text-zinc-400 text-xs">{file.size}{file.encryption && ' • Encrypted'}</p>
+                          {file.tags && file.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {file.tags.map(tag => (
+                                <button
+                                  key={tag}
+                                  onClick={() => setFileFilters(prev => ({ ...prev, tag }))}
+                                  className="px-1.5 py-0.5 rounded text-xs bg-zinc-800 text-zinc-400 hover:text-white transition-colors"
+                                >
+                                  #{tag}
+                                </button>
+                              ))}
+                            </div>
+                          )}
                           <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium backdrop-blur-sm ${file.status === 'uploaded'
                               ? 'bg-zinc-800/80 text-zinc-300 border border-zinc-700/50'
                               : file.status === 'uploading'
@@ -1870,343 +3344,544 @@ fetch('https://thirdstorage.cloud/api/upload', {
                                 : 'bg-zinc-900/80 text-zinc-400 border border-zinc-800/50'
                             }`}>
                             {file.status === 'uploaded' ? 'Pinned' :
-                              file.status === 'uploading' ? 'Uploading' : 'Error'}
+                              file.status === 'uploading' ? `Uploading${file.progress !== undefined ? ` ${file.progress}%` : ''}` : 'Error'}
                           </span>
-                          {file.status === 'uploaded' && (
-                            <div className="flex items-center space-x-1">
+                        </div>
+                        {file.status === 'uploaded' && (
+                          <div className="mt-3 pt-3 border-t border-zinc-800 space-y-2">
+                            <div className="flex items-center justify-between">
                               <button
-                                onClick={() => handleCopyCID(file.cid)}
-                                className="p-1 text-zinc-400 hover:text-white transition-colors"
-                                title="Copy CID"
+                                onClick={() => handleViewFile(file)}
+                                className="text-xs text-zinc-400 hover:text-white transition-colors text-left"
                               >
-                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                                </svg>
+                                View content →
                               </button>
                               <button
-                                onClick={() => handleViewContent(file.cid)}
-                                className="p-1 text-zinc-400 hover:text-white transition-colors"
-                                title="View content"
+                                onClick={() => handleOpenShare(file)}
+                                className="text-xs text-zinc-400 hover:text-white transition-colors"
                               >
-                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                                </svg>
+                                {file.visibility === 'private' ? 'Private · Share' : 'Share'}
                               </button>
+                            </div>
+                            <div className="flex items-center justify-between">
+                              <span className="text-xs text-zinc-500 font-mono truncate">{file.cid.slice(0, 12)}...</span>
                               <button
-                                onClick={() => handleDeleteFile(file.originalId || file.id)}
-                                className="p-1 text-zinc-400 hover:text-red-400 transition-colors"
-                                title="Delete"
+                                onClick={() => handleCopyCID(file.cid)}
+                                className="p-1 text-zinc-400 hover:text-white transition-colors"
+                                title="Copy CID"
                               >
-                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
                                 </svg>
                               </button>
                             </div>
-                          )}
-                        </div>
+                          </div>
+                        )}
                       </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg overflow-hidden">
+                    <div className="divide-y divide-zinc-800">
+                      {allFiles.map((file) => (
+                        <div key={file.id} className="p-4 hover:bg-zinc-800 transition-colors">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center space-x-3 flex-1 min-w-0">
+                              {file.originalId ? (
+                                <input
+                                  type="checkbox"
+                                  checked={selectedFileIds.includes(file.originalId)}
+                                  onChange={() => toggleFileSelection(file.originalId!)}
+                                  className="accent-white"
+                                  aria-label={`Select ${file.name}`}
+                                />
+                              ) : (
+                                <span className="w-[13px]" />
+                              )}
+                              <div className="w-8 h-8 bg-zinc-800 rounded flex items-center justify-center">
+                                {file.status === 'uploading' ? (
+                                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-zinc-600 border-t-white"></div>
+                                ) : (
+                                  <span>{getFileIcon(file.type)}</span>
+                                )}
+                              </div>
+                              <div className="flex-1 min-w-0">
+                                <p className="font-medium text-white text-sm truncate">{file.name}</p>
+                                <p className="text-zinc-400 text-xs">
+                                  {file.size} • {formatContentType(file.type)}
+                                  {file.visibility === 'private' && ' • Private'}
+                                  {file.encryption && ' • Encrypted'}
+                                  {file.tags?.map(tag => (
+                                    <button
+                                      key={tag}
+                                      onClick={() => setFileFilters(prev => ({ ...prev, tag }))}
+                                      className="ml-2 hover:text-white transition-colors"
+                                    >
+                                      #{tag}
+                                    </button>
+                                  ))}
+                                </p>
+                              </div>
+                            </div>
+                            <div className="flex items-center space-x-3">
+                              <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium backdrop-blur-sm ${file.status === 'uploaded'
+                                  ? 'bg-zinc-800/80 text-zinc-300 border border-zinc-700/50'
+                                  : file.status === 'uploading'
+                                    ? 'bg-zinc-700/80 text-zinc-200 border border-zinc-600/50'
+                                    : 'bg-zinc-900/80 text-zinc-400 border border-zinc-800/50'
+                                }`}>
+                                {file.status === 'uploaded' ? 'Pinned' :
+                                  file.status === 'uploading' ? `Uploading${file.progress !== undefined ? ` ${file.progress}%` : ''}` : 'Error'}
+                              </span>
+                              {file.status === 'uploaded' && (
+                                <div className="flex items-center space-x-1">
+                                  {flatCollections.length > 0 && (
+                                    <select
+                                      value=""
+                                      onChange={(e) => handleMoveFile(file.originalId || file.id, e.target.value === 'root' ? null : e.target.value)}
+                                      className="mr-2 px-2 py-1 bg-zinc-800 border border-zinc-700 rounded text-xs text-zinc-300 focus:outline-none focus:ring-1 focus:ring-zinc-600"
+                                      title="Move to collection"
+                                    >
+                                      <option value="" disabled>Move to...</option>
+                                      <option value="root">Unfiled</option>
+                                      {flatCollections.map(({ node, depth }) => (
+                                        <option key={node.id} value={node.id}>
+                                          {'\u00a0\u00a0'.repeat(depth)}{node.name}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  )}
+                                  <button
+                                    onClick={() => handleCopyCID(file.cid)}
+                                    className="p-1 text-zinc-400 hover:text-white transition-colors"
+                                    title="Copy CID"
+                                  >
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                                    </svg>
+                                  </button>
+                                  <button
+                                    onClick={() => handleOpenShare(file)}
+                                    className="p-1 text-zinc-400 hover:text-white transition-colors"
+                                    title="Share"
+                                  >
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                                    </svg>
+                                  </button>
+                                  <button
+                                    onClick={() => handleViewFile(file)}
+                                    className="p-1 text-zinc-400 hover:text-white transition-colors"
+                                    title="View content"
+                                  >
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                                    </svg>
+                                  </button>
+                                  <button
+                                    onClick={() => handleDeleteFile(file.originalId || file.id)}
+                                    className="p-1 text-zinc-400 hover:text-red-400 transition-colors"
+                                    title="Delete"
+                                  >
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                    </svg>
+                                  </button>
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              </div>
-            )}
-          </div>
-        )}
+                  </div>
+                )}
 
-        {/* Replication Section */}
-        {activeSection === 'replication' && (
-          <div className="relative">
-            {/* Coming Soon Overlay */}
-            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm z-10 rounded-lg">
-              <div className="absolute top-64 left-1/2 transform -translate-x-1/2 text-center">
-                <div className="w-16 h-16 bg-zinc-800/80 backdrop-blur-sm rounded-lg flex items-center justify-center mx-auto mb-4">
-                  <svg className="w-8 h-8 text-zinc-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
-                  </svg>
-                </div>
-                <h2 className="text-2xl font-bold text-white mb-2">Coming Soon</h2>
-                <p className="text-zinc-400 max-w-md">
-                  Advanced replication management features are currently in development. Check back soon for comprehensive replication controls and monitoring.
-                </p>
+                {databaseFiles.length > 0 && (
+                  <div className="flex items-center justify-between text-sm text-zinc-400">
+                    <span>Showing {databaseFiles.length} of {filesTotal} files</span>
+                    {filesNextCursor && (
+                      <button
+                        onClick={handleLoadMoreFiles}
+                        disabled={isLoadingMoreFiles}
+                        className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-md text-white transition-colors disabled:opacity-50"
+                      >
+                        {isLoadingMoreFiles ? 'Loading...' : 'Load more'}
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
 
-            {/* Blurred Content */}
-            <div className="blur-[1px] pointer-events-none space-y-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <h1 className="text-2xl font-bold text-white">Replication Management</h1>
-                  <p className="text-zinc-400">Configure data redundancy and replication rules for your files</p>
-                </div>
-                <button className="inline-flex items-center px-4 py-2 bg-white text-black rounded-md hover:bg-zinc-100 transition-colors font-medium text-sm">
-                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                  </svg>
-                  New Rule
-                </button>
-              </div>
-
-              {/* Global Replication Settings */}
-              <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
-                <h2 className="text-xl font-semibold text-white mb-6">Global Replication Settings</h2>
-
-                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Share Modal */}
+            {shareFile && (
+              <div
+                className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+                onClick={(e) => {
+                  if (e.target === e.currentTarget) {
+                    setShareFile(null);
+                  }
+                }}
+              >
+                <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-6 w-full max-w-lg"
+                  onClick={(e) => e.stopPropagation()}>
+                  <h3 className="text-lg font-semibold text-white mb-1 truncate">Share {shareFile.name}</h3>
+                  <p className="text-sm text-zinc-400 mb-4">
+                    {shareFile.visibility === 'private'
+                      ? 'Private: only you and people with a share link can open this file.'
+                      : 'Public: anyone with the CID can open this file.'}
+                    {shareFile.encryption && ' It is encrypted, so links include its key after the # and are decrypted in the browser.'}
+                  </p>
                   <div className="space-y-4">
-                    <div>
-                      <label className="block text-sm font-medium text-zinc-300 mb-2">
-                        Default Minimum Copies
-                      </label>
-                      <select className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-zinc-600">
-                        <option value="2">2 copies</option>
-                        <option value="3" selected>3 copies</option>
-                        <option value="4">4 copies</option>
-                        <option value="5">5 copies</option>
-                      </select>
-                      <p className="text-xs text-zinc-500 mt-1">Minimum number of copies to maintain across the network</p>
-                    </div>
-
-                    <div>
-                      <label className="block text-sm font-medium text-zinc-300 mb-2">
-                        Default Maximum Copies
-                      </label>
-                      <select className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-zinc-600">
-                        <option value="5">5 copies</option>
-                        <option value="10" selected>10 copies</option>
-                        <option value="15">15 copies</option>
-                        <option value="20">20 copies</option>
-                      </select>
-                      <p className="text-xs text-zinc-500 mt-1">Maximum number of copies to prevent over-replication</p>
+                    <div className="flex space-x-2">
+                      {(['public', 'private'] as const).map(visibility => (
+                        <button
+                          key={visibility}
+                          onClick={() => shareFile.visibility !== visibility && handleSetVisibility(shareFile, visibility)}
+                          className={`flex-1 px-3 py-2 rounded-md text-sm border transition-colors ${shareFile.visibility === visibility
+                              ? 'bg-white text-black border-white'
+                              : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'
+                            }`}
+                        >
+                          {visibility === 'public' ? 'Public' : 'Private'}
+                        </button>
+                      ))}
                     </div>
-                  </div>
 
-                  <div className="space-y-4">
-                    <div>
-                      <label className="block text-sm font-medium text-zinc-300 mb-2">
-                        Replication Strategy
-                      </label>
-                      <select className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-zinc-600">
-                        <option value="balanced" selected>Balanced Distribution</option>
-                        <option value="performance">Performance Optimized</option>
-                        <option value="geographic">Geographic Distribution</option>
-                        <option value="cost">Cost Optimized</option>
-                      </select>
-                      <p className="text-xs text-zinc-500 mt-1">Strategy for distributing copies across nodes</p>
-                    </div>
+                    {shareFile.encryption && shareFile.visibility !== 'private' && (
+                      <button
+                        onClick={() => handleCopyShareUrl(shareFile, `/api/gateway/${shareFile.cid}`)}
+                        className="w-full px-4 py-2 bg-zinc-800 text-zinc-300 border border-zinc-700 rounded-md hover:bg-zinc-700 transition-colors font-medium text-sm"
+                      >
+                        Copy decryption link
+                      </button>
+                    )}
 
-                    <div>
-                      <label className="block text-sm font-medium text-zinc-300 mb-2">
-                        Auto-healing
-                      </label>
-                      <div className="flex items-center space-x-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-zinc-400 mb-1">Expires after</label>
+                        <select
+                          value={shareForm.expiresIn}
+                          onChange={(e) => setShareForm(prev => ({ ...prev, expiresIn: Number(e.target.value) }))}
+                          className="w-full px-2 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-sm text-white focus:outline-none focus:ring-1 focus:ring-zinc-600"
+                        >
+                          <option value={60 * 60}>1 hour</option>
+                          <option value={24 * 60 * 60}>1 day</option>
+                          <option value={7 * 24 * 60 * 60}>7 days</option>
+                          <option value={30 * 24 * 60 * 60}>30 days</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-zinc-400 mb-1">Max downloads</label>
                         <input
-                          type="checkbox"
-                          defaultChecked
-                          className="w-4 h-4 text-white bg-zinc-700 border-zinc-600 rounded focus:ring-zinc-500"
+                          type="number"
+                          min={1}
+                          placeholder="Unlimited"
+                          value={shareForm.maxDownloads}
+                          onChange={(e) => setShareForm(prev => ({ ...prev, maxDownloads: e.target.value }))}
+                          className="w-full px-2 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-sm text-white placeholder-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-600"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-zinc-400 mb-1">Restrict to IP</label>
+                        <input
+                          type="text"
+                          placeholder="Any"
+                          value={shareForm.ipAddress}
+                          onChange={(e) => setShareForm(prev => ({ ...prev, ipAddress: e.target.value }))}
+                          className="w-full px-2 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-sm text-white placeholder-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-600"
                         />
-                        <span className="text-white text-sm">Enable automatic replication repair</span>
                       </div>
-                      <p className="text-xs text-zinc-500 mt-1">Automatically create new copies if existing ones fail</p>
                     </div>
-                  </div>
-                </div>
-
-                <div className="flex justify-end mt-6">
-                  <button className="px-4 py-2 bg-white text-black rounded-md hover:bg-zinc-100 transition-colors font-medium text-sm">
-                    Save Settings
-                  </button>
-                </div>
-              </div>
 
-              {/* Current Replication Rules */}
-              <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
-                <div className="flex items-center justify-between mb-6">
-                  <h2 className="text-xl font-semibold text-white">File Replication Rules</h2>
-                  <div className="flex items-center space-x-3">
-                    <span className="text-sm text-zinc-400">4 active rules</span>
-                    <button className="text-sm text-zinc-400 hover:text-white transition-colors">
-                      View all →
+                    <button
+                      onClick={handleCreateShareLink}
+                      disabled={isCreatingShareLink}
+                      className="w-full px-4 py-2 bg-white text-black rounded-md hover:bg-zinc-100 transition-colors font-medium text-sm disabled:opacity-50"
+                    >
+                      {isCreatingShareLink ? 'Creating...' : 'Create share link'}
                     </button>
-                  </div>
-                </div>
 
-                <div className="space-y-4">
-                  {[
-                    { pattern: "*.mp4", minCopies: 5, maxCopies: 15, status: "active", files: 12 },
-                    { pattern: "*.jpg", minCopies: 3, maxCopies: 8, status: "active", files: 245 },
-                    { pattern: "documents/*", minCopies: 4, maxCopies: 10, status: "active", files: 67 },
-                    { pattern: "backup/*", minCopies: 2, maxCopies: 5, status: "paused", files: 34 }
-                  ].map((rule, index) => (
-                    <div key={index} className="flex items-center justify-between p-4 bg-zinc-800/30 backdrop-blur-sm border border-zinc-700/30 rounded-lg">
-                      <div className="flex items-center space-x-4">
-                        <div className="w-10 h-10 bg-zinc-800/80 backdrop-blur-sm rounded-lg flex items-center justify-center">
-                          <svg className="w-5 h-5 text-zinc-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                          </svg>
-                        </div>
-                        <div>
-                          <h4 className="font-medium text-white">{rule.pattern}</h4>
-                          <p className="text-sm text-zinc-400">
-                            {rule.minCopies}-{rule.maxCopies} copies • {rule.files} files
-                          </p>
+                    <div>
+                      <h4 className="text-sm font-medium text-white mb-2">Active links</h4>
+                      {shareLinks.length === 0 ? (
+                        <p className="text-sm text-zinc-500">No active share links</p>
+                      ) : (
+                        <div className="divide-y divide-zinc-800 border border-zinc-800 rounded-md max-h-60 overflow-y-auto">
+                          {shareLinks.map(link => (
+                            <div key={link.id} className="p-3 flex items-center justify-between text-xs">
+                              <div className="text-zinc-400 space-y-0.5">
+                                <p>Expires {new Date(link.expires_at).toLocaleString()}</p>
+                                <p>
+                                  {link.download_count}{link.max_downloads !== null ? ` of ${link.max_downloads}` : ''} downloads
+                                  {link.ip_address && ` • ${link.ip_address} only`}
+                                </p>
+                              </div>
+                              <div className="flex items-center space-x-2">
+                                <button
+                                  onClick={() => handleCopyShareUrl(shareFile, link.path)}
+                                  className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded text-zinc-300 transition-colors"
+                                >
+                                  Copy
+                                </button>
+                                <button
+                                  onClick={() => handleRevokeShareLink(link.id)}
+                                  className="px-2 py-1 text-zinc-400 hover:text-red-400 transition-colors"
+                                >
+                                  Revoke
+                                </button>
+                              </div>
+                            </div>
+                          ))}
                         </div>
-                      </div>
-                      <div className="flex items-center space-x-3">
-                        <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium backdrop-blur-sm ${rule.status === 'active'
-                            ? 'bg-zinc-800/80 text-zinc-300 border border-zinc-700/50'
-                            : 'bg-zinc-900/80 text-zinc-400 border border-zinc-800/50'
-                          }`}>
-                          {rule.status}
-                        </span>
-                        <button className="p-1 text-zinc-400 hover:text-white transition-colors">
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 5v.01M12 12v.01M12 19v.01M12 6a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2z" />
-                          </svg>
-                        </button>
-                      </div>
+                      )}
                     </div>
-                  ))}
+
+                    <button
+                      onClick={() => setShareFile(null)}
+                      className="w-full px-4 py-2 bg-zinc-800 text-zinc-300 border border-zinc-700 rounded-md hover:bg-zinc-700 transition-colors font-medium text-sm"
+                    >
+                      Close
+                    </button>
+                  </div>
                 </div>
               </div>
+            )}
+          </div>
+        )}
 
-              {/* Replication Status Overview */}
-              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-                <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-semibold text-white">Network Health</h3>
-                    <div className="w-3 h-3 bg-green-400 rounded-full"></div>
-                  </div>
-                  <div className="space-y-3">
-                    <div className="flex justify-between">
-                      <span className="text-zinc-400">Active Nodes</span>
-                      <span className="text-white">847</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-zinc-400">Avg Response Time</span>
-                      <span className="text-white">124ms</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-zinc-400">Success Rate</span>
-                      <span className="text-white">99.8%</span>
-                    </div>
-                  </div>
+        {/* Replication Section */}
+        {activeSection === 'replication' && (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-white">Replication Management</h1>
+                <p className="text-zinc-400">Request durable storage for your files from hosts on the Codex network</p>
+              </div>
+              <button
+                onClick={loadReplication}
+                disabled={isReplicationLoading}
+                className="inline-flex items-center px-4 py-2 bg-zinc-800 text-white rounded-md hover:bg-zinc-700 transition-colors font-medium text-sm disabled:opacity-50"
+              >
+                <svg className={`w-4 h-4 mr-2 ${isReplicationLoading ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+                Refresh
+              </button>
+            </div>
+
+            {/* Replication Status Overview */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              {[
+                { label: 'Replication Rules', value: replicationSummary?.rules ?? 0, className: 'text-white' },
+                { label: 'Pending Requests', value: replicationSummary?.requests.pending ?? 0, className: 'text-yellow-400' },
+                { label: 'Active Contracts', value: (replicationSummary?.requests.started ?? 0) + (replicationSummary?.requests.finished ?? 0), className: 'text-green-400' },
+                { label: 'Failed Requests', value: replicationSummary?.requests.failed ?? 0, className: 'text-red-400' }
+              ].map(card => (
+                <div key={card.label} className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
+                  <p className="text-sm text-zinc-400">{card.label}</p>
+                  <p className={`text-2xl font-bold mt-2 ${card.className}`}>{card.value}</p>
                 </div>
+              ))}
+            </div>
 
-                <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-semibold text-white">Replication Status</h3>
-                    <svg className="w-5 h-5 text-zinc-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
-                    </svg>
+            {/* Default Replication Rule */}
+            <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
+              <h2 className="text-xl font-semibold text-white mb-2">Replication Settings</h2>
+              <p className="text-sm text-zinc-400 mb-6">
+                Codex erasure-codes each file across the chosen number of hosts. The file survives as long as no more than the tolerated number of hosts fail.
+              </p>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-zinc-300 mb-2">
+                      Hosts
+                    </label>
+                    <input
+                      type="number"
+                      min={3}
+                      max={20}
+                      value={ruleForm.nodes}
+                      onChange={(e) => setRuleForm(prev => ({ ...prev, nodes: parseInt(e.target.value, 10) || 0 }))}
+                      className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-zinc-600"
+                    />
+                    <p className="text-xs text-zinc-500 mt-1">Number of storage hosts holding a slot of the file (3-20)</p>
                   </div>
-                  <div className="space-y-3">
-                    <div className="flex justify-between">
-                      <span className="text-zinc-400">Well Replicated</span>
-                      <span className="text-white">342 files</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-zinc-400">Under Replicated</span>
-                      <span className="text-yellow-400">12 files</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-zinc-400">Failed Copies</span>
-                      <span className="text-red-400">3 files</span>
-                    </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-zinc-300 mb-2">
+                      Tolerated Failures
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={ruleForm.tolerance}
+                      onChange={(e) => setRuleForm(prev => ({ ...prev, tolerance: parseInt(e.target.value, 10) || 0 }))}
+                      className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-zinc-600"
+                    />
+                    <p className="text-xs text-zinc-500 mt-1">Hosts that can be lost without losing data (at most half the hosts)</p>
                   </div>
                 </div>
 
-                <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-semibold text-white">Recent Activity</h3>
-                    <svg className="w-5 h-5 text-zinc-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                    </svg>
-                  </div>
-                  <div className="space-y-3">
-                    <div className="flex justify-between">
-                      <span className="text-zinc-400">New Copies</span>
-                      <span className="text-white">24 today</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-zinc-400">Repairs</span>
-                      <span className="text-white">7 today</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-zinc-400">Last Check</span>
-                      <span className="text-white">2m ago</span>
-                    </div>
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-zinc-300 mb-2">
+                      Duration (days)
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={90}
+                      value={ruleForm.durationDays}
+                      onChange={(e) => setRuleForm(prev => ({ ...prev, durationDays: parseInt(e.target.value, 10) || 0 }))}
+                      className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-zinc-600"
+                    />
+                    <p className="text-xs text-zinc-500 mt-1">How long hosts must keep the file (1-90 days)</p>
                   </div>
-                </div>
-              </div>
 
-              {/* Individual File Management */}
-              <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
-                <div className="flex items-center justify-between mb-6">
-                  <h2 className="text-xl font-semibold text-white">File-Specific Replication</h2>
-                  <div className="flex items-center space-x-3">
+                  <div>
+                    <label className="block text-sm font-medium text-zinc-300 mb-2">
+                      Collateral per Byte
+                    </label>
                     <input
                       type="text"
-                      placeholder="Search files..."
-                      className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white placeholder-zinc-400 focus:outline-none focus:ring-1 focus:ring-zinc-600 text-sm"
+                      value={ruleForm.collateralPerByte}
+                      onChange={(e) => setRuleForm(prev => ({ ...prev, collateralPerByte: e.target.value.trim() }))}
+                      className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-zinc-600"
                     />
-                    <select className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-zinc-600 text-sm">
-                      <option>All files</option>
-                      <option>Under-replicated</option>
-                      <option>Over-replicated</option>
-                      <option>Custom rules</option>
-                    </select>
+                    <p className="text-xs text-zinc-500 mt-1">Amount each host stakes and loses if it fails to prove storage</p>
                   </div>
                 </div>
+              </div>
 
-                <div className="space-y-3">
-                  {[
-                    { name: "video_presentation.mp4", size: "245 MB", copies: 8, target: "5-15", status: "healthy" },
-                    { name: "project_documents.zip", size: "67 MB", copies: 2, target: "4-10", status: "under" },
-                    { name: "backup_2024.tar.gz", size: "1.2 GB", copies: 1, target: "2-5", status: "critical" },
-                    { name: "profile_image.jpg", size: "3 MB", copies: 12, target: "3-8", status: "over" }
-                  ].map((file, index) => (
-                    <div key={index} className="flex items-center justify-between p-4 bg-zinc-800/30 backdrop-blur-sm border border-zinc-700/30 rounded-lg hover:bg-zinc-800/50 transition-colors">
-                      <div className="flex items-center space-x-4">
-                        <div className="w-8 h-8 bg-zinc-800 rounded flex items-center justify-center">
-                          <span className="text-sm">📁</span>
-                        </div>
+              <div className="flex items-center justify-between mt-6">
+                <label className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={ruleForm.enabled}
+                    onChange={(e) => setRuleForm(prev => ({ ...prev, enabled: e.target.checked }))}
+                    className="w-4 h-4 text-white bg-zinc-700 border-zinc-600 rounded focus:ring-zinc-500"
+                  />
+                  <span className="text-white text-sm">Automatically request storage for new uploads</span>
+                </label>
+                <button
+                  onClick={() => handleSaveRule()}
+                  disabled={isSavingRule}
+                  className="px-4 py-2 bg-white text-black rounded-md hover:bg-zinc-100 transition-colors font-medium text-sm disabled:opacity-50"
+                >
+                  {isSavingRule ? 'Saving...' : 'Save Default Rule'}
+                </button>
+              </div>
+            </div>
+
+            {/* File-Specific Replication */}
+            <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
+              <h2 className="text-xl font-semibold text-white mb-2">File-Specific Replication</h2>
+              <p className="text-sm text-zinc-400 mb-6">
+                Request storage for an existing file with its own rule or the default rule, or save the settings above as a rule for that file.
+              </p>
+
+              <div className="flex flex-col md:flex-row gap-3">
+                <select
+                  value={replicationFileId}
+                  onChange={(e) => setReplicationFileId(e.target.value)}
+                  className="flex-1 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-zinc-600 text-sm"
+                >
+                  <option value="">Select a file...</option>
+                  {databaseFiles.map(file => (
+                    <option key={file.id} value={file.id}>
+                      {file.filename} ({file.formattedSize})
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleRequestStorage(replicationFileId)}
+                  disabled={!replicationFileId || isRequestingStorage}
+                  className="px-4 py-2 bg-white text-black rounded-md hover:bg-zinc-100 transition-colors font-medium text-sm disabled:opacity-50"
+                >
+                  {isRequestingStorage ? 'Requesting...' : 'Request Storage'}
+                </button>
+                <button
+                  onClick={() => handleSaveRule(replicationFileId)}
+                  disabled={!replicationFileId || isSavingRule}
+                  className="px-4 py-2 bg-zinc-800 text-white rounded-md hover:bg-zinc-700 transition-colors font-medium text-sm disabled:opacity-50"
+                >
+                  Save as File Rule
+                </button>
+              </div>
+
+              {replicationRules.filter(rule => rule.file_id).length > 0 && (
+                <div className="space-y-3 mt-6">
+                  {replicationRules.filter(rule => rule.file_id).map(rule => {
+                    const file = databaseFiles.find(f => f.id === rule.file_id);
+                    return (
+                      <div key={rule.id} className="flex items-center justify-between p-4 bg-zinc-800/30 backdrop-blur-sm border border-zinc-700/30 rounded-lg">
                         <div>
-                          <h4 className="font-medium text-white text-sm">{file.name}</h4>
-                          <p className="text-xs text-zinc-400">{file.size}</p>
+                          <h4 className="font-medium text-white text-sm">{file?.filename || rule.file_id}</h4>
+                          <p className="text-xs text-zinc-400">
+                            {rule.nodes} hosts • tolerates {rule.tolerance} • {Math.round(rule.duration_seconds / 86400)} days
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium backdrop-blur-sm ${rule.enabled
+                              ? 'bg-zinc-800/80 text-zinc-300 border border-zinc-700/50'
+                              : 'bg-zinc-900/80 text-zinc-400 border border-zinc-800/50'
+                            }`}>
+                            {rule.enabled ? 'active' : 'paused'}
+                          </span>
+                          <button
+                            onClick={() => handleDeleteRule(rule.id)}
+                            className="text-sm text-zinc-400 hover:text-red-400 transition-colors"
+                          >
+                            Remove
+                          </button>
                         </div>
                       </div>
-                      <div className="flex items-center space-x-4">
-                        <div className="text-right">
-                          <p className="text-sm text-white">{file.copies} copies</p>
-                          <p className="text-xs text-zinc-400">Target: {file.target}</p>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* Storage Requests */}
+            <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
+              <h2 className="text-xl font-semibold text-white mb-6">Storage Requests</h2>
+
+              {storageRequests.length === 0 ? (
+                <p className="text-sm text-zinc-400">
+                  {isReplicationLoading ? 'Loading storage requests...' : 'No storage requests yet.'}
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {storageRequests.map(request => {
+                    const file = databaseFiles.find(f => f.id === request.file_id);
+                    return (
+                      <div key={request.id} className="flex items-center justify-between p-4 bg-zinc-800/30 backdrop-blur-sm border border-zinc-700/30 rounded-lg">
+                        <div className="min-w-0">
+                          <h4 className="font-medium text-white text-sm truncate">{file?.filename || request.cid}</h4>
+                          <p className="text-xs text-zinc-400">
+                            {request.nodes} hosts • tolerates {request.tolerance} • {Math.round(request.duration_seconds / 86400)} days • {new Date(request.created_at).toLocaleString()}
+                          </p>
+                          {request.error && (
+                            <p className="text-xs text-red-400 mt-1">{request.error}</p>
+                          )}
                         </div>
-                        <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium backdrop-blur-sm ${file.status === 'healthy' ? 'bg-zinc-800/80 text-zinc-300 border border-zinc-700/50' :
-                            file.status === 'under' ? 'bg-yellow-900/50 text-yellow-300 border border-yellow-700/50' :
-                              file.status === 'critical' ? 'bg-red-900/50 text-red-300 border border-red-700/50' :
-                                'bg-blue-900/50 text-blue-300 border border-blue-700/50'
+                        <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium backdrop-blur-sm ${request.status === 'finished' || request.status === 'started' ? 'bg-green-900/50 text-green-300 border border-green-700/50' :
+                            request.status === 'pending' ? 'bg-yellow-900/50 text-yellow-300 border border-yellow-700/50' :
+                              'bg-red-900/50 text-red-300 border border-red-700/50'
                           }`}>
-                          {file.status === 'healthy' ? 'Healthy' :
-                            file.status === 'under' ? 'Under-replicated' :
-                              file.status === 'critical' ? 'Critical' :
-                                'Over-replicated'}
+                          {request.status === 'started' ? 'Stored' :
+                            request.status === 'finished' ? 'Completed' :
+                              request.status === 'pending' ? 'Pending' :
+                                'Failed'}
                         </span>
-                        <button className="p-1 text-zinc-400 hover:text-white transition-colors">
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                          </svg>
-                        </button>
                       </div>
-                    </div>
-                  ))}
-                </div>
-
-                <div className="mt-6 text-center">
-                  <button className="text-sm text-zinc-400 hover:text-white transition-colors">
-                    Load more files →
-                  </button>
+                    );
+                  })}
                 </div>
-              </div>
-
+              )}
             </div>
           </div>
         )}
@@ -2359,9 +4034,20 @@ fetch('https://thirdstorage.cloud/api/upload', {
                             </div>
                             <div>
                               <p className="text-zinc-500">Usage this month</p>
-                              <p className="text-zinc-300">{secret.usageThisMonth} MB</p>
+                              <p className="text-zinc-300">
+                                {secret.usageThisMonth} MB
+                                {secret.monthlyQuotaGb ? ` / ${secret.monthlyQuotaGb} GB` : ''}
+                              </p>
                             </div>
                           </div>
+                          {secret.quotaWarning && (
+                            <div className={`mt-3 px-3 py-2 rounded-md text-sm border ${secret.quotaWarning.level === 'exceeded'
+                                ? 'bg-red-900/20 border-red-800/50 text-red-300'
+                                : 'bg-yellow-900/20 border-yellow-800/50 text-yellow-300'
+                              }`}>
+                              {secret.quotaWarning.message}
+                            </div>
+                          )}
                         </div>
                         <div className="ml-6">
                           {secret.isActive && (
@@ -2528,157 +4214,204 @@ fetch('https://thirdstorage.cloud/api/upload', {
 
         {/* Migrations Section */}
         {activeSection === 'migrations' && (
-          <div className="relative">
-            {/* Coming Soon Overlay */}
-            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm z-10 rounded-lg">
-              <div className="absolute top-64 left-1/2 transform -translate-x-1/2 text-center">
-                <div className="w-16 h-16 bg-zinc-800/80 backdrop-blur-sm rounded-lg flex items-center justify-center mx-auto mb-4">
-                  <svg className="w-8 h-8 text-zinc-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                </div>
-                <h2 className="text-2xl font-bold text-white mb-2">Coming Soon</h2>
-                <p className="text-zinc-400 max-w-md">
-                  Migration functionality is currently in development. Check back soon for the ability to migrate content from IPFS, Arweave, and Storj.
-                </p>
-              </div>
+          <div className="space-y-6">
+            <div>
+              <h1 className="text-2xl font-bold text-white">Content Migrations</h1>
+              <p className="text-zinc-400">Migrate content from other decentralized networks to Third Storage</p>
             </div>
 
-            {/* Blurred Content */}
-            <div className="blur-[1px] pointer-events-none space-y-6">
-              <div>
-                <h1 className="text-2xl font-bold text-white">Content Migrations</h1>
-                <p className="text-zinc-400">Migrate content from other decentralized networks to Third Storage</p>
-              </div>
-
-              {/* Migration Form */}
-              <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
-                <h2 className="text-xl font-semibold text-white mb-6">Migrate Content</h2>
+            {/* Migration Form */}
+            <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
+              <h2 className="text-xl font-semibold text-white mb-6">Migrate Content</h2>
 
-                <div className="space-y-6">
-                  {/* Network Selection */}
-                  <div>
-                    <label className="block text-sm font-medium text-zinc-300 mb-3">Source Network</label>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-                      {[
-                        { id: 'ipfs', name: 'IPFS', description: 'InterPlanetary File System' },
-                        { id: 'arweave', name: 'Arweave', description: 'Permanent storage blockchain' },
-                        { id: 'storj', name: 'Storj', description: 'Decentralized cloud storage' }
-                      ].map((network) => (
-                        <button
-                          key={network.id}
-                          onClick={() => setSelectedNetwork(network.id as 'ipfs' | 'arweave' | 'storj')}
-                          className={`p-4 rounded-lg border transition-all duration-200 text-left ${selectedNetwork === network.id
-                              ? 'bg-white/10 border-white/30 ring-1 ring-white/20'
-                              : 'bg-zinc-800/50 border-zinc-700/50 hover:bg-zinc-800/80 hover:border-zinc-600/50'
-                            }`}
-                        >
-                          <div className="font-medium text-white text-sm">{network.name}</div>
-                          <div className="text-zinc-400 text-xs mt-1">{network.description}</div>
-                        </button>
-                      ))}
-                    </div>
+              <div className="space-y-6">
+                {/* Network Selection */}
+                <div>
+                  <label className="block text-sm font-medium text-zinc-300 mb-3">Source Network</label>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {[
+                      { id: 'ipfs', name: 'IPFS', description: 'InterPlanetary File System' },
+                      { id: 'arweave', name: 'Arweave', description: 'Permanent storage blockchain' },
+                      { id: 'storj', name: 'Storj', description: 'Decentralized cloud storage' }
+                    ].map((network) => (
+                      <button
+                        key={network.id}
+                        onClick={() => setSelectedNetwork(network.id as 'ipfs' | 'arweave' | 'storj')}
+                        className={`p-4 rounded-lg border transition-all duration-200 text-left ${selectedNetwork === network.id
+                            ? 'bg-white/10 border-white/30 ring-1 ring-white/20'
+                            : 'bg-zinc-800/50 border-zinc-700/50 hover:bg-zinc-800/80 hover:border-zinc-600/50'
+                          }`}
+                      >
+                        <div className="font-medium text-white text-sm">{network.name}</div>
+                        <div className="text-zinc-400 text-xs mt-1">{network.description}</div>
+                      </button>
+                    ))}
                   </div>
+                </div>
 
-                  {/* CID Input */}
-                  <div>
-                    <label htmlFor="migration-cid" className="block text-sm font-medium text-zinc-300 mb-3">
-                      Content Identifier (CID)
-                    </label>
-                    <input
-                      type="text"
-                      id="migration-cid"
-                      value={migrationCid}
-                      onChange={(e) => setMigrationCid(e.target.value)}
-                      placeholder={`Enter ${selectedNetwork.toUpperCase()} content identifier...`}
-                      className="block w-full px-4 py-3 bg-zinc-800/50 backdrop-blur-sm border border-zinc-700/50 rounded-lg text-white placeholder-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-600 focus:border-zinc-600"
-                    />
-                    <p className="text-xs text-zinc-500 mt-2">
-                      {selectedNetwork === 'ipfs' && 'Example: QmYyQSo1c1Ym7orWxLYvCrM2EmxFTANf8wXmmE7DWjhx5N'}
-                      {selectedNetwork === 'arweave' && 'Example: 43MOwz-epUGQ5tKVdIGMQ5Ti2YU4Fx0Ur-KW-LUyGYw'}
-                      {selectedNetwork === 'storj' && 'Example: jv6mfh6ffh6qj7u6k6k6k6k6k6k6k6k6k6k6k6k6k6k6'}
-                    </p>
-                  </div>
+                {/* Source Identifier Input */}
+                <div>
+                  <label htmlFor="migration-cid" className="block text-sm font-medium text-zinc-300 mb-3">
+                    {selectedNetwork === 'ipfs' && 'Content Identifier (CID)'}
+                    {selectedNetwork === 'arweave' && 'Transaction ID'}
+                    {selectedNetwork === 'storj' && 'Linkshare Path'}
+                  </label>
+                  <input
+                    type="text"
+                    id="migration-cid"
+                    value={migrationCid}
+                    onChange={(e) => setMigrationCid(e.target.value)}
+                    placeholder={`Enter ${selectedNetwork.toUpperCase()} content identifier...`}
+                    className="block w-full px-4 py-3 bg-zinc-800/50 backdrop-blur-sm border border-zinc-700/50 rounded-lg text-white placeholder-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-600 focus:border-zinc-600"
+                  />
+                  <p className="text-xs text-zinc-500 mt-2">
+                    {selectedNetwork === 'ipfs' && 'Example: QmYyQSo1c1Ym7orWxLYvCrM2EmxFTANf8wXmmE7DWjhx5N'}
+                    {selectedNetwork === 'arweave' && 'Example: 43MOwz-epUGQ5tKVdIGMQ5Ti2YU4Fx0Ur-KW-LUyGYw'}
+                    {selectedNetwork === 'storj' && 'Example: jv6mfh6ffh6qj7u6k6k6k6k6k6k6/my-bucket/photos/image.jpg'}
+                  </p>
+                </div>
 
-                  {/* Migration Options */}
-                  <div>
-                    <label className="block text-sm font-medium text-zinc-300 mb-3">Migration Options</label>
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between p-3 bg-zinc-800/30 backdrop-blur-sm border border-zinc-700/30 rounded-lg">
-                        <div>
-                          <div className="font-medium text-white text-sm">Preserve Original Metadata</div>
-                          <div className="text-zinc-400 text-xs">Keep original timestamps and file attributes</div>
-                        </div>
-                        <input
-                          type="checkbox"
-                          defaultChecked
-                          className="w-4 h-4 text-white bg-zinc-700 border-zinc-600 rounded focus:ring-zinc-500"
-                        />
+                {/* Migration Options */}
+                <div>
+                  <label className="block text-sm font-medium text-zinc-300 mb-3">Migration Options</label>
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between p-3 bg-zinc-800/30 backdrop-blur-sm border border-zinc-700/30 rounded-lg">
+                      <div>
+                        <div className="font-medium text-white text-sm">Preserve Original Metadata</div>
+                        <div className="text-zinc-400 text-xs">Keep original timestamps and file attributes</div>
                       </div>
+                      <input
+                        type="checkbox"
+                        checked={preserveMetadata}
+                        onChange={(e) => setPreserveMetadata(e.target.checked)}
+                        className="w-4 h-4 text-white bg-zinc-700 border-zinc-600 rounded focus:ring-zinc-500"
+                      />
                     </div>
                   </div>
+                </div>
 
-                  {/* Migration Button */}
-                  <div className="flex space-x-4">
-                    <button
-                      onClick={() => setIsMigrating(true)}
-                      disabled={isMigrating || !migrationCid.trim()}
-                      className="inline-flex items-center px-4 py-2 rounded-md font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed bg-white text-black hover:bg-zinc-100"
-                    >
-                      {isMigrating ? (
-                        <>
-                          <div className="animate-spin rounded-full h-5 w-5 border-2 border-zinc-600 border-t-black mr-2"></div>
-                          Migrating...
-                        </>
-                      ) : (
-                        <>
-                          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
-                          </svg>
-                          Start Migration
-                        </>
-                      )}
-                    </button>
-                  </div>
+                {/* Migration Button */}
+                <div className="flex space-x-4">
+                  <button
+                    onClick={handleStartMigration}
+                    disabled={isMigrating || !migrationCid.trim()}
+                    className="inline-flex items-center px-4 py-2 rounded-md font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed bg-white text-black hover:bg-zinc-100"
+                  >
+                    {isMigrating ? (
+                      <>
+                        <div className="animate-spin rounded-full h-5 w-5 border-2 border-zinc-600 border-t-black mr-2"></div>
+                        Starting...
+                      </>
+                    ) : (
+                      <>
+                        <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                        </svg>
+                        Start Migration
+                      </>
+                    )}
+                  </button>
                 </div>
               </div>
+            </div>
 
-              {/* Migration Status */}
-              {isMigrating && (
-                <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
-                  <h2 className="text-xl font-semibold text-white mb-6">Migration Progress</h2>
+            {/* Migration Jobs */}
+            <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
+              <h2 className="text-xl font-semibold text-white mb-6">Migration Progress</h2>
 
-                  <div className="space-y-4">
-                    <div className="flex items-center space-x-3">
-                      <div className="w-8 h-8 bg-zinc-800/80 backdrop-blur-sm rounded-lg flex items-center justify-center">
-                        <div className="animate-spin rounded-full h-4 w-4 border-2 border-zinc-600 border-t-white"></div>
-                      </div>
-                      <div>
-                        <p className="text-white font-medium">Fetching content from {selectedNetwork.toUpperCase()}</p>
-                        <p className="text-zinc-400 text-sm">Retrieving content and metadata...</p>
-                      </div>
-                    </div>
+              {migrationJobs.length === 0 ? (
+                <p className="text-sm text-zinc-400">No migrations yet.</p>
+              ) : (
+                <div className="space-y-4">
+                  {migrationJobs.map(job => {
+                    const progress = job.status === 'completed'
+                      ? 100
+                      : job.bytes_total ? Math.min(100, Math.round(job.bytes_transferred / job.bytes_total * 100)) : null;
 
-                    <div className="bg-zinc-800/30 backdrop-blur-sm border border-zinc-700/30 rounded-lg p-4">
-                      <div className="flex justify-between text-sm text-zinc-400 mb-2">
-                        <span>Progress</span>
-                        <span>Processing...</span>
-                      </div>
-                      <div className="w-full bg-zinc-800/50 rounded-full h-2">
-                        <div className="bg-white/80 h-2 rounded-full animate-pulse" style={{ width: '65%' }}></div>
-                      </div>
-                    </div>
+                    return (
+                      <div key={job.id} className="bg-zinc-800/30 backdrop-blur-sm border border-zinc-700/30 rounded-lg p-4">
+                        <div className="flex items-center justify-between">
+                          <div className="min-w-0">
+                            <p className="text-white font-medium text-sm truncate">
+                              {job.network.toUpperCase()} • {job.source_id}
+                            </p>
+                            <p className="text-zinc-400 text-xs mt-1">
+                              Attempt {job.attempts} of {job.max_attempts} • {new Date(job.created_at).toLocaleString()}
+                              {job.cid && ` • ${job.cid}`}
+                            </p>
+                          </div>
+                          <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium backdrop-blur-sm ${job.status === 'completed' ? 'bg-green-900/50 text-green-300 border border-green-700/50' :
+                              job.status === 'failed' ? 'bg-red-900/50 text-red-300 border border-red-700/50' :
+                                job.status === 'cancelled' ? 'bg-zinc-900/80 text-zinc-400 border border-zinc-800/50' :
+                                  'bg-yellow-900/50 text-yellow-300 border border-yellow-700/50'
+                            }`}>
+                            {job.status}
+                          </span>
+                        </div>
 
-                    <button
-                      onClick={() => setIsMigrating(false)}
-                      className="text-sm text-zinc-400 hover:text-white transition-colors"
-                    >
-                      Cancel Migration
-                    </button>
-                  </div>
+                        {(job.status === 'running' || job.status === 'queued') && (
+                          <div className="mt-3">
+                            <div className="flex justify-between text-xs text-zinc-400 mb-2">
+                              <span>{formatFileSize(job.bytes_transferred)}{job.bytes_total ? ` of ${formatFileSize(job.bytes_total)}` : ''}</span>
+                              <span>{progress !== null ? `${progress}%` : job.status === 'queued' ? 'Waiting...' : 'Processing...'}</span>
+                            </div>
+                            <div className="w-full bg-zinc-800/50 rounded-full h-2">
+                              <div
+                                className={`bg-white/80 h-2 rounded-full ${progress === null ? 'animate-pulse' : ''}`}
+                                style={{ width: `${progress ?? 100}%` }}
+                              ></div>
+                            </div>
+                          </div>
+                        )}
+
+                        {job.error && job.status !== 'completed' && (
+                          <p className="text-xs text-red-400 mt-2">{job.error}</p>
+                        )}
+
+                        <div className="flex items-center space-x-4 mt-3">
+                          <button
+                            onClick={() => handleToggleMigrationLogs(job.id)}
+                            className="text-sm text-zinc-400 hover:text-white transition-colors"
+                          >
+                            {expandedMigrationId === job.id ? 'Hide Log' : 'View Log'}
+                          </button>
+                          {(job.status === 'queued' || job.status === 'running') && (
+                            <button
+                              onClick={() => handleMigrationAction(job.id, 'cancel')}
+                              className="text-sm text-zinc-400 hover:text-red-400 transition-colors"
+                            >
+                              Cancel Migration
+                            </button>
+                          )}
+                          {(job.status === 'failed' || job.status === 'cancelled') && (
+                            <button
+                              onClick={() => handleMigrationAction(job.id, 'retry')}
+                              className="text-sm text-zinc-400 hover:text-white transition-colors"
+                            >
+                              Retry
+                            </button>
+                          )}
+                        </div>
+
+                        {expandedMigrationId === job.id && (
+                          <div className="mt-3 bg-black/40 rounded-md p-3 font-mono text-xs space-y-1 max-h-60 overflow-y-auto">
+                            {migrationLogs.length === 0 ? (
+                              <p className="text-zinc-500">Loading log...</p>
+                            ) : migrationLogs.map(entry => (
+                              <p
+                                key={entry.id}
+                                className={entry.level === 'error' ? 'text-red-400' : entry.level === 'warn' ? 'text-yellow-400' : 'text-zinc-300'}
+                              >
+                                <span className="text-zinc-500">{new Date(entry.created_at).toLocaleTimeString()}</span> {entry.message}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
               )}
-
             </div>
           </div>
         )}
@@ -3306,6 +5039,54 @@ fetch('https://thirdstorage.cloud/api/upload', {
               </div>
             </div>
 
+            {/* Encryption Key */}
+            <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-white mb-4">Encryption Key</h3>
+              <p className="text-zinc-400 mb-6">
+                Encrypted uploads are encrypted in your browser before they are stored. The key stays in this browser and is never sent to ThirdStorage, so keep a copy: files can&apos;t be recovered without it.
+              </p>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-zinc-400 mb-1">Key ID</label>
+                  <p className="text-white font-mono text-sm">{encryptionKeyId || 'No key in this browser'}</p>
+                </div>
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    onClick={handleCreateEncryptionKey}
+                    className="px-4 py-2 bg-white text-black rounded-md hover:bg-zinc-100 transition-colors font-medium text-sm"
+                  >
+                    {encryptionKey ? 'Create New Key' : 'Create Key'}
+                  </button>
+                  <button
+                    onClick={handleImportEncryptionKey}
+                    className="px-4 py-2 bg-zinc-800 text-white border border-zinc-700 rounded-md hover:bg-zinc-700 transition-colors font-medium text-sm"
+                  >
+                    Import Key
+                  </button>
+                  {encryptionKey && (
+                    <>
+                      <button
+                        onClick={async () => {
+                          await navigator.clipboard.writeText(encryptionKey);
+                          showToast({ type: 'success', title: 'Copied!', message: 'Encryption key copied to clipboard' });
+                        }}
+                        className="px-4 py-2 bg-zinc-800 text-white border border-zinc-700 rounded-md hover:bg-zinc-700 transition-colors font-medium text-sm"
+                      >
+                        Copy Key
+                      </button>
+                      <button
+                        onClick={handleForgetEncryptionKey}
+                        className="px-4 py-2 text-zinc-400 hover:text-red-400 transition-colors font-medium text-sm"
+                      >
+                        Remove From Browser
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+
             {/* API Access Control */}
             <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800/50 rounded-lg p-6">
               <h3 className="text-lg font-semibold text-white mb-4">API Access Control</h3>
@@ -3320,7 +5101,7 @@ fetch('https://thirdstorage.cloud/api/upload', {
                     type="text"
                     value={newDomain}
                     onChange={(e) => setNewDomain(e.target.value)}
-                    placeholder="example.com"
+                    placeholder="example.com or *.example.com"
                     className="flex-1 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white placeholder-zinc-500 focus:outline-none focus:border-zinc-500"
                     onKeyPress={(e) => e.key === 'Enter' && handleAddDomain()}
                   />
@@ -3365,6 +5146,26 @@ fetch('https://thirdstorage.cloud/api/upload', {
                     <p className="text-xs text-zinc-500">API access allowed from all domains</p>
                   </div>
                 )}
+
+                {/* Recently blocked origins */}
+                {blockedOrigins.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium text-zinc-300">Recently Blocked Origins:</h4>
+                    {blockedOrigins.map((blocked) => (
+                      <div key={blocked.origin} className="flex items-center justify-between p-3 bg-red-900/10 border border-red-900/30 rounded-md">
+                        <div className="flex items-center">
+                          <svg className="w-4 h-4 text-red-400 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+                          </svg>
+                          <span className="text-white font-mono text-sm">{blocked.origin}</span>
+                        </div>
+                        <span className="text-xs text-zinc-400">
+                          {blocked.block_count} blocked · last {new Date(blocked.last_blocked_at).toLocaleString()}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -94,6 +94,8 @@ export default function GatewayPage() {
         return 'Invalid CID';
       case 404:
         return 'Content Not Found';
+      case 410:
+        return 'Content Unavailable';
       case 500:
         return 'Server Error';
       default:
@@ -107,6 +109,8 @@ export default function GatewayPage() {
         return 'The Content Identifier (CID) you provided is not valid. Please check the CID format and try again.';
       case 404:
         return 'The content you\'re looking for could not be found on the Codex network. It may have been removed or the CID might be incorrect.';
+      case 410:
+        return 'This content has been blocked and is no longer served by this gateway.';
       case 500:
         return 'There was an internal server error while trying to retrieve the content. Please try again later.';
       default:
@@ -216,6 +220,9 @@ export default function GatewayPage() {
             {/* Help Text */}
             <div className="mt-8 text-xs text-zinc-500">
               <p>Need help? Check our <a href="https://docs.thirdstorage.cloud" target="_blank" className="text-zinc-400 hover:text-white underline">documentation</a> for more information about CIDs and content access.</p>
+              {typeof cid === 'string' && error.status !== 410 && (
+                <p className="mt-2">Seen something abusive? <Link href={`/report-abuse?cid=${encodeURIComponent(cid)}`} className="text-zinc-400 hover:text-white underline">Report it</Link>.</p>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import SEO from '../../components/SEO';
+import { decryptWithDataKey, getSafeBlobType, isInlineViewable, parseDecryptFragment } from '../../lib/fileEncryption';
+
+// Opens a link to an encrypted file. The key is in the URL fragment, which the
+// browser keeps to itself, so the content is only ever decrypted here.
+export default function DecryptPage() {
+  const [status, setStatus] = useState<'decrypting' | 'ready' | 'error'>('decrypting');
+  const [error, setError] = useState<string | null>(null);
+  const [file, setFile] = useState<{ url: string; name: string; contentType: string } | null>(null);
+
+  useEffect(() => {
+    const params = parseDecryptFragment(window.location.hash);
+    if (!params) {
+      setError('This decryption link is incomplete or invalid.');
+      setStatus('error');
+      return;
+    }
+
+    let objectUrl: string | null = null;
+
+    const decrypt = async () => {
+      try {
+        const response = await fetch(params.src);
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => null);
+          setError(errorData?.error || `The file could not be fetched (status ${response.status}).`);
+          setStatus('error');
+          return;
+        }
+
+        const plaintext = await decryptWithDataKey(await response.arrayBuffer(), params.iv, params.dataKey);
+        // The type comes from the link, so anything that could run script is only offered as a download
+        objectUrl = URL.createObjectURL(new Blob([plaintext], { type: getSafeBlobType(params.contentType) }));
+        setFile({ url: objectUrl, name: params.fileName, contentType: params.contentType });
+        setStatus('ready');
+      } catch {
+        setError('The file could not be decrypted. The link may be corrupted.');
+        setStatus('error');
+      }
+    };
+
+    decrypt();
+
+    return () => {
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, []);
+
+  const isViewable = file && isInlineViewable(file.contentType);
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <SEO
+        title="Encrypted File"
+        description="Decrypt and open a file shared from ThirdStorage."
+        keywords="encrypted file, decrypt, decentralized storage"
+        noindex={true}
+      />
+      {/* Header */}
+      <header className="border-b border-zinc-800">
+        <div className="flex items-center justify-between h-16 px-4 sm:px-6">
+          <div className="flex items-center space-x-4">
+            <Link href="/">
+              <div className="w-8 h-8 flex items-center justify-center">
+                <Image src="/white.svg" alt="ThirdStorage" width={20} height={20} className="filter invert" />
+              </div>
+            </Link>
+            <div className="flex items-center space-x-2">
+              <span className="text-zinc-400">/</span>
+              <span className="text-zinc-400">gateway</span>
+              <span className="px-2 py-1 text-xs bg-green-500/10 text-green-400 border border-green-500/30 rounded-md font-medium">
+                Encrypted
+              </span>
+            </div>
+          </div>
+          <div className="flex items-center space-x-4">
+            <Link
+              href="/dashboard"
+              className="px-3 py-2 text-sm bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-md transition-colors"
+            >
+              Dashboard
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex items-center justify-center min-h-[calc(100vh-4rem)] px-4">
+        <div className="max-w-md w-full text-center">
+          {status === 'decrypting' && (
+            <>
+              <Image src="/black.svg" alt="Loading" width={48} height={48} className="animate-pulse mx-auto mb-4" />
+              <p className="text-zinc-400">Decrypting in your browser...</p>
+            </>
+          )}
+
+          {status === 'error' && (
+            <>
+              <div className="w-20 h-20 bg-red-500/10 rounded-full flex items-center justify-center mx-auto mb-6">
+                <svg className="w-10 h-10 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+                </svg>
+              </div>
+              <h1 className="text-2xl font-bold text-white mb-3">Unable to Open File</h1>
+              <p className="text-zinc-400 mb-6">{error}</p>
+              <Link
+                href="/"
+                className="block w-full px-4 py-3 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-white rounded-md transition-colors font-medium"
+              >
+                Back to Home
+              </Link>
+            </>
+          )}
+
+          {status === 'ready' && file && (
+            <>
+              <h1 className="text-2xl font-bold text-white mb-3 break-all">{file.name}</h1>
+              <p className="text-zinc-400 mb-6">Decrypted in your browser. The key in this link was never sent to the server.</p>
+              <div className="space-y-3">
+                {isViewable && (
+                  <a
+                    href={file.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block w-full px-4 py-3 bg-white text-black rounded-md hover:bg-zinc-100 transition-colors font-medium"
+                  >
+                    Open
+                  </a>
+                )}
+                <a
+                  href={file.url}
+                  download={file.name}
+                  className="block w-full px-4 py-3 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-white rounded-md transition-colors font-medium"
+                >
+                  Download
+                </a>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
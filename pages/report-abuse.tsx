@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import Image from 'next/image';
+import Link from 'next/link';
+import SEO from '../components/SEO';
+import type { DenylistReason } from '../lib/denylistService';
+
+const REASON_LABELS: Record<DenylistReason, string> = {
+  copyright: 'Copyright infringement',
+  malware: 'Malware',
+  phishing: 'Phishing',
+  csam: 'Child sexual abuse material',
+  illegal: 'Other illegal content',
+  spam: 'Spam',
+  other: 'Other'
+};
+
+export default function ReportAbusePage() {
+  const router = useRouter();
+  const [form, setForm] = useState<{ cid: string; reason: DenylistReason; description: string; email: string }>({
+    cid: '',
+    reason: 'copyright',
+    description: '',
+    email: ''
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  // Links from the gateway can prefill the CID
+  useEffect(() => {
+    if (typeof router.query.cid === 'string') {
+      setForm(prev => ({ ...prev, cid: router.query.cid as string }));
+    }
+  }, [router.query.cid]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/abuse/report', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          cid: form.cid.trim(),
+          reason: form.reason,
+          description: form.description.trim() || null,
+          email: form.email.trim() || null
+        })
+      });
+
+      if (response.ok) {
+        setSubmitted(true);
+      } else {
+        const data = await response.json().catch(() => null);
+        setError(data?.message || data?.error || 'Failed to submit report');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <SEO
+        title="Report Abuse"
+        description="Report content served through the ThirdStorage gateway that is illegal or abusive."
+        keywords="report abuse, takedown request, content report"
+        noindex={true}
+      />
+      {/* Header */}
+      <header className="border-b border-zinc-800">
+        <div className="flex items-center justify-between h-16 px-4 sm:px-6">
+          <div className="flex items-center space-x-4">
+            <Link href="/">
+              <div className="w-8 h-8 flex items-center justify-center">
+                <Image src="/white.svg" alt="ThirdStorage" width={20} height={20} className="filter invert" />
+              </div>
+            </Link>
+            <div className="flex items-center space-x-2">
+              <span className="text-zinc-400">/</span>
+              <span className="text-zinc-400">report abuse</span>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex items-center justify-center min-h-[calc(100vh-4rem)] px-4 py-8">
+        <div className="max-w-lg w-full">
+          {submitted ? (
+            <div className="text-center">
+              <h1 className="text-2xl font-bold text-white mb-3">Report Received</h1>
+              <p className="text-zinc-400 mb-6">
+                Thank you. Our team reviews every report and blocks content that breaks the law or our terms.
+              </p>
+              <Link
+                href="/"
+                className="block w-full px-4 py-3 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-white rounded-md transition-colors font-medium"
+              >
+                Back to Home
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <h1 className="text-2xl font-bold text-white mb-2">Report Abuse</h1>
+                <p className="text-zinc-400">
+                  Tell us about content served through our gateway that is illegal or abusive.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">CID</label>
+                <input
+                  type="text"
+                  required
+                  value={form.cid}
+                  onChange={(e) => setForm(prev => ({ ...prev, cid: e.target.value }))}
+                  placeholder="zDv..."
+                  className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white font-mono text-sm placeholder-zinc-500 focus:outline-none focus:border-zinc-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Reason</label>
+                <select
+                  value={form.reason}
+                  onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value as DenylistReason }))}
+                  className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white text-sm focus:outline-none focus:border-zinc-500"
+                >
+                  {(Object.keys(REASON_LABELS) as DenylistReason[]).map(reason => (
+                    <option key={reason} value={reason}>{REASON_LABELS[reason]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Details</label>
+                <textarea
+                  rows={5}
+                  maxLength={2000}
+                  value={form.description}
+                  onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="What is wrong with this content? For copyright claims, identify the work and your right to act for its owner."
+                  className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white text-sm placeholder-zinc-500 focus:outline-none focus:border-zinc-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Your email (optional)</label>
+                <input
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+                  placeholder="So we can follow up"
+                  className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-white text-sm placeholder-zinc-500 focus:outline-none focus:border-zinc-500"
+                />
+              </div>
+
+              {error && <p className="text-sm text-red-400">{error}</p>}
+
+              <button
+                type="submit"
+                disabled={isSubmitting || !form.cid.trim()}
+                className="w-full px-4 py-3 bg-white text-black rounded-md hover:bg-zinc-100 transition-colors font-medium disabled:opacity-50"
+              >
+                {isSubmitting ? 'Submitting...' : 'Submit Report'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -1,233 +1,112 @@
 import { useState, useEffect, useCallback } from 'react';
 import Image from 'next/image';
-import { supabase } from '../lib/supabase';
 import Link from 'next/link';
 import SEO from '../components/SEO';
 
+type CheckStatus = 'healthy' | 'degraded' | 'down' | 'checking';
+
 interface SystemCheck {
   name: string;
-  status: 'healthy' | 'unhealthy' | 'checking';
+  status: CheckStatus;
   responseTime: number | null;
   lastChecked: Date | null;
   error?: string;
 }
 
 interface SystemStatus {
-  supabase: SystemCheck;
-  codex: SystemCheck;
   gateway: SystemCheck;
-  api: SystemCheck;
+  database: SystemCheck;
+  storage: SystemCheck;
+  payments: SystemCheck;
+  disk: SystemCheck;
+}
+
+// Shape of a component in the /api/gateway/health report
+interface ComponentHealth {
+  name: string;
+  status: 'healthy' | 'degraded' | 'down';
+  latencyMs: number | null;
+  message?: string;
 }
 
+const INITIAL_STATUS: SystemStatus = {
+  gateway: { name: 'Gateway API', status: 'checking', responseTime: null, lastChecked: null },
+  database: { name: 'Indexing', status: 'checking', responseTime: null, lastChecked: null },
+  storage: { name: 'Storage Network (Codex)', status: 'checking', responseTime: null, lastChecked: null },
+  payments: { name: 'Payments', status: 'checking', responseTime: null, lastChecked: null },
+  disk: { name: 'Upload Capacity', status: 'checking', responseTime: null, lastChecked: null }
+};
+
 export default function StatusPage() {
-  const [systemStatus, setSystemStatus] = useState<SystemStatus>({
-    supabase: {
-      name: 'Indexing',
-      status: 'checking',
-      responseTime: null,
-      lastChecked: null
-    },
-    codex: {
-      name: 'Storage Network (Codex)',
-      status: 'checking',
-      responseTime: null,
-      lastChecked: null
-    },
-    gateway: {
-      name: 'Gateway API',
-      status: 'checking',
-      responseTime: null,
-      lastChecked: null
-    },
-    api: {
-      name: 'Core API',
-      status: 'checking',
-      responseTime: null,
-      lastChecked: null
-    }
-  });
+  const [systemStatus, setSystemStatus] = useState<SystemStatus>(INITIAL_STATUS);
 
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isClient, setIsClient] = useState(false);
 
-  // Health check functions
-  const checkSupabaseHealth = useCallback(async (): Promise<{ status: 'healthy' | 'unhealthy', responseTime: number, error?: string }> => {
+  // Component probes run server-side; the page only renders the health report
+  const runAllHealthChecks = useCallback(async () => {
+    setIsRefreshing(true);
+    const now = new Date();
     const startTime = Date.now();
-    try {
-      const { error } = await supabase
-        .from('users')
-        .select('id')
-        .limit(1);
-      
-      const responseTime = Date.now() - startTime;
-      
-      if (error) {
-        return { 
-          status: 'unhealthy', 
-          responseTime, 
-          error: `Database query failed: ${error.message}` 
-        };
-      }
-      
-      return { status: 'healthy', responseTime };
-    } catch (error) {
-      const responseTime = Date.now() - startTime;
-      return { 
-        status: 'unhealthy', 
-        responseTime, 
-        error: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}` 
-      };
-    }
-  }, []);
 
-  const checkCodexHealth = useCallback(async (): Promise<{ status: 'healthy' | 'unhealthy', responseTime: number, error?: string }> => {
-    const startTime = Date.now();
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000);
-      
-      // In production, this would check actual Codex node
-      // For now, we'll simulate a Codex network check
-      const response = await fetch('/api/hello', {
-        method: 'HEAD',
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-      const responseTime = Date.now() - startTime;
-      
-      if (response.ok) {
-        return { status: 'healthy', responseTime };
-      } else {
-        return { 
-          status: 'unhealthy', 
-          responseTime, 
-          error: `HTTP ${response.status}: ${response.statusText}` 
-        };
-      }
-    } catch (error) {
-      const responseTime = Date.now() - startTime;
-      return { 
-        status: 'unhealthy', 
-        responseTime, 
-        error: error instanceof Error ? error.message : 'Network timeout' 
-      };
-    }
-  }, []);
+    const toCheck = (key: Exclude<keyof SystemStatus, 'gateway'>, component?: ComponentHealth): SystemCheck => ({
+      name: INITIAL_STATUS[key].name,
+      status: component?.status || 'down',
+      responseTime: component?.latencyMs ?? null,
+      lastChecked: now,
+      error: component ? component.message : 'No health data available'
+    });
 
-  const checkGatewayHealth = useCallback(async (): Promise<{ status: 'healthy' | 'unhealthy', responseTime: number, error?: string }> => {
-    const startTime = Date.now();
     try {
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
-      
+      const timeoutId = setTimeout(() => controller.abort(), 15000);
+
+      // The health endpoint answers 503 with a full report when a critical component is down
       const response = await fetch('/api/gateway/health', {
         method: 'GET',
         signal: controller.signal
       });
-      
+
       clearTimeout(timeoutId);
       const responseTime = Date.now() - startTime;
-      
-      if (response.ok) {
-        return { status: 'healthy', responseTime };
-      } else {
-        return { 
-          status: 'unhealthy', 
-          responseTime, 
-          error: `Gateway responded with ${response.status}` 
-        };
-      }
-    } catch (error) {
-      const responseTime = Date.now() - startTime;
-      return { 
-        status: 'unhealthy', 
-        responseTime, 
-        error: error instanceof Error ? error.message : 'Gateway unreachable' 
-      };
-    }
-  }, []);
+      const report = await response.json();
+      const components = report.components || {};
 
-  const checkAPIHealth = useCallback(async (): Promise<{ status: 'healthy' | 'unhealthy', responseTime: number, error?: string }> => {
-    const startTime = Date.now();
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
-      
-      const response = await fetch('/api/hello', {
-        method: 'GET',
-        signal: controller.signal
+      setSystemStatus({
+        gateway: {
+          name: INITIAL_STATUS.gateway.name,
+          status: 'healthy',
+          responseTime,
+          lastChecked: now
+        },
+        database: toCheck('database', components.database),
+        storage: toCheck('storage', components.storage),
+        payments: toCheck('payments', components.payments),
+        disk: toCheck('disk', components.disk)
       });
-      
-      clearTimeout(timeoutId);
-      const responseTime = Date.now() - startTime;
-      
-      if (response.ok) {
-        return { status: 'healthy', responseTime };
-      } else {
-        return { 
-          status: 'unhealthy', 
-          responseTime, 
-          error: `API responded with ${response.status}` 
-        };
-      }
     } catch (error) {
       const responseTime = Date.now() - startTime;
-      return { 
-        status: 'unhealthy', 
-        responseTime, 
-        error: error instanceof Error ? error.message : 'API unreachable' 
-      };
-    }
-  }, []);
+      const message = error instanceof Error ? error.message : 'Gateway unreachable';
 
-  const runAllHealthChecks = useCallback(async () => {
-    setIsRefreshing(true);
-    const now = new Date();
-
-    // Run all checks in parallel
-    const [supabaseResult, codexResult, gatewayResult, apiResult] = await Promise.all([
-      checkSupabaseHealth(),
-      checkCodexHealth(),
-      checkGatewayHealth(),
-      checkAPIHealth()
-    ]);
-
-    setSystemStatus({
-      supabase: {
-        name: 'Indexing',
-        status: supabaseResult.status,
-        responseTime: supabaseResult.responseTime,
-        lastChecked: now,
-        error: supabaseResult.error
-      },
-      codex: {
-        name: 'Storage Network (Codex)',
-        status: codexResult.status,
-        responseTime: codexResult.responseTime,
-        lastChecked: now,
-        error: codexResult.error
-      },
-      gateway: {
-        name: 'Gateway API',
-        status: gatewayResult.status,
-        responseTime: gatewayResult.responseTime,
-        lastChecked: now,
-        error: gatewayResult.error
-      },
-      api: {
-        name: 'Core API',
-        status: apiResult.status,
-        responseTime: apiResult.responseTime,
-        lastChecked: now,
-        error: apiResult.error
-      }
-    });
+      setSystemStatus({
+        gateway: {
+          name: INITIAL_STATUS.gateway.name,
+          status: 'down',
+          responseTime,
+          lastChecked: now,
+          error: message
+        },
+        database: toCheck('database'),
+        storage: toCheck('storage'),
+        payments: toCheck('payments'),
+        disk: toCheck('disk')
+      });
+    }
 
     setLastRefresh(now);
     setIsRefreshing(false);
-  }, [checkSupabaseHealth, checkCodexHealth, checkGatewayHealth, checkAPIHealth]);
+  }, []);
 
   useEffect(() => {
     setIsClient(true);
@@ -245,32 +124,36 @@ export default function StatusPage() {
     });
   };
 
-  const getStatusColor = (status: 'healthy' | 'unhealthy' | 'checking') => {
+  const getStatusColor = (status: CheckStatus) => {
     switch (status) {
       case 'healthy': return 'text-green-400';
-      case 'unhealthy': return 'text-red-400';
-      case 'checking': return 'text-yellow-400';
+      case 'degraded': return 'text-yellow-400';
+      case 'down': return 'text-red-400';
+      case 'checking': return 'text-zinc-400';
     }
   };
 
-  const getStatusDot = (status: 'healthy' | 'unhealthy' | 'checking') => {
+  const getStatusDot = (status: CheckStatus) => {
     switch (status) {
       case 'healthy': return 'bg-green-400';
-      case 'unhealthy': return 'bg-red-400';
-      case 'checking': return 'bg-yellow-400';
+      case 'degraded': return 'bg-yellow-400';
+      case 'down': return 'bg-red-400';
+      case 'checking': return 'bg-zinc-400';
     }
   };
 
-  const getStatusText = (status: 'healthy' | 'unhealthy' | 'checking') => {
+  const getStatusText = (status: CheckStatus) => {
     switch (status) {
       case 'healthy': return 'Operational';
-      case 'unhealthy': return 'Issues Detected';
+      case 'degraded': return 'Degraded Performance';
+      case 'down': return 'Outage';
       case 'checking': return 'Checking...';
     }
   };
 
   const allSystemsHealthy = Object.values(systemStatus).every(system => system.status === 'healthy');
-  const anySystemsDown = Object.values(systemStatus).some(system => system.status === 'unhealthy');
+  const anySystemsDown = Object.values(systemStatus).some(system => system.status === 'down');
+  const anySystemsDegraded = Object.values(systemStatus).some(system => system.status === 'degraded');
 
   return (
     <div className="min-h-screen bg-black text-white">
@@ -310,11 +193,12 @@ export default function StatusPage() {
         <div className="text-center mb-8 sm:mb-12">
           <div className="flex items-center justify-center space-x-2 sm:space-x-3 mb-3 sm:mb-4">
             <div className={`w-3 h-3 sm:w-4 sm:h-4 rounded-full animate-pulse ${
-              allSystemsHealthy ? 'bg-green-400' : anySystemsDown ? 'bg-red-400' : 'bg-yellow-400'
+              allSystemsHealthy ? 'bg-green-400' : anySystemsDown ? 'bg-red-400' : anySystemsDegraded ? 'bg-yellow-400' : 'bg-zinc-400'
             }`}></div>
             <h1 className="text-xl sm:text-3xl font-bold text-white">
               {allSystemsHealthy ? 'All Systems Operational' : 
                anySystemsDown ? 'Some Systems Experiencing Issues' : 
+               anySystemsDegraded ? 'Some Systems Degraded' :
                'Checking System Status'}
             </h1>
           </div>
@@ -356,8 +240,11 @@ export default function StatusPage() {
               </div>
 
               {system.error && (
-                <div className="bg-red-900/20 border border-red-800/50 rounded-md p-3 mb-4">
-                  <p className="text-red-300 text-sm">{system.error}</p>
+                <div className={`rounded-md p-3 mb-4 border ${system.status === 'degraded'
+                    ? 'bg-yellow-900/20 border-yellow-800/50'
+                    : 'bg-red-900/20 border-red-800/50'
+                  }`}>
+                  <p className={`text-sm ${system.status === 'degraded' ? 'text-yellow-300' : 'text-red-300'}`}>{system.error}</p>
                 </div>
               )}
 
@@ -0,0 +1,66 @@
+require('dotenv').config({ path: '.env' });
+
+// Checks that range requests count against a share link's download cap.
+// Needs a running server, a pinning secret with files:read and files:write,
+// and the ID of one of its account's private files (at least 2 bytes).
+const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
+const PINNING_SECRET = process.env.PINNING_SECRET;
+const FILE_ID = process.env.FILE_ID;
+
+async function testShareLinkRanges() {
+  console.log('🧪 Testing share link download cap with range requests...\n');
+
+  if (!PINNING_SECRET || !FILE_ID) {
+    throw new Error('Set PINNING_SECRET and FILE_ID (a private file) to run this test');
+  }
+
+  console.log('📋 1. Creating a share link with max_downloads: 1...');
+  const createResponse = await fetch(`${API_BASE_URL}/api/files/${FILE_ID}/share`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${PINNING_SECRET}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ maxDownloads: 1 }),
+  });
+
+  if (createResponse.status !== 201) {
+    throw new Error(`Creating the link returned ${createResponse.status}: ${await createResponse.text()}`);
+  }
+  const { link } = await createResponse.json();
+  console.log(`   ✅ Created link ${link.id}`);
+
+  const fetchRange = async (range) => {
+    const response = await fetch(`${API_BASE_URL}${link.path}`, { headers: { 'Range': range } });
+    await response.arrayBuffer();
+    return response.status;
+  };
+
+  console.log('\n📋 2. Requesting bytes=1- (everything but the first byte)...');
+  const firstStatus = await fetchRange('bytes=1-');
+  if (firstStatus !== 206) {
+    throw new Error(`Expected 206 for the first request, got ${firstStatus}`);
+  }
+  console.log('   ✅ Served (206) and counted as the one allowed download');
+
+  console.log('\n📋 3. Requesting bytes=1- again...');
+  const secondStatus = await fetchRange('bytes=1-');
+  if (secondStatus !== 403) {
+    throw new Error(`Expected 403 once the link is used up, got ${secondStatus}`);
+  }
+  console.log('   ✅ Refused (403)');
+
+  console.log('\n📋 4. Requesting bytes=0-0 (the first byte)...');
+  const thirdStatus = await fetchRange('bytes=0-0');
+  if (thirdStatus !== 403) {
+    throw new Error(`Expected 403 once the link is used up, got ${thirdStatus}`);
+  }
+  console.log('   ✅ Refused (403)');
+
+  console.log('\n✅ Range requests are charged against the share link');
+}
+
+testShareLinkRanges().catch(error => {
+  console.error('❌ Share link range test failed:', error.message);
+  process.exit(1);
+});
\ No newline at end of file